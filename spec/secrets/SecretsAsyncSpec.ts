@@ -0,0 +1,138 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError } from "../../src/errors";
+import type { AsyncProgress } from "../../src/types";
+
+// A hex secret of the given number of bytes with a repeating pattern
+function pattern(length: number): string {
+  let hex = "";
+
+  for (let i = 0; i < length; i++) {
+    hex += ("0" + ((i * 37) % 256).toString(16)).slice(-2);
+  }
+
+  return hex;
+}
+
+describe("Secrets async", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareAsync() and combineAsync()", function (): void {
+    it("should return the shares of share() in a worker", function (): Promise<void> {
+      const secret = pattern(5000);
+      const expected = secrets.createSecrets({ rng: "testRandom" }).share(secret, 5, 3);
+
+      return secrets
+        .shareAsync(secret, 5, 3)
+        .then(function (shares: string[]): Promise<string> {
+          expect(shares).toEqual(expected);
+
+          return secrets.combineAsync([shares[4], shares[0], shares[2]]);
+        })
+        .then(function (combined: string): void {
+          expect(combined).toEqual(secret);
+        });
+    });
+
+    it("should return the shares of share() without a worker", function (): Promise<void> {
+      const secret = pattern(7000);
+      const options = { bits: 12, version: 1 as const, rng: "testRandom" as const };
+      const expected = secrets.createSecrets(options).share(secret, 4, 2, 256);
+      const ctx = secrets.createSecrets(options);
+      const progress: AsyncProgress[] = [];
+
+      return ctx
+        .shareAsync(secret, 4, 2, {
+          padLength: 256,
+          worker: false,
+          onProgress: function (p: AsyncProgress): void {
+            progress.push(p);
+          },
+        })
+        .then(function (shares: string[]): Promise<string> {
+          expect(shares).toEqual(expected);
+          expect(progress.length).toEqual(2);
+          expect(progress[1]).toEqual({ processedChunks: 2, totalChunks: 2, progress: 1 });
+
+          return ctx.combineAsync(shares.slice(2), { worker: false });
+        })
+        .then(function (combined: string): void {
+          expect(combined).toEqual(secret);
+        });
+    });
+
+    it("should stop when the signal aborts", function (): Promise<void> {
+      const controller = new AbortController();
+      const reason = new Error("Stopped.");
+
+      return secrets
+        .shareAsync(pattern(10000), 3, 2, {
+          signal: controller.signal,
+          onProgress: function (p: AsyncProgress): void {
+            expect(p.processedChunks).toEqual(1);
+            controller.abort(reason);
+          },
+        })
+        .then(
+          function (): void {
+            fail("An aborted split should reject.");
+          },
+          function (error: Error): void {
+            expect(error).toBe(reason);
+          }
+        );
+    });
+
+    it("should reject with an error thrown by the progress callback", function (): Promise<void> {
+      const error = new Error("Progress failed.");
+      let calls = 0;
+
+      return secrets
+        .combineAsync(secrets.share(pattern(10000), 3, 2).slice(1), {
+          onProgress: function (): void {
+            calls++;
+            throw error;
+          },
+        })
+        .then(
+          function (): void {
+            fail("A combine whose callback throws should reject.");
+          },
+          function (rejection: Error): void {
+            expect(rejection).toBe(error);
+            expect(calls).toEqual(1);
+          }
+        );
+    });
+
+    it("should reject invalid arguments", function (): Promise<void> {
+      const shares = secrets.createSecrets({ version: 1 }).share("abcd", 3, 3);
+
+      return secrets
+        .shareAsync(1234 as unknown as string, 3, 2)
+        .then(
+          function (): void {
+            fail("A number should not split.");
+          },
+          function (error: Error): Promise<string> {
+            expect(error.message).toEqual("Secret must be a string.");
+
+            return secrets.combineAsync(shares.slice(1));
+          }
+        )
+        .then(
+          function (): void {
+            fail("Two of three shares should not combine.");
+          },
+          function (error: Error): void {
+            expect(error).toEqual(jasmine.any(InsufficientSharesError));
+            expect(error.message).toEqual("Insufficient shares: 3 required, 2 available");
+          }
+        );
+    });
+  });
+});
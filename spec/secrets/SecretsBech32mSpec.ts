@@ -0,0 +1,132 @@
+import secrets from "../../src/secrets";
+import { InvalidShareError } from "../../src/errors";
+import { BECH32M_CHARSET, decodeBech32m, encodeBech32m } from "../../src/bech32m";
+
+// Replace the character at a 1-based position with another one from the charset
+function typo(str: string, position: number): string {
+  const value = BECH32M_CHARSET.indexOf(str.charAt(position - 1));
+  return (
+    str.slice(0, position - 1) + BECH32M_CHARSET.charAt((value + 7) % 32) + str.slice(position)
+  );
+}
+
+describe("Secrets bech32m shares", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("bech32m", function (): void {
+    it("should accept the BIP-350 valid test vectors", function (): void {
+      [
+        "A1LQFN3A",
+        "a1lqfn3a",
+        "an83characterlonghumanreadablepartthatcontainsthetheexcludedcharactersbioandnumber11sg7hg6",
+        "abcdef1l7aum6echk45nj3s0wdvt2fg8x9yrzpqzd3ryx",
+        "split1checkupstagehandshakeupstreamerranterredcaperredlc445v",
+        "?1v759aa",
+      ].forEach(function (str: string): void {
+        const decoded = decodeBech32m(str);
+        expect(encodeBech32m(decoded.hrp, decoded.values)).toEqual(str.toLowerCase());
+      });
+    });
+
+    it("should reject the BIP-350 invalid test vectors", function (): void {
+      [
+        "qyrz8wqd2c9m",
+        "1qyrz8wqd2c9m",
+        "y1b0jsk6g",
+        "lt1igcx5c0",
+        "in1muywd",
+        "mm1crxm3i",
+        "au1s5cgom",
+        "M1VUXWEZ",
+        "16plkw9",
+        "1p2gdwpf",
+      ].forEach(function (str: string): void {
+        expect(function (): void {
+          decodeBech32m(str);
+        }).toThrow();
+      });
+      expect(function (): void {
+        decodeBech32m("a1lqfn3A");
+      }).toThrowError("A bech32m string must not mix upper and lower case.");
+    });
+  });
+
+  describe("shareToBech32m() and bech32mToShare()", function (): void {
+    it("should round trip shares into combine()", function (): void {
+      const shares = secrets.share("deadbeef", 3, 2);
+      const encoded = shares.map(function (share: string): string {
+        return secrets.shareToBech32m(share);
+      });
+
+      expect(encoded[0]).toMatch(/^shamir1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/);
+      expect(secrets.bech32mToShare(encoded[1])).toEqual(shares[1]);
+      expect(secrets.bech32mToShare(encoded[2].toUpperCase())).toEqual(shares[2]);
+      expect(secrets.combine([encoded[0], shares[2]])).toEqual("deadbeef");
+      expect(secrets.extractShareComponents(encoded[0]).encoding).toEqual("bech32m");
+    });
+
+    it("should keep headers and checksums", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1, checksum: true });
+      const share = ctx.share("c0ffee", 4, 3)[3];
+
+      expect(ctx.bech32mToShare(ctx.shareToBech32m(share))).toEqual(share);
+      expect(ctx.extractShareComponents(ctx.shareToBech32m(share)).threshold).toEqual(3);
+    });
+
+    it("should be available as a context encoding", function (): void {
+      const ctx = secrets.createSecrets({ bits: 12, rng: "testRandom", encoding: "bech32m" });
+      const shares = ctx.share("0123456789abcdef", 5, 3);
+
+      expect(shares[4].slice(0, 7)).toEqual("shamir1");
+      expect(ctx.combine(shares.slice(2))).toEqual("0123456789abcdef");
+      expect(secrets.newShare(5, shares.slice(0, 3))).toEqual(shares[4]);
+    });
+  });
+
+  describe("typos", function (): void {
+    it("should point at a mistyped character", function (): void {
+      const encoded = secrets.shareToBech32m(secrets.share("deadbeef", 3, 2)[0]);
+
+      [8, 20, encoded.length].forEach(function (position: number): void {
+        expect(function (): void {
+          secrets.combine([typo(encoded, position), secrets.share("deadbeef", 3, 2)[1]]);
+        }).toThrowError(
+          InvalidShareError,
+          "Invalid share data: Invalid bech32m checksum, check the character at position " +
+            position +
+            "."
+        );
+      });
+    });
+
+    it("should point at two mistyped characters", function (): void {
+      const encoded = secrets.shareToBech32m(secrets.share("deadbeef", 3, 2)[0]);
+
+      expect(function (): void {
+        secrets.bech32mToShare(typo(typo(encoded, 30), 11));
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: Invalid bech32m checksum, check the characters at positions 11 and 30."
+      );
+    });
+
+    it("should reject characters outside the charset and other prefixes", function (): void {
+      const encoded = secrets.shareToBech32m(secrets.share("deadbeef", 3, 2)[0]);
+
+      expect(function (): void {
+        secrets.bech32mToShare(encoded.slice(0, 9) + "b" + encoded.slice(10));
+      }).toThrowError(
+        InvalidShareError,
+        'Invalid share data: Invalid bech32m character "b" at position 10.'
+      );
+      expect(function (): void {
+        secrets.bech32mToShare(secrets.share("deadbeef", 3, 2)[0]);
+      }).toThrowError('A bech32m share must start with "shamir1".');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import secrets from "../../src/secrets";
+import type { ByteShare } from "../../src/types";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.prototype.map
+    .call(bytes, function (b: number): string {
+      return (b < 16 ? "0" : "") + b.toString(16);
+    })
+    .join("");
+}
+
+describe("Secrets byte API", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareBytes() and combineBytes()", function (): void {
+    it("should round trip a byte array secret", function (): void {
+      const secret = new Uint8Array([0xde, 0xad, 0xbe, 0xef]);
+      const shares: ByteShare[] = secrets.shareBytes(secret, 5, 3);
+
+      expect(shares.length).toEqual(5);
+      expect(shares[0].bits).toEqual(8);
+      expect(shares[4].id).toEqual(5);
+      expect(shares[0].data instanceof Uint8Array).toEqual(true);
+      expect(secrets.combineBytes([shares[0], shares[2], shares[4]])).toEqual(secret);
+    });
+
+    it("should accept Node.js Buffers", function (): void {
+      const secret = Buffer.from("00ff00ff00", "hex");
+      const shares = secrets.shareBytes(secret, 3, 2);
+
+      expect(toHex(secrets.combineBytes(shares.slice(1)))).toEqual("00ff00ff00");
+    });
+
+    it("should preserve leading zero bytes and empty secrets", function (): void {
+      const zeros = new Uint8Array([0, 0, 0, 1]);
+
+      expect(secrets.combineBytes(secrets.shareBytes(zeros, 3, 2))).toEqual(zeros);
+      expect(secrets.combineBytes(secrets.shareBytes(new Uint8Array(0), 3, 2)).length).toEqual(0);
+    });
+
+    it("should produce the same payloads as share() given the same RNG", function (): void {
+      for (let bits = 3; bits <= 20; bits++) {
+        const ctx = secrets.createSecrets({ bits, rng: "testRandom" });
+        const secret = new Uint8Array([1, 2, 3, 4, 5, 250, 251, 252, 253, 254, 255]);
+        const byteShares = ctx.shareBytes(secret, 6, 4, 32);
+        const stringShares = ctx.share(toHex(secret), 6, 4, 32);
+
+        for (let i = 0; i < 6; i++) {
+          const data = ctx.extractShareComponents(stringShares[i]).data;
+          expect(toHex(byteShares[i].data)).toEqual(data.length % 2 ? "0" + data : data);
+        }
+        expect(ctx.combineBytes(byteShares.slice(2))).toEqual(secret);
+      }
+    });
+
+    it("should combine shares from a different field size without re-initializing", function (): void {
+      const ctx = secrets.createSecrets({ bits: 10, rng: "testRandom" });
+      const secret = new Uint8Array([9, 8, 7]);
+      const shares = ctx.shareBytes(secret, 600, 2);
+
+      expect(secrets.combineBytes([shares[598], shares[599]])).toEqual(secret);
+      expect(secrets.getConfig().bits).toEqual(8);
+    });
+
+    it("should zero-pad the share payloads to the pad length", function (): void {
+      const secret = new Uint8Array([1]);
+
+      expect(secrets.shareBytes(secret, 3, 2)[0].data.length).toEqual(16);
+      expect(secrets.shareBytes(secret, 3, 2, 512)[0].data.length).toEqual(64);
+    });
+
+    it("should ignore duplicate shares", function (): void {
+      const secret = new Uint8Array([42, 43]);
+      const shares = secrets.shareBytes(secret, 4, 3);
+
+      expect(secrets.combineBytes([shares[0], shares[0], shares[1], shares[3]])).toEqual(secret);
+    });
+  });
+
+  describe("validation", function (): void {
+    it("should reject secrets that are not byte arrays", function (): void {
+      expect(function (): void {
+        secrets.shareBytes("deadbeef" as unknown as Uint8Array, 3, 2);
+      }).toThrowError("Secret must be a Uint8Array.");
+    });
+
+    it("should reject invalid share counts and pad lengths", function (): void {
+      const secret = new Uint8Array([1]);
+
+      expect(function (): void {
+        secrets.shareBytes(secret, 1, 2);
+      }).toThrowError(/Number of shares must be an integer between 2 and 2\^bits-1/);
+      expect(function (): void {
+        secrets.shareBytes(secret, 3, 4);
+      }).toThrowError(/Threshold number of shares was 4/);
+      expect(function (): void {
+        secrets.shareBytes(secret, 3, 2, 1025);
+      }).toThrowError("Zero-pad length must be an integer between 0 and 1024 inclusive.");
+    });
+
+    it("should reject mismatched or malformed shares", function (): void {
+      const shares = secrets.shareBytes(new Uint8Array([1, 2]), 3, 2);
+      const other = secrets.createSecrets({ bits: 9, rng: "testRandom" });
+      const foreign = other.shareBytes(new Uint8Array([1, 2]), 3, 2);
+
+      expect(function (): void {
+        secrets.combineBytes([shares[0], foreign[1]]);
+      }).toThrowError("Mismatched shares: Different bit settings.");
+      expect(function (): void {
+        secrets.combineBytes([{ bits: 8, id: 256, data: shares[0].data }]);
+      }).toThrowError("Invalid share : Share id must be an integer between 1 and 255, inclusive.");
+      expect(function (): void {
+        secrets.combineBytes([{ bits: 8, id: 1, data: new Uint8Array(0) }]);
+      }).toThrowError("Invalid share : Share data must be a non-empty Uint8Array.");
+      expect(function (): void {
+        secrets.combineBytes([{ bits: 21, id: 1, data: shares[0].data }]);
+      }).toThrowError("Number of bits must be an integer between 3 and 20, inclusive.");
+    });
+  });
+});
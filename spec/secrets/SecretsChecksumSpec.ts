@@ -0,0 +1,138 @@
+import secrets from "../../src/secrets";
+import { crc32 } from "../../src/checksum";
+import { InvalidShareError, SecretsError } from "../../src/errors";
+
+function corrupt(share: string, index: number): string {
+  const c = share.charAt(index);
+  return share.slice(0, index) + (c === "0" ? "1" : "0") + share.slice(index + 1);
+}
+
+describe("Secrets share checksums", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("crc32()", function (): void {
+    it("should match the standard check value", function (): void {
+      expect(crc32("123456789")).toEqual(0xcbf43926);
+      expect(crc32("")).toEqual(0);
+    });
+  });
+
+  describe("checksummed shares", function (): void {
+    it("should append a checksum when the context enables it", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const shares = ctx.share("deadbeef", 5, 3);
+      const components = ctx.extractShareComponents(shares[0]);
+
+      expect(shares[0]).toMatch(/^801[0-9a-f]+-[0-9a-f]{8}$/);
+      expect(components.data.length).toEqual(32);
+      expect(components.checksum).toEqual(shares[0].slice(-8));
+      expect(ctx.combine(shares.slice(2))).toEqual("deadbeef");
+      expect(secrets.combine(shares.slice(0, 3))).toEqual("deadbeef");
+    });
+
+    it("should accept checksummed shares in either case", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const shares = ctx.share("cafe", 3, 2).map(function (share: string): string {
+        return share.toUpperCase();
+      });
+
+      expect(ctx.combine(shares.slice(1))).toEqual("cafe");
+    });
+
+    it("should keep checksums on shares created by newShare()", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const shares = ctx.share("cafe", 3, 2);
+      const fromContext = ctx.newShare(9, shares.slice(0, 2));
+      const fromDefault = secrets.newShare(9, shares.slice(0, 2));
+
+      expect(fromContext).toEqual(fromDefault);
+      expect(secrets.extractShareComponents(fromDefault).checksum).toBeDefined();
+      expect(secrets.combine([fromDefault, shares[2]])).toEqual("cafe");
+    });
+
+    it("should protect verifiable shares as well", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const dealt = ctx.shareVerifiable("abc", 3, 2);
+
+      expect(ctx.verifyShare(dealt.shares[1], dealt.commitments)).toEqual(true);
+      expect(function (): void {
+        ctx.verifyShare(corrupt(dealt.shares[1], 10), dealt.commitments);
+      }).toThrowError(InvalidShareError);
+    });
+  });
+
+  describe("corruption detection", function (): void {
+    it("should throw an InvalidShareError pointing at a corrupted share", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const shares = ctx.share("deadbeef", 5, 3);
+      const bad = corrupt(shares[3], 10);
+      let error: unknown;
+
+      try {
+        ctx.combine([shares[0], bad, shares[4]]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error instanceof InvalidShareError).toEqual(true);
+      expect(error instanceof SecretsError).toEqual(true);
+      expect((error as InvalidShareError).code).toEqual("INVALID_SHARE");
+      expect((error as InvalidShareError).context).toEqual(
+        jasmine.objectContaining({ share: bad })
+      );
+      expect((error as Error).message).toEqual(
+        "Invalid share data: Checksum mismatch, share with id 4 is corrupted."
+      );
+    });
+
+    it("should detect corruption in the id, data and checksum", function (): void {
+      const share = secrets
+        .createSecrets({ rng: "testRandom", checksum: true })
+        .share("ab", 3, 2)[1];
+
+      [1, 3, share.length - 12, share.length - 1].forEach(function (index: number): void {
+        expect(function (): void {
+          secrets.extractShareComponents(corrupt(share, index));
+        }).toThrowError(InvalidShareError, /Checksum mismatch/);
+      });
+    });
+
+    it("should expose the error classes on the default export", function (): void {
+      expect(secrets.InvalidShareError).toBe(InvalidShareError);
+      expect(secrets.SecretsError).toBe(SecretsError);
+    });
+  });
+
+  describe("legacy shares", function (): void {
+    it("should not add checksums by default", function (): void {
+      const shares = secrets.share("deadbeef", 3, 2);
+
+      expect(shares[0]).toMatch(/^801[0-9a-f]+$/);
+      expect(secrets.extractShareComponents(shares[0])).toEqual({
+        bits: 8,
+        id: 1,
+        data: shares[0].slice(3),
+      });
+    });
+
+    it("should still parse and combine shares without a checksum", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", checksum: true });
+      const legacy = secrets.share("deadbeef", 3, 2);
+
+      expect(ctx.combine(legacy.slice(1))).toEqual("deadbeef");
+    });
+
+    it("should reject malformed checksum suffixes", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+
+      expect(function (): void {
+        secrets.extractShareComponents(share + "-1234");
+      }).toThrowError(/Invalid share/);
+    });
+  });
+});
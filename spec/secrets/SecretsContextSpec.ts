@@ -0,0 +1,117 @@
+import secrets from "../../src/secrets";
+import type { SecretsContext } from "../../src/types";
+
+describe("Secrets contexts", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("createSecrets()", function (): void {
+    it("should default to 8 bits and a padLength of 128", function (): void {
+      const ctx: SecretsContext = secrets.createSecrets({ rng: "testRandom" });
+      const shares = ctx.share("abc", 3, 2);
+
+      expect(ctx.getConfig()).toEqual({
+        radix: 16,
+        bits: 8,
+        maxShares: 255,
+        hasCSPRNG: true,
+        typeCSPRNG: "testRandom",
+      });
+      expect(ctx.extractShareComponents(shares[0]).data.length).toEqual(32);
+      expect(ctx.combine(shares)).toEqual("abc");
+    });
+
+    it("should produce the same shares as the legacy API for the same settings", function (): void {
+      const ctx = secrets.createSecrets({ bits: 8, rng: "testRandom" });
+
+      expect(ctx.share("deadbeef", 5, 3)).toEqual(secrets.share("deadbeef", 5, 3));
+    });
+
+    it("should use its own padLength as the default for share()", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", padLength: 256 });
+      const share = ctx.share("abc", 3, 2)[0];
+
+      expect(ctx.extractShareComponents(share).data.length).toEqual(64);
+      expect(ctx.extractShareComponents(ctx.share("abc", 3, 2, 512)[0]).data.length).toEqual(128);
+    });
+
+    it("should accept a custom RNG function", function (): void {
+      const rng = (bits: number): string => new Array(bits + 1).join("1");
+      const ctx = secrets.createSecrets({ bits: 4, rng });
+
+      expect(ctx.getConfig().bits).toEqual(4);
+      expect(ctx.getConfig().hasCSPRNG).toEqual(true);
+      expect(ctx.getConfig().typeCSPRNG).toBeUndefined();
+      expect(ctx.random(8)).toEqual("ff");
+    });
+
+    it("should return a frozen object whose methods can be destructured", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom" });
+      const { share, combine } = ctx;
+
+      expect(Object.isFrozen(ctx)).toEqual(true);
+      expect(combine(share("cafe", 4, 2).slice(1, 3))).toEqual("cafe");
+    });
+
+    it("should reject invalid options", function (): void {
+      expect(function (): void {
+        secrets.createSecrets({ bits: 2 });
+      }).toThrowError("Number of bits must be an integer between 3 and 20, inclusive.");
+      expect(function (): void {
+        secrets.createSecrets({ bits: 8.5 });
+      }).toThrowError("Number of bits must be an integer between 3 and 20, inclusive.");
+      expect(function (): void {
+        secrets.createSecrets({ padLength: 2048 });
+      }).toThrowError("Zero-pad length must be an integer between 0 and 1024 inclusive.");
+      expect(function (): void {
+        secrets.createSecrets({ rng: "bogus" as "testRandom" });
+      }).toThrowError("Invalid RNG type argument : 'bogus'");
+      expect(function (): void {
+        secrets.createSecrets({ rng: (): string => "0000" });
+      }).toThrowError(/Binary string output not parseable to an Integer/);
+    });
+  });
+
+  describe("isolation", function (): void {
+    it("should not change the default context when combining shares of another field size", function (): void {
+      const wide = secrets.createSecrets({ bits: 12, rng: "testRandom" });
+      const narrow = secrets.createSecrets({ bits: 3, rng: "testRandom" });
+      const shares = wide.share("deadbeef", 1000, 3);
+
+      expect(narrow.combine([shares[10], shares[500], shares[999]])).toEqual("deadbeef");
+      expect(narrow.getConfig().bits).toEqual(3);
+      expect(secrets.getConfig().bits).toEqual(8);
+      expect(secrets.getConfig().typeCSPRNG).toEqual("testRandom");
+    });
+
+    it("should not be affected by re-initializing the default export", function (): void {
+      const ctx = secrets.createSecrets({ bits: 10, rng: "testRandom" });
+
+      secrets.init(16, "nodeCryptoRandomBytes");
+
+      expect(ctx.getConfig().bits).toEqual(10);
+      expect(ctx.getConfig().typeCSPRNG).toEqual("testRandom");
+      expect(ctx.combine(ctx.share("beef", 5, 3).slice(2))).toEqual("beef");
+    });
+
+    it("should keep contexts with different settings independent", function (): void {
+      const contexts: SecretsContext[] = [];
+      for (let bits = 3; bits <= 10; bits++) {
+        contexts.push(secrets.createSecrets({ bits, rng: "testRandom" }));
+      }
+
+      contexts.forEach(function (ctx: SecretsContext, i: number): void {
+        const shares = ctx.share("0123456789abcdef", 7, 4);
+        expect(ctx.getConfig().bits).toEqual(i + 3);
+        expect(ctx.combine(shares.slice(3))).toEqual("0123456789abcdef");
+        const recreated = ctx.newShare(7, shares.slice(0, 4));
+        expect(ctx.extractShareComponents(recreated).id).toEqual(7);
+        expect(ctx.combine([recreated].concat(shares.slice(0, 3)))).toEqual("0123456789abcdef");
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import secrets from "../../src/secrets";
+import { CryptoError, InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { DispersedFragment } from "../../src/types";
+
+// Data of the given length with a repeating pattern
+function pattern(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+
+  for (let i = 0; i < length; i++) {
+    data[i] = (i * 7) % 256;
+  }
+
+  return data;
+}
+
+// Expect a promise to reject with an error of the given type and message
+function expectRejection(
+  promise: Promise<unknown>,
+  type: new (...args: never[]) => Error,
+  message?: string
+): Promise<void> {
+  return promise.then(
+    function (): void {
+      fail("Expected a rejection.");
+    },
+    function (error: Error): void {
+      expect(error).toEqual(jasmine.any(type));
+      if (message !== undefined) {
+        expect(error.message).toEqual(message);
+      }
+    }
+  );
+}
+
+describe("Secrets dispersal", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareDispersed() and combineDispersed()", function (): void {
+    it("should recover the data from any threshold of fragments", function (): Promise<void> {
+      const data = pattern(10000);
+
+      return secrets
+        .shareDispersed(data, 6, 4)
+        .then(function (fragments: DispersedFragment[]): Promise<Uint8Array[]> {
+          expect(fragments.length).toEqual(6);
+          fragments.forEach(function (fragment: DispersedFragment, i: number): void {
+            expect(fragment.id).toEqual(i + 1);
+            expect(fragment.setId).toEqual(fragments[0].setId);
+            expect(fragment.data.length).toEqual(Math.ceil((data.length + 28) / 4));
+            expect(secrets.extractShareComponents(fragment.share).id).toEqual(i + 1);
+          });
+
+          return Promise.all([
+            secrets.combineDispersed(fragments.slice(2)),
+            secrets.combineDispersed([fragments[5], fragments[0], fragments[3], fragments[4]]),
+            secrets.combineDispersed(fragments.concat(fragments)),
+          ]);
+        })
+        .then(function (recovered: Uint8Array[]): void {
+          expect(recovered).toEqual([data, data, data]);
+        });
+    });
+
+    it("should disperse data of any length", function (): Promise<void> {
+      return Promise.all(
+        [0, 1, 27, 29, 1000].map(function (length: number): Promise<void> {
+          const ctx = secrets.createSecrets({ bits: 12, version: 1 });
+
+          return ctx
+            .shareDispersed(pattern(length), 40, 30)
+            .then(function (fragments: DispersedFragment[]): Promise<Uint8Array> {
+              return ctx.combineDispersed(fragments.slice(10));
+            })
+            .then(function (recovered: Uint8Array): void {
+              expect(recovered).toEqual(pattern(length));
+            });
+        })
+      ).then(function (): void {});
+    });
+
+    it("should need a threshold of fragments from one split", function (): Promise<void> {
+      const ctx = secrets.createSecrets({ rng: "nodeCryptoRandomBytes" });
+
+      return Promise.all([
+        ctx.shareDispersed(pattern(100), 4, 3),
+        ctx.shareDispersed(pattern(200), 4, 3),
+        ctx.shareDispersed(pattern(100), 4, 3),
+      ])
+        .then(function (splits: DispersedFragment[][]): Promise<void[]> {
+          const first = splits[0];
+          const altered = new Uint8Array(first[3].data);
+
+          altered[5] ^= 1;
+
+          return Promise.all([
+            expectRejection(
+              ctx.combineDispersed([first[0], first[2], first[0]]),
+              InsufficientSharesError,
+              "Insufficient shares: 3 required, 2 available"
+            ),
+            expectRejection(
+              ctx.combineDispersed([first[0], first[1], splits[1][2]]),
+              MismatchedSharesError,
+              "Mismatched shares: The fragments are from different splits."
+            ),
+            // Fragments of data of the same length differ only in their set id
+            expectRejection(
+              ctx.combineDispersed([first[0], splits[2][1], first[2]]),
+              MismatchedSharesError,
+              "Mismatched shares: The fragments are from different splits."
+            ),
+            expectRejection(
+              ctx.combineDispersed([
+                first[0],
+                first[1],
+                Object.assign({}, first[3], { data: altered }),
+              ]),
+              CryptoError
+            ),
+          ]);
+        })
+        .then(function (): void {});
+    });
+
+    it("should reject invalid arguments", function (): Promise<void> {
+      return Promise.all([
+        expectRejection(
+          secrets.shareDispersed([1, 2, 3] as unknown as Uint8Array, 3, 2),
+          Error,
+          "Data must be a Uint8Array."
+        ),
+        expectRejection(
+          secrets.createSecrets({ bits: 10 }).shareDispersed(pattern(10), 256, 2),
+          Error,
+          "Data can be dispersed into at most 255 fragments."
+        ),
+        expectRejection(
+          secrets.combineDispersed([]),
+          Error,
+          "Fragments must be a non-empty Array of the fragments from shareDispersed()."
+        ),
+      ]).then(function (): void {});
+    });
+  });
+});
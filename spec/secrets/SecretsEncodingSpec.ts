@@ -0,0 +1,211 @@
+import secrets from "../../src/secrets";
+import { InvalidShareError } from "../../src/errors";
+import {
+  decodeBase32,
+  decodeBase58,
+  decodeBase64url,
+  encodeBase32,
+  encodeBase58,
+  encodeBase64url,
+} from "../../src/encodings";
+import type { ShareEncoding } from "../../src/types";
+
+function bytes(str: string): Uint8Array {
+  const result = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) {
+    result[i] = str.charCodeAt(i);
+  }
+  return result;
+}
+
+function hex(str: string): Uint8Array {
+  const result = new Uint8Array(str.length / 2);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = parseInt(str.substr(i * 2, 2), 16);
+  }
+  return result;
+}
+
+const encodings: ShareEncoding[] = ["hex", "base64url", "base58", "base32"];
+
+describe("Secrets share encodings", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("byte encodings", function (): void {
+    it("should match the RFC 4648 test vectors", function (): void {
+      const vectors: [string, string, string][] = [
+        ["", "", ""],
+        ["f", "Zg", "MY"],
+        ["fo", "Zm8", "MZXQ"],
+        ["foo", "Zm9v", "MZXW6"],
+        ["foob", "Zm9vYg", "MZXW6YQ"],
+        ["fooba", "Zm9vYmE", "MZXW6YTB"],
+        ["foobar", "Zm9vYmFy", "MZXW6YTBOI"],
+      ];
+
+      vectors.forEach(function (vector: [string, string, string]): void {
+        expect(encodeBase64url(bytes(vector[0]))).toEqual(vector[1]);
+        expect(encodeBase32(bytes(vector[0]))).toEqual(vector[2]);
+        expect(decodeBase64url(vector[1])).toEqual(bytes(vector[0]));
+        expect(decodeBase32(vector[2].toLowerCase())).toEqual(bytes(vector[0]));
+      });
+
+      expect(encodeBase64url(hex("fbff"))).toEqual("-_8");
+      expect(decodeBase32("MZXW6YQ=")).toEqual(bytes("foob"));
+    });
+
+    it("should match the Bitcoin base58 test vectors", function (): void {
+      const vectors: [string, string][] = [
+        ["", ""],
+        ["61", "2g"],
+        ["626262", "a3gV"],
+        ["516b6fcd0f", "ABnLTmg"],
+        [
+          "00eb15231dfceb60925886b67d065299925915aeb172c06647",
+          "1NS17iag9jJgTHD1VXjvLCEnZuQ3rJDE9L",
+        ],
+        ["000000287fb4cd", "111233QC4"],
+      ];
+
+      vectors.forEach(function (vector: [string, string]): void {
+        expect(encodeBase58(hex(vector[0]))).toEqual(vector[1]);
+        expect(decodeBase58(vector[1])).toEqual(hex(vector[0]));
+      });
+    });
+
+    it("should reject malformed input", function (): void {
+      expect(function (): void {
+        decodeBase58("0OIl");
+      }).toThrowError('Invalid base58 character "0".');
+      expect(function (): void {
+        decodeBase64url("Zm9v+");
+      }).toThrowError('Invalid base64url character "+".');
+      expect(function (): void {
+        decodeBase64url("Zm9vY");
+      }).toThrowError("Invalid base64url length or padding.");
+      expect(function (): void {
+        decodeBase32("MZXW6YR");
+      }).toThrowError("Invalid base32 length or padding.");
+    });
+  });
+
+  describe("encoded shares", function (): void {
+    it("should create shorter shares with the encoding's prefix", function (): void {
+      const hexShare = secrets.share("deadbeef", 3, 2)[0];
+      const prefixes = ["8", "u", "z", "R"];
+
+      encodings.forEach(function (encoding: ShareEncoding, i: number): void {
+        const ctx = secrets.createSecrets({ rng: "testRandom", encoding: encoding });
+        const shares = ctx.share("deadbeef", 3, 2);
+
+        expect(shares[0].charAt(0)).toEqual(prefixes[i]);
+        expect(ctx.combine(shares.slice(1))).toEqual("deadbeef");
+        expect(secrets.combine([shares[2], shares[0]])).toEqual("deadbeef");
+        if (encoding !== "hex") {
+          expect(shares[0].length).toBeLessThan(hexShare.length);
+          expect(ctx.extractShareComponents(shares[0])).toEqual({
+            bits: 8,
+            id: 1,
+            data: hexShare.slice(3),
+            encoding: encoding,
+          });
+        }
+      });
+
+      expect(
+        secrets.createSecrets({ rng: "testRandom", encoding: "base32" }).share("ab", 3, 2)[0]
+      ).toMatch(/^R[A-Z2-7]+$/);
+    });
+
+    it("should take the encoding as an argument of share()", function (): void {
+      const hexShares = secrets.share("deadbeef", 3, 2);
+      const shares = secrets.share("deadbeef", 3, 2, 0, "base58");
+
+      expect(shares[0].charAt(0)).toEqual("z");
+      expect(secrets.extractShareComponents(shares[1]).data).toEqual(hexShares[1].slice(3));
+      expect(secrets.combine([hexShares[0], shares[2]])).toEqual("deadbeef");
+      expect(
+        secrets.createSecrets({ encoding: "base32" }).share("deadbeef", 3, 2, 0, "hex")[0]
+      ).toMatch(/^8[0-9a-f]+$/);
+      expect(function (): void {
+        secrets.share("deadbeef", 3, 2, 0, "base10" as ShareEncoding);
+      }).toThrowError("Share encoding must be one of hex, base64url, base58, base32, bech32m.");
+    });
+
+    it("should combine mixed-encoding share sets", function (): void {
+      const ctx = secrets.createSecrets({ bits: 12, rng: "testRandom" });
+      const shares = ctx.share("0123456789abcdef", 5, 5);
+      const mixed = shares.map(function (share: string, i: number): string {
+        return secrets
+          .createSecrets({ bits: 12, rng: "testRandom", encoding: encodings[i % 4] })
+          .newShare(i + 1, shares);
+      });
+
+      expect(mixed[0]).toEqual(shares[0]);
+      expect(mixed[1].charAt(0)).toEqual("u");
+      expect(mixed[2].charAt(0)).toEqual("z");
+      expect(mixed[3].charAt(0)).toEqual("R");
+      expect(ctx.combine(mixed)).toEqual("0123456789abcdef");
+      expect(ctx.combineRobust(mixed, 5).badIds).toEqual([]);
+    });
+
+    it("should keep headers and checksums and detect corruption", function (): void {
+      const ctx = secrets.createSecrets({
+        rng: "testRandom",
+        version: 1,
+        checksum: true,
+        encoding: "base64url",
+      });
+      const shares = ctx.share("c0ffee", 4, 3);
+      const components = secrets.extractShareComponents(shares[3]);
+      const flipped =
+        shares[1].slice(0, 6) + (shares[1].charAt(6) === "A" ? "B" : "A") + shares[1].slice(7);
+
+      expect(components.threshold).toEqual(3);
+      expect(components.checksum).toBeDefined();
+      expect(components.encoding).toEqual("base64url");
+      expect(secrets.combine(shares.slice(1))).toEqual("c0ffee");
+      expect(function (): void {
+        ctx.combine([shares[0], flipped, shares[2]]);
+      }).toThrowError(InvalidShareError);
+    });
+
+    it("should keep the encoding of the source shares in newShare()", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", encoding: "base58" });
+      const shares = ctx.share("cafe", 3, 2);
+
+      expect(secrets.newShare(3, shares.slice(0, 2))).toEqual(shares[2]);
+      expect(ctx.newShare(3, secrets.share("cafe", 3, 2)).charAt(0)).toEqual("z");
+    });
+
+    it("should encode verifiable shares and words", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", encoding: "base32" });
+      const dealt = ctx.shareVerifiable("abc", 3, 2);
+      const share = ctx.share("abc", 3, 2)[0];
+
+      expect(dealt.shares[0].charAt(0)).toEqual("R");
+      expect(ctx.verifyShare(dealt.shares[1], dealt.commitments)).toEqual(true);
+      expect(ctx.combineVerifiable(dealt.shares.slice(1))).toEqual("abc");
+      expect(secrets.wordsToShare(secrets.shareToWords(share))).toEqual(
+        secrets.share("abc", 3, 2)[0]
+      );
+    });
+
+    it("should reject invalid encodings and undecodable shares", function (): void {
+      expect(function (): void {
+        secrets.createSecrets({ encoding: "base16" as ShareEncoding });
+      }).toThrowError("Share encoding must be one of hex, base64url, base58, base32, bech32m.");
+      expect(function (): void {
+        secrets.extractShareComponents("z0OIl");
+      }).toThrowError(InvalidShareError, 'Invalid share data: Invalid base58 character "0".');
+      expect(function (): void {
+        secrets.extractShareComponents("uAA");
+      }).toThrowError(InvalidShareError, /Too short, or an invalid number of bits/);
+    });
+  });
+});
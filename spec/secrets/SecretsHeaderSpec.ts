@@ -0,0 +1,187 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError, SecretsError } from "../../src/errors";
+
+// An RNG that never repeats, so that every split gets its own share-set id
+let counter = 0;
+function countingRNG(bits: number): string {
+  let str = "";
+  while (str.length < bits) {
+    str += (++counter).toString(2);
+  }
+  return str.slice(-bits);
+}
+
+describe("Secrets versioned share header", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("versioned shares", function (): void {
+    it("should carry the version, threshold and share-set id", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const shares = ctx.share("deadbeef", 5, 3);
+      const components = ctx.extractShareComponents(shares[1]);
+
+      expect(shares[1]).toMatch(/^v1803[0-9a-f]{8}02[0-9a-f]+$/);
+      expect(components.version).toEqual(1);
+      expect(components.threshold).toEqual(3);
+      expect(components.setId).toEqual(shares[1].slice(5, 13));
+      expect(components.id).toEqual(2);
+      expect(components.data).toEqual(secrets.share("deadbeef", 5, 3)[1].slice(3));
+    });
+
+    it("should combine with any context and the default export", function (): void {
+      const ctx = secrets.createSecrets({ bits: 10, rng: "testRandom", version: 1 });
+      const shares = ctx.share("0123456789abcdef", 600, 4);
+
+      expect(ctx.combine(shares.slice(596))).toEqual("0123456789abcdef");
+      expect(secrets.combine(shares.slice(0, 4))).toEqual("0123456789abcdef");
+      expect(secrets.extractShareComponents(shares[599].toUpperCase()).id).toEqual(600);
+    });
+
+    it("should keep the header on shares created by newShare()", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const shares = ctx.share("cafe", 3, 2);
+      const created = secrets.newShare(9, shares.slice(0, 2));
+      const components = secrets.extractShareComponents(created);
+
+      expect(ctx.newShare(9, shares.slice(1))).toEqual(created);
+      expect(components.setId).toEqual(ctx.extractShareComponents(shares[0]).setId);
+      expect(components.threshold).toEqual(2);
+      expect(ctx.combine([created, shares[2]])).toEqual("cafe");
+    });
+
+    it("should work together with checksums", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1, checksum: true });
+      const shares = ctx.share("cafe", 3, 2);
+
+      expect(shares[0]).toMatch(/^v1802[0-9a-f]{8}01[0-9a-f]+-[0-9a-f]{8}$/);
+      expect(ctx.extractShareComponents(shares[0]).threshold).toEqual(2);
+      expect(ctx.combine(shares.slice(1))).toEqual("cafe");
+    });
+
+    it("should let combineRobust() take the threshold from the header", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const shares = ctx.share("deadbeef", 5, 3);
+
+      expect(ctx.combineRobust(shares).secret).toEqual("deadbeef");
+      expect(function (): void {
+        ctx.combineRobust(shares, 2);
+      }).toThrowError(MismatchedSharesError);
+    });
+
+    it("should add the header to verifiable shares", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const dealt = ctx.shareVerifiable("abc", 3, 2);
+
+      expect(ctx.extractShareComponents(dealt.shares[0]).threshold).toEqual(2);
+      expect(ctx.verifyShare(dealt.shares[2], dealt.commitments)).toEqual(true);
+      expect(ctx.combineVerifiable(dealt.shares.slice(1))).toEqual("abc");
+      expect(function (): void {
+        ctx.combineVerifiable([dealt.shares[0]]);
+      }).toThrowError(InsufficientSharesError);
+    });
+  });
+
+  describe("combine() safeguards", function (): void {
+    it("should refuse fewer shares than the threshold", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const shares = ctx.share("deadbeef", 5, 3);
+      let error: unknown;
+
+      try {
+        ctx.combine([shares[0], shares[4], shares[0]]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error instanceof InsufficientSharesError).toEqual(true);
+      expect((error as InsufficientSharesError).message).toEqual(
+        "Insufficient shares: 3 required, 2 available"
+      );
+    });
+
+    it("should refuse shares from different splits", function (): void {
+      const ctx = secrets.createSecrets({ rng: countingRNG, version: 1 });
+      const first = ctx.share("deadbeef", 3, 2);
+      const second = ctx.share("deadbeef", 3, 2);
+      const firstId = ctx.extractShareComponents(first[0]).setId;
+      const secondId = ctx.extractShareComponents(second[0]).setId;
+      let error: unknown;
+
+      try {
+        ctx.combine([first[0], second[1]]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(firstId).not.toEqual(secondId);
+      expect(error instanceof MismatchedSharesError).toEqual(true);
+      expect(error instanceof SecretsError).toEqual(true);
+      expect((error as MismatchedSharesError).code).toEqual("MISMATCHED_SHARES");
+      expect((error as Error).message).toEqual(
+        "Mismatched shares: Different share sets " + firstId + " and " + secondId + "."
+      );
+    });
+
+    it("should refuse to mix shares with and without a header", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const versioned = ctx.share("deadbeef", 3, 2);
+      const legacy = secrets.share("deadbeef", 3, 2);
+
+      expect(function (): void {
+        secrets.combine([legacy[0], versioned[1]]);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: Shares with and without a header cannot be combined."
+      );
+    });
+
+    it("should refuse shares whose thresholds differ", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const shares = ctx.share("deadbeef", 3, 2);
+      const altered = shares[1].slice(0, 3) + "03" + shares[1].slice(5);
+
+      expect(function (): void {
+        ctx.combine([shares[0], altered, shares[2]]);
+      }).toThrowError(MismatchedSharesError, "Mismatched shares: Different thresholds.");
+    });
+  });
+
+  describe("parsing", function (): void {
+    it("should still parse unversioned shares without header fields", function (): void {
+      const ctx = secrets.createSecrets({ rng: "testRandom", version: 1 });
+      const share = secrets.share("deadbeef", 3, 2)[0];
+
+      expect(ctx.extractShareComponents(share)).toEqual({
+        bits: 8,
+        id: 1,
+        data: share.slice(3),
+      });
+      expect(ctx.combine(secrets.share("deadbeef", 3, 2).slice(1))).toEqual("deadbeef");
+    });
+
+    it("should reject unsupported versions and malformed headers", function (): void {
+      const share = secrets.createSecrets({ rng: "testRandom", version: 1 }).share("ab", 3, 2)[0];
+
+      expect(function (): void {
+        secrets.extractShareComponents("v2" + share.slice(2));
+      }).toThrowError("Invalid share data: Unsupported share format version 2.");
+      expect(function (): void {
+        secrets.extractShareComponents(share.slice(0, 3) + "01" + share.slice(5));
+      }).toThrowError(/Threshold must be an integer between 2 and 255/);
+      expect(function (): void {
+        secrets.extractShareComponents(share.slice(0, 10));
+      }).toThrowError(/Invalid share/);
+    });
+
+    it("should reject unsupported versions when creating a context", function (): void {
+      expect(function (): void {
+        secrets.createSecrets({ version: 2 });
+      }).toThrowError("Share format version must be an integer between 0 and 1 inclusive.");
+    });
+  });
+});
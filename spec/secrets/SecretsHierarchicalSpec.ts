@@ -0,0 +1,130 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { HierarchyLevel } from "../../src/types";
+
+// 3 shares, at least 1 of them from the executive level
+const LEVELS: HierarchyLevel[] = [
+  { name: "executive", shares: 2, threshold: 1 },
+  { name: "staff", shares: 5, threshold: 3 },
+];
+
+describe("Secrets hierarchical sharing", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareHierarchical() and combineHierarchical()", function (): void {
+    it("should need a share from the executive level", function (): void {
+      const [executives, staff] = secrets.shareHierarchical("deadbeef", LEVELS);
+
+      expect(executives.length).toEqual(2);
+      expect(staff.length).toEqual(5);
+      expect(secrets.extractShareComponents(staff[0]).id).toEqual(3);
+      expect(secrets.combineHierarchical([executives[1], staff[0], staff[3]], LEVELS)).toEqual(
+        "deadbeef"
+      );
+      expect(secrets.combineHierarchical([staff[4], executives[0], executives[1]], LEVELS)).toEqual(
+        "deadbeef"
+      );
+      expect(secrets.combineHierarchical(executives.concat(staff), LEVELS)).toEqual("deadbeef");
+      expect(function (): void {
+        secrets.combineHierarchical(staff, LEVELS);
+      }).toThrowError(
+        InsufficientSharesError,
+        'Insufficient shares: 1 required, 0 available. At least 1 share must come from the "executive" level.'
+      );
+      expect(function (): void {
+        secrets.combineHierarchical([executives[0], staff[2]], LEVELS);
+      }).toThrowError(
+        InsufficientSharesError,
+        'Insufficient shares: 3 required, 2 available. At least 3 shares must come from the "executive" to "staff" levels.'
+      );
+    });
+
+    it("should check every level of a deeper hierarchy", function (): void {
+      const levels: HierarchyLevel[] = [
+        { name: "board", shares: 2, threshold: 1 },
+        { name: "officers", shares: 3, threshold: 3 },
+        { name: "staff", shares: 4, threshold: 4 },
+      ];
+      const shares = ([] as string[]).concat(...secrets.shareHierarchical("00c0ffee", levels));
+
+      expect(
+        secrets.combineHierarchical([shares[1], shares[2], shares[4], shares[8]], levels)
+      ).toEqual("00c0ffee");
+      expect(
+        secrets.combineHierarchical([shares[0], shares[1], shares[3], shares[5]], levels)
+      ).toEqual("00c0ffee");
+      expect(function (): void {
+        secrets.combineHierarchical([shares[0], shares[5], shares[6], shares[7]], levels);
+      }).toThrowError(
+        InsufficientSharesError,
+        'Insufficient shares: 3 required, 1 available. At least 3 shares must come from the "board" to "officers" levels.'
+      );
+    });
+
+    it("should reject invalid levels", function (): void {
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", []);
+      }).toThrowError("Levels must be a non-empty Array of { name, shares, threshold } Objects.");
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", [LEVELS[0], LEVELS[0]]);
+      }).toThrowError("Level names must be distinct, non-empty strings.");
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", [{ name: "staff", shares: 0, threshold: 1 }]);
+      }).toThrowError('The number of shares of level "staff" must be a positive integer.');
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", [
+          { name: "executive", shares: 2, threshold: 2 },
+          { name: "staff", shares: 5, threshold: 2 },
+        ]);
+      }).toThrowError(
+        'The threshold of level "staff" must be an integer above the threshold of the level before it.'
+      );
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", [{ name: "executive", shares: 2, threshold: 3 }]);
+      }).toThrowError(
+        'The threshold of level "executive" is more than the 2 shares of this level and the levels before it.'
+      );
+      expect(function (): void {
+        secrets.shareHierarchical("deadbeef", [
+          { name: "executive", shares: 5, threshold: 1 },
+          { name: "staff", shares: 250, threshold: 30 },
+        ]);
+      }).toThrowError(
+        "A hierarchy of 255 shares with a threshold of 30 is too large to deal securely."
+      );
+    });
+
+    it("should reject shares of other splits and hierarchies", function (): void {
+      const ctx = secrets.createSecrets({ version: 1, rng: "nodeCryptoRandomBytes" });
+      const first = ctx.shareHierarchical("deadbeef", LEVELS);
+      const second = ctx.shareHierarchical("deadbeef", LEVELS);
+
+      expect(ctx.combineHierarchical([first[0][0], first[1][1], first[1][2]], LEVELS)).toEqual(
+        "deadbeef"
+      );
+      expect(function (): void {
+        ctx.combineHierarchical([first[0][0], first[1][1], second[1][2]], LEVELS);
+      }).toThrowError(MismatchedSharesError);
+      expect(function (): void {
+        ctx.combineHierarchical(first[1], [
+          { name: "executive", shares: 2, threshold: 1 },
+          { name: "staff", shares: 5, threshold: 4 },
+        ]);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: Threshold 4 differs from the shares' threshold 3."
+      );
+      expect(function (): void {
+        ctx.combineHierarchical(first[0].concat(first[1]), [
+          { name: "executive", shares: 2, threshold: 1 },
+          { name: "staff", shares: 4, threshold: 3 },
+        ]);
+      }).toThrowError("Share id 7 is not part of the hierarchy.");
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import secrets from "../../src/secrets";
+import { aesGcmDecrypt, aesGcmEncrypt } from "../../src/cipher";
+import { CryptoError, InsufficientSharesError } from "../../src/errors";
+import type { LargeShares } from "../../src/types";
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+// Expect a promise to reject with an error of the given type and message
+function expectRejection(
+  promise: Promise<unknown>,
+  type: new (...args: never[]) => Error,
+  message: string
+): Promise<void> {
+  return promise.then(
+    function (): void {
+      fail("Expected a rejection with: " + message);
+    },
+    function (error: Error): void {
+      expect(error).toEqual(jasmine.any(type));
+      expect(error.message).toEqual(message);
+    }
+  );
+}
+
+describe("Secrets large secrets", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("aesGcmEncrypt() and aesGcmDecrypt()", function (): void {
+    it("should match the AES-256-GCM test vectors", function (): Promise<void> {
+      const key = new Uint8Array(32);
+      const iv = new Uint8Array(12);
+
+      // Test cases 13 and 14 of the GCM specification
+      return Promise.all([
+        aesGcmEncrypt(key, iv, new Uint8Array(0)),
+        aesGcmEncrypt(key, iv, new Uint8Array(16)),
+        aesGcmEncrypt(key, iv, new Uint8Array([1, 2, 3])),
+      ])
+        .then(function (sealed: Uint8Array[]): Promise<(Uint8Array | null)[]> {
+          expect(toHex(sealed[0])).toEqual("530f8afbc74536b9a963b4f1c4cb738b");
+          expect(toHex(sealed[1])).toEqual(
+            "cea7403d4d606b6e074ec5d3baf39d18d0d1c8a799996bf0265b98b5d48ab919"
+          );
+
+          return Promise.all([
+            aesGcmDecrypt(key, iv, sealed[2]),
+            aesGcmDecrypt(key, iv, sealed[2], new Uint8Array([1])),
+            aesGcmDecrypt(key, iv, sealed[2].subarray(4)),
+          ]);
+        })
+        .then(function (opened: (Uint8Array | null)[]): void {
+          expect(opened[0]).toEqual(new Uint8Array([1, 2, 3]));
+          expect(opened[1]).toBeNull();
+          expect(opened[2]).toBeNull();
+        });
+    });
+  });
+
+  describe("shareLarge() and combineLarge()", function (): void {
+    it("should share only the key of the encrypted data", function (): Promise<void> {
+      const data = new Uint8Array(100000);
+
+      for (let i = 0; i < data.length; i++) {
+        data[i] = i % 251;
+      }
+
+      return secrets
+        .shareLarge(data, 5, 3)
+        .then(function (large: LargeShares): Promise<Uint8Array[]> {
+          expect(large.ciphertext.length).toEqual(12 + data.length + 16);
+          expect(large.shares.length).toEqual(5);
+          expect(large.shares[0].length).toBeLessThan(100);
+
+          return Promise.all([
+            secrets.combineLarge(
+              [large.shares[4], large.shares[0], large.shares[2]],
+              large.ciphertext
+            ),
+            secrets.combineLarge(large.shares, large.ciphertext),
+          ]);
+        })
+        .then(function (recovered: Uint8Array[]): void {
+          expect(recovered[0]).toEqual(data);
+          expect(recovered[1]).toEqual(data);
+        });
+    });
+
+    it("should use the format of the context", function (): Promise<void> {
+      const ctx = secrets.createSecrets({ bits: 12, version: 1, encoding: "base58" });
+
+      return ctx.shareLarge(new Uint8Array([0, 1, 2]), 3, 2).then(function (
+        large: LargeShares
+      ): Promise<void> {
+        const { ciphertext, shares } = large;
+
+        expect(ctx.extractShareComponents(shares[1]).threshold).toEqual(2);
+
+        return Promise.all([
+          ctx.combineLarge(shares.slice(1), ciphertext),
+          secrets.combineLarge(shares.slice(0, 2), ciphertext),
+        ]).then(function (recovered: Uint8Array[]): Promise<void> {
+          expect(recovered[0]).toEqual(new Uint8Array([0, 1, 2]));
+          expect(recovered[1]).toEqual(new Uint8Array([0, 1, 2]));
+
+          return expectRejection(
+            ctx.combineLarge(shares.slice(2), ciphertext),
+            InsufficientSharesError,
+            "Insufficient shares: 2 required, 1 available"
+          );
+        });
+      });
+    });
+
+    it("should fail loudly on tampering", function (): Promise<void> {
+      const message =
+        "Cryptographic operation 'AES-256-GCM decryption' failed: The authentication tag does not match, so the ciphertext or the key shares are wrong.";
+
+      return secrets
+        .shareLarge(new Uint8Array(64), 4, 2)
+        .then(function (large: LargeShares): Promise<void[]> {
+          const { ciphertext, shares } = large;
+          const tampered = [0, 12, 40, ciphertext.length - 1].map(function (
+            index: number
+          ): Uint8Array {
+            const bytes = new Uint8Array(ciphertext);
+
+            bytes[index] ^= 1;
+            return bytes;
+          });
+
+          return Promise.all(
+            tampered
+              .map(function (bytes: Uint8Array): Promise<Uint8Array> {
+                return secrets.combineLarge(shares.slice(0, 2), bytes);
+              })
+              .concat([
+                secrets.combineLarge([shares[0]], ciphertext),
+                secrets.combineLarge(secrets.share("deadbeef", 3, 2), ciphertext),
+              ])
+              .map(function (combined: Promise<Uint8Array>): Promise<void> {
+                return expectRejection(combined, CryptoError, message);
+              })
+          );
+        })
+        .then(function (): void {});
+    });
+
+    it("should reject invalid arguments", function (): Promise<void> {
+      return Promise.all([
+        expectRejection(
+          secrets.shareLarge("data" as unknown as Uint8Array, 3, 2),
+          Error,
+          "Data must be a Uint8Array."
+        ),
+        expectRejection(
+          secrets.shareLarge(new Uint8Array(8), 3, 1),
+          Error,
+          "Threshold number of shares must be an integer between 2 and 2^bits-1 (255), inclusive."
+        ),
+        expectRejection(
+          secrets.combineLarge(secrets.share("deadbeef", 3, 2), new Uint8Array(27)),
+          Error,
+          "Ciphertext must be a Uint8Array from shareLarge()."
+        ),
+      ]).then(function (): void {});
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import secrets from "../../src/secrets";
+import { MismatchedSharesError } from "../../src/errors";
+import type { PolicyBundle, PolicyClause } from "../../src/types";
+
+const GOVERNANCE = "2 of (alice, bob, carol) AND 1 of (legal1, legal2)";
+
+// The bundles of the named principals
+function pick(bundles: PolicyBundle[], names: string[]): PolicyBundle[] {
+  return bundles.filter(function (bundle: PolicyBundle): boolean {
+    return names.indexOf(bundle.name) !== -1;
+  });
+}
+
+describe("Secrets access policies", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("parsePolicy()", function (): void {
+    it("should parse clauses, with AND binding tighter than OR", function (): void {
+      expect(secrets.parsePolicy("(ceo) OR 3 of (alice, bob, carol, dave)")).toEqual({
+        threshold: 1,
+        members: [
+          { name: "ceo" },
+          {
+            threshold: 3,
+            members: [{ name: "alice" }, { name: "bob" }, { name: "carol" }, { name: "dave" }],
+          },
+        ],
+      });
+      expect(secrets.parsePolicy("a or b AND c and d")).toEqual({
+        threshold: 1,
+        members: [
+          { name: "a" },
+          { threshold: 3, members: [{ name: "b" }, { name: "c" }, { name: "d" }] },
+        ],
+      });
+    });
+
+    it("should reject invalid policies", function (): void {
+      expect(function (): void {
+        secrets.parsePolicy("3 of (board)");
+      }).toThrowError('Invalid policy: the threshold of "3 of (board)" must be between 1 and 1.');
+      expect(function (): void {
+        secrets.parsePolicy("alice AND");
+      }).toThrowError("Invalid policy: unexpected end of the policy.");
+      expect(function (): void {
+        secrets.parsePolicy("2 of alice, bob");
+      }).toThrowError('Invalid policy: unexpected "alice" at character 6.');
+      expect(function (): void {
+        secrets.parsePolicy("alice & bob");
+      }).toThrowError('Invalid policy: unexpected "&" at character 7.');
+      expect(function (): void {
+        secrets.parsePolicy("2 of (alice, bob, alice)");
+      }).toThrowError('Invalid policy: principal "alice" appears twice in one clause.');
+    });
+  });
+
+  describe("shareWithPolicy() and combineWithPolicy()", function (): void {
+    it("should recover the secret once the policy is met", function (): void {
+      const bundles = secrets.shareWithPolicy("deadbeef", GOVERNANCE);
+      const result = secrets.combineWithPolicy(pick(bundles, ["carol", "legal2", "alice"]));
+
+      expect(
+        bundles.map(function (bundle: PolicyBundle): string {
+          return bundle.name + ":" + bundle.parts.length;
+        })
+      ).toEqual(["alice:1", "bob:1", "carol:1", "legal1:1", "legal2:1"]);
+      expect(bundles[0].policy).toEqual("2 of (alice, bob, carol) AND (legal1 OR legal2)");
+      expect(result.satisfied).toBe(true);
+      expect(result.secret).toEqual("deadbeef");
+      expect(result.missing).toEqual([]);
+      expect(secrets.combineWithPolicy(bundles).secret).toEqual("deadbeef");
+    });
+
+    it("should report the clauses met and the principals missing", function (): void {
+      const bundles = secrets.shareWithPolicy("deadbeef", GOVERNANCE);
+      const result = secrets.combineWithPolicy(pick(bundles, ["alice", "legal1"]));
+
+      expect(result.satisfied).toBe(false);
+      expect(result.secret).toBeUndefined();
+      expect(result.missing).toEqual(["bob", "carol"]);
+      expect(
+        result.clauses.map(function (clause: PolicyClause): string {
+          return clause.clause + " " + clause.satisfied + " " + clause.missing.join(",");
+        })
+      ).toEqual([
+        "2 of (alice, bob, carol) AND (legal1 OR legal2) false bob,carol",
+        "2 of (alice, bob, carol) false bob,carol",
+        "legal1 OR legal2 true ",
+      ]);
+    });
+
+    it("should split nested clauses and repeated principals", function (): void {
+      [3, 8, 12].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({ bits: bits, version: 1, encoding: "base58" });
+        const secret = "00" + ctx.random(128);
+        const bundles = ctx.shareWithPolicy(
+          secret,
+          "ceo OR (2 of (alice, bob, carol) AND (alice OR 2 of (dave, erin, frank)))"
+        );
+
+        expect(bundles[1].name).toEqual("alice");
+        expect(bundles[1].parts.length).toEqual(2);
+        expect(ctx.combineWithPolicy(pick(bundles, ["ceo"])).secret).toEqual(secret);
+        expect(ctx.combineWithPolicy(pick(bundles, ["alice", "carol"])).secret).toEqual(secret);
+        expect(
+          ctx.combineWithPolicy(pick(bundles, ["bob", "carol", "erin", "dave"])).secret
+        ).toEqual(secret);
+        expect(ctx.combineWithPolicy(pick(bundles, ["bob", "carol", "erin"])).missing).toEqual([
+          "ceo",
+          "alice",
+          "dave",
+          "frank",
+        ]);
+      });
+    });
+
+    it("should reject bundles of different splits", function (): void {
+      const ctx = secrets.createSecrets({ rng: "nodeCryptoRandomBytes" });
+      const first = ctx.shareWithPolicy("deadbeef", GOVERNANCE);
+      const second = ctx.shareWithPolicy("deadbeef", GOVERNANCE);
+
+      expect(function (): void {
+        ctx.combineWithPolicy([first[0], second[1], first[3]]);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: The bundles are from different policy splits."
+      );
+      expect(function (): void {
+        secrets.combineWithPolicy([]);
+      }).toThrowError("Bundles must be a non-empty Array of the bundles from shareWithPolicy().");
+      expect(function (): void {
+        secrets.shareWithPolicy("not hex", GOVERNANCE);
+      }).toThrowError("Invalid hex character.");
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import Module from "module";
+import secrets from "../../src/secrets";
+import { getNodeCrypto } from "../../src/cipher";
+import { CryptoError, InvalidShareError } from "../../src/errors";
+import type { ProtectedShareInfo } from "../../src/types";
+
+// The module loader of Node.js, through which every require() passes
+interface ModuleLoader {
+  _load(request: string, parent: unknown, isMain: boolean): unknown;
+}
+
+// Make the crypto module of Node.js unavailable, as in a browser, until the spec ends
+function stubNodeCrypto(): void {
+  const loader = Module as unknown as ModuleLoader;
+  const load = loader._load;
+
+  spyOn(loader, "_load").and.callFake(function (
+    this: unknown,
+    request: string,
+    parent: unknown,
+    isMain: boolean
+  ): unknown {
+    if (request === "crypto") {
+      throw new Error("Cannot find module 'crypto'");
+    }
+
+    return load.call(this, request, parent, isMain);
+  });
+}
+
+// The protected share with one byte of its envelope flipped
+function alter(protectedShare: string, offset: number): string {
+  const prefix = "secrets-protected:";
+  const bytes = Buffer.from(protectedShare.slice(prefix.length), "base64url");
+
+  bytes[offset] ^= 1;
+  return prefix + bytes.toString("base64url");
+}
+
+// Expect a promise to reject with an error of the given type and message
+function expectRejection(
+  promise: Promise<unknown>,
+  type: new (...args: never[]) => Error,
+  message: string
+): Promise<void> {
+  return promise.then(
+    function (): void {
+      fail("Expected a rejection with: " + message);
+    },
+    function (error: Error): void {
+      expect(error).toEqual(jasmine.any(type));
+      expect(error.message).toEqual(message);
+    }
+  );
+}
+
+describe("Secrets passphrase protection", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("protectShare() and unprotectShare()", function (): void {
+    it("should recover the exact share with scrypt and PBKDF2", function (): Promise<void> {
+      const ctx = secrets.createSecrets({ bits: 12, version: 1, encoding: "base58" });
+      const shares = ctx.share("deadbeef", 3, 2);
+
+      return Promise.all([
+        ctx.protectShare(shares[0], "pässwörd 🔑"),
+        ctx.protectShare(shares[1], "hunter2", { kdf: "pbkdf2" }),
+      ])
+        .then(function (protectedShares: string[]): Promise<string[]> {
+          expect(protectedShares[0].indexOf("secrets-protected:")).toEqual(0);
+          expect(protectedShares[0]).not.toContain(shares[0]);
+
+          return Promise.all([
+            ctx.unprotectShare(protectedShares[0], "pässwörd 🔑"),
+            ctx.unprotectShare(protectedShares[1], "hunter2"),
+          ]);
+        })
+        .then(function (unprotected: string[]): void {
+          expect(unprotected).toEqual(shares.slice(0, 2));
+        });
+    });
+
+    it("should refuse a wrong passphrase or an altered envelope", function (): Promise<void> {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+
+      return secrets
+        .protectShare(share, "hunter2", { kdf: "pbkdf2" })
+        .then(function (protectedShare: string): Promise<void[]> {
+          const message =
+            "Cryptographic operation 'AES-256-GCM decryption' failed: The passphrase is wrong, or the protected share was altered.";
+
+          return Promise.all([
+            expectRejection(
+              secrets.unprotectShare(protectedShare, "hunter3"),
+              CryptoError,
+              message
+            ),
+            // The share id in the clear is authenticated
+            expectRejection(
+              secrets.unprotectShare(alter(protectedShare, 12), "hunter2"),
+              CryptoError,
+              message
+            ),
+            expectRejection(
+              secrets.unprotectShare(alter(protectedShare, 0), "hunter2"),
+              InvalidShareError,
+              "Invalid share data: Unsupported protected share version 0."
+            ),
+            expectRejection(
+              secrets.unprotectShare(alter(protectedShare, 2), "hunter2"),
+              InvalidShareError,
+              "Invalid share data: The protected share has unsupported key derivation parameters."
+            ),
+          ]);
+        })
+        .then(function (): void {});
+    });
+  });
+
+  describe("combine() with a passphrase", function (): void {
+    it("should combine protected and plain shares", function (): Promise<void> {
+      const shares = secrets.share("cafebabe", 5, 3);
+      const passphrases: { [id: number]: string } = { 2: "two", 5: "five" };
+      const resolved: ProtectedShareInfo[] = [];
+
+      return Promise.all([
+        secrets.protectShare(shares[1], "two", { kdf: "pbkdf2" }),
+        secrets.protectShare(shares[4], "five"),
+      ]).then(function (protectedShares: string[]): void {
+        const mixed = [protectedShares[0], shares[2], protectedShares[1]];
+
+        secrets.init(3);
+        expect(
+          secrets.combine(mixed, 0, {
+            passphrase: function (info: ProtectedShareInfo): string {
+              resolved.push(info);
+              return passphrases[info.id];
+            },
+          })
+        ).toEqual("cafebabe");
+        expect(resolved).toEqual([
+          { kdf: "pbkdf2", bits: 8, id: 2 },
+          { kdf: "scrypt", bits: 8, id: 5 },
+        ]);
+        expect(function (): void {
+          secrets.combine(mixed);
+        }).toThrowError(
+          InvalidShareError,
+          "Invalid share data: The share is protected; pass a passphrase to combine() to use it."
+        );
+      });
+    });
+
+    it("should unprotect every share with one passphrase", function (): Promise<void> {
+      const shares = secrets.share("cafebabe", 5, 3);
+
+      return Promise.all([
+        secrets.protectShare(shares[0], "hunter2", { kdf: "pbkdf2" }),
+        secrets.protectShare(shares[3], "hunter2", { kdf: "pbkdf2" }),
+      ]).then(function (protectedShares: string[]): void {
+        const mixed = protectedShares.concat([shares[1]]);
+
+        expect(secrets.combine(mixed, 0, { passphrase: "hunter2" })).toEqual("cafebabe");
+        expect(secrets.combine(mixed, 3, { passphrase: "hunter2" })).toEqual(
+          secrets.combine(shares.slice(0, 3), 3)
+        );
+        expect(function (): void {
+          secrets.combine(mixed, 0, { passphrase: "" });
+        }).toThrowError("Passphrase must be a non-empty string.");
+      });
+    });
+
+    it("should reject invalid arguments", function (): Promise<void> {
+      const share = secrets.share("cafebabe", 3, 2)[0];
+
+      return Promise.all([
+        expectRejection(
+          secrets.protectShare(share, ""),
+          Error,
+          "Passphrase must be a non-empty string."
+        ),
+        expectRejection(
+          secrets.protectShare(share, "hunter2", { kdf: "argon2" as "scrypt" }),
+          Error,
+          'The KDF must be "scrypt" or "pbkdf2".'
+        ),
+        expectRejection(
+          secrets.unprotectShare(share, "hunter2"),
+          InvalidShareError,
+          "Invalid share data: The value is not a protected share."
+        ),
+      ]).then(function (): void {});
+    });
+  });
+
+  describe("combineAsync() with a passphrase", function (): void {
+    it("should combine protected shares with WebCrypto without Node.js crypto", function (): Promise<void> {
+      const shares = secrets.share("cafebabe", 5, 3);
+
+      return Promise.all([
+        secrets.protectShare(shares[0], "hunter2", { kdf: "pbkdf2" }),
+        secrets.protectShare(shares[3], "hunter2", { kdf: "pbkdf2" }),
+        secrets.protectShare(shares[4], "hunter2", { kdf: "scrypt" }),
+      ])
+        .then(function (protectedShares: string[]): Promise<void[]> {
+          const mixed = [protectedShares[0], shares[1], protectedShares[1]];
+
+          stubNodeCrypto();
+          expect(getNodeCrypto()).toBeNull();
+          expect(function (): void {
+            secrets.combine(mixed, 0, { passphrase: "hunter2" });
+          }).toThrowError(
+            CryptoError,
+            "Cryptographic operation 'Protected share decryption' failed: combine() needs the crypto module of Node.js; use combineAsync() instead."
+          );
+
+          return Promise.all([
+            secrets.combineAsync(mixed, { passphrase: "hunter2", worker: false }).then(function (
+              secret: string
+            ): void {
+              expect(secret).toEqual("cafebabe");
+            }),
+            expectRejection(
+              secrets.combineAsync([protectedShares[2], shares[1], shares[2]], {
+                passphrase: "hunter2",
+                worker: false,
+              }),
+              CryptoError,
+              "Cryptographic operation 'scrypt key derivation' failed: The crypto module of Node.js is not available."
+            ),
+          ]);
+        })
+        .then(function (): void {});
+    });
+
+    it("should resolve the passphrase of each protected share in order", function (): Promise<void> {
+      const shares = secrets.share("cafebabe", 5, 3);
+      const resolved: number[] = [];
+
+      return Promise.all([
+        secrets.protectShare(shares[4], "five", { kdf: "pbkdf2" }),
+        secrets.protectShare(shares[1], "two", { kdf: "pbkdf2" }),
+      ])
+        .then(function (protectedShares: string[]): Promise<void[]> {
+          const mixed = [protectedShares[0], shares[2], protectedShares[1]];
+
+          return Promise.all([
+            secrets
+              .combineAsync(mixed, {
+                passphrase: function (info: ProtectedShareInfo): string {
+                  resolved.push(info.id);
+                  return info.id === 5 ? "five" : "two";
+                },
+              })
+              .then(function (secret: string): void {
+                expect(secret).toEqual("cafebabe");
+                expect(resolved).toEqual([5, 2]);
+              }),
+            expectRejection(
+              secrets.combineAsync(mixed),
+              InvalidShareError,
+              "Invalid share data: The share is protected; pass a passphrase to combineAsync() to use it."
+            ),
+            expectRejection(
+              secrets.combineAsync(mixed, { passphrase: "five" }),
+              CryptoError,
+              "Cryptographic operation 'AES-256-GCM decryption' failed: The passphrase is wrong, or the protected share was altered."
+            ),
+          ]);
+        })
+        .then(function (): void {});
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import secrets from "../../src/secrets";
+import { InvalidShareError } from "../../src/errors";
+import { encodeQr, QR_ALPHANUMERIC_CHARSET } from "../../src/qr";
+import type { QrCode, QrErrorCorrection, QrMode, ShareEncoding } from "../../src/types";
+
+// ISO/IEC 18004 format information strings, by error correction level and mask
+const FORMAT_INFO: { [level: string]: string[] } = {
+  L: [
+    "111011111000100",
+    "111001011110011",
+    "111110110101010",
+    "111100010011101",
+    "110011000101111",
+    "110001100011000",
+    "110110001000001",
+    "110100101110110",
+  ],
+  M: [
+    "101010000010010",
+    "101000100100101",
+    "101111001111100",
+    "101101101001011",
+    "100010111111001",
+    "100000011001110",
+    "100111110010111",
+    "100101010100000",
+  ],
+  Q: [
+    "011010101011111",
+    "011000001101000",
+    "011111100110001",
+    "011101000000110",
+    "010010010110100",
+    "010000110000011",
+    "010111011011010",
+    "010101111101101",
+  ],
+  H: [
+    "001011010001001",
+    "001001110111110",
+    "001110011100111",
+    "001100111010000",
+    "000011101100010",
+    "000001001010101",
+    "000110100001100",
+    "000100000111011",
+  ],
+};
+
+// Read the copy of the format information around the top left finder, most significant bit first
+function readFormat(modules: boolean[][]): string {
+  const coords: [number, number][] = [];
+  let bits = "";
+
+  for (let i = 0; i <= 5; i++) {
+    coords.push([8, i]);
+  }
+  coords.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) {
+    coords.push([14 - i, 8]);
+  }
+  coords.forEach(function (coord: [number, number]): void {
+    bits = (modules[coord[1]][coord[0]] ? "1" : "0") + bits;
+  });
+
+  return bits;
+}
+
+function hasFinder(modules: boolean[][], left: number, top: number): boolean {
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 7; x++) {
+      const distance = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+
+      if (modules[top + y][left + x] !== (distance !== 2)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+// ISO/IEC 18004 error correction blocks of versions 1-7: codewords per block, then the number of
+// blocks and their data codewords in each of the two groups
+const BLOCKS: { [level: string]: number[] }[] = [
+  { L: [7, 1, 19, 0, 0], M: [10, 1, 16, 0, 0], Q: [13, 1, 13, 0, 0], H: [17, 1, 9, 0, 0] },
+  { L: [10, 1, 34, 0, 0], M: [16, 1, 28, 0, 0], Q: [22, 1, 22, 0, 0], H: [28, 1, 16, 0, 0] },
+  { L: [15, 1, 55, 0, 0], M: [26, 1, 44, 0, 0], Q: [18, 2, 17, 0, 0], H: [22, 2, 13, 0, 0] },
+  { L: [20, 1, 80, 0, 0], M: [18, 2, 32, 0, 0], Q: [26, 2, 24, 0, 0], H: [16, 4, 9, 0, 0] },
+  { L: [26, 1, 108, 0, 0], M: [24, 2, 43, 0, 0], Q: [18, 2, 15, 2, 16], H: [22, 2, 11, 2, 12] },
+  { L: [18, 2, 68, 0, 0], M: [16, 4, 27, 0, 0], Q: [24, 4, 19, 0, 0], H: [28, 4, 15, 0, 0] },
+  { L: [20, 2, 78, 0, 0], M: [18, 4, 31, 0, 0], Q: [18, 2, 14, 4, 15], H: [26, 4, 13, 1, 14] },
+];
+
+// Centres of the alignment patterns of versions 1-7
+const ALIGNMENT: number[][] = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38]];
+
+// The data masks, by whether they flip the module at a row and column
+const MASKS: ((i: number, j: number) => boolean)[] = [
+  function (i: number, j: number): boolean {
+    return (i + j) % 2 === 0;
+  },
+  function (i: number, _j: number): boolean {
+    return i % 2 === 0;
+  },
+  function (i: number, j: number): boolean {
+    return j % 3 === 0;
+  },
+  function (i: number, j: number): boolean {
+    return (i + j) % 3 === 0;
+  },
+  function (i: number, j: number): boolean {
+    return (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0;
+  },
+  function (i: number, j: number): boolean {
+    return ((i * j) % 2) + ((i * j) % 3) === 0;
+  },
+  function (i: number, j: number): boolean {
+    return (((i * j) % 2) + ((i * j) % 3)) % 2 === 0;
+  },
+  function (i: number, j: number): boolean {
+    return (((i + j) % 2) + ((i * j) % 3)) % 2 === 0;
+  },
+];
+
+// Multiply in GF(256) with the QR code polynomial
+function gfMultiply(a: number, b: number): number {
+  let product = 0;
+
+  for (; b > 0; b >>>= 1) {
+    if (b & 1) {
+      product ^= a;
+    }
+    a = a & 0x80 ? ((a << 1) ^ 0x11d) & 0xff : a << 1;
+  }
+
+  return product;
+}
+
+// Whether a block of data and error correction codewords is a Reed-Solomon codeword, whose
+// polynomial vanishes at the roots 2^0 to 2^(ec-1) of the generator
+function isCodeword(block: number[], ec: number): boolean {
+  for (let k = 0, root = 1; k < ec; k++, root = gfMultiply(root, 2)) {
+    let value = 0;
+
+    for (let i = 0; i < block.length; i++) {
+      value = gfMultiply(value, root) ^ block[i];
+    }
+    if (value !== 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Read the text back from the modules of a version 1-7 symbol, independently of the encoder:
+// unmask the data region with the mask of the format information, read the codewords in their
+// zigzag order, check every block's error correction and parse the segment
+function decodeModules(modules: boolean[][], level: string): string {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const mask = FORMAT_INFO[level].indexOf(readFormat(modules));
+  const reserved: boolean[][] = [];
+  const bytes: number[] = [];
+  let bits = "";
+
+  for (let y = 0; y < size; y++) {
+    reserved[y] = [];
+    for (let x = 0; x < size; x++) {
+      // Finders with their separators and format information, then the timing patterns
+      reserved[y][x] =
+        (x < 9 && y < 9) ||
+        (x >= size - 8 && y < 9) ||
+        (x < 9 && y >= size - 8) ||
+        x === 6 ||
+        y === 6;
+    }
+  }
+  ALIGNMENT[version - 1].forEach(function (row: number, i: number, centres: number[]): void {
+    centres.forEach(function (col: number, j: number): void {
+      if (
+        !(
+          (i === 0 && j === 0) ||
+          (i === 0 && j === centres.length - 1) ||
+          (j === 0 && i === centres.length - 1)
+        )
+      ) {
+        for (let y = row - 2; y <= row + 2; y++) {
+          for (let x = col - 2; x <= col + 2; x++) {
+            reserved[y][x] = true;
+          }
+        }
+      }
+    });
+  });
+  if (version >= 7) {
+    for (let i = 0; i < 18; i++) {
+      reserved[Math.floor(i / 3)][size - 11 + (i % 3)] = true;
+      reserved[size - 11 + (i % 3)][Math.floor(i / 3)] = true;
+    }
+  }
+
+  for (let right = size - 1, upward = true; right > 0; right -= 2, upward = !upward) {
+    if (right === 6) {
+      right = 5;
+    }
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+
+      for (let x = right; x >= right - 1; x--) {
+        if (!reserved[y][x]) {
+          bits += modules[y][x] !== MASKS[mask](y, x) ? "1" : "0";
+        }
+      }
+    }
+  }
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+
+  // Undo the interleaving of the blocks
+  const [ec, count1, data1, count2, data2] = BLOCKS[version - 1][level];
+  const blocks: number[][] = [];
+  let next = 0;
+  let data = "";
+
+  for (let b = 0; b < count1 + count2; b++) {
+    blocks.push([]);
+  }
+  for (let i = 0; i < Math.max(data1, data2); i++) {
+    blocks.forEach(function (block: number[], b: number): void {
+      if (i < (b < count1 ? data1 : data2)) {
+        block.push(bytes[next++]);
+      }
+    });
+  }
+  blocks.forEach(function (block: number[]): void {
+    block.forEach(function (codeword: number): void {
+      data += ("0000000" + codeword.toString(2)).slice(-8);
+    });
+  });
+  for (let i = 0; i < ec; i++) {
+    blocks.forEach(function (block: number[]): void {
+      block.push(bytes[next++]);
+    });
+  }
+  blocks.forEach(function (block: number[]): void {
+    if (!isCodeword(block, ec)) {
+      throw new Error("A block does not match its error correction codewords.");
+    }
+  });
+
+  // A single alphanumeric or byte segment
+  const alphanumeric = data.slice(0, 4) === "0010";
+  const length = parseInt(data.slice(4, alphanumeric ? 13 : 12), 2);
+  let offset = alphanumeric ? 13 : 12;
+  let text = "";
+
+  for (let i = 0; i < length; i += alphanumeric ? 2 : 1) {
+    if (!alphanumeric) {
+      text += String.fromCharCode(parseInt(data.slice(offset, (offset += 8)), 2));
+    } else if (i + 1 < length) {
+      const pair = parseInt(data.slice(offset, (offset += 11)), 2);
+
+      text += QR_ALPHANUMERIC_CHARSET[Math.floor(pair / 45)] + QR_ALPHANUMERIC_CHARSET[pair % 45];
+    } else {
+      text += QR_ALPHANUMERIC_CHARSET[parseInt(data.slice(offset, (offset += 6)), 2)];
+    }
+  }
+
+  return text;
+}
+
+function repeat(str: string, count: number): string {
+  return new Array(count + 1).join(str);
+}
+
+describe("Secrets QR codes", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("encoder", function (): void {
+    it("should draw the function patterns and format information", function (): void {
+      ["L", "M", "Q", "H"].forEach(function (level: string): void {
+        const qr = encodeQr("HELLO", level as QrErrorCorrection, "alphanumeric");
+        const size = qr.modules.length;
+
+        expect(qr.version).toEqual(1);
+        expect(size).toEqual(21);
+        expect(hasFinder(qr.modules, 0, 0)).toEqual(true);
+        expect(hasFinder(qr.modules, size - 7, 0)).toEqual(true);
+        expect(hasFinder(qr.modules, 0, size - 7)).toEqual(true);
+        for (let i = 8; i < size - 8; i++) {
+          expect(qr.modules[6][i]).toEqual(i % 2 === 0);
+          expect(qr.modules[i][6]).toEqual(i % 2 === 0);
+        }
+        expect(qr.modules[size - 8][8]).toEqual(true);
+        expect(readFormat(qr.modules)).toEqual(FORMAT_INFO[level][qr.mask]);
+      });
+    });
+
+    it("should pick the smallest version that holds the text", function (): void {
+      const capacities: [QrErrorCorrection, number][] = [
+        ["L", 17],
+        ["M", 14],
+        ["Q", 11],
+        ["H", 7],
+      ];
+
+      capacities.forEach(function (capacity: [QrErrorCorrection, number]): void {
+        expect(encodeQr(repeat("a", capacity[1]), capacity[0], "byte").version).toEqual(1);
+        expect(encodeQr(repeat("a", capacity[1] + 1), capacity[0], "byte").version).toEqual(2);
+      });
+      expect(encodeQr(repeat("A", 10), "H", "alphanumeric").version).toEqual(1);
+      expect(encodeQr(repeat("A", 11), "H", "alphanumeric").version).toEqual(2);
+      expect(encodeQr(repeat("a", 2953), "L", "byte").modules.length).toEqual(177);
+      expect(function (): void {
+        encodeQr(repeat("a", 2954), "L", "byte");
+      }).toThrowError("Text is too long for a QR code at error correction level L.");
+      expect(function (): void {
+        encodeQr("abc", "L", "alphanumeric");
+      }).toThrowError("Text must only hold the characters of alphanumeric mode.");
+    });
+
+    it("should add version information from version 7", function (): void {
+      const qr = encodeQr(repeat("a", 140), "L", "byte");
+      const size = qr.modules.length;
+      let topRight = 0;
+      let bottomLeft = 0;
+
+      for (let i = 17; i >= 0; i--) {
+        topRight = topRight * 2 + (qr.modules[Math.floor(i / 3)][size - 11 + (i % 3)] ? 1 : 0);
+        bottomLeft = bottomLeft * 2 + (qr.modules[size - 11 + (i % 3)][Math.floor(i / 3)] ? 1 : 0);
+      }
+
+      expect(qr.version).toEqual(7);
+      expect(topRight).toEqual(0x07c94);
+      expect(bottomLeft).toEqual(0x07c94);
+    });
+  });
+
+  describe("shareToQr() and qrToShare()", function (): void {
+    it("should encode hex shares in alphanumeric mode", function (): void {
+      const shares = secrets.share("deadbeef", 3, 2);
+      const qr = secrets.shareToQr(shares[0]);
+
+      expect(qr.mode).toEqual("alphanumeric");
+      expect(qr.errorCorrection).toEqual("M");
+      expect(qr.text).toEqual(shares[0].toUpperCase());
+      expect(qr.modules.length).toEqual(qr.version * 4 + 17);
+      expect(decodeModules(qr.modules, "M")).toEqual(qr.text);
+      expect(secrets.combine([secrets.qrToShare(qr.text), shares[1]])).toEqual("deadbeef");
+    });
+
+    it("should round trip every share encoding and format", function (): void {
+      const expected: { [encoding: string]: QrMode } = {
+        hex: "alphanumeric",
+        base64url: "byte",
+        base58: "byte",
+        base32: "alphanumeric",
+        bech32m: "alphanumeric",
+      };
+
+      Object.keys(expected).forEach(function (encoding: string): void {
+        const ctx = secrets.createSecrets({
+          rng: "testRandom",
+          version: 1,
+          checksum: true,
+          encoding: encoding as ShareEncoding,
+        });
+        const share = ctx.share("c0ffee", 4, 3)[2];
+        const qr: QrCode = ctx.shareToQr(share, { errorCorrection: "Q" });
+
+        expect(qr.mode).toEqual(expected[encoding]);
+        expect(secrets.qrToShare(decodeModules(qr.modules, "Q"))).toEqual(share);
+      });
+    });
+
+    it("should honour the error correction level and mode", function (): void {
+      const share = secrets.share(secrets.random(256), 3, 2)[0];
+      const low = secrets.shareToQr(share, { errorCorrection: "L" });
+      const high = secrets.shareToQr(share, { errorCorrection: "H" });
+      const bytes = secrets.shareToQr(share, { mode: "byte" });
+
+      expect(high.version).toBeGreaterThan(low.version);
+      expect(bytes.mode).toEqual("byte");
+      expect(bytes.text).toEqual(share);
+      expect(secrets.qrToShare(bytes.text)).toEqual(share);
+      expect(function (): void {
+        const ctx = secrets.createSecrets({ rng: "testRandom", encoding: "base58" });
+
+        ctx.shareToQr(ctx.share("ab", 3, 2)[0], { mode: "alphanumeric" });
+      }).toThrowError("A base58 share cannot be encoded in alphanumeric mode.");
+    });
+
+    it("should clean up scanned payloads", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[1];
+
+      expect(secrets.qrToShare("  " + share.toUpperCase() + "\r\n")).toEqual(share);
+      [12, 20].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({ bits: bits, rng: "testRandom", checksum: true });
+        const wide = ctx.share("abc", 3, 2)[0];
+
+        expect(ctx.qrToShare(ctx.shareToQr(wide).text)).toEqual(wide);
+      });
+      expect(function (): void {
+        secrets.qrToShare(share.toUpperCase() + "-00000000");
+      }).toThrowError(InvalidShareError);
+      expect(function (): void {
+        secrets.qrToShare(42 as unknown as string);
+      }).toThrowError("QR payload must be a string.");
+    });
+
+    it("should reject invalid options", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+
+      expect(function (): void {
+        secrets.shareToQr(share, { errorCorrection: "X" as QrErrorCorrection });
+      }).toThrowError("QR error correction must be one of L, M, Q, H.");
+      expect(function (): void {
+        secrets.shareToQr(share, { mode: "kanji" as QrMode });
+      }).toThrowError('QR mode must be "alphanumeric" or "byte".');
+      expect(function (): void {
+        secrets.shareToQrSvg(share, { scale: 0 });
+      }).toThrowError("QR scale must be a positive number.");
+      expect(function (): void {
+        secrets.shareToQrSvg(share, { margin: 1.5 });
+      }).toThrowError("QR margin must be a non-negative integer.");
+      expect(function (): void {
+        secrets.shareToQr("not a share");
+      }).toThrow();
+    });
+  });
+
+  describe("shareToQrSvg()", function (): void {
+    it("should draw every dark module inside the quiet zone", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+      const qr = secrets.shareToQr(share);
+      const svg = secrets.shareToQrSvg(share, { scale: 3, margin: 2 });
+      const width = qr.modules.length + 4;
+      const runs = svg.match(/M\d+,\d+h\d+/g) || [];
+      let dark = 0;
+      let drawn = 0;
+
+      qr.modules.forEach(function (row: boolean[]): void {
+        row.forEach(function (module: boolean): void {
+          dark += module ? 1 : 0;
+        });
+      });
+      runs.forEach(function (run: string): void {
+        const parts = run.slice(1).split(/[,h]/);
+
+        expect(+parts[0]).toBeGreaterThanOrEqual(2);
+        expect(+parts[1]).toBeLessThan(width - 2);
+        drawn += +parts[2];
+      });
+
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+      expect(svg).toContain('viewBox="0 0 ' + width + " " + width + '"');
+      expect(svg).toContain('width="' + width * 3 + '"');
+      expect(drawn).toEqual(dark);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { RefreshHolder, SecretsContext, ShareMessage, ShareTransport } from "../../src/types";
+
+// Run a whole refresh among the holders of the given shares
+function refreshAll(ctx: SecretsContext, shares: string[], threshold?: number): string[] {
+  const transport = secrets.createMemoryTransport();
+  const ids = shares.map(function (share: string): number {
+    return ctx.extractShareComponents(share).id;
+  });
+  const holders = shares.map(function (share: string): RefreshHolder {
+    return ctx.createRefreshHolder(share, ids, { threshold: threshold });
+  });
+
+  holders.forEach(function (holder: RefreshHolder): void {
+    holder.deal(transport);
+  });
+
+  return holders.map(function (holder: RefreshHolder): string {
+    return holder.refresh(transport);
+  });
+}
+
+describe("Secrets proactive refresh", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("createRefreshHolder()", function (): void {
+    it("should keep the secret and invalidate the old shares", function (): void {
+      const ctx = secrets.createSecrets({ version: 1, checksum: true });
+      const shares = ctx.share("deadbeef", 5, 3);
+      const refreshed = refreshAll(ctx, shares);
+
+      expect(ctx.combine(refreshed.slice(0, 3))).toEqual("deadbeef");
+      expect(ctx.combine(refreshed.slice(2))).toEqual("deadbeef");
+      refreshed.forEach(function (share: string, i: number): void {
+        expect(share).not.toEqual(shares[i]);
+        expect(share.length).toEqual(shares[i].length);
+        expect(ctx.extractShareComponents(share).id).toEqual(i + 1);
+      });
+      expect(function (): void {
+        ctx.combine([refreshed[0], refreshed[1], shares[2]]);
+      }).toThrowError(MismatchedSharesError);
+    });
+
+    it("should refresh shares of every field size and encoding", function (): void {
+      [3, 5, 8, 12].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({ bits: bits, encoding: "base32" });
+        const secret = ctx.random(136);
+        const shares = ctx.share(secret, 4, 2);
+        const refreshed = refreshAll(ctx, shares, 2);
+
+        expect(ctx.combine([refreshed[1], refreshed[3]])).toEqual(secret);
+        expect(ctx.combine([refreshed[0], shares[1]])).not.toEqual(secret);
+        expect(ctx.extractShareComponents(refreshed[0]).encoding).toEqual("base32");
+      });
+    });
+
+    it("should revoke the shares of holders left out", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const shares = ctx.share("c0ffee", 5, 3);
+      const refreshed = refreshAll(ctx, [shares[0], shares[2], shares[4]]);
+
+      expect(ctx.combine(refreshed)).toEqual("c0ffee");
+      expect(function (): void {
+        ctx.combine([refreshed[0], refreshed[1], shares[1]]);
+      }).toThrowError(MismatchedSharesError);
+    });
+
+    it("should wait for missing sub-shares", function (): void {
+      const shares = secrets.share("deadbeef", 3, 2);
+      const transport = secrets.createMemoryTransport();
+      const holders = shares.map(function (share: string): RefreshHolder {
+        return secrets.createRefreshHolder(share, [1, 2, 3], { threshold: 2 });
+      });
+
+      holders[0].deal(transport);
+      holders[1].deal(transport);
+      expect(function (): void {
+        holders[0].refresh(transport);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 3 required, 2 available. Sub-shares are missing from holders 3."
+      );
+
+      holders[2].deal(transport);
+
+      const refreshed = holders.map(function (holder: RefreshHolder): string {
+        return holder.refresh(transport);
+      });
+
+      expect(secrets.combine([refreshed[0], refreshed[2]])).toEqual("deadbeef");
+      expect(function (): void {
+        holders[0].refresh(transport);
+      }).toThrowError("This holder has already refreshed its share.");
+    });
+
+    it("should reject invalid holders, options and messages", function (): void {
+      const shares = secrets.share("deadbeef", 3, 2);
+      const transport: ShareTransport = secrets.createMemoryTransport();
+      const holder = secrets.createRefreshHolder(shares[0], [1, 2], { threshold: 2 });
+
+      expect(function (): void {
+        secrets.createRefreshHolder(shares[0], [1, 2]);
+      }).toThrowError("The threshold is required to refresh a share without a header.");
+      expect(function (): void {
+        secrets.createRefreshHolder(shares[0], [2, 3], { threshold: 2 });
+      }).toThrowError("Holders must be an Array of distinct share ids, including this share's id.");
+      expect(function (): void {
+        secrets.createRefreshHolder(shares[0], [1, 1, 2], { threshold: 2 });
+      }).toThrowError("Holders must be an Array of distinct share ids, including this share's id.");
+      expect(function (): void {
+        secrets.createRefreshHolder(shares[0], [1, 2], { threshold: 3 });
+      }).toThrowError(InsufficientSharesError);
+      expect(function (): void {
+        holder.refresh(transport);
+      }).toThrowError("Deal this holder's sub-shares before refreshing its share.");
+
+      holder.deal(transport);
+      expect(function (): void {
+        holder.deal(transport);
+      }).toThrowError("This holder has already dealt its sub-shares.");
+
+      transport.send({ round: holder.round, from: 3, to: 1, data: "00" });
+      expect(function (): void {
+        holder.refresh(transport);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: Holder 3 is not part of this refresh."
+      );
+      transport.send({ round: holder.round, from: 2, to: 1, data: "00" });
+      expect(function (): void {
+        holder.refresh(transport);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: The sub-share from holder 2 has the wrong length."
+      );
+    });
+
+    it("should check the threshold of versioned shares", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const shares = ctx.share("deadbeef", 3, 2);
+
+      expect(ctx.createRefreshHolder(shares[0], [1, 2]).round).toEqual(
+        ctx.extractShareComponents(shares[0]).setId as string
+      );
+      expect(function (): void {
+        ctx.createRefreshHolder(shares[0], [1, 2, 3], { threshold: 3 });
+      }).toThrowError(MismatchedSharesError);
+    });
+  });
+
+  describe("createMemoryTransport()", function (): void {
+    it("should deliver each message once, by round and recipient", function (): void {
+      const transport = secrets.createMemoryTransport();
+
+      transport.send({ round: "a", from: 1, to: 2, data: "01" });
+      transport.send({ round: "b", from: 1, to: 2, data: "02" });
+      transport.send({ round: "a", from: 3, to: 2, data: "03" });
+
+      expect(
+        transport.receive("a", 2).map(function (message: ShareMessage): string {
+          return message.data;
+        })
+      ).toEqual(["01", "03"]);
+      expect(transport.receive("a", 2)).toEqual([]);
+      expect(transport.receive("b", 1)).toEqual([]);
+      expect(transport.receive("b", 2).length).toEqual(1);
+      expect(function (): void {
+        transport.send({ round: "a", from: 1, to: 2 } as never);
+      }).toThrowError("A message must have a round, from, to and data.");
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { RepairHelper, SecretsContext, ShareMessage, ShareTransport } from "../../src/types";
+
+// Run a whole repair of the share at id with the helping shares
+function repair(ctx: SecretsContext, shares: string[], id: number): string {
+  const transport = secrets.createMemoryTransport();
+  const ids = shares.map(function (share: string): number {
+    return ctx.extractShareComponents(share).id;
+  });
+  const helpers = shares.map(function (share: string): RepairHelper {
+    return ctx.createRepairHelper(share, ids, id, { round: "repair-" + id });
+  });
+  const recipient = ctx.createRepairRecipient(id, ids, "repair-" + id);
+
+  helpers.forEach(function (helper: RepairHelper): void {
+    helper.mask(transport);
+  });
+  helpers.forEach(function (helper: RepairHelper): void {
+    helper.contribute(transport);
+  });
+
+  return recipient.combine(transport);
+}
+
+describe("Secrets share repair", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("createRepairHelper() and createRepairRecipient()", function (): void {
+    it("should regenerate the lost share", function (): void {
+      const ctx = secrets.createSecrets({ version: 1, checksum: true });
+      const shares = ctx.share("deadbeef", 5, 3);
+
+      expect(repair(ctx, [shares[0], shares[3], shares[4]], 3)).toEqual(shares[2]);
+      expect(repair(ctx, shares.slice(1), 1)).toEqual(shares[0]);
+    });
+
+    it("should regenerate shares of every field size and encoding", function (): void {
+      [3, 5, 8, 12].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({
+          bits: bits,
+          rng: "nodeCryptoRandomBytes",
+          encoding: "base58",
+        });
+        const shares = ctx.share(ctx.random(136), 4, 2);
+
+        expect(repair(ctx, [shares[3], shares[1]], 1)).toEqual(shares[0]);
+      });
+    });
+
+    it("should only send random parts between helpers", function (): void {
+      const ctx = secrets.createSecrets({ rng: "nodeCryptoRandomBytes" });
+      const shares = ctx.share("deadbeef", 3, 2);
+      const sent: ShareMessage[] = [];
+      const memory = secrets.createMemoryTransport();
+      const transport: ShareTransport = {
+        send: function (message: ShareMessage): void {
+          sent.push(message);
+          memory.send(message);
+        },
+        receive: memory.receive,
+      };
+      const helpers = [1, 2].map(function (id: number): RepairHelper {
+        return ctx.createRepairHelper(shares[id - 1], [1, 2], 3, { round: "r" });
+      });
+
+      helpers.forEach(function (helper: RepairHelper): void {
+        helper.mask(transport);
+      });
+      helpers.forEach(function (helper: RepairHelper): void {
+        helper.contribute(transport);
+      });
+
+      expect(
+        sent.map(function (message: ShareMessage): string {
+          return message.from + ">" + message.to;
+        })
+      ).toEqual(["1>2", "2>1", "1>3", "2>3"]);
+      sent.forEach(function (message: ShareMessage): void {
+        expect(shares).not.toContain(message.data);
+      });
+      expect(ctx.createRepairRecipient(3, [1, 2], "r").combine(transport)).toEqual(shares[2]);
+    });
+
+    it("should wait for every helper", function (): void {
+      const shares = secrets.share("c0ffee", 4, 2);
+      const transport = secrets.createMemoryTransport();
+      const helpers = [1, 2, 4].map(function (id: number): RepairHelper {
+        return secrets.createRepairHelper(shares[id - 1], [1, 2, 4], 3, { round: "r" });
+      });
+      const recipient = secrets.createRepairRecipient(3, [1, 2, 4], "r");
+
+      expect(function (): void {
+        helpers[0].contribute(transport);
+      }).toThrowError("Send this helper's masked parts before contributing.");
+      helpers[0].mask(transport);
+      helpers[1].mask(transport);
+      expect(function (): void {
+        helpers[0].contribute(transport);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 2 required, 1 available. Sub-shares are missing from helpers 4."
+      );
+      helpers[2].mask(transport);
+      helpers.forEach(function (helper: RepairHelper): void {
+        helper.contribute(transport);
+      });
+
+      expect(recipient.combine(transport)).toEqual(shares[2]);
+      expect(function (): void {
+        recipient.combine(transport);
+      }).toThrowError("This recipient has already combined its share.");
+    });
+
+    it("should reject invalid helpers and contributions", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const shares = ctx.share("c0ffee", 4, 3);
+      const transport = secrets.createMemoryTransport();
+      const recipient = ctx.createRepairRecipient(2, [1, 3, 4], "r");
+
+      expect(function (): void {
+        ctx.createRepairHelper(shares[0], [1, 3], 2);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 3 required, 2 available. A repair needs at least a threshold of helpers."
+      );
+      expect(function (): void {
+        ctx.createRepairHelper(shares[0], [1, 2, 3], 2);
+      }).toThrowError("The share to repair cannot be one of the helpers.");
+      expect(function (): void {
+        ctx.createRepairHelper(shares[0], [2, 3, 4], 5);
+      }).toThrowError("Helpers must be an Array of distinct share ids, including this share's id.");
+      expect(function (): void {
+        ctx.createRepairRecipient(2, [1, 1, 3], "r");
+      }).toThrowError("Helpers must be an Array of distinct share ids.");
+
+      transport.send({ round: "r", from: 1, to: 2, data: shares[1] });
+      transport.send({ round: "r", from: 3, to: 2, data: ctx.share("c0ffee", 4, 3)[1] });
+      transport.send({ round: "r", from: 4, to: 2, data: shares[3] });
+      expect(function (): void {
+        recipient.combine(transport);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: The sub-share from helper 3 differs from the others."
+      );
+    });
+  });
+});
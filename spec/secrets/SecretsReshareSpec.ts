@@ -0,0 +1,127 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { ReshareDealer, ReshareHolder } from "../../src/types";
+
+describe("Secrets resharing", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("reshare()", function (): void {
+    it("should move versioned shares to a new threshold and set", function (): void {
+      const ctx = secrets.createSecrets({ version: 1, checksum: true });
+      const shares = ctx.share("deadbeef", 5, 3);
+      const reshared = ctx.reshare([shares[4], shares[0], shares[2]], 7, 4);
+      const header = ctx.extractShareComponents(reshared[6]);
+
+      expect(reshared.length).toEqual(7);
+      expect(ctx.combine(reshared.slice(0, 4))).toEqual("deadbeef");
+      expect(ctx.combine(reshared.slice(3))).toEqual("deadbeef");
+      expect(header.id).toEqual(7);
+      expect(header.threshold).toEqual(4);
+      expect(header.setId).not.toEqual(ctx.extractShareComponents(shares[0]).setId);
+      expect(function (): void {
+        ctx.combine(reshared.slice(0, 3));
+      }).toThrowError(InsufficientSharesError);
+      expect(function (): void {
+        ctx.combine([reshared[0], reshared[1], reshared[2], shares[3]]);
+      }).toThrowError(MismatchedSharesError);
+    });
+
+    it("should reshare shares of every field size and encoding", function (): void {
+      [3, 5, 8, 12].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({ bits: bits, encoding: "base64url" });
+        const secret = ctx.random(136);
+        const reshared = ctx.reshare(ctx.share(secret, 4, 2), 3, 3);
+
+        expect(ctx.combine(reshared)).toEqual(secret);
+        expect(ctx.combine(reshared.slice(1))).not.toEqual(secret);
+        expect(ctx.extractShareComponents(reshared[0]).encoding).toEqual("base64url");
+      });
+    });
+
+    it("should reject too few or mismatched shares", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const shares = ctx.share("deadbeef", 5, 3);
+
+      expect(function (): void {
+        ctx.reshare(shares.slice(0, 2), 5, 3);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 3 required, 2 available. A reshare needs at least a threshold of dealers."
+      );
+      expect(function (): void {
+        ctx.reshare([shares[0], shares[1], ctx.share("deadbeef", 5, 3)[2]], 5, 3);
+      }).toThrowError(MismatchedSharesError);
+      expect(function (): void {
+        ctx.reshare(shares, 3, 4);
+      }).toThrowError(/^Threshold number of shares was 4/);
+      expect(function (): void {
+        ctx.reshare([], 3, 2);
+      }).toThrowError("Shares must be a non-empty Array of share strings.");
+    });
+  });
+
+  describe("createReshareDealer() and createReshareHolder()", function (): void {
+    it("should run the reshare in steps", function (): void {
+      const shares = secrets.share("c0ffee", 3, 2);
+      const transport = secrets.createMemoryTransport();
+      const dealers = [shares[0], shares[2]].map(function (share: string): ReshareDealer {
+        return secrets.createReshareDealer(share, [1, 3], 4, 3, { round: "2026" });
+      });
+      const holders = [1, 2, 3, 4].map(function (id: number): ReshareHolder {
+        return secrets.createReshareHolder(id, [1, 3], "2026");
+      });
+
+      dealers[0].deal(transport);
+      expect(function (): void {
+        holders[0].combine(transport);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 2 required, 1 available. Sub-shares are missing from dealers 3."
+      );
+      dealers[1].deal(transport);
+      expect(function (): void {
+        dealers[1].deal(transport);
+      }).toThrowError("This dealer has already dealt its sub-shares.");
+
+      const reshared = holders.map(function (holder: ReshareHolder): string {
+        return holder.combine(transport);
+      });
+
+      expect(secrets.combine([reshared[3], reshared[1], reshared[0]])).toEqual("c0ffee");
+      expect(function (): void {
+        holders[0].combine(transport);
+      }).toThrowError("This holder has already combined its share.");
+    });
+
+    it("should reject invalid dealers and sub-shares", function (): void {
+      const shares = secrets.share("c0ffee", 3, 2);
+      const transport = secrets.createMemoryTransport();
+      const holder = secrets.createReshareHolder(1, [1, 2], "round");
+
+      expect(function (): void {
+        secrets.createReshareDealer(shares[0], [2, 3], 3, 2);
+      }).toThrowError("Dealers must be an Array of distinct share ids, including this share's id.");
+      expect(function (): void {
+        secrets.createReshareHolder(1, [], "round");
+      }).toThrowError("Dealers must be an Array of distinct share ids.");
+      expect(function (): void {
+        secrets.createReshareHolder(0, [1, 2], "round");
+      }).toThrowError(/^Share id must be an integer between 1 and/);
+
+      transport.send({ round: "round", from: 1, to: 1, data: shares[1] });
+      transport.send({ round: "round", from: 2, to: 1, data: "not a share" });
+      transport.send({ round: "round", from: 3, to: 1, data: shares[0] });
+      expect(function (): void {
+        holder.combine(transport);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: The sub-share from dealer 1 is for share 2."
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError } from "../../src/errors";
+import type { RobustCombineResult } from "../../src/types";
+
+// Replace `count` hex digits of the share data, starting `offset` digits from the end
+function tamper(share: string, offset: number, count?: number): string {
+  const end = share.length - offset;
+  const start = end - (count || 1);
+  let replaced = "";
+
+  for (let i = start; i < end; i++) {
+    replaced += ((parseInt(share.charAt(i), 16) + 7) % 16).toString(16);
+  }
+
+  return share.slice(0, start) + replaced + share.slice(end);
+}
+
+describe("Secrets robust combine", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("combineRobust()", function (): void {
+    it("should return the secret and no bad ids for honest shares", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      const result: RobustCombineResult = secrets.combineRobust(shares, 3);
+
+      expect(result).toEqual({ secret: "deadbeef", badIds: [] });
+      expect(secrets.combineRobust(shares.slice(1, 4), 3).secret).toEqual("deadbeef");
+    });
+
+    it("should correct a corrupted share and report its id", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      shares[3] = tamper(shares[3], 2);
+
+      expect(secrets.combine(shares)).not.toEqual("deadbeef");
+      expect(secrets.combineRobust(shares, 3)).toEqual({ secret: "deadbeef", badIds: [4] });
+    });
+
+    it("should correct corrupted shares among those interpolated first", function (): void {
+      const shares = secrets.share("0123456789abcdef", 7, 3);
+      shares[0] = tamper(shares[0], 5, 4);
+      shares[2] = tamper(shares[2], 20, 6);
+
+      expect(secrets.combineRobust(shares, 3)).toEqual({
+        secret: "0123456789abcdef",
+        badIds: [1, 3],
+      });
+    });
+
+    it("should report shares corrupted in different chunks", function (): void {
+      const secret = new Array(65).join("5a");
+      const shares = secrets.share(secret, 9, 4);
+      shares[8] = tamper(shares[8], 1);
+      shares[5] = tamper(shares[5], 100, 2);
+
+      expect(secrets.combineRobust(shares.reverse(), 4)).toEqual({ secret, badIds: [6, 9] });
+    });
+
+    it("should work for every field size", function (): void {
+      for (let bits = 3; bits <= 12; bits++) {
+        const ctx = secrets.createSecrets({ bits, rng: "testRandom" });
+        const shares = ctx.share("c0ffee", 6, 3);
+        shares[1] = tamper(shares[1], 3, 3);
+
+        expect(ctx.combineRobust(shares, 3)).toEqual({ secret: "c0ffee", badIds: [2] });
+      }
+    });
+  });
+
+  describe("insufficient honest shares", function (): void {
+    it("should refuse fewer shares than the threshold", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      let error: unknown;
+
+      try {
+        secrets.combineRobust(shares.slice(0, 2), 3);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error instanceof InsufficientSharesError).toEqual(true);
+      expect((error as InsufficientSharesError).message).toEqual(
+        "Insufficient shares: 3 required, 2 available"
+      );
+      expect((error as InsufficientSharesError).context).toEqual({ required: 3, available: 2 });
+    });
+
+    it("should refuse to guess when too many shares are inconsistent", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      shares[0] = tamper(shares[0], 2);
+      shares[4] = tamper(shares[4], 2);
+
+      expect(function (): void {
+        secrets.combineRobust(shares, 3);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 7 required, 5 available. More than 1 of the shares are inconsistent, too few honest shares remain to decide."
+      );
+    });
+
+    it("should refuse to guess when there is no redundancy to decide", function (): void {
+      const shares = secrets.share("deadbeef", 4, 3);
+      shares[1] = tamper(shares[1], 2);
+
+      expect(function (): void {
+        secrets.combineRobust(shares, 3);
+      }).toThrowError(InsufficientSharesError, /More than 0 of the shares are inconsistent/);
+    });
+  });
+
+  describe("validation", function (): void {
+    it("should reject invalid thresholds and mismatched shares", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      const other = secrets.createSecrets({ bits: 9, rng: "testRandom" }).share("deadbeef", 5, 3);
+
+      expect(function (): void {
+        secrets.combineRobust(shares, 1);
+      }).toThrowError(/Threshold number of shares must be an integer between 2 and 2\^bits-1/);
+      expect(function (): void {
+        secrets.combineRobust([shares[0], other[1], shares[2]], 2);
+      }).toThrowError("Mismatched shares: Different bit settings.");
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import secrets from "../../src/secrets";
+import { InvalidShareError } from "../../src/errors";
+import { BIP39_WORDLIST } from "../../src/bip39-wordlist";
+
+describe("Secrets share words", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("wordlist", function (): void {
+    it("should hold the 2048 BIP-39 English words", function (): void {
+      const prefixes: { [prefix: string]: boolean } = {};
+
+      BIP39_WORDLIST.forEach(function (word: string, i: number): void {
+        expect(prefixes[word.slice(0, 4)]).toBeUndefined();
+        prefixes[word.slice(0, 4)] = true;
+        if (i > 0) {
+          expect(word > BIP39_WORDLIST[i - 1]).toEqual(true);
+        }
+      });
+
+      expect(BIP39_WORDLIST.length).toEqual(2048);
+      expect(BIP39_WORDLIST[0]).toEqual("abandon");
+      expect(BIP39_WORDLIST[3]).toEqual("about");
+      expect(BIP39_WORDLIST[2047]).toEqual("zoo");
+    });
+  });
+
+  describe("shareToWords() and wordsToShare()", function (): void {
+    it("should round trip shares into combine()", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      const words = shares.map(function (share: string): string {
+        return secrets.shareToWords(share);
+      });
+
+      expect(words[0].split(" ").length).toEqual(15);
+      words.forEach(function (phrase: string, i: number): void {
+        expect(secrets.wordsToShare(phrase)).toEqual(shares[i]);
+      });
+      expect(
+        secrets.combine([
+          secrets.wordsToShare(words[4]),
+          secrets.wordsToShare(words[1]),
+          secrets.wordsToShare(words[2]),
+        ])
+      ).toEqual("deadbeef");
+    });
+
+    it("should encode the same share the same way", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+
+      expect(secrets.shareToWords(share)).toEqual(secrets.shareToWords(share.toUpperCase()));
+      expect(secrets.shareToWords(share)).not.toEqual(
+        secrets.shareToWords(secrets.share("deadbeef", 3, 2)[1])
+      );
+    });
+
+    it("should round trip every field size and secret length", function (): void {
+      [3, 4, 7, 8, 11, 16, 20].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({ bits: bits, rng: "testRandom" });
+
+        for (let length = 1; length <= 9; length++) {
+          const share = ctx.share(ctx.random(length * 4), 3, 2, 0)[2];
+          expect(ctx.wordsToShare(ctx.shareToWords(share))).toEqual(share);
+        }
+      });
+    });
+
+    it("should keep versioned headers and checksums", function (): void {
+      const ctx = secrets.createSecrets({
+        bits: 12,
+        rng: "testRandom",
+        version: 1,
+        checksum: true,
+      });
+      const shares = ctx.share("c0ffee", 4, 3);
+
+      shares.forEach(function (share: string): void {
+        expect(secrets.wordsToShare(secrets.shareToWords(share))).toEqual(share);
+      });
+      expect(
+        secrets.wordsToShare(secrets.shareToWords(secrets.share("c0ffee", 3, 2)[0]))
+      ).not.toMatch(/-/);
+    });
+
+    it("should accept arrays, any case and four letter prefixes", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[1];
+      const words = secrets.shareToWords(share).split(" ");
+      const shortened = words.map(function (word: string): string {
+        return word.slice(0, 4).toUpperCase();
+      });
+
+      expect(secrets.wordsToShare(words)).toEqual(share);
+      expect(secrets.wordsToShare(shortened)).toEqual(share);
+      expect(secrets.wordsToShare("  " + words.join("\n ") + " ")).toEqual(share);
+    });
+
+    it("should be available on contexts", function (): void {
+      const ctx = secrets.createSecrets({ bits: 10, rng: "testRandom" });
+      const share = ctx.share("abc", 700, 2)[699];
+      const { shareToWords, wordsToShare } = ctx;
+
+      expect(wordsToShare(shareToWords(share))).toEqual(share);
+      expect(secrets.extractShareComponents(secrets.wordsToShare(shareToWords(share))).id).toEqual(
+        700
+      );
+    });
+  });
+
+  describe("errors", function (): void {
+    it("should reject unknown words and bad checksum words", function (): void {
+      const words = secrets.shareToWords(secrets.share("deadbeef", 3, 2)[0]).split(" ");
+      const swapped = words.slice();
+
+      swapped[1] = words[2];
+      swapped[2] = words[1];
+
+      expect(function (): void {
+        secrets.wordsToShare(words.slice(0, 3).concat(["satoshis"]));
+      }).toThrowError(InvalidShareError, 'Invalid share data: Unknown word "satoshis".');
+      expect(function (): void {
+        secrets.wordsToShare(swapped);
+      }).toThrowError(InvalidShareError, "Invalid share data: Invalid word checksum.");
+      expect(function (): void {
+        secrets.wordsToShare(words.slice(0, 2));
+      }).toThrowError(InvalidShareError, /at least 3 words/);
+      expect(function (): void {
+        secrets.wordsToShare(words.slice(0, -2));
+      }).toThrowError(InvalidShareError);
+    });
+
+    it("should reject invalid input", function (): void {
+      expect(function (): void {
+        secrets.shareToWords("not a share");
+      }).toThrow();
+      expect(function (): void {
+        secrets.wordsToShare(42 as unknown as string);
+      }).toThrowError("Words must be a string or an Array of strings.");
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import secrets from "../../src/secrets";
+import {
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+} from "../../src/errors";
+import { parseMnemonic, rs1024Checksum } from "../../src/slip39";
+import { SLIP39_WORDLIST } from "../../src/slip39-wordlist";
+import { SLIP39_PASSPHRASE, SLIP39_VECTORS } from "../helpers/Slip39Vectors";
+
+const MASTER_SECRET = "bb54aac4b89dc868ba37d9cc21b2cece";
+
+describe("Secrets SLIP-0039", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("wordlist", function (): void {
+    it("should hold 1024 sorted words with unique four letter prefixes", function (): void {
+      const prefixes: { [prefix: string]: boolean } = {};
+
+      SLIP39_WORDLIST.forEach(function (word: string, i: number): void {
+        expect(prefixes[word.slice(0, 4)]).toBeUndefined();
+        prefixes[word.slice(0, 4)] = true;
+        if (i > 0) {
+          expect(word > SLIP39_WORDLIST[i - 1]).toEqual(true);
+        }
+      });
+
+      expect(SLIP39_WORDLIST.length).toEqual(1024);
+      expect(SLIP39_WORDLIST[0]).toEqual("academic");
+      expect(SLIP39_WORDLIST[1023]).toEqual("zero");
+    });
+  });
+
+  describe("official test vectors", function (): void {
+    SLIP39_VECTORS.forEach(function (vector: [string, string[], string], i: number): void {
+      const description = vector[0];
+      const mnemonics = vector[1];
+      const masterSecret = vector[2];
+
+      it("vector " + (i + 1) + ": " + description, function (): void {
+        if (masterSecret) {
+          expect(secrets.combineSlip39(mnemonics, SLIP39_PASSPHRASE)).toEqual(masterSecret);
+        } else {
+          expect(function (): void {
+            secrets.combineSlip39(mnemonics, SLIP39_PASSPHRASE);
+          }).toThrow();
+        }
+      });
+    });
+
+    it("should re-encode parsed mnemonics to the same words", function (): void {
+      const mnemonic = SLIP39_VECTORS[0][1][0];
+      const words = mnemonic.split(" ");
+      const data = words.slice(0, -3).map(function (word: string): number {
+        return SLIP39_WORDLIST.indexOf(word);
+      });
+
+      expect(
+        rs1024Checksum(data, parseMnemonic(mnemonic).extendable).map(function (
+          index: number
+        ): string {
+          return SLIP39_WORDLIST[index];
+        })
+      ).toEqual(words.slice(-3));
+    });
+  });
+
+  describe("shareSlip39() and combineSlip39()", function (): void {
+    it("should split and recover with a single group", function (): void {
+      const groups = secrets.shareSlip39(MASTER_SECRET, 1, [[3, 5]]);
+      const share = parseMnemonic(groups[0][4]);
+
+      expect(groups.length).toEqual(1);
+      expect(groups[0].length).toEqual(5);
+      expect(groups[0][0].split(" ").length).toEqual(20);
+      expect(share.memberIndex).toEqual(4);
+      expect(share.memberThreshold).toEqual(3);
+      expect(share.extendable).toEqual(true);
+      expect(share.iterationExponent).toEqual(1);
+      expect(secrets.combineSlip39([groups[0][4], groups[0][0], groups[0][2]])).toEqual(
+        MASTER_SECRET
+      );
+    });
+
+    it("should split and recover with groups and a passphrase", function (): void {
+      const secret = "989baf9dcaad5b10ca33dfd8cc75e42477025dce88ae83e75a230086a0e00e92";
+      const groups = secrets.shareSlip39(
+        secret,
+        2,
+        [
+          [1, 1],
+          [2, 3],
+          [3, 5],
+        ],
+        { passphrase: "TREZOR", iterationExponent: 0, extendable: false }
+      );
+      const mnemonics = [groups[2][1], groups[0][0], groups[2][4], groups[2][0]];
+
+      expect(groups[1][0].split(" ").length).toEqual(33);
+      expect(parseMnemonic(groups[1][0]).extendable).toEqual(false);
+      expect(secrets.combineSlip39(mnemonics, "TREZOR")).toEqual(secret);
+      expect(secrets.combineSlip39([groups[1][2], groups[1][0], groups[0][0]], "TREZOR")).toEqual(
+        secret
+      );
+      expect(secrets.combineSlip39(mnemonics)).not.toEqual(secret);
+    });
+
+    it("should ignore groups below their member threshold", function (): void {
+      const groups = secrets.shareSlip39(MASTER_SECRET, 1, [
+        [2, 3],
+        [2, 3],
+      ]);
+
+      expect(secrets.combineSlip39([groups[0][1], groups[1][0], groups[1][2]])).toEqual(
+        MASTER_SECRET
+      );
+    });
+
+    it("should accept words in upper case and abbreviated to four letters", function (): void {
+      const mnemonic = SLIP39_VECTORS[0][1][0]
+        .split(" ")
+        .map(function (word: string): string {
+          return word.slice(0, 4).toUpperCase();
+        })
+        .join(" ");
+
+      expect(secrets.combineSlip39([mnemonic], SLIP39_PASSPHRASE)).toEqual(SLIP39_VECTORS[0][2]);
+    });
+
+    it("should be available on contexts", function (): void {
+      const ctx = secrets.createSecrets({ bits: 12, rng: "testRandom" });
+      const groups = ctx.shareSlip39(MASTER_SECRET, 1, [[2, 2]], { iterationExponent: 0 });
+
+      expect(ctx.combineSlip39(groups[0])).toEqual(MASTER_SECRET);
+      expect(secrets.combineSlip39(groups[0])).toEqual(MASTER_SECRET);
+    });
+  });
+
+  describe("errors", function (): void {
+    it("should reject invalid mnemonics with an InvalidShareError", function (): void {
+      const mnemonic = SLIP39_VECTORS[0][1][0];
+
+      expect(function (): void {
+        secrets.combineSlip39([mnemonic.replace("duckling", "duckbill")]);
+      }).toThrowError(InvalidShareError, 'Invalid share data: Unknown mnemonic word "duckbill".');
+      expect(function (): void {
+        secrets.combineSlip39([mnemonic.split(" ").slice(0, 19).join(" ")]);
+      }).toThrowError(InvalidShareError, /Invalid mnemonic length/);
+      expect(function (): void {
+        secrets.combineSlip39(SLIP39_VECTORS[1][1]);
+      }).toThrowError(InvalidShareError, "Invalid share data: Invalid mnemonic checksum.");
+      expect(function (): void {
+        secrets.combineSlip39(SLIP39_VECTORS[2][1]);
+      }).toThrowError(InvalidShareError, "Invalid share data: Invalid mnemonic padding.");
+    });
+
+    it("should reject mnemonics of different splits", function (): void {
+      expect(function (): void {
+        secrets.combineSlip39(SLIP39_VECTORS[5][1], SLIP39_PASSPHRASE);
+      }).toThrowError(MismatchedSharesError);
+      expect(function (): void {
+        secrets.combineSlip39(SLIP39_VECTORS[6][1], SLIP39_PASSPHRASE);
+      }).toThrowError(MismatchedSharesError);
+    });
+
+    it("should report insufficient shares and failed digests", function (): void {
+      const groups = secrets.shareSlip39(MASTER_SECRET, 2, [
+        [1, 1],
+        [2, 2],
+      ]);
+      // The test RNG gives both splits the same identifier
+      const other = secrets.shareSlip39("00112233445566778899aabbccddeeff", 1, [[2, 3]]);
+      const mixed = secrets.shareSlip39(MASTER_SECRET, 1, [[2, 3]]);
+
+      expect(function (): void {
+        secrets.combineSlip39([groups[0][0], groups[1][1]]);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 2 required, 1 available. Too few groups have reached their member threshold."
+      );
+      expect(function (): void {
+        secrets.combineSlip39(SLIP39_VECTORS[4][1], SLIP39_PASSPHRASE);
+      }).toThrowError(InsufficientSharesError);
+      expect(function (): void {
+        secrets.combineSlip39([mixed[0][0], other[0][1]]);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: Invalid digest of the shared secret."
+      );
+    });
+
+    it("should validate the parameters of a split", function (): void {
+      expect(function (): void {
+        secrets.shareSlip39("00112233445566778899aabbccddee", 1, [[1, 1]]);
+      }).toThrowError(/at least 16/);
+      expect(function (): void {
+        secrets.shareSlip39(MASTER_SECRET, 2, [[1, 1]]);
+      }).toThrowError(/group threshold/);
+      expect(function (): void {
+        secrets.shareSlip39(MASTER_SECRET, 1, [[1, 3]]);
+      }).toThrowError(/member threshold 1 is not allowed/);
+      expect(function (): void {
+        secrets.shareSlip39(MASTER_SECRET, 1, [[2, 17]]);
+      }).toThrowError(/between 1 and 16/);
+      expect(function (): void {
+        secrets.shareSlip39(MASTER_SECRET, 1, [[1, 1]], { passphrase: "café" });
+      }).toThrowError(/printable ASCII/);
+      expect(function (): void {
+        secrets.shareSlip39(MASTER_SECRET, 1, [[1, 1]], { iterationExponent: 16 });
+      }).toThrowError(/iteration exponent/);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { Readable, Writable } from "stream";
+import secrets from "../../src/secrets";
+import {
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+} from "../../src/errors";
+
+// Bytes of the given length with a repeating pattern
+function pattern(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+
+  for (let i = 0; i < length; i++) {
+    data[i] = (i * 31) % 256;
+  }
+
+  return data;
+}
+
+// A Readable giving the bytes in pieces of the given size
+function readable(bytes: Uint8Array, size: number): Readable {
+  const pieces: Buffer[] = [];
+
+  for (let i = 0; i < bytes.length; i += size) {
+    pieces.push(Buffer.from(bytes.subarray(i, i + size)));
+  }
+
+  return Readable.from(pieces);
+}
+
+// A Writable collecting what is written, and taking a turn of the event loop for each chunk
+function collector(): { stream: Writable; bytes: () => Buffer } {
+  const parts: Buffer[] = [];
+  const stream = new Writable({
+    write: function (chunk: Buffer, encoding: string, callback: () => void): void {
+      parts.push(chunk);
+      setImmediate(callback);
+    },
+  });
+
+  return {
+    stream,
+    bytes: function (): Buffer {
+      return Buffer.concat(parts);
+    },
+  };
+}
+
+describe("Secrets streams", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("createSplitStream() and createCombineStream()", function (): void {
+    it("should split and combine Node.js streams", function (): Promise<void> {
+      const data = pattern(100003);
+      const outputs = [collector(), collector(), collector(), collector()];
+      const output = collector();
+
+      return secrets
+        .createSplitStream(4, 3, { chunkSize: 4096 })
+        .pipe(
+          readable(data, 10000),
+          outputs.map(function (collected): Writable {
+            return collected.stream;
+          })
+        )
+        .then(function (): Promise<void> {
+          const inputs = [3, 0, 3, 1].map(function (i: number): Readable {
+            return readable(outputs[i].bytes(), 777);
+          });
+
+          return secrets.createCombineStream().pipe(inputs, output.stream);
+        })
+        .then(function (): void {
+          expect(new Uint8Array(output.bytes())).toEqual(data);
+        });
+    });
+
+    it("should split and combine WHATWG streams", function (): Promise<void> {
+      const data = pattern(70000);
+      const parts: Uint8Array[][] = [[], [], []];
+      const recovered: Uint8Array[] = [];
+
+      function sink(received: Uint8Array[]): WritableStream<Uint8Array> {
+        return new WritableStream<Uint8Array>({
+          write: function (chunk: Uint8Array): void {
+            received.push(chunk);
+          },
+        });
+      }
+
+      function source(received: Uint8Array[]): ReadableStream<Uint8Array> {
+        return new ReadableStream<Uint8Array>({
+          start: function (controller: ReadableStreamDefaultController<Uint8Array>): void {
+            received.forEach(function (chunk: Uint8Array): void {
+              controller.enqueue(chunk);
+            });
+            controller.close();
+          },
+        });
+      }
+
+      return secrets
+        .createSplitStream(3, 2)
+        .pipe(source([data.subarray(0, 5), data.subarray(5)]), parts.map(sink))
+        .then(function (): Promise<void> {
+          return secrets
+            .createCombineStream()
+            .pipe([source(parts[2]), source(parts[0])], sink(recovered));
+        })
+        .then(function (): void {
+          expect(new Uint8Array(Buffer.concat(recovered))).toEqual(data);
+        });
+    });
+
+    it("should split and combine bytes written directly", function (): void {
+      const ctx = secrets.createSecrets({ bits: 12 });
+      const split = ctx.createSplitStream(3, 2, { chunkSize: 10 });
+      const combine = ctx.createCombineStream();
+      const first = split.write(pattern(25));
+      const last = split.end();
+      const recovered = [
+        combine.write(2, first[2].subarray(0, 30)),
+        combine.write(0, first[0]),
+        combine.write(2, first[2].subarray(30)),
+        combine.write(0, last[0]),
+        combine.write(2, last[2]),
+      ];
+
+      expect(first.length).toEqual(3);
+      expect(recovered[1].length).toEqual(0);
+      expect(new Uint8Array(Buffer.concat(recovered))).toEqual(pattern(25));
+      combine.end();
+      expect(function (): void {
+        split.write(pattern(1));
+      }).toThrowError("This split stream has ended.");
+    });
+
+    it("should check every chunk", function (): void {
+      const split = secrets.createSplitStream(3, 2, { chunkSize: 1000 });
+      const streams = split.write(pattern(5000));
+      const last = split.end();
+      const corrupt = new Uint8Array(streams[1]);
+      const combine = secrets.createCombineStream();
+      const truncated = secrets.createCombineStream();
+
+      corrupt[3000] ^= 1;
+      combine.write(0, streams[0]);
+      expect(function (): void {
+        combine.write(1, corrupt);
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: Chunk 2 of input 1 fails its checksum."
+      );
+
+      truncated.write(0, streams[0]);
+      truncated.write(1, streams[1]);
+      truncated.write(0, last[0]);
+      expect(function (): void {
+        truncated.end();
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: The share streams ended before their last chunk."
+      );
+      expect(function (): void {
+        secrets.createCombineStream().write(0, pattern(30));
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: There is no share stream header in input 0."
+      );
+    });
+
+    it("should need a threshold of streams from one split", function (): Promise<void> {
+      const ctx = secrets.createSecrets({ rng: "nodeCryptoRandomBytes" });
+      const first = ctx.createSplitStream(3, 2).end();
+      const second = ctx.createSplitStream(3, 2).end();
+      const combine = ctx.createCombineStream();
+
+      combine.write(0, first[0]);
+      expect(function (): void {
+        combine.write(1, second[1]);
+      }).toThrowError(
+        MismatchedSharesError,
+        "Mismatched shares: The streams are from different splits."
+      );
+      expect(function (): void {
+        secrets.createSplitStream(3, 2, { chunkSize: 0 });
+      }).toThrowError("Chunk size must be an integer between 1 and 16777216, inclusive.");
+
+      return ctx
+        .createCombineStream()
+        .pipe(
+          [first[1], first[1]].map(function (bytes: Uint8Array): Readable {
+            return readable(bytes, 100);
+          }),
+          collector().stream
+        )
+        .then(
+          function (): void {
+            fail("Two copies of one stream should not combine.");
+          },
+          function (error: Error): void {
+            expect(error).toEqual(jasmine.any(InsufficientSharesError));
+            expect(error.message).toEqual("Insufficient shares: 2 required, 1 available");
+          }
+        );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, InvalidShareError } from "../../src/errors";
+
+describe("Secrets sub-shares", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("splitShare() and combineSubShares()", function (): void {
+    it("should reassemble the exact share", function (): void {
+      const shares = secrets.share("deadbeef", 5, 3);
+      const subShares = secrets.splitShare(shares[1], 3, 2);
+
+      expect(subShares.length).toEqual(3);
+      expect(secrets.combineSubShares([subShares[2], subShares[0]])).toEqual(shares[1]);
+      expect(
+        secrets.combine([shares[0], secrets.combineSubShares(subShares.slice(1)), shares[4]])
+      ).toEqual("deadbeef");
+    });
+
+    it("should keep the header, checksum and encoding of the share", function (): void {
+      [3, 8, 12].forEach(function (bits: number): void {
+        const ctx = secrets.createSecrets({
+          bits: bits,
+          version: 1,
+          checksum: true,
+          encoding: "base58",
+        });
+        const secret = ctx.random(128);
+        const shares = ctx.share(secret, 4, 2);
+        const subShares = ctx.splitShare(shares[3], 4, 3);
+
+        expect(ctx.combineSubShares([subShares[3], subShares[1], subShares[0]])).toEqual(shares[3]);
+        expect(ctx.combine([ctx.combineSubShares(subShares), shares[0]])).toEqual(secret);
+      });
+    });
+
+    it("should need a threshold of versioned sub-shares", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const subShares = ctx.splitShare(ctx.share("c0ffee", 3, 2)[0], 4, 3);
+
+      expect(function (): void {
+        ctx.combineSubShares(subShares.slice(2));
+      }).toThrowError(InsufficientSharesError, "Insufficient shares: 3 required, 2 available");
+    });
+
+    it("should reject invalid shares and sub-shares", function (): void {
+      const subShares = secrets.splitShare(secrets.share("c0ffee", 3, 2)[2], 3, 2);
+
+      expect(function (): void {
+        secrets.splitShare("not a share", 3, 2);
+      }).toThrowError(
+        "Invalid share : Number of bits must be an integer between 3 and 20, inclusive."
+      );
+      expect(function (): void {
+        secrets.combineSubShares([subShares[0]]);
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: The sub-shares do not combine to a share."
+      );
+      expect(function (): void {
+        secrets.combineSubShares(secrets.share("deadbeef", 3, 2));
+      }).toThrowError(
+        InvalidShareError,
+        "Invalid share data: The sub-shares do not combine to a share."
+      );
+    });
+  });
+});
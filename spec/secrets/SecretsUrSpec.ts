@@ -0,0 +1,164 @@
+import secrets from "../../src/secrets";
+import { InvalidShareError, MismatchedSharesError } from "../../src/errors";
+import { decodeBytewordsMinimal, encodeBytewordsMinimal } from "../../src/bytewords";
+import { createUrPartEncoder, createXoshiro256 } from "../../src/ur";
+import type { UrProgress } from "../../src/types";
+
+function ascii(str: string): Uint8Array {
+  const bytes = new Uint8Array(str.length);
+
+  for (let i = 0; i < str.length; i++) {
+    bytes[i] = str.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+describe("Secrets UR transfer", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("bytewords and fountain encoder", function (): void {
+    it("should match the Blockchain Commons bytewords", function (): void {
+      const bytes = new Uint8Array([0, 1, 2, 128, 255]);
+      const words = encodeBytewordsMinimal(bytes);
+
+      expect(words.slice(0, 10)).toEqual("aeadaolazm");
+      expect(Array.prototype.slice.call(decodeBytewordsMinimal(words))).toEqual([
+        0, 1, 2, 128, 255,
+      ]);
+      expect(function (): void {
+        decodeBytewordsMinimal("ae" + words.slice(2, -2) + "ae");
+      }).toThrowError("Invalid bytewords checksum.");
+    });
+
+    it("should match the Blockchain Commons generator and parts", function (): void {
+      const xoshiro = createXoshiro256(ascii("Wolf"));
+      const rolls: number[] = [];
+      const message = new Uint8Array(259);
+
+      for (let i = 0; i < 10; i++) {
+        rolls.push(xoshiro.nextInt(1, 10));
+      }
+      expect(rolls).toEqual([6, 5, 8, 4, 10, 5, 7, 10, 4, 9]);
+
+      const data = createXoshiro256(ascii("Wolf"));
+      // A CBOR byte string of 256 bytes
+      message.set([0x59, 0x01, 0x00]);
+      for (let i = 3; i < message.length; i++) {
+        message[i] = data.nextInt(0, 255);
+      }
+
+      const encoder = createUrPartEncoder("bytes", message, 30);
+
+      expect(encoder.nextPart()).toEqual(
+        "ur:bytes/1-9/lpadascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtdkgslpgh"
+      );
+      expect(encoder.nextPart()).toEqual(
+        "ur:bytes/2-9/lpaoascfadaxcywenbpljkhdcagwdpfnsboxgwlbaawzuefywkdplrsrjynbvygabwjldapfcsgmghhkhstlrdcxaefz"
+      );
+    });
+  });
+
+  describe("shareToUr() and createUrDecoder()", function (): void {
+    it("should recover a large share from parts in any order and case", function (): void {
+      const shares = secrets.share(secrets.random(2048), 5, 3);
+      const encoder = secrets.shareToUr(shares[0], { maxFragmentLength: 30 });
+      const decoder = secrets.createUrDecoder();
+      let progress: UrProgress = decoder.progress();
+
+      expect(encoder.type).toEqual("secrets-share");
+      expect(encoder.fragmentCount).toBeGreaterThan(1);
+      expect(progress.complete).toEqual(false);
+      expect(progress.fragmentCount).toEqual(0);
+
+      // Miss every third frame, as a camera does
+      for (let i = 1; !progress.complete && i < 100; i++) {
+        const part = encoder.nextPart();
+
+        if (i % 3 !== 0) {
+          progress = decoder.receivePart(i % 2 === 0 ? part : part.toUpperCase());
+          expect(progress.progress).toBeLessThanOrEqual(1);
+        }
+      }
+
+      expect(progress.complete).toEqual(true);
+      expect(progress.recoveredFragments).toEqual(encoder.fragmentCount);
+      expect(decoder.getShares()).toEqual([shares[0]]);
+      expect(secrets.combine(decoder.getShares().concat(shares.slice(3)))).toEqual(
+        secrets.combine(shares.slice(2))
+      );
+    });
+
+    it("should carry a bundle of shares in any encoding", function (): void {
+      const ctx = secrets.createSecrets({
+        rng: "testRandom",
+        version: 1,
+        checksum: true,
+        encoding: "base58",
+      });
+      const shares = ctx.share("c0ffee", 4, 3);
+      const encoder = secrets.shareToUr(shares.slice(1));
+      const decoder = secrets.createUrDecoder();
+
+      expect(encoder.type).toEqual("secrets-share-bundle");
+      while (!decoder.receivePart(encoder.nextPart()).complete) {
+        // Keep scanning
+      }
+      expect(secrets.combine(decoder.getShares())).toEqual("c0ffee");
+      expect(secrets.extractShareComponents(decoder.getShares()[0]).data).toEqual(
+        ctx.extractShareComponents(shares[1]).data
+      );
+      expect(secrets.extractShareComponents(decoder.getShares()[2]).threshold).toEqual(3);
+    });
+
+    it("should fit a small share in a single part and QR code", function (): void {
+      const share = secrets.share("deadbeef", 3, 2)[0];
+      const encoder = secrets.shareToUr(share);
+      const part = encoder.nextPart();
+      const decoder = secrets.createUrDecoder();
+
+      expect(encoder.fragmentCount).toEqual(1);
+      expect(part).toMatch(/^ur:secrets-share\/[a-z]+$/);
+      expect(secrets.shareToQr(part).mode).toEqual("alphanumeric");
+      expect(secrets.shareToQr(part).text).toEqual(part.toUpperCase());
+      expect(decoder.receivePart(part.toUpperCase()).complete).toEqual(true);
+      expect(decoder.getShares()).toEqual([share]);
+    });
+
+    it("should reject parts of other transfers and malformed parts", function (): void {
+      const shares = secrets.share(secrets.random(1024), 3, 2);
+      const decoder = secrets.createUrDecoder();
+
+      decoder.receivePart(secrets.shareToUr(shares[0], { maxFragmentLength: 20 }).nextPart());
+      expect(function (): void {
+        decoder.receivePart(secrets.shareToUr(shares[1], { maxFragmentLength: 20 }).nextPart());
+      }).toThrowError(MismatchedSharesError);
+      expect(function (): void {
+        decoder.receivePart("ur:secrets-share/1-2/zzzz");
+      }).toThrowError(InvalidShareError);
+      expect(function (): void {
+        decoder.receivePart("ur:bytes/aeadaolazmjendeoti");
+      }).toThrowError(InvalidShareError, 'Invalid share data: Unsupported UR type "bytes".');
+      expect(function (): void {
+        decoder.getShares();
+      }).toThrowError("The UR decoder has not received every fragment yet.");
+    });
+
+    it("should reject invalid shares and options", function (): void {
+      expect(function (): void {
+        secrets.shareToUr([]);
+      }).toThrowError("Shares must be a share string or a non-empty Array of share strings.");
+      expect(function (): void {
+        secrets.shareToUr(secrets.share("ab", 3, 2)[0], { maxFragmentLength: 9 });
+      }).toThrowError("The UR fragment length must be an integer of at least 10.");
+      expect(function (): void {
+        secrets.shareToUr("not a share");
+      }).toThrow();
+    });
+  });
+});
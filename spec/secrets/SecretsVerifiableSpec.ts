@@ -0,0 +1,135 @@
+import secrets from "../../src/secrets";
+import type { VerifiableShares } from "../../src/types";
+import { decodeElement, getGroup, modPow } from "../../src/vss";
+
+describe("Secrets verifiable secret sharing", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareVerifiable() and combineVerifiable()", function (): void {
+    it("should recover the secret from any threshold of shares", function (): void {
+      const dealt: VerifiableShares = secrets.shareVerifiable("deadbeef", 5, 3);
+
+      expect(dealt.shares.length).toEqual(5);
+      expect(dealt.commitments.length).toEqual(1);
+      expect(dealt.commitments[0].length).toEqual(3);
+      expect(secrets.combineVerifiable(dealt.shares.slice(0, 3))).toEqual("deadbeef");
+      expect(
+        secrets.combineVerifiable([dealt.shares[4], dealt.shares[1], dealt.shares[3]])
+      ).toEqual("deadbeef");
+      expect(secrets.combineVerifiable(dealt.shares)).toEqual("deadbeef");
+    });
+
+    it("should not recover the secret from fewer than threshold shares", function (): void {
+      const dealt = secrets.shareVerifiable("deadbeef", 5, 3);
+
+      expect(secrets.combineVerifiable(dealt.shares.slice(0, 2))).not.toEqual("deadbeef");
+    });
+
+    it("should preserve leading zeros and split long secrets into chunks", function (): void {
+      const long = "00" + new Array(301).join("c3");
+      const dealt = secrets.shareVerifiable(long, 3, 2);
+
+      expect(dealt.commitments.length).toEqual(2);
+      expect(secrets.combineVerifiable(dealt.shares.slice(1))).toEqual(long);
+      expect(secrets.combineVerifiable(secrets.shareVerifiable("000a", 3, 2).shares)).toEqual(
+        "000a"
+      );
+    });
+
+    it("should use the public share string layout of the context", function (): void {
+      const ctx = secrets.createSecrets({ bits: 10, rng: "testRandom" });
+      const dealt = ctx.shareVerifiable("abc", 600, 2);
+      const components = ctx.extractShareComponents(dealt.shares[599]);
+
+      expect(components.bits).toEqual(10);
+      expect(components.id).toEqual(600);
+      expect(components.data.length).toEqual(512);
+      expect(ctx.combineVerifiable([dealt.shares[10], dealt.shares[599]])).toEqual("abc");
+    });
+
+    it("should not reveal a short secret through its commitments", function (): void {
+      const group = getGroup();
+      const ctx = secrets.createSecrets({ rng: "nodeCryptoRandomBytes" });
+      const first = ctx.shareVerifiable("ab", 3, 2);
+      const second = ctx.shareVerifiable("ab", 3, 2);
+      const committed = decodeElement(first.commitments[0][0], group.p);
+
+      // Every value of a one byte secret and its marker bit
+      for (let v = 0x100; v < 0x200; v++) {
+        expect(modPow(group.g, BigInt(v), group.p)).not.toEqual(committed);
+      }
+      expect(second.commitments[0][0]).not.toEqual(first.commitments[0][0]);
+      expect(ctx.combineVerifiable(first.shares.slice(1))).toEqual("ab");
+    });
+  });
+
+  describe("verifyShare()", function (): void {
+    it("should accept every share dealt with the commitments", function (): void {
+      const dealt = secrets.shareVerifiable("0123456789abcdef", 4, 3);
+
+      dealt.shares.forEach(function (share: string): void {
+        expect(secrets.verifyShare(share, dealt.commitments)).toEqual(true);
+      });
+    });
+
+    it("should detect a share that is not on the committed polynomial", function (): void {
+      const dealt = secrets.shareVerifiable("0123456789abcdef", 4, 3);
+      const share = dealt.shares[1];
+      const last = share.charAt(share.length - 1);
+      const tampered = share.slice(0, -1) + (last === "0" ? "1" : "0");
+      const swapped = share.slice(0, 3).replace(/02$/, "03") + share.slice(3);
+
+      expect(secrets.verifyShare(tampered, dealt.commitments)).toEqual(false);
+      expect(secrets.verifyShare(swapped, dealt.commitments)).toEqual(false);
+    });
+
+    it("should reject shares checked against another dealing's commitments", function (): void {
+      const first = secrets.shareVerifiable("aa", 3, 2);
+      const second = secrets.shareVerifiable("bb", 3, 2);
+      const longer = secrets.shareVerifiable(new Array(300).join("ab"), 3, 2);
+
+      expect(secrets.verifyShare(first.shares[0], second.commitments)).toEqual(false);
+      expect(secrets.verifyShare(first.shares[0], longer.commitments)).toEqual(false);
+    });
+  });
+
+  describe("validation", function (): void {
+    it("should reject invalid secrets and share counts", function (): void {
+      expect(function (): void {
+        secrets.shareVerifiable("xyz", 3, 2);
+      }).toThrowError("Invalid hex character.");
+      expect(function (): void {
+        secrets.shareVerifiable("abc", 3, 4);
+      }).toThrowError(/Threshold number of shares was 4/);
+    });
+
+    it("should reject shares that were not created by shareVerifiable()", function (): void {
+      const regular = secrets.share("abc", 3, 2)[0];
+      const dealt = secrets.shareVerifiable("abc", 3, 2);
+
+      expect(function (): void {
+        secrets.verifyShare(regular, dealt.commitments);
+      }).toThrowError("Invalid share : Share data is not a verifiable share.");
+      expect(function (): void {
+        secrets.combineVerifiable([regular]);
+      }).toThrowError("Invalid share : Share data is not a verifiable share.");
+    });
+
+    it("should reject malformed commitments and mismatched shares", function (): void {
+      const dealt = secrets.shareVerifiable("abc", 3, 2);
+      const longer = secrets.shareVerifiable(new Array(300).join("ab"), 3, 2);
+
+      expect(function (): void {
+        secrets.verifyShare(dealt.shares[0], [["1234"]]);
+      }).toThrowError("Invalid verifiable share element.");
+      expect(function (): void {
+        secrets.combineVerifiable([dealt.shares[0], longer.shares[1]]);
+      }).toThrowError("Mismatched shares: Different secret lengths.");
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import secrets from "../../src/secrets";
+import { InsufficientSharesError, MismatchedSharesError } from "../../src/errors";
+import type { Custodian, WeightedBundle } from "../../src/types";
+
+const CUSTODIANS: Custodian[] = [
+  { name: "CTO", weight: 2 },
+  { name: "Alice", weight: 1 },
+  { name: "Bob", weight: 1 },
+  { name: "Carol", weight: 1 },
+];
+
+describe("Secrets weighted sharing", function (): void {
+  "use strict";
+
+  beforeEach(function (): void {
+    secrets.init();
+    secrets.setRNG("testRandom");
+  });
+
+  describe("shareWeighted()", function (): void {
+    it("should give each custodian one share per vote", function (): void {
+      const bundles = secrets.shareWeighted("deadbeef", CUSTODIANS, 3);
+      const ids = bundles.map(function (bundle: WeightedBundle): number[] {
+        return bundle.shares.map(function (share: string): number {
+          return secrets.extractShareComponents(share).id;
+        });
+      });
+
+      expect(
+        bundles.map(function (bundle: WeightedBundle): string {
+          return bundle.name + ":" + bundle.weight + ":" + bundle.threshold;
+        })
+      ).toEqual(["CTO:2:3", "Alice:1:3", "Bob:1:3", "Carol:1:3"]);
+      expect(ids).toEqual([[1, 2], [3], [4], [5]]);
+    });
+
+    it("should reject invalid custodians", function (): void {
+      expect(function (): void {
+        secrets.shareWeighted("deadbeef", [], 2);
+      }).toThrowError("Custodians must be a non-empty Array of { name, weight } Objects.");
+      expect(function (): void {
+        secrets.shareWeighted("deadbeef", [CUSTODIANS[1], CUSTODIANS[1]], 2);
+      }).toThrowError("Custodian names must be distinct, non-empty strings.");
+      expect(function (): void {
+        secrets.shareWeighted("deadbeef", [CUSTODIANS[0], { name: "Dave", weight: 1.5 }], 2);
+      }).toThrowError('The weight of custodian "Dave" must be a positive integer.');
+      expect(function (): void {
+        secrets.shareWeighted("deadbeef", CUSTODIANS, 6);
+      }).toThrowError(/^Threshold number of shares was 6/);
+      expect(function (): void {
+        secrets.shareWeighted("deadbeef", [{ name: "Everyone", weight: 256 }], 2);
+      }).toThrowError(/use at least 9 bits/);
+    });
+  });
+
+  describe("combineWeighted()", function (): void {
+    it("should recover the secret once the weight reaches the threshold", function (): void {
+      const bundles = secrets.shareWeighted("deadbeef", CUSTODIANS, 3);
+
+      expect(secrets.combineWeighted([bundles[0], bundles[3]])).toEqual("deadbeef");
+      expect(secrets.combineWeighted(bundles.slice(1))).toEqual("deadbeef");
+      expect(secrets.combineWeighted(bundles)).toEqual("deadbeef");
+      expect(secrets.combineWeighted([])).toEqual("");
+    });
+
+    it("should count the weight from distinct shares", function (): void {
+      const bundles = secrets.shareWeighted("deadbeef", CUSTODIANS, 3);
+      const inflated: WeightedBundle = {
+        name: "Alice",
+        weight: 3,
+        threshold: 3,
+        shares: bundles[1].shares.concat(bundles[1].shares),
+      };
+
+      expect(function (): void {
+        secrets.combineWeighted([bundles[2], bundles[2]]);
+      }).toThrowError(
+        InsufficientSharesError,
+        "Insufficient shares: 3 required, 1 available. The custodians carry a weight of 1, below the threshold."
+      );
+      expect(function (): void {
+        secrets.combineWeighted([inflated, bundles[2]]);
+      }).toThrowError(InsufficientSharesError);
+    });
+
+    it("should reject bundles of different splits", function (): void {
+      const ctx = secrets.createSecrets({ version: 1 });
+      const first = ctx.shareWeighted("deadbeef", CUSTODIANS, 3);
+      const second = ctx.shareWeighted("deadbeef", CUSTODIANS, 2);
+      const third = ctx.shareWeighted("deadbeef", CUSTODIANS, 3);
+
+      expect(function (): void {
+        ctx.combineWeighted([first[0], second[1]]);
+      }).toThrowError(MismatchedSharesError, "Mismatched shares: Different thresholds.");
+      expect(function (): void {
+        ctx.combineWeighted([first[0], third[1]]);
+      }).toThrowError(MismatchedSharesError);
+      expect(function (): void {
+        ctx.combineWeighted([first[0], { name: "Mallory" } as WeightedBundle]);
+      }).toThrowError("Bundles must be an Array of the bundles from shareWeighted().");
+    });
+  });
+});
@@ -0,0 +1,322 @@
+// Access structures for @digitaldefiance/secrets
+// Weighted custodians, shares of shares and boolean policies, built on threshold shares
+
+import { InsufficientSharesError, InvalidShareError, MismatchedSharesError } from "./errors";
+import { formatPolicy, parsePolicy, policyPrincipals } from "./policy";
+import { bin2hex, constructPublicShareString, padLeft, shareSetIdLength, xorHex } from "./shares";
+import type {
+  ContextCore,
+  Custodian,
+  PolicyBundle,
+  PolicyClause,
+  PolicyNode,
+  PolicyResult,
+  SecretsContext,
+  Shares,
+  WeightedBundle,
+} from "./types";
+
+/**
+ * Create the access structures of a context beyond a single threshold.
+ *
+ * @param core - The core of the context
+ * @returns The weighted, sub-share and policy operations
+ */
+export function createAccessStructures(
+  core: ContextCore
+): Pick<
+  SecretsContext,
+  | "shareWeighted"
+  | "combineWeighted"
+  | "splitShare"
+  | "combineSubShares"
+  | "shareWithPolicy"
+  | "combineWithPolicy"
+> {
+  const { config, extractShareComponents, share, combine } = core;
+
+  function shareWeighted(
+    secret: string,
+    custodians: readonly Custodian[],
+    threshold: number
+  ): WeightedBundle[] {
+    const names: string[] = [];
+    let total = 0;
+
+    if (!Array.isArray(custodians) || custodians.length === 0) {
+      throw new Error("Custodians must be a non-empty Array of { name, weight } Objects.");
+    }
+
+    custodians.forEach(function (custodian: Custodian): void {
+      const name = custodian && custodian.name;
+      const weight = custodian && custodian.weight;
+
+      if (typeof name !== "string" || name === "" || names.indexOf(name) !== -1) {
+        throw new Error("Custodian names must be distinct, non-empty strings.");
+      }
+      if (typeof weight !== "number" || weight % 1 !== 0 || weight < 1) {
+        throw new Error('The weight of custodian "' + name + '" must be a positive integer.');
+      }
+
+      names.push(name);
+      total += weight;
+    });
+
+    // Every unit of weight is one share, so the ids are handed out in runs
+    const shares = share(secret, total, threshold);
+    let next = 0;
+
+    return custodians.map(function (custodian: Custodian): WeightedBundle {
+      next += custodian.weight;
+
+      return Object.freeze({
+        name: custodian.name,
+        weight: custodian.weight,
+        threshold,
+        shares: shares.slice(next - custodian.weight, next),
+      });
+    });
+  }
+
+  function combineWeighted(bundles: readonly WeightedBundle[]): string {
+    const shares: string[] = [];
+    const ids: number[] = [];
+    let threshold: number | undefined;
+
+    if (!Array.isArray(bundles)) {
+      throw new Error("Bundles must be an Array of the bundles from shareWeighted().");
+    }
+
+    bundles.forEach(function (bundle: WeightedBundle): void {
+      if (!bundle || !Array.isArray(bundle.shares) || typeof bundle.threshold !== "number") {
+        throw new Error("Bundles must be an Array of the bundles from shareWeighted().");
+      }
+      if (threshold === undefined) {
+        threshold = bundle.threshold;
+      } else if (bundle.threshold !== threshold) {
+        throw new MismatchedSharesError("Different thresholds.");
+      }
+
+      // The weight is counted from the distinct shares, not taken from the bundle
+      bundle.shares.forEach(function (item: string): void {
+        const id = extractShareComponents(item).id;
+
+        if (ids.indexOf(id) === -1) {
+          ids.push(id);
+          shares.push(item);
+        }
+      });
+    });
+
+    if (threshold === undefined) {
+      return "";
+    }
+    if (ids.length < threshold) {
+      throw new InsufficientSharesError(
+        threshold,
+        ids.length,
+        "The custodians carry a weight of " + ids.length + ", below the threshold."
+      );
+    }
+
+    return combine(shares);
+  }
+
+  function splitShare(original: string, numShares: number, threshold: number): string[] {
+    let hex = "";
+
+    // Parsing checks the share, including its checksum
+    extractShareComponents(original);
+
+    // The whole share string is the secret, so its header, checksum and encoding survive
+    for (let i = 0; i < original.length; i++) {
+      hex += padLeft(original.charCodeAt(i).toString(16), 2);
+    }
+
+    return share(hex, numShares, threshold);
+  }
+
+  function combineSubShares(subShares: Shares | string[]): string {
+    const hex = combine(subShares);
+    let original = "";
+
+    for (let i = 0; i < hex.length; i += 2) {
+      original += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    }
+
+    try {
+      extractShareComponents(original);
+    } catch {
+      throw new InvalidShareError(original, "The sub-shares do not combine to a share.");
+    }
+
+    return original;
+  }
+
+  function shareWithPolicy(secret: string, policy: string): PolicyBundle[] {
+    const root = parsePolicy(policy);
+    const setId = padLeft(bin2hex(config.rng(shareSetIdLength * 4)), shareSetIdLength);
+    const parts: { [name: string]: string[] } = {};
+
+    if (typeof secret !== "string") {
+      throw new Error("Secret must be a string.");
+    }
+    if (!/^[0-9a-f]*$/i.test(secret)) {
+      throw new Error("Invalid hex character.");
+    }
+
+    // Every member of a clause gets a part of the clause's value: a copy for
+    // OR, a XOR split for AND and the data of a Shamir share otherwise
+    function split(node: PolicyNode, value: string): void {
+      if ("name" in node) {
+        parts[node.name] = (parts[node.name] || []).concat(value);
+        return;
+      }
+
+      const count = node.members.length;
+
+      if (node.threshold === 1) {
+        node.members.forEach(function (member: PolicyNode): void {
+          split(member, value);
+        });
+      } else if (node.threshold === count) {
+        let rest = value;
+
+        for (let i = 0; i < count - 1; i++) {
+          const part = bin2hex(config.rng(value.length * 4));
+
+          split(node.members[i], part);
+          rest = xorHex(rest, part);
+        }
+        split(node.members[count - 1], rest);
+      } else {
+        share(value, count, node.threshold).forEach(function (item: string, i: number): void {
+          split(node.members[i], extractShareComponents(item).data);
+        });
+      }
+    }
+
+    split(root, secret.toLowerCase());
+
+    return policyPrincipals(root).map(function (name: string): PolicyBundle {
+      return Object.freeze({
+        name,
+        policy: formatPolicy(root),
+        setId,
+        bits: config.bits,
+        parts: parts[name],
+      });
+    });
+  }
+
+  function combineWithPolicy(bundles: readonly PolicyBundle[]): PolicyResult {
+    const invalid = "Bundles must be a non-empty Array of the bundles from shareWithPolicy().";
+    const held: { [name: string]: string[] } = {};
+    const used: { [name: string]: number } = {};
+    const clauses: PolicyClause[] = [];
+
+    if (!Array.isArray(bundles) || bundles.length === 0) {
+      throw new Error(invalid);
+    }
+
+    const first = bundles[0];
+
+    bundles.forEach(function (bundle: PolicyBundle): void {
+      if (
+        !bundle ||
+        typeof bundle.name !== "string" ||
+        typeof bundle.policy !== "string" ||
+        typeof bundle.bits !== "number" ||
+        !Array.isArray(bundle.parts)
+      ) {
+        throw new Error(invalid);
+      }
+      if (bundle.policy !== first.policy || bundle.setId !== first.setId) {
+        throw new MismatchedSharesError("The bundles are from different policy splits.");
+      }
+      held[bundle.name] = held[bundle.name] || bundle.parts;
+    });
+
+    // Returns the value of a node, or the principals that could still provide it
+    function recover(node: PolicyNode): { value?: string; missing: string[] } {
+      if ("name" in node) {
+        const index = used[node.name] || 0;
+
+        used[node.name] = index + 1;
+        if (held[node.name] === undefined) {
+          return { missing: [node.name] };
+        }
+        if (typeof held[node.name][index] !== "string") {
+          throw new Error(invalid);
+        }
+
+        return { value: held[node.name][index], missing: [] };
+      }
+
+      // Clauses are listed outermost first, so this one goes before its members
+      const position = clauses.length;
+      const values: string[] = [];
+      const ids: number[] = [];
+      const missing: string[] = [];
+
+      node.members.forEach(function (member: PolicyNode, i: number): void {
+        const result = recover(member);
+
+        if (result.value !== undefined) {
+          values.push(result.value);
+          ids.push(i + 1);
+        }
+        result.missing.forEach(function (name: string): void {
+          if (missing.indexOf(name) === -1) {
+            missing.push(name);
+          }
+        });
+      });
+
+      const satisfied = values.length >= node.threshold;
+
+      clauses.splice(
+        position,
+        0,
+        Object.freeze({ clause: formatPolicy(node), satisfied, missing: satisfied ? [] : missing })
+      );
+
+      if (!satisfied) {
+        return { missing };
+      }
+      if (node.threshold === 1) {
+        return { value: values[0], missing: [] };
+      }
+      if (node.threshold === node.members.length) {
+        return { value: values.reduce(xorHex), missing: [] };
+      }
+
+      return {
+        value: combine(
+          values.map(function (value: string, j: number): string {
+            return constructPublicShareString(first.bits, ids[j], value);
+          })
+        ),
+        missing: [],
+      };
+    }
+
+    const result = recover(parsePolicy(first.policy));
+
+    return Object.freeze({
+      satisfied: result.value !== undefined,
+      secret: result.value,
+      clauses,
+      missing: result.missing,
+    });
+  }
+
+  return Object.freeze({
+    shareWeighted,
+    combineWeighted,
+    splitShare,
+    combineSubShares,
+    shareWithPolicy,
+    combineWithPolicy,
+  });
+}
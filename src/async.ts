@@ -0,0 +1,181 @@
+// Asynchronous splits for @digitaldefiance/secrets
+// Splits and combines large secrets a block at a time, in worker threads where available
+
+import { createCoefficients } from "./core";
+import { InsufficientSharesError } from "./errors";
+import { createWords, getField, lagrangeBasis } from "./field";
+import { isProtectedShare, unprotectShareString } from "./protect";
+import { constructPublicShareString, shareBlockWords, validatePadLength } from "./shares";
+import { hexToWords, markerPosition, wordsToHex } from "./words";
+import { runJobs } from "./worker";
+import type { WorkerJob } from "./worker";
+import type {
+  AsyncOptions,
+  ContextCore,
+  FieldArray,
+  PassphraseResolver,
+  SecretsContext,
+  Shares,
+} from "./types";
+
+/**
+ * Create the asynchronous split and combine of a context.
+ *
+ * @param core - The core of the context
+ * @returns shareAsync() and combineAsync()
+ */
+export function createAsyncSharing(
+  core: ContextCore
+): Pick<SecretsContext, "shareAsync" | "combineAsync"> {
+  const { config, resolvePassphrase, parseShares, validateShareCounts, newShareSetId } = core;
+
+  function shareAsync(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    options?: AsyncOptions
+  ): Promise<string[]> {
+    return Promise.resolve().then(function (): Promise<string[]> {
+      const opts = options || {};
+      const padLength = opts.padLength || config.padLength;
+
+      if (typeof secret !== "string") {
+        throw new Error("Secret must be a string.");
+      }
+
+      validateShareCounts(numShares, threshold);
+      validatePadLength(padLength);
+
+      // The set id and coefficients are drawn here, in the order share() draws them
+      const setId = newShareSetId();
+      const secretWords = hexToWords(secret, config.bits, padLength, true);
+      const coefficients = createCoefficients(config, config.rng, secretWords, threshold);
+      const shareWords: FieldArray[] = [];
+
+      for (let j = 0; j < numShares; j++) {
+        shareWords[j] = createWords(config.bits, secretWords.length);
+      }
+
+      function clear(): void {
+        secretWords.fill(0);
+        coefficients.clear();
+      }
+
+      return runJobs(
+        config,
+        Math.ceil(secretWords.length / shareBlockWords),
+        function (i: number): WorkerJob {
+          return { task: "share", rows: coefficients.next(i * shareBlockWords), numShares };
+        },
+        function (i: number, rows: Uint32Array[]): void {
+          for (let j = 0; j < numShares; j++) {
+            shareWords[j].set(rows[j], i * shareBlockWords);
+          }
+        },
+        opts
+      ).then(
+        function (): string[] {
+          clear();
+
+          return shareWords.map(function (words: FieldArray, j: number): string {
+            return constructPublicShareString(
+              config.bits,
+              j + 1,
+              wordsToHex(words, config.bits),
+              config.checksum,
+              threshold,
+              setId,
+              config.encoding
+            );
+          });
+        },
+        function (error: unknown): never {
+          clear();
+          throw error;
+        }
+      );
+    });
+  }
+
+  // Unprotect the protected shares one at a time, with Node.js or WebCrypto
+  function unprotectShares(
+    shares: Shares | string[],
+    passphrase: string | PassphraseResolver | undefined
+  ): Promise<string[]> {
+    const plain: string[] = [];
+
+    function next(i: number): Promise<string[]> | string[] {
+      if (!(i < shares.length)) {
+        return plain;
+      }
+      if (!isProtectedShare(shares[i])) {
+        plain.push(shares[i]);
+        return next(i + 1);
+      }
+
+      return unprotectShareString(
+        shares[i],
+        resolvePassphrase(shares[i], passphrase, "combineAsync()")
+      ).then(function (share: string): Promise<string[]> | string[] {
+        plain.push(share);
+        return next(i + 1);
+      });
+    }
+
+    return Promise.resolve().then(function (): Promise<string[]> | string[] {
+      return next(0);
+    });
+  }
+
+  function combineAsync(shares: Shares | string[], options?: AsyncOptions): Promise<string> {
+    return unprotectShares(shares, options && options.passphrase).then(function (
+      plain: string[]
+    ): Promise<string> | string {
+      const { header, x, y } = parseShares(plain);
+
+      if (header === undefined) {
+        return "";
+      }
+
+      if (header.threshold !== undefined && x.length < header.threshold) {
+        throw new InsufficientSharesError(header.threshold, x.length);
+      }
+
+      const field = getField(header.bits);
+      const basis = lagrangeBasis(field, 0, x);
+      let numWords = 0;
+
+      for (let i = 0; i < y.length; i++) {
+        numWords = Math.max(numWords, y[i].length);
+      }
+
+      const result = createWords(field.bits, numWords);
+
+      return runJobs(
+        field,
+        Math.ceil(numWords / shareBlockWords),
+        function (i: number): WorkerJob {
+          const start = i * shareBlockWords;
+          const ys = y.map(function (words: FieldArray): FieldArray {
+            return words.subarray(start, start + shareBlockWords);
+          });
+
+          return { task: "combine", basis, ys };
+        },
+        function (i: number, rows: Uint32Array[]): void {
+          result.set(rows[0], i * shareBlockWords);
+        },
+        options || {}
+      ).then(function (): string {
+        // Drop the marker bit and everything above it
+        const marker = markerPosition(result, field.bits);
+        return wordsToHex(result, field.bits, marker === -1 ? result.length * field.bits : marker);
+      });
+    });
+  }
+
+  return Object.freeze({
+    shareAsync,
+    combineAsync,
+  });
+}
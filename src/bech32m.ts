@@ -0,0 +1,213 @@
+// Bech32m (BIP-350) for @digitaldefiance/secrets
+// Checksummed base32 strings with a human-readable prefix, and a locator for mistyped characters
+
+/**
+ * The 32 characters of the data part, by value
+ */
+export const BECH32M_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+const SEPARATOR = "1";
+const CHECKSUM_LENGTH = 6;
+const BECH32M_CONST = 0x2bc830a3;
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Character value by character code, -1 for characters outside the charset
+const charValues: number[] = [];
+for (let i = 0; i < 128; i++) {
+  charValues[i] = -1;
+}
+for (let i = 0; i < BECH32M_CHARSET.length; i++) {
+  charValues[BECH32M_CHARSET.charCodeAt(i)] = i;
+}
+
+// ============================================================================
+// Checksum
+// ============================================================================
+
+// One step of the BCH checksum: shift in a 5 bit value
+function polymodStep(chk: number, value: number): number {
+  const top = chk >>> 25;
+
+  chk = ((chk & 0x1ffffff) << 5) ^ value;
+  for (let i = 0; i < 5; i++) {
+    if ((top >>> i) & 1) {
+      chk ^= GENERATOR[i];
+    }
+  }
+
+  return chk;
+}
+
+// The checksum state after the expanded prefix and values, xored with the bech32m constant,
+// so that it is 0 for a valid string
+function residue(hrp: string, values: readonly number[]): number {
+  let chk = 1;
+
+  for (let i = 0; i < hrp.length; i++) {
+    chk = polymodStep(chk, hrp.charCodeAt(i) >>> 5);
+  }
+  chk = polymodStep(chk, 0);
+  for (let i = 0; i < hrp.length; i++) {
+    chk = polymodStep(chk, hrp.charCodeAt(i) & 31);
+  }
+  for (let i = 0; i < values.length; i++) {
+    chk = polymodStep(chk, values[i]);
+  }
+
+  return (chk ^ BECH32M_CONST) >>> 0;
+}
+
+/**
+ * Find the likely positions of mistyped characters in the data part.
+ *
+ * The checksum is linear, so the residue of a string with errors is the xor
+ * of the residues each error would cause on its own. That finds any single
+ * substituted character, and most pairs, without trying every correction.
+ *
+ * @param hrp - The lowercase human-readable prefix
+ * @param values - The data part values, checksum included
+ * @returns Indices into values, in ascending order; empty if no one or two
+ *          substitutions explain the checksum
+ */
+function locateErrors(hrp: string, values: readonly number[]): number[] {
+  const target = residue(hrp, values);
+  // The residue caused by the value 1 << b at each distance from the end of the string
+  const basis: number[][] = [];
+  const single: { [residue: number]: number } = {};
+  let last = [1, 2, 4, 8, 16];
+
+  for (let k = 0; k < values.length; k++) {
+    basis.push(last);
+    last = last.map(function (chk: number): number {
+      return polymodStep(chk, 0);
+    });
+  }
+
+  function effect(index: number, value: number): number {
+    const row = basis[values.length - 1 - index];
+    let chk = 0;
+
+    for (let b = 0; b < 5; b++) {
+      if ((value >>> b) & 1) {
+        chk ^= row[b];
+      }
+    }
+
+    return chk >>> 0;
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    for (let v = 1; v < 32; v++) {
+      const chk = effect(i, v);
+
+      if (chk === target) {
+        return [i];
+      }
+      if (single[chk] === undefined) {
+        single[chk] = i;
+      }
+    }
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    for (let v = 1; v < 32; v++) {
+      const other = single[(target ^ effect(i, v)) >>> 0];
+
+      if (other !== undefined && other !== i) {
+        return i < other ? [i, other] : [other, i];
+      }
+    }
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode 5 bit values as a bech32m string.
+ *
+ * Unlike BIP-350 addresses, the length is not limited to 90 characters.
+ *
+ * @param hrp - The human-readable prefix, in lowercase
+ * @param values - Data values between 0 and 31
+ * @returns The lowercase bech32m string
+ */
+export function encodeBech32m(hrp: string, values: readonly number[]): string {
+  const chk = residue(hrp, values.concat([0, 0, 0, 0, 0, 0]));
+  let str = hrp + SEPARATOR;
+
+  for (let i = 0; i < values.length; i++) {
+    str += BECH32M_CHARSET.charAt(values[i]);
+  }
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    str += BECH32M_CHARSET.charAt((chk >>> (5 * (CHECKSUM_LENGTH - 1 - i))) & 31);
+  }
+
+  return str;
+}
+
+/**
+ * Decode and verify a bech32m string.
+ *
+ * The string may be all lowercase or all uppercase. When the checksum does
+ * not match, the error message names the characters most likely mistyped.
+ *
+ * @param str - The bech32m string
+ * @returns The lowercase human-readable prefix and the data values, without the checksum
+ * @throws {Error} If str is malformed or its checksum does not match
+ */
+export function decodeBech32m(str: string): { hrp: string; values: number[] } {
+  const lower = str.toLowerCase();
+  const split = lower.lastIndexOf(SEPARATOR);
+
+  if (lower !== str && str.toUpperCase() !== str) {
+    throw new Error("A bech32m string must not mix upper and lower case.");
+  }
+
+  if (split < 1 || lower.length - split - 1 < CHECKSUM_LENGTH) {
+    throw new Error("A bech32m string needs a prefix, a separator and a 6 character checksum.");
+  }
+
+  const hrp = lower.slice(0, split);
+  const values: number[] = [];
+
+  for (let i = 0; i < hrp.length; i++) {
+    const code = hrp.charCodeAt(i);
+    if (code < 33 || code > 126) {
+      throw new Error("Invalid bech32m prefix character at position " + (i + 1) + ".");
+    }
+  }
+
+  for (let i = split + 1; i < lower.length; i++) {
+    const code = lower.charCodeAt(i);
+    const value = code < 128 ? charValues[code] : -1;
+
+    if (value === -1) {
+      throw new Error(
+        'Invalid bech32m character "' + str.charAt(i) + '" at position ' + (i + 1) + "."
+      );
+    }
+    values.push(value);
+  }
+
+  if (residue(hrp, values) !== 0) {
+    const positions = locateErrors(hrp, values).map(function (index: number): number {
+      return split + 2 + index;
+    });
+
+    throw new Error(
+      "Invalid bech32m checksum" +
+        (positions.length
+          ? ", check the character" +
+            (positions.length > 1 ? "s at positions " : " at position ") +
+            positions.join(" and ")
+          : "") +
+        "."
+    );
+  }
+
+  return { hrp, values: values.slice(0, values.length - CHECKSUM_LENGTH) };
+}
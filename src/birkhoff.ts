@@ -0,0 +1,194 @@
+// Hierarchical threshold secret sharing for @digitaldefiance/secrets
+// Tassa's scheme: shares are derivatives of the polynomial at the levels of a
+// hierarchy, recovered by Birkhoff interpolation over the prime field of vss.ts
+
+import { getGroup, modInverse, modPow } from "./vss";
+
+// k! / (k - s)!, the factor of x^(k-s) in the s-th derivative of x^k
+function fallingFactorial(k: number, s: number): bigint {
+  let result = BigInt(1);
+
+  for (let i = k - s + 1; i <= k; i++) {
+    result *= BigInt(i);
+  }
+
+  return result;
+}
+
+// Weights c with sum c_i * share_i = a_0. Row k of the system holds the
+// factor of a_k in every share, and must sum to 1 for a_0 and 0 otherwise;
+// it is solved by Gauss-Jordan elimination, with free weights set to zero.
+function birkhoffBasis(
+  ids: readonly number[],
+  offsets: readonly number[],
+  threshold: number
+): bigint[] | null {
+  const { q } = getGroup();
+  const zero = BigInt(0);
+  const cols = ids.length;
+  const rows: bigint[][] = [];
+  const pivots: number[] = [];
+  let r = 0;
+
+  for (let k = 0; k < threshold; k++) {
+    rows[k] = [];
+    for (let i = 0; i < cols; i++) {
+      const s = offsets[i];
+
+      rows[k][i] =
+        k < s ? zero : (fallingFactorial(k, s) * modPow(BigInt(ids[i]), BigInt(k - s), q)) % q;
+    }
+    rows[k][cols] = k === 0 ? BigInt(1) : zero;
+  }
+
+  for (let c = 0; c < cols && r < rows.length; c++) {
+    let p = r;
+    while (p < rows.length && rows[p][c] === zero) {
+      p++;
+    }
+    if (p === rows.length) {
+      continue;
+    }
+
+    const swap = rows[p];
+    rows[p] = rows[r];
+    rows[r] = swap;
+
+    const inv = modInverse(rows[r][c], q);
+    for (let k = c; k <= cols; k++) {
+      rows[r][k] = (rows[r][k] * inv) % q;
+    }
+
+    for (let i = 0; i < rows.length; i++) {
+      const factor = rows[i][c];
+      if (i !== r && factor !== zero) {
+        for (let k = c; k <= cols; k++) {
+          rows[i][k] = (((rows[i][k] - factor * rows[r][k]) % q) + q) % q;
+        }
+      }
+    }
+
+    pivots[r++] = c;
+  }
+
+  for (let i = r; i < rows.length; i++) {
+    if (rows[i][cols] !== zero) {
+      return null;
+    }
+  }
+
+  const basis: bigint[] = [];
+  for (let c = 0; c < cols; c++) {
+    basis[c] = zero;
+  }
+  for (let i = 0; i < r; i++) {
+    basis[pivots[i]] = rows[i][cols];
+  }
+
+  return basis;
+}
+
+/**
+ * Check that Tassa's bound holds for a hierarchy in the prime field.
+ *
+ * With ids dealt level by level from the most senior level, every set of
+ * shares that meets the hierarchy recovers the secret, and every other set
+ * learns nothing about it, when the field has more than
+ * 2^(2-t) * (t-1)^((t-1)/2) * (t-1)! * n^((t-1)(t-2)/2) elements.
+ *
+ * @param threshold - Number of shares needed in all
+ * @param numShares - Number of shares, the largest id
+ * @returns Whether the bound holds
+ */
+export function withinTassaBound(threshold: number, numShares: number): boolean {
+  let bits = 2 - threshold + ((threshold - 1) / 2) * Math.log2(threshold - 1);
+
+  for (let i = 2; i < threshold; i++) {
+    bits += Math.log2(i);
+  }
+  bits += (((threshold - 1) * (threshold - 2)) / 2) * Math.log2(numShares);
+
+  return bits < getGroup().qBits - 1;
+}
+
+/**
+ * Deal hierarchical shares of each chunk with a random polynomial over Z_q.
+ *
+ * The share of id x at offset s is the s-th derivative of the polynomial at
+ * x, so it carries no information about the coefficients below degree s.
+ *
+ * @param chunks - Secret chunks from splitChunks()
+ * @param offsets - The offset of each share; share i gets id i + 1
+ * @param threshold - Number of shares needed in all
+ * @param randomScalar - Returns a uniformly random element of Z_q
+ * @returns Share values indexed [share][chunk]
+ */
+export function dealHierarchical(
+  chunks: readonly bigint[],
+  offsets: readonly number[],
+  threshold: number,
+  randomScalar: () => bigint
+): bigint[][] {
+  const { q } = getGroup();
+  const values: bigint[][] = [];
+
+  for (let i = 0; i < offsets.length; i++) {
+    values[i] = [];
+  }
+
+  for (let c = 0; c < chunks.length; c++) {
+    const coeffs: bigint[] = [chunks[c]];
+    for (let k = 1; k < threshold; k++) {
+      coeffs[k] = randomScalar();
+    }
+
+    for (let i = 0; i < offsets.length; i++) {
+      const x = BigInt(i + 1);
+      let fx = BigInt(0);
+
+      // Horner's method on the coefficients of the derivative, a_k * k! / (k - s)!
+      for (let k = threshold - 1; k >= offsets[i]; k--) {
+        fx = (fx * x + coeffs[k] * fallingFactorial(k, offsets[i])) % q;
+      }
+      values[i][c] = fx;
+    }
+
+    coeffs.fill(BigInt(0));
+  }
+
+  return values;
+}
+
+/**
+ * Recover the chunks from hierarchical share values by Birkhoff interpolation over Z_q.
+ *
+ * @param ids - Distinct share ids
+ * @param offsets - The offset of each share, matching ids
+ * @param threshold - Number of shares needed in all
+ * @param values - Share values indexed [share][chunk], matching ids
+ * @returns Recovered chunks, or null if the shares do not determine the secret
+ */
+export function recoverHierarchical(
+  ids: readonly number[],
+  offsets: readonly number[],
+  threshold: number,
+  values: readonly (readonly bigint[])[]
+): bigint[] | null {
+  const basis = birkhoffBasis(ids, offsets, threshold);
+  const { q } = getGroup();
+  const chunks: bigint[] = [];
+
+  if (!basis) {
+    return null;
+  }
+
+  for (let c = 0; c < values[0].length; c++) {
+    let sum = BigInt(0);
+    for (let i = 0; i < ids.length; i++) {
+      sum = (sum + values[i][c] * basis[i]) % q;
+    }
+    chunks[c] = sum;
+  }
+
+  return chunks;
+}
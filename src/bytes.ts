@@ -0,0 +1,651 @@
+// Binary secrets for @digitaldefiance/secrets
+// Shares of bytes and of byte streams, and of large data encrypted under a shared key or dispersed
+
+import {
+  AES_KEY_LENGTH,
+  aesGcmDecrypt,
+  aesGcmEncrypt,
+  GCM_IV_LENGTH,
+  GCM_TAG_LENGTH,
+} from "./cipher";
+import { combineWords, getShares } from "./core";
+import {
+  CryptoError,
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+} from "./errors";
+import { getField } from "./field";
+import { disperse, MAX_FRAGMENTS, recoverDispersed } from "./ida";
+import { bytesToHex, hexToBytes, validatePadLength } from "./shares";
+import {
+  concatBytes,
+  createChunkReader,
+  createChunkWriter,
+  createFrameParser,
+  encodeFrame,
+  encodeStreamHeader,
+} from "./stream";
+import { bytesToWords, markerPosition, wordsToBytes } from "./words";
+import type { ChunkWriter, FrameParser, StreamFrame, StreamHeader } from "./stream";
+import type {
+  ByteShare,
+  ByteSink,
+  ByteSource,
+  CombineStream,
+  ContextCore,
+  DispersedFragment,
+  FieldArray,
+  LargeShares,
+  SecretsContext,
+  Shares,
+  SplitStream,
+  StreamOptions,
+} from "./types";
+
+const defaultChunkSize = 65536;
+const maxChunkSize = 16777216;
+
+/**
+ * Create the operations of a context on binary secrets.
+ *
+ * @param core - The core of the context
+ * @returns shareBytes(), combineBytes() and their stream, large and dispersed forms
+ */
+export function createByteSharing(
+  core: ContextCore
+): Pick<
+  SecretsContext,
+  | "shareBytes"
+  | "combineBytes"
+  | "shareLarge"
+  | "combineLarge"
+  | "shareDispersed"
+  | "combineDispersed"
+  | "createSplitStream"
+  | "createCombineStream"
+> {
+  const { config, share, combine, random, randomBytes, validateShareCounts } = core;
+
+  function shareBytes(
+    secret: Uint8Array,
+    numShares: number,
+    threshold: number,
+    padLength?: number
+  ): ByteShare[] {
+    padLength = padLength || config.padLength;
+
+    if (!(secret instanceof Uint8Array)) {
+      throw new Error("Secret must be a Uint8Array.");
+    }
+
+    validateShareCounts(numShares, threshold);
+    validatePadLength(padLength);
+
+    const secretWords = bytesToWords(secret, config.bits, padLength, true);
+    const shareWords = getShares(config, config.rng, secretWords, numShares, threshold);
+
+    secretWords.fill(0);
+
+    return shareWords.map(function (words: FieldArray, j: number): ByteShare {
+      return Object.freeze({
+        bits: config.bits,
+        id: j + 1,
+        data: wordsToBytes(words, config.bits),
+      });
+    });
+  }
+
+  function combineBytes(shares: readonly ByteShare[]): Uint8Array {
+    let setBits: number | undefined;
+    const x: number[] = [];
+    const y: FieldArray[] = [];
+
+    for (let i = 0, len = shares.length; i < len; i++) {
+      const share = shares[i];
+      const field = getField(share.bits);
+
+      if (setBits === undefined) {
+        setBits = share.bits;
+      } else if (share.bits !== setBits) {
+        throw new Error("Mismatched shares: Different bit settings.");
+      }
+
+      if (
+        typeof share.id !== "number" ||
+        share.id % 1 !== 0 ||
+        share.id < 1 ||
+        share.id > field.maxShares
+      ) {
+        throw new Error(
+          "Invalid share : Share id must be an integer between 1 and " +
+            field.maxShares +
+            ", inclusive."
+        );
+      }
+
+      if (!(share.data instanceof Uint8Array) || share.data.length === 0) {
+        throw new Error("Invalid share : Share data must be a non-empty Uint8Array.");
+      }
+
+      if (x.indexOf(share.id) === -1) {
+        x.push(share.id);
+        y.push(bytesToWords(share.data, share.bits));
+      }
+    }
+
+    if (setBits === undefined) {
+      return new Uint8Array(0);
+    }
+
+    const result = combineWords(getField(setBits), 0, x, y);
+    const marker = markerPosition(result, setBits);
+    const secret = wordsToBytes(result, setBits, Math.max(marker, 0));
+
+    result.fill(0);
+    return secret;
+  }
+
+  // Encrypt data under a random key, as the nonce, the ciphertext and the tag, and split the key
+  function encryptData(
+    data: Uint8Array,
+    numShares: number,
+    threshold: number
+  ): Promise<LargeShares> {
+    const key = randomBytes(AES_KEY_LENGTH);
+    const iv = randomBytes(GCM_IV_LENGTH);
+
+    return aesGcmEncrypt(key, iv, data).then(
+      function (sealed: Uint8Array): LargeShares {
+        const ciphertext = new Uint8Array(GCM_IV_LENGTH + sealed.length);
+        const shares = share(bytesToHex(key), numShares, threshold);
+
+        key.fill(0);
+        ciphertext.set(iv);
+        ciphertext.set(sealed, GCM_IV_LENGTH);
+
+        return { ciphertext, shares };
+      },
+      function (error: unknown): never {
+        key.fill(0);
+        throw error;
+      }
+    );
+  }
+
+  function decryptData(keyShares: Shares | string[], ciphertext: Uint8Array): Promise<Uint8Array> {
+    const key = hexToBytes(combine(keyShares));
+    // A key of the wrong length can only come from the wrong shares
+    const decrypted =
+      key.length === AES_KEY_LENGTH
+        ? aesGcmDecrypt(
+            key,
+            ciphertext.subarray(0, GCM_IV_LENGTH),
+            ciphertext.subarray(GCM_IV_LENGTH)
+          )
+        : Promise.resolve(null);
+
+    return decrypted.then(
+      function (data: Uint8Array | null): Uint8Array {
+        key.fill(0);
+
+        if (!data) {
+          throw new CryptoError(
+            "AES-256-GCM decryption",
+            "The authentication tag does not match, so the ciphertext or the key shares are wrong."
+          );
+        }
+
+        return data;
+      },
+      function (error: unknown): never {
+        key.fill(0);
+        throw error;
+      }
+    );
+  }
+
+  function shareLarge(
+    data: Uint8Array,
+    numShares: number,
+    threshold: number
+  ): Promise<LargeShares> {
+    return Promise.resolve().then(function (): Promise<LargeShares> {
+      if (!(data instanceof Uint8Array)) {
+        throw new Error("Data must be a Uint8Array.");
+      }
+
+      // Check the counts before encrypting, which takes a while for large data
+      validateShareCounts(numShares, threshold);
+
+      return encryptData(data, numShares, threshold).then(function (
+        encrypted: LargeShares
+      ): LargeShares {
+        return Object.freeze(encrypted);
+      });
+    });
+  }
+
+  function combineLarge(keyShares: Shares | string[], ciphertext: Uint8Array): Promise<Uint8Array> {
+    return Promise.resolve().then(function (): Promise<Uint8Array> {
+      if (
+        !(ciphertext instanceof Uint8Array) ||
+        ciphertext.length < GCM_IV_LENGTH + GCM_TAG_LENGTH
+      ) {
+        throw new Error("Ciphertext must be a Uint8Array from shareLarge().");
+      }
+
+      return decryptData(keyShares, ciphertext);
+    });
+  }
+
+  function shareDispersed(
+    data: Uint8Array,
+    numShares: number,
+    threshold: number
+  ): Promise<DispersedFragment[]> {
+    return Promise.resolve().then(function (): Promise<DispersedFragment[]> {
+      if (!(data instanceof Uint8Array)) {
+        throw new Error("Data must be a Uint8Array.");
+      }
+
+      validateShareCounts(numShares, threshold);
+      if (numShares > MAX_FRAGMENTS) {
+        throw new Error("Data can be dispersed into at most " + MAX_FRAGMENTS + " fragments.");
+      }
+
+      return encryptData(data, numShares, threshold).then(function (encrypted: {
+        ciphertext: Uint8Array;
+        shares: string[];
+      }): DispersedFragment[] {
+        const { ciphertext, shares } = encrypted;
+        const setId = parseInt(random(32), 16);
+
+        return disperse(ciphertext, numShares, threshold).map(function (
+          fragment: Uint8Array,
+          i: number
+        ): DispersedFragment {
+          return Object.freeze({
+            id: i + 1,
+            setId,
+            threshold,
+            length: ciphertext.length,
+            share: shares[i],
+            data: fragment,
+          });
+        });
+      });
+    });
+  }
+
+  function combineDispersed(fragments: readonly DispersedFragment[]): Promise<Uint8Array> {
+    return Promise.resolve().then(function (): Promise<Uint8Array> {
+      const ids: number[] = [];
+      const keyShares: string[] = [];
+      const parts: Uint8Array[] = [];
+
+      if (!Array.isArray(fragments) || fragments.length === 0) {
+        throw new Error(
+          "Fragments must be a non-empty Array of the fragments from shareDispersed()."
+        );
+      }
+
+      const { setId, threshold, length } = fragments[0];
+
+      fragments.forEach(function (fragment: DispersedFragment): void {
+        if (
+          fragment.setId !== setId ||
+          fragment.threshold !== threshold ||
+          fragment.length !== length ||
+          fragment.data.length !== fragments[0].data.length
+        ) {
+          throw new MismatchedSharesError("The fragments are from different splits.");
+        }
+
+        // Only a threshold of distinct fragments is needed
+        if (ids.indexOf(fragment.id) === -1 && ids.length < threshold) {
+          ids.push(fragment.id);
+          keyShares.push(fragment.share);
+          parts.push(fragment.data);
+        }
+      });
+
+      if (ids.length < threshold) {
+        throw new InsufficientSharesError(threshold, ids.length);
+      }
+
+      return decryptData(keyShares, recoverDispersed(ids, parts, length));
+    });
+  }
+
+  function createSplitStream(
+    numShares: number,
+    threshold: number,
+    options?: StreamOptions
+  ): SplitStream {
+    const chunkSize =
+      options && options.chunkSize !== undefined ? options.chunkSize : defaultChunkSize;
+
+    validateShareCounts(numShares, threshold);
+    if (
+      typeof chunkSize !== "number" ||
+      chunkSize % 1 !== 0 ||
+      chunkSize < 1 ||
+      chunkSize > maxChunkSize
+    ) {
+      throw new Error(
+        "Chunk size must be an integer between 1 and " + maxChunkSize + ", inclusive."
+      );
+    }
+
+    const setId = parseInt(random(32), 16);
+    const pending = new Uint8Array(chunkSize);
+    let pendingLength = 0;
+    let seq = 0;
+    let started = false;
+    let ended = false;
+
+    // The parts of each share stream in this write, starting with the headers
+    function begin(): Uint8Array[][] {
+      const parts: Uint8Array[][] = [];
+
+      if (ended) {
+        throw new Error("This split stream has ended.");
+      }
+
+      for (let j = 0; j < numShares; j++) {
+        parts[j] = started
+          ? []
+          : [encodeStreamHeader({ bits: config.bits, id: j + 1, threshold, setId, chunkSize })];
+      }
+      started = true;
+
+      return parts;
+    }
+
+    // Split the pending chunk into a frame of each share stream
+    function flush(parts: Uint8Array[][]): void {
+      const shares = shareBytes(pending.subarray(0, pendingLength), numShares, threshold);
+
+      for (let j = 0; j < numShares; j++) {
+        parts[j].push(encodeFrame(seq, shares[j].data));
+      }
+      seq++;
+      pendingLength = 0;
+    }
+
+    function write(chunk: Uint8Array): Uint8Array[] {
+      if (!(chunk instanceof Uint8Array)) {
+        throw new Error("Chunks must be Uint8Arrays.");
+      }
+
+      const parts = begin();
+
+      for (let offset = 0; offset < chunk.length; ) {
+        const length = Math.min(chunkSize - pendingLength, chunk.length - offset);
+
+        pending.set(chunk.subarray(offset, offset + length), pendingLength);
+        pendingLength += length;
+        offset += length;
+        if (pendingLength === chunkSize) {
+          flush(parts);
+        }
+      }
+
+      return parts.map(concatBytes);
+    }
+
+    function end(): Uint8Array[] {
+      const parts = begin();
+
+      if (pendingLength > 0) {
+        flush(parts);
+      }
+      for (let j = 0; j < numShares; j++) {
+        parts[j].push(encodeFrame(seq, new Uint8Array(0)));
+      }
+
+      pending.fill(0);
+      ended = true;
+      return parts.map(concatBytes);
+    }
+
+    function pipe(input: ByteSource, outputs: readonly ByteSink[]): Promise<void> {
+      if (!Array.isArray(outputs) || outputs.length !== numShares) {
+        throw new Error("Outputs must be an Array of " + numShares + " streams, one per share.");
+      }
+
+      const read = createChunkReader(input);
+      const writers = outputs.map(createChunkWriter);
+
+      // Every share stream takes its part before the next chunk is read
+      function send(parts: Uint8Array[]): Promise<void> {
+        return Promise.all(
+          writers.map(function (writer: ChunkWriter, j: number): Promise<void> {
+            return parts[j].length > 0 ? writer.write(parts[j]) : Promise.resolve();
+          })
+        ).then(function (): void {});
+      }
+
+      function close(): Promise<void> {
+        return Promise.all(
+          writers.map(function (writer: ChunkWriter): Promise<void> {
+            return writer.close();
+          })
+        ).then(function (): void {});
+      }
+
+      function step(): Promise<void> {
+        return read().then(function (chunk: Uint8Array | null): Promise<void> {
+          return chunk === null ? send(end()).then(close) : send(write(chunk)).then(step);
+        });
+      }
+
+      return step();
+    }
+
+    return Object.freeze({ write, end, pipe });
+  }
+
+  function createCombineStream(): CombineStream {
+    const parsers: FrameParser[] = [];
+    const selected: number[] = [];
+    const ids: number[] = [];
+    let header: StreamHeader | undefined;
+    let seq = 0;
+    let finished = false;
+
+    function complete(): boolean {
+      return header !== undefined && selected.length === header.threshold;
+    }
+
+    // Combine the first threshold of streams with distinct ids
+    function select(index: number): void {
+      const next = parsers[index].header();
+
+      if (!next || selected.indexOf(index) !== -1) {
+        return;
+      }
+
+      if (!header) {
+        header = next;
+      } else if (
+        next.setId !== header.setId ||
+        next.bits !== header.bits ||
+        next.threshold !== header.threshold ||
+        next.chunkSize !== header.chunkSize
+      ) {
+        throw new MismatchedSharesError("The streams are from different splits.");
+      }
+
+      if (ids.indexOf(next.id) === -1) {
+        selected.push(index);
+        ids.push(next.id);
+      }
+    }
+
+    // Combine every chunk whose frames have arrived from all the selected streams
+    function drain(): Uint8Array {
+      const { bits } = header as StreamHeader;
+      const chunks: Uint8Array[] = [];
+
+      while (!finished) {
+        const frames: StreamFrame[] = [];
+        let last = 0;
+
+        for (let k = 0; k < selected.length; k++) {
+          const frame = parsers[selected[k]].frame();
+
+          if (!frame) {
+            return concatBytes(chunks);
+          }
+          if (frame.seq !== seq) {
+            throw new InvalidShareError(
+              "input " + selected[k],
+              "Chunk " +
+                frame.seq +
+                " of input " +
+                selected[k] +
+                " is out of order, expected chunk " +
+                seq +
+                "."
+            );
+          }
+          last += frame.data.length === 0 ? 1 : 0;
+          frames.push(frame);
+        }
+
+        if (last === frames.length) {
+          finished = true;
+        } else if (last > 0) {
+          throw new InvalidShareError("", "The share streams end at different chunks.");
+        } else {
+          chunks.push(
+            combineBytes(
+              frames.map(function (frame: StreamFrame, k: number): ByteShare {
+                return { bits, id: ids[k], data: frame.data };
+              })
+            )
+          );
+        }
+
+        for (let k = 0; k < selected.length; k++) {
+          parsers[selected[k]].shift();
+        }
+        seq++;
+      }
+
+      return concatBytes(chunks);
+    }
+
+    function write(index: number, bytes: Uint8Array): Uint8Array {
+      if (!(bytes instanceof Uint8Array)) {
+        throw new Error("Chunks must be Uint8Arrays.");
+      }
+
+      // Streams beyond the threshold are not needed
+      if (finished || (complete() && selected.indexOf(index) === -1)) {
+        return new Uint8Array(0);
+      }
+
+      parsers[index] = parsers[index] || createFrameParser("input " + index);
+      parsers[index].push(bytes);
+      if (!complete()) {
+        select(index);
+      }
+
+      return complete() ? drain() : new Uint8Array(0);
+    }
+
+    function end(): void {
+      if (finished) {
+        return;
+      }
+      if (!header) {
+        throw new Error("No share stream has arrived.");
+      }
+      if (!complete()) {
+        throw new InsufficientSharesError(header.threshold, selected.length);
+      }
+
+      throw new InvalidShareError("", "The share streams ended before their last chunk.");
+    }
+
+    function pipe(inputs: readonly ByteSource[], output: ByteSink): Promise<void> {
+      if (!Array.isArray(inputs) || inputs.length === 0) {
+        throw new Error("Inputs must be a non-empty Array of share streams.");
+      }
+
+      const readers = inputs.map(createChunkReader);
+      const writer = createChunkWriter(output);
+      const exhausted: boolean[] = [];
+
+      // Until the split is known, the first input without a header is read;
+      // then the selected inputs whose next frame has not arrived
+      function wanted(): number[] {
+        if (complete()) {
+          return selected.filter(function (index: number): boolean {
+            return !parsers[index].frame();
+          });
+        }
+
+        for (let i = 0; i < inputs.length; i++) {
+          if (!exhausted[i] && !(parsers[i] && parsers[i].header())) {
+            return [i];
+          }
+        }
+
+        return [];
+      }
+
+      function step(): Promise<void> {
+        if (finished) {
+          return writer.close();
+        }
+
+        const indexes = wanted();
+
+        if (indexes.length === 0) {
+          end();
+        }
+
+        return Promise.all(
+          indexes.map(function (index: number): Promise<Uint8Array | null> {
+            return readers[index]();
+          })
+        ).then(function (chunks: (Uint8Array | null)[]): Promise<void> {
+          const recovered: Uint8Array[] = [];
+
+          chunks.forEach(function (chunk: Uint8Array | null, k: number): void {
+            if (chunk !== null) {
+              recovered.push(write(indexes[k], chunk));
+            } else if (complete()) {
+              end();
+            } else {
+              exhausted[indexes[k]] = true;
+            }
+          });
+
+          const bytes = concatBytes(recovered);
+
+          return (bytes.length > 0 ? writer.write(bytes) : Promise.resolve()).then(step);
+        });
+      }
+
+      return Promise.resolve().then(step);
+    }
+
+    return Object.freeze({ write, end, pipe });
+  }
+
+  return Object.freeze({
+    shareBytes,
+    combineBytes,
+    shareLarge,
+    combineLarge,
+    shareDispersed,
+    combineDispersed,
+    createSplitStream,
+    createCombineStream,
+  });
+}
@@ -0,0 +1,91 @@
+// Bytewords for @digitaldefiance/secrets
+// Blockchain Commons' 256 four letter words, one per byte, used by Uniform Resources (BCR-2020-012)
+
+import { crc32Bytes } from "./checksum";
+
+/**
+ * The bytewords, in byte order; every word is identified by its first and last letters
+ */
+export const BYTEWORDS: readonly string[] = Object.freeze(
+  (
+    "able acid also apex aqua arch atom aunt away axis back bald barn belt beta bias " +
+    "blue body brag brew bulb buzz calm cash cats chef city claw code cola cook cost " +
+    "crux curl cusp cyan dark data days deli dice diet door down draw drop drum dull " +
+    "duty each easy echo edge epic even exam exit eyes fact fair fern figs film fish " +
+    "fizz flap flew flux foxy free frog fuel fund gala game gear gems gift girl glow " +
+    "good gray grim guru gush gyro half hang hard hawk heat help high hill holy hope " +
+    "horn huts iced idea idle inch inky into iris iron item jade jazz join jolt jowl " +
+    "judo jugs jump junk jury keep keno kept keys kick kiln king kite kiwi knob lamb " +
+    "lava lazy leaf legs liar limp lion list logo loud love luau luck lung main many " +
+    "math maze memo menu meow mild mint miss monk nail navy need news next noon note " +
+    "numb obey oboe omit onyx open oval owls paid part peck play plus poem pool pose " +
+    "puff puma purr quad quiz race ramp real redo rich road rock roof ruby ruin runs " +
+    "rust safe saga scar sets silk skew slot soap solo song stub surf swan taco task " +
+    "taxi tent tied time tiny toil tomb toys trip tuna twin ugly undo unit urge user " +
+    "vast very veto vial vibe view visa void vows wall wand warm wasp wave waxy webs " +
+    "what when whiz wolf work yank yawn yell yoga yurt zaps zero zest zinc zone zoom"
+  ).split(" ")
+);
+
+// Byte value by two letter minimal form
+const minimalValues: { [letters: string]: number } = {};
+for (let i = 0; i < BYTEWORDS.length; i++) {
+  minimalValues[BYTEWORDS[i].charAt(0) + BYTEWORDS[i].charAt(3)] = i;
+}
+
+/**
+ * Encode bytes in the minimal bytewords style: the first and last letter of
+ * each word, followed by the words of the CRC-32 of the bytes.
+ *
+ * @param bytes - The bytes to encode
+ * @returns Lowercase letters, two per byte plus eight for the checksum
+ */
+export function encodeBytewordsMinimal(bytes: Uint8Array): string {
+  const crc = crc32Bytes(bytes);
+  const values = Array.prototype.slice.call(bytes) as number[];
+  let result = "";
+
+  values.push(crc >>> 24, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff);
+  for (let i = 0; i < values.length; i++) {
+    result += BYTEWORDS[values[i]].charAt(0) + BYTEWORDS[values[i]].charAt(3);
+  }
+
+  return result;
+}
+
+/**
+ * Decode minimal bytewords and verify their checksum.
+ *
+ * @param str - Letters from encodeBytewordsMinimal(), in either case
+ * @returns The bytes, without the checksum
+ * @throws {Error} If a pair of letters is not a byteword or the checksum does not match
+ */
+export function decodeBytewordsMinimal(str: string): Uint8Array {
+  const lower = str.toLowerCase();
+
+  if (lower.length % 2 || lower.length < 10) {
+    throw new Error("Invalid bytewords length.");
+  }
+
+  const bytes = new Uint8Array(lower.length / 2 - 4);
+  let crc = 0;
+
+  for (let i = 0; i < lower.length; i += 2) {
+    const value = minimalValues[lower.slice(i, i + 2)];
+
+    if (value === undefined) {
+      throw new Error('Invalid byteword "' + str.slice(i, i + 2) + '".');
+    }
+    if (i / 2 < bytes.length) {
+      bytes[i / 2] = value;
+    } else {
+      crc = crc * 256 + value;
+    }
+  }
+
+  if (crc !== crc32Bytes(bytes)) {
+    throw new Error("Invalid bytewords checksum.");
+  }
+
+  return bytes;
+}
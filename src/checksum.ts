@@ -0,0 +1,78 @@
+// Share integrity checksums for @digitaldefiance/secrets
+// CRC-32 over the share header and data, appended to public share strings
+
+/**
+ * Character separating the share data from its checksum
+ */
+export const CHECKSUM_SEPARATOR = "-";
+
+/**
+ * Number of hex characters in a share checksum
+ */
+export const CHECKSUM_LENGTH = 8;
+
+// Built on first use, like the Galois Field tables
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  return crcTable;
+}
+
+/**
+ * Compute the CRC-32 (IEEE 802.3) of an ASCII string.
+ *
+ * @param str - String whose character codes are all below 256
+ * @returns The unsigned 32-bit checksum
+ */
+export function crc32(str: string): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+
+  for (let i = 0; i < str.length; i++) {
+    crc = table[(crc ^ str.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compute the CRC-32 (IEEE 802.3) of bytes.
+ *
+ * @param bytes - The bytes to checksum
+ * @returns The unsigned 32-bit checksum
+ */
+export function crc32Bytes(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compute the checksum of a share string body (bits, id and data).
+ *
+ * The body is lowercased first, so a share keeps its checksum when its hex
+ * digits change case.
+ *
+ * @param body - The share string without separator and checksum
+ * @returns CHECKSUM_LENGTH lowercase hex characters
+ */
+export function shareChecksum(body: string): string {
+  const hex = crc32(body.toLowerCase()).toString(16);
+  return new Array(CHECKSUM_LENGTH - hex.length + 1).join("0") + hex;
+}
@@ -0,0 +1,267 @@
+// AES-256-GCM for @digitaldefiance/secrets
+// The crypto module of Node.js where it is available and WebCrypto everywhere else, so that
+// keys never pass through table lookups in JavaScript
+
+import { CryptoError } from "./errors";
+
+/**
+ * Size of an AES-256 key in bytes
+ */
+export const AES_KEY_LENGTH = 32;
+
+/**
+ * Size of a GCM nonce in bytes
+ */
+export const GCM_IV_LENGTH = 12;
+
+/**
+ * Size of a GCM authentication tag in bytes
+ */
+export const GCM_TAG_LENGTH = 16;
+
+// The parts of a Node.js Cipher or Decipher in GCM mode that are used here
+interface NodeGcm {
+  setAAD(aad: Uint8Array): void;
+  update(data: Uint8Array): Uint8Array;
+  final(): Uint8Array;
+  getAuthTag(): Uint8Array;
+  setAuthTag(tag: Uint8Array): void;
+}
+
+/**
+ * The parts of the crypto module of Node.js that the library uses
+ */
+export interface NodeCrypto {
+  createCipheriv(
+    algorithm: string,
+    key: Uint8Array,
+    iv: Uint8Array,
+    options: { authTagLength: number }
+  ): NodeGcm;
+  createDecipheriv(
+    algorithm: string,
+    key: Uint8Array,
+    iv: Uint8Array,
+    options: { authTagLength: number }
+  ): NodeGcm;
+  pbkdf2Sync(
+    password: Uint8Array,
+    salt: Uint8Array,
+    iterations: number,
+    keyLength: number,
+    digest: string
+  ): Uint8Array;
+  randomBytes(size: number): Uint8Array;
+  scryptSync?(
+    password: Uint8Array,
+    salt: Uint8Array,
+    keyLength: number,
+    options: { N: number; r: number; p: number; maxmem: number }
+  ): Uint8Array;
+}
+
+/**
+ * Get the crypto module of Node.js.
+ *
+ * @returns The module, or null outside Node.js
+ */
+export function getNodeCrypto(): NodeCrypto | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- an optional module, missing in browsers
+    const nodeCrypto = require("crypto");
+
+    return typeof nodeCrypto.createCipheriv === "function" ? nodeCrypto : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get WebCrypto.
+ *
+ * @returns The SubtleCrypto interface, or null where it is missing, as on
+ *          pages not served over HTTPS
+ */
+export function getSubtle(): SubtleCrypto | null {
+  return typeof crypto !== "undefined" && crypto.subtle ? crypto.subtle : null;
+}
+
+function unavailable(operation: string): CryptoError {
+  return new CryptoError(
+    operation,
+    "Neither the crypto module of Node.js nor WebCrypto is available."
+  );
+}
+
+// A copy in an ArrayBuffer of its own, as WebCrypto takes
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return new Uint8Array(bytes).buffer;
+}
+
+function importKey(subtle: SubtleCrypto, key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return subtle.importKey("raw", toBuffer(key), "AES-GCM", false, [usage]);
+}
+
+function gcmParams(iv: Uint8Array, aad?: Uint8Array): AesGcmParams {
+  return aad
+    ? { name: "AES-GCM", iv: toBuffer(iv), additionalData: toBuffer(aad), tagLength: 128 }
+    : { name: "AES-GCM", iv: toBuffer(iv), tagLength: 128 };
+}
+
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(first.length + second.length);
+
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes;
+}
+
+function nodeDecrypt(
+  nodeCrypto: NodeCrypto,
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  aad?: Uint8Array
+): Uint8Array | null {
+  if (data.length < GCM_TAG_LENGTH) {
+    return null;
+  }
+
+  const decipher = nodeCrypto.createDecipheriv("aes-256-gcm", key, iv, {
+    authTagLength: GCM_TAG_LENGTH,
+  });
+
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+  decipher.setAuthTag(data.subarray(data.length - GCM_TAG_LENGTH));
+
+  const plaintext = decipher.update(data.subarray(0, data.length - GCM_TAG_LENGTH));
+
+  try {
+    return concat(plaintext, decipher.final());
+  } catch {
+    plaintext.fill(0);
+    return null;
+  }
+}
+
+/**
+ * Encrypt with AES-256-GCM.
+ *
+ * @param key - AES_KEY_LENGTH byte key
+ * @param iv - GCM_IV_LENGTH byte nonce, never reused with the same key
+ * @param plaintext - Data to encrypt
+ * @param aad - Additional data to authenticate but not encrypt
+ * @returns A promise of the ciphertext followed by the GCM_TAG_LENGTH byte tag
+ * @throws {CryptoError} If neither Node.js nor WebCrypto provides AES-GCM
+ */
+export function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad?: Uint8Array
+): Promise<Uint8Array> {
+  const nodeCrypto = getNodeCrypto();
+  const subtle = getSubtle();
+
+  return Promise.resolve().then(function (): Uint8Array | Promise<Uint8Array> {
+    if (nodeCrypto) {
+      const cipher = nodeCrypto.createCipheriv("aes-256-gcm", key, iv, {
+        authTagLength: GCM_TAG_LENGTH,
+      });
+
+      if (aad) {
+        cipher.setAAD(aad);
+      }
+
+      const ciphertext = concat(cipher.update(plaintext), cipher.final());
+
+      return concat(ciphertext, cipher.getAuthTag());
+    }
+    if (!subtle) {
+      throw unavailable("AES-256-GCM encryption");
+    }
+
+    return importKey(subtle, key, "encrypt")
+      .then(function (cryptoKey: CryptoKey): Promise<ArrayBuffer> {
+        return subtle.encrypt(gcmParams(iv, aad), cryptoKey, toBuffer(plaintext));
+      })
+      .then(function (sealed: ArrayBuffer): Uint8Array {
+        return new Uint8Array(sealed);
+      });
+  });
+}
+
+/**
+ * Decrypt with AES-256-GCM, checking the tag.
+ *
+ * @param key - AES_KEY_LENGTH byte key
+ * @param iv - GCM_IV_LENGTH byte nonce
+ * @param data - Ciphertext followed by the GCM_TAG_LENGTH byte tag
+ * @param aad - Additional data the tag also covers
+ * @returns A promise of the plaintext, or of null if the tag does not match
+ * @throws {CryptoError} If neither Node.js nor WebCrypto provides AES-GCM
+ */
+export function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  aad?: Uint8Array
+): Promise<Uint8Array | null> {
+  const nodeCrypto = getNodeCrypto();
+  const subtle = getSubtle();
+
+  return Promise.resolve().then(function (): Uint8Array | null | Promise<Uint8Array | null> {
+    if (nodeCrypto) {
+      return nodeDecrypt(nodeCrypto, key, iv, data, aad);
+    }
+    if (data.length < GCM_TAG_LENGTH) {
+      return null;
+    }
+    if (!subtle) {
+      throw unavailable("AES-256-GCM decryption");
+    }
+
+    return importKey(subtle, key, "decrypt")
+      .then(function (cryptoKey: CryptoKey): Promise<ArrayBuffer> {
+        return subtle.decrypt(gcmParams(iv, aad), cryptoKey, toBuffer(data));
+      })
+      .then(
+        function (plaintext: ArrayBuffer): Uint8Array {
+          return new Uint8Array(plaintext);
+        },
+        function (): null {
+          return null;
+        }
+      );
+  });
+}
+
+/**
+ * Decrypt with AES-256-GCM synchronously, which only Node.js provides.
+ *
+ * @param key - AES_KEY_LENGTH byte key
+ * @param iv - GCM_IV_LENGTH byte nonce
+ * @param data - Ciphertext followed by the GCM_TAG_LENGTH byte tag
+ * @param aad - Additional data the tag also covers
+ * @returns The plaintext, or null if the tag does not match
+ * @throws {CryptoError} Outside Node.js
+ */
+export function aesGcmDecryptSync(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  aad?: Uint8Array
+): Uint8Array | null {
+  const nodeCrypto = getNodeCrypto();
+
+  if (!nodeCrypto) {
+    throw new CryptoError(
+      "AES-256-GCM decryption",
+      "The crypto module of Node.js is not available."
+    );
+  }
+
+  return nodeDecrypt(nodeCrypto, key, iv, data, aad);
+}
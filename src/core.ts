@@ -0,0 +1,708 @@
+// Context core for @digitaldefiance/secrets
+// Splits, parses and combines shares with the configuration of a context, for its other operations
+
+import { CHECKSUM_LENGTH, CHECKSUM_SEPARATOR, shareChecksum } from "./checksum";
+import { GCM_IV_LENGTH, getNodeCrypto } from "./cipher";
+import { decodeShareString, detectEncoding } from "./encodings";
+import {
+  CryptoError,
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+} from "./errors";
+import { createWords, getField, hornerWords, lagrangeBasis, lagrangeWords } from "./field";
+import {
+  defaultKdf,
+  isProtectedShare,
+  protectShareString,
+  readEnvelope,
+  SALT_LENGTH,
+  unprotectShareString,
+  unprotectShareStringSync,
+} from "./protect";
+import { fillRandomWords } from "./rng";
+import { robustInterpolate } from "./robust";
+import {
+  bin2hex,
+  constructPublicShareString,
+  defaults,
+  padLeft,
+  shareBlockWords,
+  shareFormatVersion,
+  shareSetIdLength,
+  validateEncoding,
+  validatePadLength,
+} from "./shares";
+import { hexToWords, markerPosition, wordsToHex } from "./words";
+import type {
+  CombineOptions,
+  ContextCore,
+  FieldArray,
+  GaloisField,
+  HexString,
+  InternalConfig,
+  PassphraseResolver,
+  ProtectOptions,
+  RNGFunction,
+  RobustCombineResult,
+  SecretsConfig,
+  ShareComponents,
+  ShareEncoding,
+  Shares,
+} from "./types";
+
+/**
+ * Evaluate a random polynomial with the given constant term at x = 1 to
+ * numShares, or at the given ids.
+ *
+ * @param field - Field of the shares
+ * @param rng - RNG for the coefficients
+ * @param secret - Constant terms, one polynomial per word
+ * @param numShares - Number of shares
+ * @param threshold - Number of shares needed to combine
+ * @param ids - The x-coordinates of the shares (default: 1 to numShares)
+ * @returns The words of each share
+ */
+export function getShares(
+  field: GaloisField,
+  rng: RNGFunction,
+  secret: FieldArray,
+  numShares: number,
+  threshold: number,
+  ids?: readonly number[]
+): FieldArray[] {
+  const shares: FieldArray[] = [];
+  const coefficients = createCoefficients(field, rng, secret, threshold);
+
+  for (let j = 0; j < numShares; j++) {
+    shares[j] = createWords(field.bits, secret.length);
+  }
+
+  for (let start = 0; start < secret.length; start += shareBlockWords) {
+    const rows = coefficients.next(start);
+    const len = rows[0].length;
+
+    for (let j = 0; j < numShares; j++) {
+      hornerWords(field, ids ? ids[j] : j + 1, rows, shares[j].subarray(start, start + len));
+    }
+  }
+
+  coefficients.clear();
+
+  return shares;
+}
+
+/**
+ * Draw the random coefficients of a split one block of shareBlockWords
+ * secret words at a time, in the same order for sync and async splits.
+ *
+ * @param field - Field of the shares
+ * @param rng - RNG for the coefficients
+ * @param secret - Constant terms, one polynomial per word
+ * @param threshold - Number of shares needed to combine
+ * @returns next(start), the coefficient rows of the block at start, and clear()
+ */
+export function createCoefficients(
+  field: GaloisField,
+  rng: RNGFunction,
+  secret: FieldArray,
+  threshold: number
+): { next(start: number): FieldArray[]; clear(): void } {
+  const block = Math.min(secret.length, shareBlockWords);
+  const numRandom = threshold - 1;
+  const random = createWords(field.bits, block * numRandom);
+  const coeffs: FieldArray[] = [];
+  const rows: FieldArray[] = [];
+
+  for (let k = 1; k < threshold; k++) {
+    coeffs[k] = createWords(field.bits, block);
+  }
+
+  // The rows of the block at start, from the constant term up; they are
+  // overwritten by the next block
+  function next(start: number): FieldArray[] {
+    const len = Math.min(block, secret.length - start);
+
+    // Random words are drawn word by word, coefficient by coefficient, as the
+    // original per-chunk implementation did, so custom RNGs see the same calls
+    fillRandomWords(rng, field.bits, random.subarray(0, len * numRandom));
+
+    rows[0] = secret.subarray(start, start + len);
+    for (let k = 1; k < threshold; k++) {
+      const row = coeffs[k];
+      for (let w = 0; w < len; w++) {
+        row[w] = random[w * numRandom + k - 1];
+      }
+      rows[k] = row.subarray(0, len);
+    }
+
+    return rows;
+  }
+
+  function clear(): void {
+    random.fill(0);
+    for (let k = 1; k < threshold; k++) {
+      coeffs[k].fill(0);
+    }
+  }
+
+  return { next, clear };
+}
+
+/**
+ * Interpolate the words of shares at a point.
+ *
+ * @param field - Field of the shares
+ * @param at - The x-coordinate, 0 for the secret
+ * @param x - The x-coordinates of the shares
+ * @param y - The words of each share
+ * @returns The words at `at`
+ */
+export function combineWords(
+  field: GaloisField,
+  at: number,
+  x: readonly number[],
+  y: readonly FieldArray[]
+): FieldArray {
+  let numWords = 0;
+  for (let i = 0; i < y.length; i++) {
+    numWords = Math.max(numWords, y[i].length);
+  }
+
+  const result = createWords(field.bits, numWords);
+  lagrangeWords(field, lagrangeBasis(field, at, x), y, result);
+
+  return result;
+}
+
+/**
+ * Create the core of a context: share strings parsed, split and combined in
+ * its field with its RNG, on which every other operation of the context builds.
+ *
+ * @param config - The resolved configuration of the context
+ * @returns The frozen core
+ */
+export function createCore(config: InternalConfig): ContextCore {
+  function extractShareComponents(share: string): ShareComponents {
+    const encoding = typeof share === "string" ? detectEncoding(share) : "hex";
+    let bits: number;
+    let id: number;
+    let idLen: number;
+    let max: number;
+    let regexStr: string;
+    let shareComponents: RegExpExecArray | null;
+    let version: number | undefined;
+
+    // Other encodings are parsed in their hex form
+    share = decodeShareString(share, encoding);
+
+    // Versioned shares start with "v" and a base36 format version
+    if (/^[vV]/.test(share)) {
+      version = parseInt(share.charAt(1), 36);
+
+      if (!(version >= 1 && version <= shareFormatVersion)) {
+        throw new InvalidShareError(
+          share,
+          "Unsupported share format version " + share.charAt(1) + "."
+        );
+      }
+    }
+
+    const offset = version === undefined ? 0 : 2;
+
+    bits = parseInt(share.substr(offset, 1), 36);
+
+    if (
+      bits &&
+      (typeof bits !== "number" ||
+        bits % 1 !== 0 ||
+        bits < defaults.minBits ||
+        bits > defaults.maxBits)
+    ) {
+      throw new Error(
+        "Invalid share : Number of bits must be an integer between " +
+          defaults.minBits +
+          " and " +
+          defaults.maxBits +
+          ", inclusive."
+      );
+    }
+
+    max = Math.pow(2, bits) - 1;
+    idLen = (Math.pow(2, bits) - 1).toString(config.radix).length;
+    regexStr =
+      (version === undefined ? "^" : "^[vV][0-9a-zA-Z]") +
+      "([a-kA-K3-9]{1})" +
+      (version === undefined
+        ? ""
+        : "([a-fA-F0-9]{" + idLen + "})([a-fA-F0-9]{" + shareSetIdLength + "})") +
+      "([a-fA-F0-9]{" +
+      idLen +
+      "})([a-fA-F0-9]+)(?:" +
+      CHECKSUM_SEPARATOR +
+      "([a-fA-F0-9]{" +
+      CHECKSUM_LENGTH +
+      "}))?$";
+    shareComponents = new RegExp(regexStr).exec(share);
+
+    // Index of the id group; the threshold and set id groups precede it in versioned shares
+    const g = offset + 2;
+
+    if (shareComponents) {
+      id = parseInt(shareComponents[g], config.radix);
+    }
+
+    if (typeof id! !== "number" || id! % 1 !== 0 || id! < 1 || id! > max) {
+      throw new Error(
+        "Invalid share : Share id must be an integer between 1 and " +
+          config.maxShares +
+          ", inclusive."
+      );
+    }
+
+    if (!shareComponents || !shareComponents[g + 1]) {
+      throw new Error("The share data provided is invalid : " + share);
+    }
+
+    const components: {
+      -readonly [K in keyof ShareComponents]: ShareComponents[K];
+    } = {
+      bits: bits,
+      id: id!,
+      data: shareComponents[g + 1],
+    };
+
+    if (version !== undefined) {
+      const threshold = parseInt(shareComponents[2], config.radix);
+
+      if (threshold < 2 || threshold > max) {
+        throw new Error(
+          "Invalid share : Threshold must be an integer between 2 and " + max + ", inclusive."
+        );
+      }
+
+      components.version = version;
+      components.threshold = threshold;
+      components.setId = shareComponents[3].toLowerCase();
+    }
+
+    if (shareComponents[g + 2]) {
+      const body = share.slice(0, share.length - CHECKSUM_LENGTH - CHECKSUM_SEPARATOR.length);
+
+      if (shareChecksum(body) !== shareComponents[g + 2].toLowerCase()) {
+        throw new InvalidShareError(
+          share,
+          "Checksum mismatch, share with id " + id! + " is corrupted."
+        );
+      }
+
+      components.checksum = shareComponents[g + 2];
+    }
+
+    if (encoding !== "hex") {
+      components.encoding = encoding;
+    }
+
+    return components;
+  }
+
+  // Throw unless a share belongs to the same split as the first share of a set
+  function checkShareSet(first: ShareComponents, share: ShareComponents): void {
+    if (share.bits !== first.bits) {
+      throw new Error("Mismatched shares: Different bit settings.");
+    }
+
+    if (share.setId !== first.setId) {
+      throw new MismatchedSharesError(
+        first.setId === undefined || share.setId === undefined
+          ? "Shares with and without a header cannot be combined."
+          : "Different share sets " + first.setId + " and " + share.setId + "."
+      );
+    }
+
+    if (share.threshold !== first.threshold) {
+      throw new MismatchedSharesError("Different thresholds.");
+    }
+  }
+
+  // The passphrase of a protected share given to method, or the one it resolves to
+  function resolvePassphrase(
+    protectedShare: string,
+    passphrase: string | PassphraseResolver | undefined,
+    method: string
+  ): string {
+    if (passphrase === undefined) {
+      throw new InvalidShareError(
+        protectedShare,
+        "The share is protected; pass a passphrase to " + method + " to use it."
+      );
+    }
+
+    const resolved =
+      typeof passphrase === "function" ? passphrase(readEnvelope(protectedShare).info) : passphrase;
+
+    validatePassphrase(resolved);
+    return resolved;
+  }
+
+  // Parse the shares of one split into the distinct x-coordinates and their data words,
+  // unprotecting protected shares with the passphrase, or the passphrases it resolves
+  function parseShares(
+    shares: Shares | string[],
+    passphrase?: string | PassphraseResolver
+  ): {
+    header?: ShareComponents;
+    x: number[];
+    y: FieldArray[];
+  } {
+    let header: ShareComponents | undefined;
+    let share: ShareComponents;
+    const x: number[] = [];
+    const y: FieldArray[] = [];
+
+    for (let i = 0, len = shares.length; i < len; i++) {
+      let value = shares[i];
+
+      if (isProtectedShare(value)) {
+        const resolved = resolvePassphrase(value, passphrase, "combine()");
+
+        // Only Node.js decrypts synchronously; WebCrypto needs combineAsync()
+        if (!getNodeCrypto()) {
+          throw new CryptoError(
+            "Protected share decryption",
+            "combine() needs the crypto module of Node.js; use combineAsync() instead."
+          );
+        }
+        value = unprotectShareStringSync(value, resolved);
+      }
+
+      share = extractShareComponents(value);
+
+      if (header === undefined) {
+        header = share;
+      } else {
+        checkShareSet(header, share);
+      }
+
+      if (x.indexOf(share.id) === -1) {
+        x.push(share.id);
+        y.push(hexToWords(share.data, header.bits));
+      }
+    }
+
+    return { header, x, y };
+  }
+
+  function combine(shares: Shares | string[], at?: number, options?: CombineOptions): string {
+    const { header, x, y } = parseShares(shares, options && options.passphrase);
+    const point = at || 0;
+
+    if (header === undefined) {
+      return "";
+    }
+
+    if (header.threshold !== undefined && x.length < header.threshold) {
+      throw new InsufficientSharesError(header.threshold, x.length);
+    }
+
+    // Shares carry their own field size, which may differ from this context's
+    const field = getField(header.bits);
+    const result = combineWords(field, point, x, y);
+
+    if (point >= 1) {
+      return wordsToHex(result, field.bits);
+    }
+
+    // Drop the marker bit and everything above it
+    const marker = markerPosition(result, field.bits);
+    return wordsToHex(result, field.bits, marker === -1 ? result.length * field.bits : marker);
+  }
+
+  function combineRobust(shares: Shares | string[], threshold?: number): RobustCombineResult {
+    const { header, x, y } = parseShares(shares);
+    const field = getField(header === undefined ? config.bits : header.bits);
+
+    if (header !== undefined && header.threshold !== undefined) {
+      if (threshold === undefined) {
+        threshold = header.threshold;
+      } else if (threshold !== header.threshold) {
+        throw new MismatchedSharesError(
+          "Threshold " + threshold + " differs from the shares' threshold " + header.threshold + "."
+        );
+      }
+    }
+
+    if (
+      typeof threshold !== "number" ||
+      threshold % 1 !== 0 ||
+      threshold < 2 ||
+      threshold > field.maxShares
+    ) {
+      throw new Error(
+        "Threshold number of shares must be an integer between 2 and 2^bits-1 (" +
+          field.maxShares +
+          "), inclusive."
+      );
+    }
+
+    if (x.length < threshold) {
+      throw new InsufficientSharesError(threshold, x.length);
+    }
+
+    const decoded = robustInterpolate(field, x, y, threshold);
+
+    if (!decoded) {
+      const correctable = Math.floor((x.length - threshold) / 2);
+      throw new InsufficientSharesError(
+        threshold + 2 * (correctable + 1),
+        x.length,
+        "More than " +
+          correctable +
+          " of the shares are inconsistent, too few honest shares remain to decide."
+      );
+    }
+
+    const marker = markerPosition(decoded.words, field.bits);
+    const secret = wordsToHex(
+      decoded.words,
+      field.bits,
+      marker === -1 ? decoded.words.length * field.bits : marker
+    );
+
+    decoded.words.fill(0);
+
+    return Object.freeze({
+      secret,
+      badIds: decoded.bad
+        .map(function (i: number): number {
+          return x[i];
+        })
+        .sort(function (a: number, b: number): number {
+          return a - b;
+        }),
+    });
+  }
+
+  function getConfig(): SecretsConfig {
+    const obj: SecretsConfig = {
+      radix: config.radix,
+      bits: config.bits,
+      maxShares: config.maxShares,
+      hasCSPRNG: typeof config.rng === "function",
+      typeCSPRNG: config.typeCSPRNG!,
+    };
+    return obj;
+  }
+
+  function random(bits: number): HexString {
+    if (typeof bits !== "number" || bits % 1 !== 0 || bits < 2 || bits > 65536) {
+      throw new Error("Number of bits must be an Integer between 1 and 65536.");
+    }
+
+    return bin2hex(config.rng(bits));
+  }
+
+  // Shares are dealt in this context's field, or in the field of the shares being reshared
+  function validateShareCounts(
+    numShares: number,
+    threshold: number,
+    maxShares: number = config.maxShares
+  ): void {
+    let neededBits: number;
+
+    if (typeof numShares !== "number" || numShares % 1 !== 0 || numShares < 2) {
+      throw new Error(
+        "Number of shares must be an integer between 2 and 2^bits-1 (" + maxShares + "), inclusive."
+      );
+    }
+
+    if (numShares > maxShares) {
+      neededBits = Math.ceil(Math.log(numShares + 1) / Math.LN2);
+      throw new Error(
+        "Number of shares must be an integer between 2 and 2^bits-1 (" +
+          maxShares +
+          "), inclusive. To create " +
+          numShares +
+          " shares, use at least " +
+          neededBits +
+          " bits."
+      );
+    }
+
+    if (typeof threshold !== "number" || threshold % 1 !== 0 || threshold < 2) {
+      throw new Error(
+        "Threshold number of shares must be an integer between 2 and 2^bits-1 (" +
+          maxShares +
+          "), inclusive."
+      );
+    }
+
+    if (threshold > maxShares) {
+      neededBits = Math.ceil(Math.log(threshold + 1) / Math.LN2);
+      throw new Error(
+        "Threshold number of shares must be an integer between 2 and 2^bits-1 (" +
+          maxShares +
+          "), inclusive.  To use a threshold of " +
+          threshold +
+          ", use at least " +
+          neededBits +
+          " bits."
+      );
+    }
+
+    if (threshold > numShares) {
+      throw new Error(
+        "Threshold number of shares was " +
+          threshold +
+          " but must be less than or equal to the " +
+          numShares +
+          " shares specified as the total to generate."
+      );
+    }
+  }
+
+  // A random identifier for the shares of one split, if this context writes versioned shares
+  function newShareSetId(): string | undefined {
+    return config.version
+      ? padLeft(bin2hex(config.rng(shareSetIdLength * 4)), shareSetIdLength)
+      : undefined;
+  }
+
+  function share(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    padLength?: number,
+    encoding?: ShareEncoding
+  ): string[] {
+    const x: string[] = new Array(numShares);
+
+    padLength = padLength || config.padLength;
+
+    if (typeof secret !== "string") {
+      throw new Error("Secret must be a string.");
+    }
+
+    validateShareCounts(numShares, threshold);
+    validatePadLength(padLength);
+    if (encoding !== undefined) {
+      validateEncoding(encoding);
+    }
+
+    const setId = newShareSetId();
+    const secretWords = hexToWords(secret, config.bits, padLength, true);
+    const shareWords = getShares(config, config.rng, secretWords, numShares, threshold);
+
+    secretWords.fill(0);
+
+    for (let i = 0; i < numShares; i++) {
+      x[i] = constructPublicShareString(
+        config.bits,
+        i + 1,
+        wordsToHex(shareWords[i], config.bits),
+        config.checksum,
+        threshold,
+        setId,
+        encoding || config.encoding
+      );
+    }
+
+    return x;
+  }
+
+  function validatePassphrase(passphrase: string): void {
+    if (typeof passphrase !== "string" || passphrase.length === 0) {
+      throw new Error("Passphrase must be a non-empty string.");
+    }
+  }
+
+  function protectShare(
+    share: string,
+    passphrase: string,
+    options?: ProtectOptions
+  ): Promise<string> {
+    return Promise.resolve().then(function (): Promise<string> {
+      const kdf = (options && options.kdf) || defaultKdf();
+
+      validatePassphrase(passphrase);
+      if (kdf !== "scrypt" && kdf !== "pbkdf2") {
+        throw new Error('The KDF must be "scrypt" or "pbkdf2".');
+      }
+
+      const { bits, id } = extractShareComponents(share);
+
+      return protectShareString(
+        share,
+        { kdf, bits, id },
+        passphrase,
+        randomBytes(SALT_LENGTH),
+        randomBytes(GCM_IV_LENGTH)
+      );
+    });
+  }
+
+  function unprotectShare(protectedShare: string, passphrase: string): Promise<string> {
+    return Promise.resolve().then(function (): Promise<string> {
+      validatePassphrase(passphrase);
+      return unprotectShareString(protectedShare, passphrase);
+    });
+  }
+
+  function newShare(id: number | string, shares: Shares | string[]): string {
+    let share: ShareComponents;
+    let numericId: number;
+
+    if (typeof id === "string") {
+      numericId = parseInt(id, 10);
+    } else if (typeof id === "number") {
+      numericId = Math.floor(id);
+    } else {
+      numericId = NaN;
+    }
+
+    if (numericId && shares && shares[0]) {
+      share = extractShareComponents(shares[0]);
+      return constructPublicShareString(
+        share.bits,
+        numericId,
+        combine(shares, numericId),
+        config.checksum || share.checksum !== undefined,
+        share.threshold,
+        share.setId,
+        config.encoding || share.encoding
+      );
+    }
+
+    throw new Error("Invalid 'id' or 'shares' Array argument to newShare().");
+  }
+
+  function randomBytes(length: number): Uint8Array {
+    const bits = config.rng(length * 8);
+    const bytes = new Uint8Array(length);
+
+    for (let i = 0; i < length; i++) {
+      bytes[i] = parseInt(bits.substr(i * 8, 8), 2);
+    }
+
+    return bytes;
+  }
+
+  return Object.freeze({
+    config,
+    extractShareComponents,
+    checkShareSet,
+    resolvePassphrase,
+    parseShares,
+    share,
+    combine,
+    combineRobust,
+    newShare,
+    protectShare,
+    unprotectShare,
+    getConfig,
+    random,
+    randomBytes,
+    validateShareCounts,
+    newShareSetId,
+  });
+}
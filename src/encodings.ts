@@ -0,0 +1,464 @@
+// Compact share string encodings for @digitaldefiance/secrets
+// Re-encodes the hex share layout as bytes in base64url, base58, base32 or bech32m, marked by a prefix
+
+import { decodeBech32m, encodeBech32m } from "./bech32m";
+import { CHECKSUM_LENGTH, CHECKSUM_SEPARATOR } from "./checksum";
+import { InvalidShareError } from "./errors";
+import { MAX_BITS, MIN_BITS } from "./field";
+import type { ShareEncoding } from "./types";
+
+// ============================================================================
+// Alphabets
+// ============================================================================
+
+const BASE64URL_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * The text that starts a share string in each encoding.
+ *
+ * None of them can start a hex share, whose first character is the base36
+ * field size (3 to k) or the "v" of a versioned header. The bech32m prefix
+ * is its human-readable part and separator.
+ */
+export const ENCODING_PREFIXES: { readonly [encoding in ShareEncoding]: string } = Object.freeze({
+  hex: "",
+  base64url: "u",
+  base58: "z",
+  base32: "R",
+  bech32m: "shamir1",
+});
+
+const BECH32M_HRP = "shamir";
+
+// Character value by character code, -1 for characters outside the alphabet
+function valueTable(alphabet: string, caseInsensitive: boolean): number[] {
+  const table: number[] = [];
+
+  for (let i = 0; i < 128; i++) {
+    table[i] = -1;
+  }
+  for (let i = 0; i < alphabet.length; i++) {
+    table[alphabet.charCodeAt(i)] = i;
+    if (caseInsensitive) {
+      table[alphabet.toLowerCase().charCodeAt(i)] = i;
+    }
+  }
+
+  return table;
+}
+
+const base64urlValues = valueTable(BASE64URL_ALPHABET, false);
+const base58Values = valueTable(BASE58_ALPHABET, false);
+const base32Values = valueTable(BASE32_ALPHABET, true);
+
+// Map str to alphabet values, throwing on the first character outside the alphabet
+function charValues(str: string, table: readonly number[], name: string): number[] {
+  const values: number[] = new Array(str.length);
+
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    values[i] = code < 128 ? table[code] : -1;
+
+    if (values[i] === -1) {
+      throw new Error("Invalid " + name + ' character "' + str.charAt(i) + '".');
+    }
+  }
+
+  return values;
+}
+
+// ============================================================================
+// Byte Encodings
+// ============================================================================
+
+// Base64url, base32 and bech32m regroup the bits of the bytes into digits of digitBits bits
+function toDigits(bytes: Uint8Array, digitBits: number): number[] {
+  const digits: number[] = [];
+  let acc = 0;
+  let accBits = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    acc = ((acc << 8) | bytes[i]) & 0xffff;
+    accBits += 8;
+
+    while (accBits >= digitBits) {
+      accBits -= digitBits;
+      digits.push((acc >>> accBits) & ((1 << digitBits) - 1));
+    }
+  }
+
+  if (accBits > 0) {
+    digits.push((acc << (digitBits - accBits)) & ((1 << digitBits) - 1));
+  }
+
+  return digits;
+}
+
+function digitString(digits: readonly number[], alphabet: string): string {
+  let str = "";
+  for (let i = 0; i < digits.length; i++) {
+    str += alphabet.charAt(digits[i]);
+  }
+  return str;
+}
+
+function fromDigits(values: readonly number[], digitBits: number, name: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor((values.length * digitBits) / 8));
+  let acc = 0;
+  let accBits = 0;
+  let n = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    acc = ((acc << digitBits) | values[i]) & 0xffff;
+    accBits += digitBits;
+
+    if (accBits >= 8) {
+      accBits -= 8;
+      bytes[n++] = acc >>> accBits;
+    }
+  }
+
+  // The leftover bits must not make up a whole digit, and must be zero
+  if (accBits >= digitBits || acc & ((1 << accBits) - 1)) {
+    throw new Error("Invalid " + name + " length or padding.");
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode bytes as unpadded base64url (RFC 4648, section 5).
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base64url string
+ */
+export function encodeBase64url(bytes: Uint8Array): string {
+  return digitString(toDigits(bytes, 6), BASE64URL_ALPHABET);
+}
+
+/**
+ * Decode base64url, with or without "=" padding.
+ *
+ * @param str - The base64url string
+ * @returns The decoded bytes
+ * @throws {Error} If str has a character outside the alphabet, or an impossible length
+ */
+export function decodeBase64url(str: string): Uint8Array {
+  return fromDigits(
+    charValues(str.replace(/=+$/, ""), base64urlValues, "base64url"),
+    6,
+    "base64url"
+  );
+}
+
+/**
+ * Encode bytes as unpadded, uppercase base32 (RFC 4648, section 6).
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base32 string
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  return digitString(toDigits(bytes, 5), BASE32_ALPHABET);
+}
+
+/**
+ * Decode base32 in either case, with or without "=" padding.
+ *
+ * @param str - The base32 string
+ * @returns The decoded bytes
+ * @throws {Error} If str has a character outside the alphabet, or an impossible length
+ */
+export function decodeBase32(str: string): Uint8Array {
+  return fromDigits(charValues(str.replace(/=+$/, ""), base32Values, "base32"), 5, "base32");
+}
+
+/**
+ * Encode bytes as base58 with the Bitcoin alphabet.
+ *
+ * Every leading zero byte becomes a leading "1".
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base58 string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) {
+    zeros++;
+  }
+
+  // Little-endian base58 digits of the number the bytes spell out
+  const digits: number[] = [];
+
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  let str = new Array(zeros + 1).join(BASE58_ALPHABET.charAt(0));
+  for (let i = digits.length - 1; i >= 0; i--) {
+    str += BASE58_ALPHABET.charAt(digits[i]);
+  }
+
+  return str;
+}
+
+/**
+ * Decode base58 with the Bitcoin alphabet.
+ *
+ * @param str - The base58 string
+ * @returns The decoded bytes
+ * @throws {Error} If str has a character outside the alphabet
+ */
+export function decodeBase58(str: string): Uint8Array {
+  const values = charValues(str, base58Values, "base58");
+  let zeros = 0;
+  while (zeros < values.length && values[zeros] === 0) {
+    zeros++;
+  }
+
+  // Little-endian bytes of the number the digits spell out
+  const bytes: number[] = [];
+
+  for (let i = zeros; i < values.length; i++) {
+    let carry = values[i];
+
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>>= 8;
+    }
+
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    result[result.length - 1 - i] = bytes[i];
+  }
+
+  return result;
+}
+
+/**
+ * Encode bytes as a bech32m string (BIP-350) with the given human-readable prefix.
+ *
+ * @param hrp - The lowercase human-readable prefix
+ * @param bytes - The bytes to encode
+ * @returns The bech32m string
+ */
+export function encodeBech32mBytes(hrp: string, bytes: Uint8Array): string {
+  return encodeBech32m(hrp, toDigits(bytes, 5));
+}
+
+/**
+ * Decode and verify a bech32m string holding bytes.
+ *
+ * @param str - The bech32m string, all lowercase or all uppercase
+ * @returns The lowercase human-readable prefix and the decoded bytes
+ * @throws {Error} If str is malformed, its checksum does not match or it does not hold whole bytes
+ */
+export function decodeBech32mBytes(str: string): { hrp: string; bytes: Uint8Array } {
+  const decoded = decodeBech32m(str);
+  return { hrp: decoded.hrp, bytes: fromDigits(decoded.values, 5, "bech32m") };
+}
+
+// Encoders and decoders of whole share strings, prefix included
+const encoders: { readonly [encoding: string]: (bytes: Uint8Array) => string } = {
+  base64url: function (bytes: Uint8Array): string {
+    return ENCODING_PREFIXES.base64url + encodeBase64url(bytes);
+  },
+  base58: function (bytes: Uint8Array): string {
+    return ENCODING_PREFIXES.base58 + encodeBase58(bytes);
+  },
+  base32: function (bytes: Uint8Array): string {
+    return ENCODING_PREFIXES.base32 + encodeBase32(bytes);
+  },
+  bech32m: function (bytes: Uint8Array): string {
+    return encodeBech32mBytes(BECH32M_HRP, bytes);
+  },
+};
+
+const decoders: { readonly [encoding: string]: (share: string) => Uint8Array } = {
+  base64url: function (share: string): Uint8Array {
+    return decodeBase64url(share.slice(1));
+  },
+  base58: function (share: string): Uint8Array {
+    return decodeBase58(share.slice(1));
+  },
+  base32: function (share: string): Uint8Array {
+    return decodeBase32(share.slice(1));
+  },
+  bech32m: function (share: string): Uint8Array {
+    const decoded = decodeBech32mBytes(share);
+
+    if (decoded.hrp !== BECH32M_HRP) {
+      throw new Error('A bech32m share must have the prefix "' + BECH32M_HRP + '".');
+    }
+    return decoded.bytes;
+  },
+};
+
+// ============================================================================
+// Share Strings
+// ============================================================================
+
+// The first byte of an encoded share packs the field size with three flags
+const VERSIONED_FLAG = 0x80;
+const ODD_FLAG = 0x40;
+const CHECKSUM_FLAG = 0x20;
+const BITS_MASK = 0x1f;
+
+/**
+ * Detect the encoding of a share string from its prefix.
+ *
+ * @param share - A share string in any encoding
+ * @returns The encoding, "hex" for anything without an encoding prefix
+ */
+export function detectEncoding(share: string): ShareEncoding {
+  const first = share.charAt(0);
+
+  if (
+    share.slice(0, ENCODING_PREFIXES.bech32m.length).toLowerCase() === ENCODING_PREFIXES.bech32m
+  ) {
+    return "bech32m";
+  }
+  if (first === ENCODING_PREFIXES.base64url) {
+    return "base64url";
+  }
+  if (first === ENCODING_PREFIXES.base58) {
+    return "base58";
+  }
+  if (first.toUpperCase() === ENCODING_PREFIXES.base32) {
+    return "base32";
+  }
+
+  return "hex";
+}
+
+/**
+ * Pack a well formed hex share string into bytes.
+ *
+ * The bytes hold a flags byte with the field size, the header version for
+ * versioned shares, and then every hex digit after the field size, checksum
+ * included, two to a byte.
+ *
+ * @param share - A hex share string as built by the share functions
+ * @returns The packed share
+ */
+export function packShare(share: string): Uint8Array {
+  const versioned = share.charAt(0) === "v";
+  const offset = versioned ? 2 : 0;
+  const bits = parseInt(share.charAt(offset), 36);
+  const hex = share.slice(offset + 1).replace(CHECKSUM_SEPARATOR, "");
+  const headerLength = versioned ? 2 : 1;
+  const bytes = new Uint8Array(headerLength + Math.ceil(hex.length / 2));
+
+  bytes[0] =
+    bits |
+    (versioned ? VERSIONED_FLAG : 0) |
+    (hex.length % 2 ? ODD_FLAG : 0) |
+    (share.indexOf(CHECKSUM_SEPARATOR) !== -1 ? CHECKSUM_FLAG : 0);
+
+  if (versioned) {
+    bytes[1] = parseInt(share.charAt(1), 36);
+  }
+
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[headerLength + i / 2] = parseInt((hex.slice(i, i + 2) + "0").slice(0, 2), 16);
+  }
+
+  return bytes;
+}
+
+/**
+ * Unpack bytes from packShare() back into the hex share string.
+ *
+ * Only the byte layout is checked here; the hex form is then parsed and
+ * validated like any other share string.
+ *
+ * @param bytes - The packed share
+ * @param source - The text the bytes were decoded from, for error messages
+ * @returns The hex share string
+ * @throws {InvalidShareError} If the bytes do not hold a share
+ */
+export function unpackShare(bytes: Uint8Array, source: string): string {
+  const versioned = (bytes[0] & VERSIONED_FLAG) !== 0;
+  const headerLength = versioned ? 2 : 1;
+  const bits = bytes[0] & BITS_MASK;
+  let hex = "";
+
+  if (bytes.length <= headerLength || bits < MIN_BITS || bits > MAX_BITS) {
+    throw new InvalidShareError(source, "Too short, or an invalid number of bits.");
+  }
+
+  for (let i = headerLength; i < bytes.length; i++) {
+    hex += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+  }
+
+  if (bytes[0] & ODD_FLAG) {
+    hex = hex.slice(0, -1);
+  }
+
+  if (bytes[0] & CHECKSUM_FLAG) {
+    hex =
+      hex.slice(0, hex.length - CHECKSUM_LENGTH) +
+      CHECKSUM_SEPARATOR +
+      hex.slice(hex.length - CHECKSUM_LENGTH);
+  }
+
+  return (versioned ? "v" + bytes[1].toString(36) : "") + bits.toString(36).toUpperCase() + hex;
+}
+
+/**
+ * Re-encode a well formed hex share string.
+ *
+ * @param share - A share string as built by the share functions
+ * @param encoding - The encoding to use
+ * @returns The prefixed share string in that encoding, or share itself for "hex"
+ */
+export function encodeShareString(share: string, encoding: ShareEncoding): string {
+  if (encoding === "hex") {
+    return share;
+  }
+
+  return encoders[encoding](packShare(share));
+}
+
+/**
+ * Turn an encoded share string back into its hex form.
+ *
+ * @param share - A prefixed share string from encodeShareString()
+ * @param encoding - Its encoding, as found by detectEncoding()
+ * @returns The hex share string
+ * @throws {InvalidShareError} If the share cannot be decoded
+ */
+export function decodeShareString(share: string, encoding: ShareEncoding): string {
+  if (encoding === "hex") {
+    return share;
+  }
+
+  let bytes: Uint8Array;
+
+  try {
+    bytes = decoders[encoding](share);
+  } catch (e) {
+    throw new InvalidShareError(share, (e as Error).message);
+  }
+
+  return unpackShare(bytes, share);
+}
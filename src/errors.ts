@@ -11,8 +11,11 @@ export class SecretsError extends Error {
     public readonly context?: Record<string, unknown>
   ) {
     super(message);
-    this.name = 'SecretsError';
-    
+    this.name = "SecretsError";
+
+    // Restore the prototype chain, which is lost when extending Error with an ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, SecretsError);
@@ -27,10 +30,10 @@ export class InvalidParameterError extends SecretsError {
   constructor(parameter: string, value: unknown, expected: string) {
     super(
       `Invalid parameter '${parameter}': expected ${expected}, got ${typeof value}`,
-      'INVALID_PARAMETER',
+      "INVALID_PARAMETER",
       { parameter, value, expected }
     );
-    this.name = 'InvalidParameterError';
+    this.name = "InvalidParameterError";
   }
 }
 
@@ -39,12 +42,8 @@ export class InvalidParameterError extends SecretsError {
  */
 export class InitializationError extends SecretsError {
   constructor(reason: string) {
-    super(
-      `Initialization failed: ${reason}`,
-      'INITIALIZATION_FAILED',
-      { reason }
-    );
-    this.name = 'InitializationError';
+    super(`Initialization failed: ${reason}`, "INITIALIZATION_FAILED", { reason });
+    this.name = "InitializationError";
   }
 }
 
@@ -53,12 +52,33 @@ export class InitializationError extends SecretsError {
  */
 export class InvalidShareError extends SecretsError {
   constructor(share: string, reason: string) {
+    super(`Invalid share data: ${reason}`, "INVALID_SHARE", { share, reason });
+    this.name = "InvalidShareError";
+  }
+}
+
+/**
+ * Error thrown when too few (honest) shares are available to recover a secret
+ */
+export class InsufficientSharesError extends SecretsError {
+  constructor(required: number, available: number, detail?: string) {
     super(
-      `Invalid share data: ${reason}`,
-      'INVALID_SHARE',
-      { share, reason }
+      `Insufficient shares: ${required} required, ${available} available` +
+        (detail ? `. ${detail}` : ""),
+      "INSUFFICIENT_SHARES",
+      { required, available }
     );
-    this.name = 'InvalidShareError';
+    this.name = "InsufficientSharesError";
+  }
+}
+
+/**
+ * Error thrown when shares that do not belong to the same split are combined
+ */
+export class MismatchedSharesError extends SecretsError {
+  constructor(reason: string) {
+    super(`Mismatched shares: ${reason}`, "MISMATCHED_SHARES", { reason });
+    this.name = "MismatchedSharesError";
   }
 }
 
@@ -67,11 +87,10 @@ export class InvalidShareError extends SecretsError {
  */
 export class CryptoError extends SecretsError {
   constructor(operation: string, reason: string) {
-    super(
-      `Cryptographic operation '${operation}' failed: ${reason}`,
-      'CRYPTO_ERROR',
-      { operation, reason }
-    );
-    this.name = 'CryptoError';
+    super(`Cryptographic operation '${operation}' failed: ${reason}`, "CRYPTO_ERROR", {
+      operation,
+      reason,
+    });
+    this.name = "CryptoError";
   }
 }
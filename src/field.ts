@@ -0,0 +1,425 @@
+// Galois Field arithmetic for @digitaldefiance/secrets
+// Provides immutable, cached GF(2^bits) tables shared by every secrets context, and
+// word-parallel polynomial evaluation and interpolation over typed arrays
+
+import type { FieldArray, GaloisField } from "./types";
+
+// ============================================================================
+// Field Parameters
+// ============================================================================
+
+/**
+ * Smallest supported field size in bits
+ */
+export const MIN_BITS = 3;
+
+/**
+ * Largest supported field size in bits
+ */
+export const MAX_BITS = 20;
+
+/**
+ * Primitive polynomials (minus the leading term) indexed by field size in bits
+ */
+export const PRIMITIVE_POLYNOMIALS: readonly (number | null)[] = [
+  null,
+  null,
+  1,
+  3,
+  3,
+  5,
+  3,
+  3,
+  29,
+  17,
+  9,
+  5,
+  83,
+  27,
+  43,
+  3,
+  45,
+  9,
+  39,
+  39,
+  9,
+  5,
+  3,
+  33,
+  27,
+  9,
+  71,
+  39,
+  9,
+  5,
+  83,
+];
+
+// Fields up to this size also get a full multiplication table (2^(2*bits) bytes)
+const MUL_TABLE_MAX_BITS = 8;
+
+// Tables are immutable once built, so every context using the same field size shares them
+const fieldCache: { [bits: number]: GaloisField } = {};
+
+// ============================================================================
+// Table Construction
+// ============================================================================
+
+/**
+ * Allocate a zeroed array of field words, using the narrowest typed array
+ * that can hold a `bits` bit value.
+ *
+ * @param bits - Field size in bits
+ * @param length - Number of words
+ * @returns Uint8Array, Uint16Array or Uint32Array of the given length
+ */
+export function createWords(bits: number, length: number): FieldArray {
+  if (bits <= 8) {
+    return new Uint8Array(length);
+  } else if (bits <= 16) {
+    return new Uint16Array(length);
+  }
+
+  return new Uint32Array(length);
+}
+
+/**
+ * Get the GF(2^bits) field for the given size, building its tables on first use.
+ *
+ * @param bits - Field size in bits (MIN_BITS to MAX_BITS)
+ * @returns Frozen field description with log, exp and (for small fields) multiplication tables
+ * @throws {Error} If bits is not an integer within the supported range
+ */
+export function getField(bits: number): GaloisField {
+  if (
+    typeof bits !== "number" ||
+    bits % 1 !== 0 ||
+    bits < MIN_BITS ||
+    bits > MAX_BITS ||
+    isNaN(bits)
+  ) {
+    throw new Error(
+      "Number of bits must be an integer between " + MIN_BITS + " and " + MAX_BITS + ", inclusive."
+    );
+  }
+
+  const cached = fieldCache[bits];
+  if (cached) {
+    return cached;
+  }
+
+  const field = createField(bits, PRIMITIVE_POLYNOMIALS[bits]!, 2);
+
+  fieldCache[bits] = field;
+  return field;
+}
+
+/**
+ * Build the tables of GF(2^bits) for an explicit reduction polynomial and generator.
+ *
+ * getField() uses the library's own polynomials with generator 2. Standards
+ * that fix a different representation, such as SLIP-0039 with Rijndael's
+ * x^8 + x^4 + x^3 + x + 1 and generator 3, build their field here instead.
+ * The result is not cached.
+ *
+ * @param bits - Field size in bits
+ * @param primitive - Irreducible reduction polynomial, minus the leading term
+ * @param generator - An element generating the multiplicative group of the field
+ * @returns Frozen field description with log, exp and (for small fields) multiplication tables
+ */
+export function createField(bits: number, primitive: number, generator: number): GaloisField {
+  const size = Math.pow(2, bits);
+  const maxShares = size - 1;
+  const logs = createWords(bits, size);
+  const exps = createWords(bits, size);
+  let mul: Uint8Array | null = null;
+  let x = 1;
+
+  for (let i = 0; i < size; i++) {
+    exps[i] = x;
+    logs[x] = i;
+
+    // x = x * generator, reducing by the polynomial whenever a shift overflows
+    let product = 0;
+    for (let a = x, g = generator; g; g >>= 1) {
+      if (g & 1) {
+        product ^= a;
+      }
+      a = a << 1;
+      if (a >= size) {
+        a = (a ^ primitive) & maxShares;
+      }
+    }
+    x = product;
+  }
+
+  if (bits <= MUL_TABLE_MAX_BITS) {
+    mul = new Uint8Array(size * size);
+    for (let a = 1; a < size; a++) {
+      for (let b = 1; b < size; b++) {
+        mul[(a << bits) | b] = exps[(logs[a] + logs[b]) % maxShares];
+      }
+    }
+  }
+
+  return Object.freeze({
+    bits,
+    size,
+    maxShares,
+    logs,
+    exps,
+    mul,
+  });
+}
+
+// ============================================================================
+// Element Arithmetic
+// ============================================================================
+
+/**
+ * Multiply two field elements.
+ *
+ * @param field - The field to compute in
+ * @param a - First factor
+ * @param b - Second factor
+ * @returns a * b
+ */
+export function multiply(field: GaloisField, a: number, b: number): number {
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+
+  if (field.mul) {
+    return field.mul[(a << field.bits) | b];
+  }
+
+  return field.exps[(field.logs[a] + field.logs[b]) % field.maxShares];
+}
+
+/**
+ * Divide two field elements.
+ *
+ * @param field - The field to compute in
+ * @param a - Dividend
+ * @param b - Divisor, non-zero
+ * @returns a / b
+ * @throws {Error} If b is zero
+ */
+export function divide(field: GaloisField, a: number, b: number): number {
+  if (b === 0) {
+    throw new Error("Division by zero in GF(2^" + field.bits + ").");
+  }
+
+  if (a === 0) {
+    return 0;
+  }
+
+  return field.exps[(field.logs[a] - field.logs[b] + field.maxShares) % field.maxShares];
+}
+
+// ============================================================================
+// Polynomial Arithmetic
+// ============================================================================
+
+/**
+ * Evaluate a polynomial at x using Horner's method.
+ *
+ * @param field - The field to compute in
+ * @param x - Point at which to evaluate
+ * @param coeffs - Coefficients, lowest degree first
+ * @returns The polynomial value at x
+ */
+export function horner(field: GaloisField, x: number, coeffs: ArrayLike<number>): number {
+  if (x === 0) {
+    return coeffs.length ? coeffs[0] : 0;
+  }
+
+  const logx = field.logs[x];
+  let fx = 0;
+
+  for (let i = coeffs.length - 1; i >= 0; i--) {
+    if (fx !== 0) {
+      fx = field.exps[(logx + field.logs[fx]) % field.maxShares] ^ coeffs[i];
+    } else {
+      fx = coeffs[i];
+    }
+  }
+
+  return fx;
+}
+
+/**
+ * Evaluate many polynomials of the same degree at x in one pass.
+ *
+ * Word w of `out` receives the value at x of the polynomial whose coefficients
+ * are coeffs[0][w], coeffs[1][w], ... (lowest degree first). This is how a
+ * whole secret is split at once: coeffs[0] holds the secret words and the
+ * higher rows hold the random coefficients for each word.
+ *
+ * @param field - The field to compute in
+ * @param x - Point at which to evaluate (a share id)
+ * @param coeffs - One row of words per coefficient, lowest degree first
+ * @param out - Receives one value per word; must not be longer than any row
+ */
+export function hornerWords(
+  field: GaloisField,
+  x: number,
+  coeffs: readonly FieldArray[],
+  out: FieldArray
+): void {
+  const len = out.length;
+  const mul = field.mul;
+
+  out.set(coeffs[coeffs.length - 1].subarray(0, len));
+
+  if (mul) {
+    const row = x << field.bits;
+    for (let k = coeffs.length - 2; k >= 0; k--) {
+      const c = coeffs[k];
+      for (let w = 0; w < len; w++) {
+        out[w] = mul[row | out[w]] ^ c[w];
+      }
+    }
+    return;
+  }
+
+  const logs = field.logs;
+  const exps = field.exps;
+  const maxShares = field.maxShares;
+  const logx = logs[x];
+
+  for (let k = coeffs.length - 2; k >= 0; k--) {
+    const c = coeffs[k];
+    for (let w = 0; w < len; w++) {
+      const fx = out[w];
+      out[w] = (fx === 0 ? 0 : exps[(logx + logs[fx]) % maxShares]) ^ c[w];
+    }
+  }
+}
+
+/**
+ * Evaluate at `at` the unique polynomial passing through the points (x[i], y[i]).
+ *
+ * @param field - The field to compute in
+ * @param at - Point at which to evaluate the interpolated polynomial
+ * @param x - Distinct x-coordinates
+ * @param y - y-coordinates matching x
+ * @returns The interpolated value at `at`
+ */
+export function lagrange(
+  field: GaloisField,
+  at: number,
+  x: ArrayLike<number>,
+  y: ArrayLike<number>
+): number {
+  let sum = 0;
+  const len = x.length;
+  let product: number;
+
+  for (let i = 0; i < len; i++) {
+    if (y[i]) {
+      product = field.logs[y[i]];
+
+      for (let j = 0; j < len; j++) {
+        if (i !== j) {
+          if (at === x[j]) {
+            product = -1;
+            break;
+          }
+          product =
+            (product + field.logs[at ^ x[j]] - field.logs[x[i] ^ x[j]] + field.maxShares) %
+            field.maxShares;
+        }
+      }
+
+      sum = product === -1 ? sum : sum ^ field.exps[product];
+    }
+  }
+
+  return sum;
+}
+
+/**
+ * Compute the Lagrange basis values L_i(at) for the x-coordinates x.
+ *
+ * The basis only depends on the share ids, so it is computed once per combine
+ * and then applied to every word with lagrangeWords().
+ *
+ * @param field - The field to compute in
+ * @param at - Point at which the interpolated polynomial will be evaluated
+ * @param x - Distinct x-coordinates
+ * @returns One field element per x-coordinate
+ */
+export function lagrangeBasis(field: GaloisField, at: number, x: ArrayLike<number>): number[] {
+  const len = x.length;
+  const basis: number[] = new Array(len);
+
+  for (let i = 0; i < len; i++) {
+    let product = 0;
+
+    for (let j = 0; j < len; j++) {
+      if (i !== j) {
+        if (at === x[j]) {
+          product = -1;
+          break;
+        }
+        product =
+          (product + field.logs[at ^ x[j]] - field.logs[x[i] ^ x[j]] + field.maxShares) %
+          field.maxShares;
+      }
+    }
+
+    basis[i] = product === -1 ? 0 : field.exps[product];
+  }
+
+  return basis;
+}
+
+/**
+ * Interpolate every word at once from the rows of share words.
+ *
+ * Word w of `out` receives the same value lagrange() would return for the
+ * points (x[i], ys[i][w]). Rows shorter than `out` are treated as zero-padded.
+ *
+ * @param field - The field to compute in
+ * @param basis - Basis values from lagrangeBasis() for the same x-coordinates
+ * @param ys - One row of words per share, in the order of the basis
+ * @param out - Receives the interpolated words
+ */
+export function lagrangeWords(
+  field: GaloisField,
+  basis: readonly number[],
+  ys: readonly FieldArray[],
+  out: FieldArray
+): void {
+  const mul = field.mul;
+  const logs = field.logs;
+  const exps = field.exps;
+  const maxShares = field.maxShares;
+
+  out.fill(0);
+
+  for (let i = 0; i < ys.length; i++) {
+    const coeff = basis[i];
+    const y = ys[i];
+    const len = Math.min(out.length, y.length);
+
+    if (coeff === 0) {
+      continue;
+    }
+
+    if (mul) {
+      const row = coeff << field.bits;
+      for (let w = 0; w < len; w++) {
+        out[w] ^= mul[row | y[w]];
+      }
+    } else {
+      const logc = logs[coeff];
+      for (let w = 0; w < len; w++) {
+        if (y[w]) {
+          out[w] ^= exps[(logc + logs[y[w]]) % maxShares];
+        }
+      }
+    }
+  }
+}
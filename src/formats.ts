@@ -0,0 +1,349 @@
+// Share formats for @digitaldefiance/secrets
+// Words, bech32m, QR codes and UR for carrying shares, and SLIP-39 mnemonic shares
+
+import { detectEncoding, ENCODING_PREFIXES, packShare, unpackShare } from "./encodings";
+import { InvalidShareError } from "./errors";
+import { decodeShareWords, encodeShareWords } from "./mnemonic";
+import { encodeQr, qrToSvg } from "./qr";
+import { bytesToHex, constructPublicShareString, shareFormatVersion } from "./shares";
+import { combineMnemonics, generateMnemonics } from "./slip39";
+import {
+  createUrPartDecoder,
+  createUrPartEncoder,
+  decodeCbor,
+  encodeCbor,
+  isUrPart,
+  UR_MIN_FRAGMENT_LENGTH,
+} from "./ur";
+import { hexToWords, wordsToBytes } from "./words";
+import type {
+  ContextCore,
+  HexString,
+  QrCode,
+  QrErrorCorrection,
+  QrMode,
+  QrOptions,
+  SecretsContext,
+  Slip39Options,
+  UrDecoder,
+  UrEncoder,
+  UrOptions,
+  UrProgress,
+} from "./types";
+
+function validateQrOptions(options: QrOptions): void {
+  if (
+    options.errorCorrection !== undefined &&
+    ["L", "M", "Q", "H"].indexOf(options.errorCorrection) === -1
+  ) {
+    throw new Error("QR error correction must be one of L, M, Q, H.");
+  }
+  if (options.mode !== undefined && options.mode !== "alphanumeric" && options.mode !== "byte") {
+    throw new Error('QR mode must be "alphanumeric" or "byte".');
+  }
+  if (
+    options.scale !== undefined &&
+    (typeof options.scale !== "number" || !(options.scale > 0) || options.scale === Infinity)
+  ) {
+    throw new Error("QR scale must be a positive number.");
+  }
+  if (
+    options.margin !== undefined &&
+    (typeof options.margin !== "number" || options.margin % 1 !== 0 || options.margin < 0)
+  ) {
+    throw new Error("QR margin must be a non-negative integer.");
+  }
+}
+
+// UR types of one packed share and of an array of them
+const UR_SHARE_TYPE = "secrets-share";
+const UR_BUNDLE_TYPE = "secrets-share-bundle";
+const UR_DEFAULT_FRAGMENT_LENGTH = 100;
+
+/**
+ * Create the share formats of a context.
+ *
+ * @param core - The core of the context
+ * @returns The word, bech32m, QR and UR conversions, and the SLIP-39 operations
+ */
+export function createShareFormats(
+  core: ContextCore
+): Pick<
+  SecretsContext,
+  | "shareSlip39"
+  | "combineSlip39"
+  | "shareToWords"
+  | "wordsToShare"
+  | "shareToBech32m"
+  | "bech32mToShare"
+  | "shareToQr"
+  | "shareToQrSvg"
+  | "qrToShare"
+  | "shareToUr"
+  | "createUrDecoder"
+> {
+  const { extractShareComponents, randomBytes } = core;
+
+  function shareSlip39(
+    secret: string,
+    groupThreshold: number,
+    groups: readonly (readonly [number, number])[],
+    options?: Slip39Options
+  ): string[][] {
+    if (typeof secret !== "string") {
+      throw new Error("Secret must be a string.");
+    }
+
+    const masterSecret = wordsToBytes(hexToWords(secret, 8), 8, secret.length * 4);
+
+    try {
+      return generateMnemonics(masterSecret, groupThreshold, groups, options || {}, randomBytes);
+    } finally {
+      masterSecret.fill(0);
+    }
+  }
+
+  function combineSlip39(mnemonics: readonly string[], passphrase?: string): HexString {
+    const masterSecret = combineMnemonics(mnemonics, passphrase === undefined ? "" : passphrase);
+    const hex = bytesToHex(masterSecret);
+
+    masterSecret.fill(0);
+    return hex;
+  }
+
+  function shareToWords(share: string): string {
+    return encodeShareWords(extractShareComponents(share)).join(" ");
+  }
+
+  function wordsToShare(words: string | readonly string[]): string {
+    if (typeof words !== "string" && !Array.isArray(words)) {
+      throw new Error("Words must be a string or an Array of strings.");
+    }
+
+    const list = typeof words === "string" ? words.trim().split(/\s+/) : words;
+    const decoded = decodeShareWords(list);
+    const components = decoded.components;
+
+    if (components.version !== undefined && components.version !== shareFormatVersion) {
+      throw new InvalidShareError(
+        list.join(" "),
+        "Unsupported share format version " + components.version + "."
+      );
+    }
+
+    const share = constructPublicShareString(
+      components.bits,
+      components.id,
+      components.data,
+      decoded.checksum,
+      components.threshold,
+      components.setId
+    );
+
+    // Range check the id and threshold the same way as any other share string
+    extractShareComponents(share);
+    return share;
+  }
+
+  function shareToBech32m(share: string): string {
+    const components = extractShareComponents(share);
+
+    return constructPublicShareString(
+      components.bits,
+      components.id,
+      components.data,
+      components.checksum !== undefined,
+      components.threshold,
+      components.setId,
+      "bech32m"
+    );
+  }
+
+  // The hex form of a share string in any encoding
+  function toHexShare(share: string): string {
+    const components = extractShareComponents(share);
+
+    return constructPublicShareString(
+      components.bits,
+      components.id,
+      components.data,
+      components.checksum !== undefined,
+      components.threshold,
+      components.setId
+    );
+  }
+
+  function bech32mToShare(share: string): string {
+    if (typeof share !== "string" || detectEncoding(share) !== "bech32m") {
+      throw new Error('A bech32m share must start with "' + ENCODING_PREFIXES.bech32m + '".');
+    }
+
+    return toHexShare(share);
+  }
+
+  function shareToQr(share: string, options?: QrOptions): QrCode {
+    const opts = options || {};
+    // UR parts are drawn like shares, for animated transfers of shares too large for one code
+    const encoding = isUrPart(share) ? "ur" : extractShareComponents(share).encoding || "hex";
+    // Hex, base32 and bech32m shares and UR parts are read in either case, so they fit the
+    // denser alphanumeric mode once uppercased
+    const caseless = encoding !== "base64url" && encoding !== "base58";
+    const errorCorrection: QrErrorCorrection =
+      opts.errorCorrection === undefined ? "M" : opts.errorCorrection;
+    const mode: QrMode = opts.mode === undefined ? (caseless ? "alphanumeric" : "byte") : opts.mode;
+
+    validateQrOptions(opts);
+    if (mode === "alphanumeric" && !caseless) {
+      throw new Error("A " + encoding + " share cannot be encoded in alphanumeric mode.");
+    }
+
+    return encodeQr(mode === "alphanumeric" ? share.toUpperCase() : share, errorCorrection, mode);
+  }
+
+  function shareToQrSvg(share: string, options?: QrOptions): string {
+    const opts = options || {};
+    const qr = shareToQr(share, opts);
+
+    return qrToSvg(
+      qr.modules,
+      opts.scale === undefined ? 4 : opts.scale,
+      opts.margin === undefined ? 4 : opts.margin
+    );
+  }
+
+  function qrToShare(payload: string): string {
+    if (typeof payload !== "string") {
+      throw new Error("QR payload must be a string.");
+    }
+
+    const text = payload.trim();
+    const encoding = detectEncoding(text);
+    const share = encoding === "hex" || encoding === "bech32m" ? text.toLowerCase() : text;
+    // Validate, including the checksum if the share carries one
+    const components = extractShareComponents(share);
+
+    if (encoding !== "hex") {
+      return share;
+    }
+
+    // Rebuild rather than lowercase, as the field size of hex shares is written in uppercase
+    return constructPublicShareString(
+      components.bits,
+      components.id,
+      components.data,
+      components.checksum !== undefined,
+      components.threshold,
+      components.setId
+    );
+  }
+
+  function shareToUr(shares: string | readonly string[], options?: UrOptions): UrEncoder {
+    const maxFragmentLength =
+      options && options.maxFragmentLength !== undefined
+        ? options.maxFragmentLength
+        : UR_DEFAULT_FRAGMENT_LENGTH;
+    const bundle = typeof shares !== "string";
+
+    if (bundle && (!Array.isArray(shares) || shares.length === 0)) {
+      throw new Error("Shares must be a share string or a non-empty Array of share strings.");
+    }
+    if (
+      typeof maxFragmentLength !== "number" ||
+      maxFragmentLength % 1 !== 0 ||
+      maxFragmentLength < UR_MIN_FRAGMENT_LENGTH
+    ) {
+      throw new Error(
+        "The UR fragment length must be an integer of at least " + UR_MIN_FRAGMENT_LENGTH + "."
+      );
+    }
+
+    const packed = (bundle ? (shares as readonly string[]) : [shares as string]).map(function (
+      share: string
+    ): Uint8Array {
+      return packShare(toHexShare(share));
+    });
+    const type = bundle ? UR_BUNDLE_TYPE : UR_SHARE_TYPE;
+    const encoder = createUrPartEncoder(
+      type,
+      encodeCbor(bundle ? packed : packed[0]),
+      maxFragmentLength
+    );
+
+    return Object.freeze({
+      type,
+      fragmentCount: encoder.fragmentCount,
+      nextPart: encoder.nextPart,
+    });
+  }
+
+  function createUrDecoder(): UrDecoder {
+    const decoder = createUrPartDecoder();
+
+    function receivePart(part: string): UrProgress {
+      const type = /^ur:([^/]*)\//i.exec(typeof part === "string" ? part.trim() : "");
+
+      if (
+        type &&
+        type[1].toLowerCase() !== UR_SHARE_TYPE &&
+        type[1].toLowerCase() !== UR_BUNDLE_TYPE
+      ) {
+        throw new InvalidShareError(part, 'Unsupported UR type "' + type[1] + '".');
+      }
+
+      decoder.receivePart(part);
+      return decoder.progress();
+    }
+
+    function getShares(): string[] {
+      const ur = decoder.result();
+
+      if (!ur) {
+        throw new Error("The UR decoder has not received every fragment yet.");
+      }
+
+      let payload: unknown;
+
+      try {
+        payload = decodeCbor(ur.message);
+      } catch (e) {
+        throw new InvalidShareError(ur.type, (e as Error).message);
+      }
+
+      const packed = ur.type === UR_BUNDLE_TYPE ? payload : [payload];
+
+      if (
+        !Array.isArray(packed) ||
+        packed.length === 0 ||
+        !packed.every(function (item: unknown): boolean {
+          return item instanceof Uint8Array;
+        })
+      ) {
+        throw new InvalidShareError(ur.type, "The UR does not hold share bytes.");
+      }
+
+      return packed.map(function (bytes: Uint8Array): string {
+        return toHexShare(unpackShare(bytes, ur.type));
+      });
+    }
+
+    return Object.freeze({
+      receivePart,
+      progress: decoder.progress,
+      getShares,
+    });
+  }
+
+  return Object.freeze({
+    shareSlip39,
+    combineSlip39,
+    shareToWords,
+    wordsToShare,
+    shareToBech32m,
+    bech32mToShare,
+    shareToQr,
+    shareToQrSvg,
+    qrToShare,
+    shareToUr,
+    createUrDecoder,
+  });
+}
@@ -0,0 +1,78 @@
+// Rabin's information dispersal for @digitaldefiance/secrets
+// Splits data into fragments of |data|/t bytes, any t of which rebuild it, as
+// a systematic Reed-Solomon code over the GF(2^8) tables of field.ts
+
+import { getField, lagrangeBasis, lagrangeWords } from "./field";
+
+const DISPERSAL_BITS = 8;
+
+/**
+ * Largest number of fragments data can be dispersed into
+ */
+export const MAX_FRAGMENTS = (1 << DISPERSAL_BITS) - 1;
+
+/**
+ * Disperse data into fragments. The data is cut into threshold rows, the
+ * values at x = 1 to threshold of a polynomial of degree threshold - 1, and
+ * fragment i holds its values at x = i, so the first threshold fragments are
+ * the rows themselves. Dispersal hides nothing: the data should be encrypted.
+ *
+ * @param data - Bytes to disperse
+ * @param numFragments - Number of fragments, up to MAX_FRAGMENTS
+ * @param threshold - Number of fragments needed to rebuild the data
+ * @returns One fragment of ceil(data.length / threshold) bytes per id, from id 1
+ */
+export function disperse(data: Uint8Array, numFragments: number, threshold: number): Uint8Array[] {
+  const field = getField(DISPERSAL_BITS);
+  const size = Math.ceil(data.length / threshold);
+  const rows: Uint8Array[] = [];
+  const xs: number[] = [];
+  const fragments: Uint8Array[] = [];
+
+  for (let k = 0; k < threshold; k++) {
+    // The last row is zero-padded
+    rows[k] = new Uint8Array(size);
+    rows[k].set(data.subarray(k * size, (k + 1) * size));
+    xs[k] = k + 1;
+  }
+
+  for (let i = 0; i < numFragments; i++) {
+    if (i < threshold) {
+      fragments[i] = rows[i];
+    } else {
+      fragments[i] = new Uint8Array(size);
+      lagrangeWords(field, lagrangeBasis(field, i + 1, xs), rows, fragments[i]);
+    }
+  }
+
+  return fragments;
+}
+
+/**
+ * Rebuild dispersed data from a threshold of its fragments.
+ *
+ * @param ids - Distinct fragment ids, a threshold of them
+ * @param fragments - Fragments matching ids, all of the same size
+ * @param length - Length of the dispersed data in bytes
+ * @returns The data
+ */
+export function recoverDispersed(
+  ids: readonly number[],
+  fragments: readonly Uint8Array[],
+  length: number
+): Uint8Array {
+  const field = getField(DISPERSAL_BITS);
+  const size = fragments[0].length;
+  const data = new Uint8Array(size * ids.length);
+
+  for (let k = 0; k < ids.length; k++) {
+    lagrangeWords(
+      field,
+      lagrangeBasis(field, k + 1, ids),
+      fragments,
+      data.subarray(k * size, (k + 1) * size)
+    );
+  }
+
+  return data.subarray(0, length);
+}
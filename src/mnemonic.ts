@@ -0,0 +1,229 @@
+// Word encoding of share strings for @digitaldefiance/secrets
+// Packs the fields of a share into 11 bit BIP-39 words, followed by one checksum word
+
+import { BIP39_WORDLIST } from "./bip39-wordlist";
+import { InvalidShareError } from "./errors";
+import { sha256 } from "./sha256";
+import type { ShareComponents } from "./types";
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+// The words carry, most significant bit first:
+//   bits       5 bits   the Galois field size
+//   checksum   1 bit    whether the share string ends with a CRC-32 checksum
+//   version    4 bits   the share format version, 0 for shares without a header
+//   extra      2 bits   whole hex digits of zero padding before the checksum word
+//   threshold  `bits` bits, versioned shares only
+//   setId      32 bits, versioned shares only
+//   id         `bits` bits
+//   data       4 bits per hex digit
+// The CRC-32 itself is recomputed when decoding, so it costs a single bit.
+
+const RADIX_BITS = 11;
+const FIELD_BITS = 5;
+const VERSION_BITS = 4;
+const EXTRA_BITS = 2;
+const HEADER_BITS = FIELD_BITS + 1 + VERSION_BITS + EXTRA_BITS;
+const SET_ID_BITS = 32;
+
+// The field sizes share() supports, which keep every field within 20 bits
+const MIN_FIELD_SIZE = 3;
+const MAX_FIELD_SIZE = 20;
+
+// Map from the first four letters of each word to its index
+let wordIndex: { [prefix: string]: number } | undefined;
+
+function getWordIndex(): { [prefix: string]: number } {
+  if (!wordIndex) {
+    wordIndex = {};
+    for (let i = 0; i < BIP39_WORDLIST.length; i++) {
+      wordIndex[BIP39_WORDLIST[i].slice(0, 4)] = i;
+    }
+  }
+  return wordIndex;
+}
+
+// The checksum word: the first 11 bits of the SHA-256 of the data words, two bytes each
+function checksumWord(indices: readonly number[]): number {
+  const bytes = new Uint8Array(indices.length * 2);
+
+  for (let i = 0; i < indices.length; i++) {
+    bytes[i * 2] = indices[i] >>> 8;
+    bytes[i * 2 + 1] = indices[i];
+  }
+
+  const digest = sha256(bytes);
+  return ((digest[0] << 8) | digest[1]) >>> (16 - RADIX_BITS);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode the components of a share string as words.
+ *
+ * @param components - The parsed share; its checksum only matters by being present
+ * @returns The words, ending with the checksum word
+ */
+export function encodeShareWords(components: ShareComponents): string[] {
+  const bits = components.bits;
+  const versioned = components.setId !== undefined;
+  const dataBits =
+    HEADER_BITS + (versioned ? bits + SET_ID_BITS : 0) + bits + components.data.length * 4;
+  const padding = (RADIX_BITS - (dataBits % RADIX_BITS)) % RADIX_BITS;
+  const indices: number[] = [];
+  let acc = 0;
+  let accBits = 0;
+
+  // Append count bits of value, at most 20 at a time
+  function write(value: number, count: number): void {
+    acc = (acc << count) | value;
+    accBits += count;
+
+    while (accBits >= RADIX_BITS) {
+      accBits -= RADIX_BITS;
+      indices.push((acc >>> accBits) & ((1 << RADIX_BITS) - 1));
+      acc &= (1 << accBits) - 1;
+    }
+  }
+
+  write(bits, FIELD_BITS);
+  write(components.checksum === undefined ? 0 : 1, 1);
+  write(versioned ? components.version! : 0, VERSION_BITS);
+  write(Math.floor(padding / 4), EXTRA_BITS);
+
+  if (versioned) {
+    write(components.threshold!, bits);
+    write(parseInt(components.setId!.slice(0, 4), 16), SET_ID_BITS / 2);
+    write(parseInt(components.setId!.slice(4), 16), SET_ID_BITS / 2);
+  }
+
+  write(components.id, bits);
+
+  for (let i = 0; i < components.data.length; i++) {
+    write(parseInt(components.data.charAt(i), 16), 4);
+  }
+
+  write(0, padding);
+  indices.push(checksumWord(indices));
+
+  return indices.map(function (index: number): string {
+    return BIP39_WORDLIST[index];
+  });
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode words from encodeShareWords() back into share components.
+ *
+ * Words are matched case-insensitively and may be shortened to their first
+ * four letters. The components are not range checked beyond what the words
+ * can express; rebuilding the share string does that.
+ *
+ * @param words - The words, in order
+ * @returns The share components, and whether the share string had a checksum
+ * @throws {InvalidShareError} If a word is unknown, or the checksum word or padding is wrong
+ */
+export function decodeShareWords(words: readonly string[]): {
+  components: ShareComponents;
+  checksum: boolean;
+} {
+  const index = getWordIndex();
+  const phrase = words.join(" ");
+  const indices: number[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].toLowerCase();
+    const value = index[word.slice(0, 4)];
+
+    if (value === undefined || BIP39_WORDLIST[value].indexOf(word) !== 0) {
+      throw new InvalidShareError(phrase, 'Unknown word "' + words[i] + '".');
+    }
+    indices.push(value);
+  }
+
+  if (indices.length < 3) {
+    throw new InvalidShareError(phrase, "A share has at least 3 words.");
+  }
+
+  const checksum = indices.pop()!;
+
+  if (checksumWord(indices) !== checksum) {
+    throw new InvalidShareError(phrase, "Invalid word checksum.");
+  }
+
+  let acc = 0;
+  let accBits = 0;
+  let next = 0;
+  let remaining = indices.length * RADIX_BITS;
+
+  // Take the next count bits, at most 20 at a time
+  function read(count: number): number {
+    if (count > remaining) {
+      throw new InvalidShareError(phrase, "The words are too short for their share.");
+    }
+
+    while (accBits < count) {
+      acc = ((acc << RADIX_BITS) | indices[next++]) & ((1 << (accBits + RADIX_BITS)) - 1);
+      accBits += RADIX_BITS;
+    }
+
+    accBits -= count;
+    remaining -= count;
+    return (acc >>> accBits) & ((1 << count) - 1);
+  }
+
+  const bits = read(FIELD_BITS);
+  const hasChecksum = read(1) === 1;
+
+  if (bits < MIN_FIELD_SIZE || bits > MAX_FIELD_SIZE) {
+    throw new InvalidShareError(phrase, "Unsupported field size of " + bits + " bits.");
+  }
+
+  const version = read(VERSION_BITS);
+  const extra = read(EXTRA_BITS);
+  let threshold: number | undefined;
+  let setId: string | undefined;
+
+  if (version) {
+    threshold = read(bits);
+    setId = "";
+    for (let i = 0; i < SET_ID_BITS; i += 4) {
+      setId += read(4).toString(16);
+    }
+  }
+
+  const id = read(bits);
+  const digits = Math.floor(remaining / 4) - extra;
+  let data = "";
+
+  if (digits < 1) {
+    throw new InvalidShareError(phrase, "The words are too short for their share.");
+  }
+
+  for (let i = 0; i < digits; i++) {
+    data += read(4).toString(16);
+  }
+
+  if (remaining >= RADIX_BITS || read(remaining) !== 0) {
+    throw new InvalidShareError(phrase, "Invalid padding.");
+  }
+
+  const components: {
+    -readonly [K in keyof ShareComponents]: ShareComponents[K];
+  } = { bits, id, data };
+
+  if (version) {
+    components.version = version;
+    components.threshold = threshold;
+    components.setId = setId;
+  }
+
+  return { components, checksum: hasChecksum };
+}
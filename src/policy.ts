@@ -0,0 +1,216 @@
+// Access policies for @digitaldefiance/secrets
+// Parses policies such as "2 of (alice, bob, carol) AND 1 of (legal1, legal2)" into clause trees
+
+import type { PolicyGate, PolicyNode } from "./types";
+
+const keywords = ["and", "or", "of"];
+
+interface Token {
+  readonly text: string;
+  readonly position: number;
+}
+
+function tokenize(policy: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:([(),])|([A-Za-z0-9_.@-]+)|(\S))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(policy)) !== null && match[0] !== "") {
+    const text = match[1] || match[2] || match[3];
+    const position = match.index + match[0].length - text.length + 1;
+
+    if (match[3] !== undefined) {
+      throw new Error('Invalid policy: unexpected "' + text + '" at character ' + position + ".");
+    }
+    tokens.push({ text, position });
+  }
+
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token !== undefined && token.text.toLowerCase() === keyword;
+}
+
+/**
+ * Parse an access policy. A policy is a principal name, "k of (a, b, ...)",
+ * or policies joined by AND and OR, where AND binds tighter than OR and
+ * parentheses group. Keywords are case-insensitive; names are letters,
+ * digits and "_.@-", not starting with a digit.
+ *
+ * @param policy - The policy text
+ * @returns The clause tree, where AND is an n of n clause and OR a 1 of n clause
+ */
+export function parsePolicy(policy: string): PolicyNode {
+  if (typeof policy !== "string") {
+    throw new Error("The policy must be a string.");
+  }
+
+  const tokens = tokenize(policy);
+  let next = 0;
+
+  function fail(): never {
+    const token = tokens[next];
+
+    throw new Error(
+      token === undefined
+        ? "Invalid policy: unexpected end of the policy."
+        : 'Invalid policy: unexpected "' + token.text + '" at character ' + token.position + "."
+    );
+  }
+
+  function expect(text: string): void {
+    if (tokens[next] === undefined || tokens[next].text !== text) {
+      fail();
+    }
+    next++;
+  }
+
+  // Members joined by one keyword form a single clause
+  function parseJoined(keyword: string, parseMember: () => PolicyNode, all: boolean): PolicyNode {
+    const members = [parseMember()];
+
+    while (isKeyword(tokens[next], keyword)) {
+      next++;
+      members.push(parseMember());
+    }
+
+    return members.length === 1 ? members[0] : gate(all ? members.length : 1, members);
+  }
+
+  function parseOr(): PolicyNode {
+    return parseJoined("or", parseAnd, false);
+  }
+
+  function parseAnd(): PolicyNode {
+    return parseJoined("and", parseTerm, true);
+  }
+
+  function parseTerm(): PolicyNode {
+    const token = tokens[next];
+
+    if (token === undefined) {
+      return fail();
+    }
+    if (token.text === "(") {
+      next++;
+
+      const node = parseOr();
+
+      expect(")");
+      return node;
+    }
+    if (/^[0-9]+$/.test(token.text) && isKeyword(tokens[next + 1], "of")) {
+      const members: PolicyNode[] = [];
+
+      next += 2;
+      expect("(");
+      members.push(parseOr());
+      while (tokens[next] !== undefined && tokens[next].text === ",") {
+        next++;
+        members.push(parseOr());
+      }
+      expect(")");
+
+      return gate(parseInt(token.text, 10), members);
+    }
+    if (/^[A-Za-z_.@-]/.test(token.text) && keywords.indexOf(token.text.toLowerCase()) === -1) {
+      next++;
+      return Object.freeze({ name: token.text });
+    }
+
+    return fail();
+  }
+
+  const root = parseOr();
+
+  if (next !== tokens.length) {
+    fail();
+  }
+
+  return root;
+}
+
+function gate(threshold: number, members: PolicyNode[]): PolicyGate {
+  const names: string[] = [];
+
+  if (threshold < 1 || threshold > members.length) {
+    throw new Error(
+      'Invalid policy: the threshold of "' +
+        threshold +
+        " of (" +
+        members.map(formatPolicy).join(", ") +
+        ')" must be between 1 and ' +
+        members.length +
+        "."
+    );
+  }
+
+  members.forEach(function (member: PolicyNode): void {
+    if ("name" in member) {
+      if (names.indexOf(member.name) !== -1) {
+        throw new Error(
+          'Invalid policy: principal "' + member.name + '" appears twice in one clause.'
+        );
+      }
+      names.push(member.name);
+    }
+  });
+
+  return Object.freeze({ threshold, members: Object.freeze(members) });
+}
+
+// Whether a clause is written with AND or OR, and needs parentheses as a member
+function isJoined(node: PolicyGate): boolean {
+  return (
+    node.members.length > 1 && (node.threshold === 1 || node.threshold === node.members.length)
+  );
+}
+
+/**
+ * Write a clause tree back as policy text, the way parsePolicy() reads it.
+ *
+ * @param node - A clause tree from parsePolicy()
+ * @returns The policy, with AND and OR for n of n and 1 of n clauses
+ */
+export function formatPolicy(node: PolicyNode): string {
+  if ("name" in node) {
+    return node.name;
+  }
+
+  if (!isJoined(node)) {
+    return node.threshold + " of (" + node.members.map(formatPolicy).join(", ") + ")";
+  }
+
+  return node.members
+    .map(function (member: PolicyNode): string {
+      return "name" in member || !isJoined(member)
+        ? formatPolicy(member)
+        : "(" + formatPolicy(member) + ")";
+    })
+    .join(node.threshold === 1 ? " OR " : " AND ");
+}
+
+/**
+ * List the principals of a policy.
+ *
+ * @param node - A clause tree from parsePolicy()
+ * @returns Every principal once, in the order of their first appearance
+ */
+export function policyPrincipals(node: PolicyNode): string[] {
+  if ("name" in node) {
+    return [node.name];
+  }
+
+  const names: string[] = [];
+
+  node.members.forEach(function (member: PolicyNode): void {
+    policyPrincipals(member).forEach(function (name: string): void {
+      if (names.indexOf(name) === -1) {
+        names.push(name);
+      }
+    });
+  });
+
+  return names;
+}
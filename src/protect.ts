@@ -0,0 +1,392 @@
+// Passphrase-protected shares for @digitaldefiance/secrets
+// A versioned envelope holding a share string encrypted with AES-256-GCM under a key derived
+// from a passphrase, with the KDF parameters and the share's field size and id in the clear
+
+import {
+  AES_KEY_LENGTH,
+  GCM_IV_LENGTH,
+  aesGcmDecrypt,
+  aesGcmDecryptSync,
+  aesGcmEncrypt,
+  getNodeCrypto,
+  getSubtle,
+} from "./cipher";
+import { decodeBase64url, encodeBase64url } from "./encodings";
+import { CryptoError, InvalidShareError } from "./errors";
+import { readUint32, writeUint32 } from "./words";
+import type { PassphraseKdf, ProtectedShareInfo } from "./types";
+
+/**
+ * Prefix of a protected share, which no share string can start with
+ */
+export const PROTECTED_PREFIX = "secrets-protected:";
+
+/**
+ * Size of the random salt of the key derivation in bytes
+ */
+export const SALT_LENGTH = 16;
+
+const ENVELOPE_VERSION = 1;
+
+// Version, KDF, cost, block size, parallelism, field size and share id
+const HEADER_LENGTH = 13;
+
+// The header, salt and nonce are authenticated as additional data
+const AAD_LENGTH = HEADER_LENGTH + SALT_LENGTH + GCM_IV_LENGTH;
+
+const KDF_IDS: { readonly [kdf in PassphraseKdf]: number } = Object.freeze({
+  scrypt: 1,
+  pbkdf2: 2,
+});
+
+// The OWASP recommendations for password storage
+const SCRYPT_COST = 131072;
+const SCRYPT_BLOCK_SIZE = 8;
+const PBKDF2_ITERATIONS = 600000;
+
+// A crafted envelope must not make unprotecting take unbounded memory or time
+const MAX_SCRYPT_MEMORY = 1073741824;
+const MAX_SCRYPT_PARALLELISM = 16;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+/**
+ * A parsed protected share
+ *
+ * @property info - The cleartext KDF, field size and share id
+ * @property cost - scrypt's N, or the number of PBKDF2 iterations
+ * @property blockSize - scrypt's r, 0 for PBKDF2
+ * @property parallelism - scrypt's p, 0 for PBKDF2
+ * @property salt - Salt of the key derivation
+ * @property iv - AES-GCM nonce
+ * @property aad - The header, salt and nonce, as authenticated
+ * @property ciphertext - The encrypted share string followed by the tag
+ */
+export interface ProtectedEnvelope {
+  readonly info: ProtectedShareInfo;
+  readonly cost: number;
+  readonly blockSize: number;
+  readonly parallelism: number;
+  readonly salt: Uint8Array;
+  readonly iv: Uint8Array;
+  readonly aad: Uint8Array;
+  readonly ciphertext: Uint8Array;
+}
+
+// The parameters a key is derived with
+type KdfParams = Pick<ProtectedEnvelope, "info" | "cost" | "blockSize" | "parallelism" | "salt">;
+
+/**
+ * Check whether a value is a protected share.
+ *
+ * @param value - Any value
+ * @returns Whether it is a string starting with PROTECTED_PREFIX
+ */
+export function isProtectedShare(value: unknown): value is string {
+  return typeof value === "string" && value.slice(0, PROTECTED_PREFIX.length) === PROTECTED_PREFIX;
+}
+
+/**
+ * The KDF protectShare() uses by default: scrypt where Node.js provides it,
+ * and PBKDF2-HMAC-SHA256 everywhere else.
+ *
+ * @returns The KDF
+ */
+export function defaultKdf(): PassphraseKdf {
+  const nodeCrypto = getNodeCrypto();
+
+  return nodeCrypto && typeof nodeCrypto.scryptSync === "function" ? "scrypt" : "pbkdf2";
+}
+
+// The passphrase as UTF-8, after NFKC normalization so that every input method gives the same bytes
+function passphraseBytes(passphrase: string): Uint8Array {
+  const text = passphrase.normalize("NFKC");
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let c = text.charCodeAt(i);
+
+    if (c >= 0xd800 && c < 0xdc00 && i + 1 < text.length) {
+      const low = text.charCodeAt(i + 1);
+
+      if (low >= 0xdc00 && low < 0xe000) {
+        c = 0x10000 + ((c - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+
+    if (c < 0x80) {
+      bytes.push(c);
+    } else if (c < 0x800) {
+      bytes.push(0xc0 | (c >>> 6), 0x80 | (c & 0x3f));
+    } else if (c < 0x10000) {
+      bytes.push(0xe0 | (c >>> 12), 0x80 | ((c >>> 6) & 0x3f), 0x80 | (c & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (c >>> 18),
+        0x80 | ((c >>> 12) & 0x3f),
+        0x80 | ((c >>> 6) & 0x3f),
+        0x80 | (c & 0x3f)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// Derive the key with the crypto module of Node.js
+function deriveKeySync(passphrase: string, params: KdfParams): Uint8Array {
+  const nodeCrypto = getNodeCrypto();
+  const scrypt = params.info.kdf === "scrypt" && nodeCrypto ? nodeCrypto.scryptSync : undefined;
+
+  if (!nodeCrypto || (params.info.kdf === "scrypt" && !scrypt)) {
+    throw new CryptoError(
+      params.info.kdf + " key derivation",
+      "The crypto module of Node.js is not available."
+    );
+  }
+
+  const password = passphraseBytes(passphrase);
+  const derived = scrypt
+    ? scrypt(password, params.salt, AES_KEY_LENGTH, {
+        N: params.cost,
+        r: params.blockSize,
+        p: params.parallelism,
+        maxmem: 2 * 128 * params.cost * params.blockSize,
+      })
+    : nodeCrypto.pbkdf2Sync(password, params.salt, params.cost, AES_KEY_LENGTH, "sha256");
+  const key = new Uint8Array(derived);
+
+  password.fill(0);
+  derived.fill(0);
+  return key;
+}
+
+// Derive the key with Node.js, or with the PBKDF2 of WebCrypto outside Node.js
+function deriveKey(passphrase: string, params: KdfParams): Promise<Uint8Array> {
+  const subtle = getSubtle();
+
+  return Promise.resolve().then(function (): Uint8Array | Promise<Uint8Array> {
+    if (getNodeCrypto() || params.info.kdf !== "pbkdf2" || !subtle) {
+      return deriveKeySync(passphrase, params);
+    }
+
+    const password = passphraseBytes(passphrase);
+
+    return subtle
+      .importKey("raw", new Uint8Array(password).buffer, "PBKDF2", false, ["deriveBits"])
+      .then(function (baseKey: CryptoKey): Promise<ArrayBuffer> {
+        password.fill(0);
+
+        return subtle.deriveBits(
+          {
+            name: "PBKDF2",
+            hash: "SHA-256",
+            salt: new Uint8Array(params.salt).buffer,
+            iterations: params.cost,
+          },
+          baseKey,
+          AES_KEY_LENGTH * 8
+        );
+      })
+      .then(function (bits: ArrayBuffer): Uint8Array {
+        return new Uint8Array(bits);
+      });
+  });
+}
+
+// The authenticated header, salt and nonce of a new envelope
+function writeHeader(params: KdfParams, iv: Uint8Array): Uint8Array {
+  const aad = new Uint8Array(AAD_LENGTH);
+
+  aad[0] = ENVELOPE_VERSION;
+  aad[1] = KDF_IDS[params.info.kdf];
+  writeUint32(aad, 2, params.cost);
+  aad[6] = params.blockSize;
+  aad[7] = params.parallelism;
+  aad[8] = params.info.bits;
+  writeUint32(aad, 9, params.info.id);
+  aad.set(params.salt, HEADER_LENGTH);
+  aad.set(iv, HEADER_LENGTH + SALT_LENGTH);
+
+  return aad;
+}
+
+// The share string decrypted from an envelope, which is null if the tag did not match
+function readPlaintext(plaintext: Uint8Array | null): string {
+  let share = "";
+
+  if (!plaintext) {
+    throw new CryptoError(
+      "AES-256-GCM decryption",
+      "The passphrase is wrong, or the protected share was altered."
+    );
+  }
+
+  for (let i = 0; i < plaintext.length; i++) {
+    share += String.fromCharCode(plaintext[i]);
+  }
+
+  plaintext.fill(0);
+  return share;
+}
+
+/**
+ * Protect a share string with a passphrase.
+ *
+ * @param share - The share string, in any encoding
+ * @param info - The KDF, and the share's field size and id to keep in the clear
+ * @param passphrase - The passphrase
+ * @param salt - SALT_LENGTH random bytes
+ * @param iv - GCM_IV_LENGTH random bytes
+ * @returns A promise of the protected share, PROTECTED_PREFIX and the base64url envelope
+ */
+export function protectShareString(
+  share: string,
+  info: ProtectedShareInfo,
+  passphrase: string,
+  salt: Uint8Array,
+  iv: Uint8Array
+): Promise<string> {
+  const scrypt = info.kdf === "scrypt";
+  const params = {
+    info,
+    cost: scrypt ? SCRYPT_COST : PBKDF2_ITERATIONS,
+    blockSize: scrypt ? SCRYPT_BLOCK_SIZE : 0,
+    parallelism: scrypt ? 1 : 0,
+    salt,
+  };
+  const aad = writeHeader(params, iv);
+  const plaintext = new Uint8Array(share.length);
+
+  // Share strings are ASCII in every encoding
+  for (let i = 0; i < share.length; i++) {
+    plaintext[i] = share.charCodeAt(i);
+  }
+
+  return deriveKey(passphrase, params)
+    .then(function (key: Uint8Array): Promise<Uint8Array> {
+      return aesGcmEncrypt(key, iv, plaintext, aad).then(function (
+        ciphertext: Uint8Array
+      ): Uint8Array {
+        key.fill(0);
+        return ciphertext;
+      });
+    })
+    .then(function (ciphertext: Uint8Array): string {
+      const envelope = new Uint8Array(AAD_LENGTH + ciphertext.length);
+
+      plaintext.fill(0);
+      envelope.set(aad);
+      envelope.set(ciphertext, AAD_LENGTH);
+
+      return PROTECTED_PREFIX + encodeBase64url(envelope);
+    });
+}
+
+/**
+ * Parse a protected share without decrypting it.
+ *
+ * @param protectedShare - A protected share
+ * @returns The envelope
+ * @throws {InvalidShareError} If the protected share is malformed, of an
+ *                             unknown version, or asks for too much work
+ */
+export function readEnvelope(protectedShare: string): ProtectedEnvelope {
+  let bytes: Uint8Array;
+
+  if (!isProtectedShare(protectedShare)) {
+    throw new InvalidShareError(String(protectedShare), "The value is not a protected share.");
+  }
+
+  try {
+    bytes = decodeBase64url(protectedShare.slice(PROTECTED_PREFIX.length));
+  } catch (e) {
+    throw new InvalidShareError(protectedShare, (e as Error).message);
+  }
+
+  if (bytes.length < AAD_LENGTH) {
+    throw new InvalidShareError(protectedShare, "The protected share is truncated.");
+  }
+  if (bytes[0] !== ENVELOPE_VERSION) {
+    throw new InvalidShareError(
+      protectedShare,
+      "Unsupported protected share version " + bytes[0] + "."
+    );
+  }
+
+  const kdf: PassphraseKdf | undefined =
+    bytes[1] === KDF_IDS.scrypt ? "scrypt" : bytes[1] === KDF_IDS.pbkdf2 ? "pbkdf2" : undefined;
+  const cost = readUint32(bytes, 2);
+  const blockSize = bytes[6];
+  const parallelism = bytes[7];
+  const scryptValid =
+    cost > 1 &&
+    (cost & (cost - 1)) === 0 &&
+    blockSize >= 1 &&
+    128 * cost * blockSize <= MAX_SCRYPT_MEMORY &&
+    parallelism >= 1 &&
+    parallelism <= MAX_SCRYPT_PARALLELISM;
+  const pbkdf2Valid =
+    cost >= 1 && cost <= MAX_PBKDF2_ITERATIONS && blockSize === 0 && parallelism === 0;
+
+  if (!kdf || (kdf === "scrypt" ? !scryptValid : !pbkdf2Valid)) {
+    throw new InvalidShareError(
+      protectedShare,
+      "The protected share has unsupported key derivation parameters."
+    );
+  }
+
+  return Object.freeze({
+    info: Object.freeze({ kdf, bits: bytes[8], id: readUint32(bytes, 9) }),
+    cost,
+    blockSize,
+    parallelism,
+    salt: bytes.subarray(HEADER_LENGTH, HEADER_LENGTH + SALT_LENGTH),
+    iv: bytes.subarray(HEADER_LENGTH + SALT_LENGTH, AAD_LENGTH),
+    aad: bytes.subarray(0, AAD_LENGTH),
+    ciphertext: bytes.subarray(AAD_LENGTH),
+  });
+}
+
+/**
+ * Decrypt a protected share.
+ *
+ * @param protectedShare - A protected share
+ * @param passphrase - The passphrase it was protected with
+ * @returns A promise of the share string
+ * @throws {InvalidShareError} If the protected share is malformed
+ * @throws {CryptoError} If the passphrase is wrong or the protected share was altered
+ */
+export function unprotectShareString(protectedShare: string, passphrase: string): Promise<string> {
+  return Promise.resolve().then(function (): Promise<string> {
+    const envelope = readEnvelope(protectedShare);
+
+    return deriveKey(passphrase, envelope).then(function (key: Uint8Array): Promise<string> {
+      return aesGcmDecrypt(key, envelope.iv, envelope.ciphertext, envelope.aad).then(function (
+        plaintext: Uint8Array | null
+      ): string {
+        key.fill(0);
+        return readPlaintext(plaintext);
+      });
+    });
+  });
+}
+
+/**
+ * Decrypt a protected share synchronously, which only Node.js provides.
+ *
+ * @param protectedShare - A protected share
+ * @param passphrase - The passphrase it was protected with
+ * @returns The share string
+ * @throws {InvalidShareError} If the protected share is malformed
+ * @throws {CryptoError} If the passphrase is wrong, the protected share was
+ *                       altered, or the crypto module of Node.js is missing
+ */
+export function unprotectShareStringSync(protectedShare: string, passphrase: string): string {
+  const envelope = readEnvelope(protectedShare);
+  const key = deriveKeySync(passphrase, envelope);
+  const plaintext = aesGcmDecryptSync(key, envelope.iv, envelope.ciphertext, envelope.aad);
+
+  key.fill(0);
+  return readPlaintext(plaintext);
+}
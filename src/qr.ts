@@ -0,0 +1,677 @@
+// QR codes for @digitaldefiance/secrets
+// A self-contained QR Code Model 2 encoder (ISO/IEC 18004), so that shares can be printed
+// on an air-gapped machine without any third-party service
+
+import { getField, multiply } from "./field";
+import type { GaloisField, QrCode, QrErrorCorrection, QrMode } from "./types";
+
+/**
+ * The characters of alphanumeric mode, by value
+ */
+export const QR_ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Row in the block tables and two bit format code of each error correction level
+const LEVELS: { readonly [level: string]: { readonly row: number; readonly format: number } } = {
+  L: { row: 0, format: 1 },
+  M: { row: 1, format: 0 },
+  Q: { row: 2, format: 3 },
+  H: { row: 3, format: 2 },
+};
+
+// Error correction codewords per block, by level row and version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: readonly (readonly number[])[] = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30,
+    30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30,
+    30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+];
+
+// Number of error correction blocks, by level row and version (index 0 unused)
+const ECC_BLOCKS: readonly (readonly number[])[] = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14,
+    15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23,
+    25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34,
+    34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35,
+    37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+];
+
+// Mode indicators and character count field widths for versions 1-9, 10-26 and 27-40
+const MODES: {
+  readonly [mode: string]: { readonly indicator: number; readonly countBits: readonly number[] };
+} = {
+  alphanumeric: { indicator: 0x2, countBits: [9, 11, 13] },
+  byte: { indicator: 0x4, countBits: [8, 16, 16] },
+};
+
+// Weights of the mask penalty rules
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER = 40;
+const PENALTY_BALANCE = 10;
+
+// The finder-like pattern of penalty rule 3: dark, light, three dark, light, dark
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+// A symbol being drawn: module colors, and which modules belong to function patterns
+interface Canvas {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+}
+
+// ============================================================================
+// Capacity
+// ============================================================================
+
+// Modules left for data and error correction once the function patterns are drawn
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+
+  return result;
+}
+
+function dataCodewords(version: number, row: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[row][version] * ECC_BLOCKS[row][version]
+  );
+}
+
+function countBits(mode: QrMode, version: number): number {
+  return MODES[mode].countBits[version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+// Centers of the alignment patterns along either axis
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+
+  for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Codewords
+// ============================================================================
+
+function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+}
+
+/**
+ * Check whether text can be encoded in alphanumeric mode.
+ *
+ * @param text - The text to check
+ * @returns True if every character is a digit, an uppercase letter or one of " $%*+-./:"
+ */
+export function isQrAlphanumeric(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (QR_ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)) === -1) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// The data bits of a segment, without its mode indicator and character count
+function segmentBits(text: string, mode: QrMode): number[] {
+  const bits: number[] = [];
+
+  if (mode === "alphanumeric") {
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      appendBits(
+        bits,
+        QR_ALPHANUMERIC_CHARSET.indexOf(text.charAt(i)) * 45 +
+          QR_ALPHANUMERIC_CHARSET.indexOf(text.charAt(i + 1)),
+        11
+      );
+    }
+    if (text.length % 2) {
+      appendBits(bits, QR_ALPHANUMERIC_CHARSET.indexOf(text.charAt(text.length - 1)), 6);
+    }
+  } else {
+    for (let i = 0; i < text.length; i++) {
+      appendBits(bits, text.charCodeAt(i), 8);
+    }
+  }
+
+  return bits;
+}
+
+// The generator polynomial of a Reed-Solomon code with the given number of ecc codewords,
+// highest degree first and without the leading 1
+function rsDivisor(field: GaloisField, degree: number): number[] {
+  const result: number[] = [];
+  let root = 1;
+
+  for (let i = 0; i < degree - 1; i++) {
+    result.push(0);
+  }
+  result.push(1);
+
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(field, result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = multiply(field, root, 2);
+  }
+
+  return result;
+}
+
+function rsRemainder(
+  field: GaloisField,
+  data: readonly number[],
+  divisor: readonly number[]
+): number[] {
+  const result: number[] = [];
+
+  for (let i = 0; i < divisor.length; i++) {
+    result.push(0);
+  }
+
+  for (let i = 0; i < data.length; i++) {
+    const factor = data[i] ^ result.shift()!;
+
+    result.push(0);
+    for (let j = 0; j < divisor.length; j++) {
+      result[j] ^= multiply(field, divisor[j], factor);
+    }
+  }
+
+  return result;
+}
+
+// Split the data codewords into blocks, append each block's error correction codewords and
+// interleave the blocks into the final codeword sequence
+function addErrorCorrection(data: readonly number[], version: number, row: number): number[] {
+  const field = getField(8);
+  const numBlocks = ECC_BLOCKS[row][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[row][version];
+  const totalCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (totalCodewords % numBlocks);
+  const shortDataLength = Math.floor(totalCodewords / numBlocks) - eccLength;
+  const divisor = rsDivisor(field, eccLength);
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  const result: number[] = [];
+
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const block = data.slice(offset, offset + shortDataLength + (i < numShortBlocks ? 0 : 1));
+
+    offset += block.length;
+    dataBlocks.push(block);
+    eccBlocks.push(rsRemainder(field, block, divisor));
+  }
+
+  for (let i = 0; i <= shortDataLength; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      if (i < dataBlocks[j].length) {
+        result.push(dataBlocks[j][i]);
+      }
+    }
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      result.push(eccBlocks[j][i]);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+function setFunctionModule(canvas: Canvas, x: number, y: number, dark: boolean): void {
+  canvas.modules[y][x] = dark;
+  canvas.reserved[y][x] = true;
+}
+
+function drawFinder(canvas: Canvas, cx: number, cy: number): void {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      const x = cx + dx;
+      const y = cy + dy;
+
+      if (x >= 0 && x < canvas.size && y >= 0 && y < canvas.size) {
+        setFunctionModule(canvas, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+}
+
+function drawAlignment(canvas: Canvas, cx: number, cy: number): void {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      setFunctionModule(canvas, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+// The 15 bit format information: level and mask, a BCH(15,5) code and the fixed mask
+function formatBits(row: number, mask: number): number {
+  const data = (LEVELS["LMQH".charAt(row)].format << 3) | mask;
+  let rem = data;
+
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+// The 18 bit version information of versions 7 and up: the version and a BCH(18,6) code
+function versionBits(version: number): number {
+  let rem = version;
+
+  for (let i = 0; i < 12; i++) {
+    rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  }
+
+  return (version << 12) | rem;
+}
+
+function drawFormat(canvas: Canvas, row: number, mask: number): void {
+  const bits = formatBits(row, mask);
+  const size = canvas.size;
+
+  // Around the top left finder
+  for (let i = 0; i <= 5; i++) {
+    setFunctionModule(canvas, 8, i, ((bits >>> i) & 1) === 1);
+  }
+  setFunctionModule(canvas, 8, 7, ((bits >>> 6) & 1) === 1);
+  setFunctionModule(canvas, 8, 8, ((bits >>> 7) & 1) === 1);
+  setFunctionModule(canvas, 7, 8, ((bits >>> 8) & 1) === 1);
+  for (let i = 9; i < 15; i++) {
+    setFunctionModule(canvas, 14 - i, 8, ((bits >>> i) & 1) === 1);
+  }
+
+  // Split between the other two finders, next to the always dark module
+  for (let i = 0; i < 8; i++) {
+    setFunctionModule(canvas, size - 1 - i, 8, ((bits >>> i) & 1) === 1);
+  }
+  for (let i = 8; i < 15; i++) {
+    setFunctionModule(canvas, 8, size - 15 + i, ((bits >>> i) & 1) === 1);
+  }
+  setFunctionModule(canvas, 8, size - 8, true);
+}
+
+function drawFunctionPatterns(canvas: Canvas, version: number, row: number): void {
+  const size = canvas.size;
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(canvas, 6, i, i % 2 === 0);
+    setFunctionModule(canvas, i, 6, i % 2 === 0);
+  }
+
+  drawFinder(canvas, 3, 3);
+  drawFinder(canvas, size - 4, 3);
+  drawFinder(canvas, 3, size - 4);
+
+  for (let i = 0; i <= last; i++) {
+    for (let j = 0; j <= last; j++) {
+      // Skip the three corners taken by finders
+      if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+        drawAlignment(canvas, positions[i], positions[j]);
+      }
+    }
+  }
+
+  // Reserve the format areas; the real bits are drawn once the mask is chosen
+  drawFormat(canvas, row, 0);
+
+  if (version >= 7) {
+    const bits = versionBits(version);
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+
+      setFunctionModule(canvas, a, b, dark);
+      setFunctionModule(canvas, b, a, dark);
+    }
+  }
+}
+
+// Place the codewords in the two module wide zigzag from the bottom right corner,
+// skipping function patterns and the vertical timing pattern
+function drawCodewords(canvas: Canvas, codewords: readonly number[]): void {
+  const size = canvas.size;
+  let i = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+
+    const upward = ((right + 1) & 2) === 0;
+
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+
+        if (!canvas.reserved[y][x] && i < codewords.length * 8) {
+          canvas.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Xor a mask over the data modules; applying the same mask twice undoes it
+function applyMask(canvas: Canvas, mask: number): void {
+  for (let y = 0; y < canvas.size; y++) {
+    for (let x = 0; x < canvas.size; x++) {
+      if (!canvas.reserved[y][x] && maskBit(mask, x, y)) {
+        canvas.modules[y][x] = !canvas.modules[y][x];
+      }
+    }
+  }
+}
+
+// Penalties of rules 1 and 3 along one row or column; the quiet zone around the symbol
+// counts as light
+function linePenalty(line: readonly boolean[]): number {
+  let penalty = 0;
+  let run = 1;
+
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run++;
+    } else {
+      if (run >= 5) {
+        penalty += PENALTY_RUN + run - 5;
+      }
+      run = 1;
+    }
+  }
+
+  for (let i = 0; i + FINDER_LIKE.length <= line.length; i++) {
+    let matches = true;
+
+    for (let j = 0; j < FINDER_LIKE.length && matches; j++) {
+      matches = line[i + j] === FINDER_LIKE[j];
+    }
+    if (matches && (isLight(line, i - 4, i) || isLight(line, i + 7, i + 11))) {
+      penalty += PENALTY_FINDER;
+    }
+  }
+
+  return penalty;
+}
+
+function isLight(line: readonly boolean[], start: number, end: number): boolean {
+  for (let i = start; i < end; i++) {
+    if (i >= 0 && i < line.length && line[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function penaltyScore(canvas: Canvas): number {
+  const size = canvas.size;
+  const modules = canvas.modules;
+  let penalty = 0;
+  let dark = 0;
+
+  for (let y = 0; y < size; y++) {
+    // Column y, to score alongside row y
+    const column: boolean[] = [];
+
+    for (let x = 0; x < size; x++) {
+      column.push(modules[x][y]);
+      if (modules[y][x]) {
+        dark++;
+      }
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+
+    penalty += linePenalty(modules[y]) + linePenalty(column);
+  }
+
+  // Every 5% the dark share strays from half
+  penalty += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * PENALTY_BALANCE;
+
+  return penalty;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode text as a QR code in the smallest version that holds it.
+ *
+ * Byte mode writes each character as one byte, so text is expected to be
+ * ASCII, as share strings are. Of the eight masks, the one with the lowest
+ * penalty score is used.
+ *
+ * @param text - The text to encode
+ * @param errorCorrection - The error correction level, from L (7%) to H (30%)
+ * @param mode - The encoding mode; alphanumeric needs text of QR_ALPHANUMERIC_CHARSET
+ * @returns The symbol, with modules indexed [row][column] and true for dark
+ * @throws {Error} If text does not fit the mode or is too long for a version 40 symbol
+ */
+export function encodeQr(text: string, errorCorrection: QrErrorCorrection, mode: QrMode): QrCode {
+  const row = LEVELS[errorCorrection].row;
+  const data = segmentBits(text, mode);
+  let version = MIN_VERSION;
+
+  if (mode === "alphanumeric" && !isQrAlphanumeric(text)) {
+    throw new Error("Text must only hold the characters of alphanumeric mode.");
+  }
+  for (; version <= MAX_VERSION; version++) {
+    const length = 4 + countBits(mode, version) + data.length;
+
+    if (
+      length <= dataCodewords(version, row) * 8 &&
+      text.length < Math.pow(2, countBits(mode, version))
+    ) {
+      break;
+    }
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(
+      "Text is too long for a QR code at error correction level " + errorCorrection + "."
+    );
+  }
+
+  // Mode indicator, character count, data, then a terminator and padding up to the capacity
+  const capacity = dataCodewords(version, row) * 8;
+  const bits: number[] = [];
+  const codewords: number[] = [];
+
+  appendBits(bits, MODES[mode].indicator, 4);
+  appendBits(bits, text.length, countBits(mode, version));
+  for (let i = 0; i < data.length; i++) {
+    bits.push(data[i]);
+  }
+  appendBits(bits, 0, Math.min(4, capacity - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+  for (let i = 0; i < bits.length; i += 8) {
+    let value = 0;
+
+    for (let j = 0; j < 8; j++) {
+      value = (value << 1) | bits[i + j];
+    }
+    codewords.push(value);
+  }
+
+  const size = version * 4 + 17;
+  const canvas: Canvas = { size, modules: [], reserved: [] };
+
+  for (let y = 0; y < size; y++) {
+    canvas.modules.push([]);
+    canvas.reserved.push([]);
+    for (let x = 0; x < size; x++) {
+      canvas.modules[y].push(false);
+      canvas.reserved[y].push(false);
+    }
+  }
+
+  drawFunctionPatterns(canvas, version, row);
+  drawCodewords(canvas, addErrorCorrection(codewords, version, row));
+
+  let mask = 0;
+  let best = Infinity;
+
+  for (let candidate = 0; candidate < 8; candidate++) {
+    applyMask(canvas, candidate);
+    drawFormat(canvas, row, candidate);
+
+    const penalty = penaltyScore(canvas);
+
+    if (penalty < best) {
+      best = penalty;
+      mask = candidate;
+    }
+    applyMask(canvas, candidate);
+  }
+
+  applyMask(canvas, mask);
+  drawFormat(canvas, row, mask);
+
+  return { version, errorCorrection, mode, mask, text, modules: canvas.modules };
+}
+
+/**
+ * Render a QR code's modules as an SVG image.
+ *
+ * Dark modules are drawn as one path on a white background, merging
+ * horizontal runs, with crisp edges so that scaling keeps them square.
+ *
+ * @param modules - The modules, indexed [row][column], true for dark
+ * @param scale - Size of one module in user units
+ * @param margin - Width of the light quiet zone around the symbol, in modules
+ * @returns A standalone SVG document
+ */
+export function qrToSvg(
+  modules: readonly (readonly boolean[])[],
+  scale: number,
+  margin: number
+): string {
+  const width = modules.length + margin * 2;
+  const parts: string[] = [];
+
+  for (let y = 0; y < modules.length; y++) {
+    for (let x = 0; x < modules.length; x++) {
+      if (modules[y][x]) {
+        let run = 1;
+
+        while (x + run < modules.length && modules[y][x + run]) {
+          run++;
+        }
+        parts.push("M" + (x + margin) + "," + (y + margin) + "h" + run + "v1h-" + run + "z");
+        x += run - 1;
+      }
+    }
+  }
+
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 ' +
+    width +
+    " " +
+    width +
+    '" width="' +
+    width * scale +
+    '" height="' +
+    width * scale +
+    '" shape-rendering="crispEdges">' +
+    '<rect width="100%" height="100%" fill="#ffffff"/>' +
+    '<path d="' +
+    parts.join("") +
+    '" fill="#000000"/></svg>'
+  );
+}
@@ -0,0 +1,710 @@
+// Share maintenance for @digitaldefiance/secrets
+// Proactive refresh, resharing to a new threshold and repair of lost shares, run between holders
+
+import { combineWords, getShares } from "./core";
+import { InsufficientSharesError, MismatchedSharesError } from "./errors";
+import { createWords, getField, lagrangeBasis, lagrangeWords } from "./field";
+import { fillRandomWords } from "./rng";
+import { sha256 } from "./sha256";
+import { bytesToHex, constructPublicShareString, defaults, shareSetIdLength } from "./shares";
+import { createMemoryTransport } from "./transport";
+import { hexToWords, wordsToHex } from "./words";
+import type {
+  ContextCore,
+  FieldArray,
+  RefreshHolder,
+  RefreshOptions,
+  RepairHelper,
+  RepairOptions,
+  RepairRecipient,
+  ReshareDealer,
+  ReshareHolder,
+  ReshareOptions,
+  SecretsContext,
+  ShareComponents,
+  ShareMessage,
+  Shares,
+  ShareTransport,
+} from "./types";
+
+/**
+ * Create the share maintenance protocols of a context.
+ *
+ * @param core - The core of the context
+ * @returns The refresh, reshare and repair participants, and reshare()
+ */
+export function createRefreshProtocols(
+  core: ContextCore
+): Pick<
+  SecretsContext,
+  | "createRefreshHolder"
+  | "createReshareDealer"
+  | "createReshareHolder"
+  | "reshare"
+  | "createRepairHelper"
+  | "createRepairRecipient"
+> {
+  const { config, extractShareComponents, parseShares, validateShareCounts } = core;
+
+  // The set id of the shares after a refresh or reshare, the same for every holder
+  function derivedSetId(protocol: string, setId: string, round: string): string {
+    const text = protocol + ":" + setId + "/" + round;
+    const bytes = new Uint8Array(text.length * 2);
+
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i) >>> 8;
+      bytes[i * 2 + 1] = text.charCodeAt(i) & 0xff;
+    }
+
+    return bytesToHex(sha256(bytes)).slice(0, shareSetIdLength);
+  }
+
+  // Throw unless ids are distinct share ids up to maxShares, including own if given
+  function validateHolderIds(
+    ids: readonly number[],
+    maxShares: number,
+    name: string,
+    own?: number
+  ): void {
+    if (
+      !Array.isArray(ids) ||
+      ids.length === 0 ||
+      (own !== undefined && ids.indexOf(own) === -1) ||
+      !ids.every(function (id: number, i: number): boolean {
+        return (
+          typeof id === "number" &&
+          id % 1 === 0 &&
+          id >= 1 &&
+          id <= maxShares &&
+          ids.indexOf(id) === i
+        );
+      })
+    ) {
+      throw new Error(
+        name +
+          " must be an Array of distinct share ids" +
+          (own === undefined ? "." : ", including this share's id.")
+      );
+    }
+  }
+
+  // Take the messages of a round for one holder, keeping the payload of each
+  // expected sender that passes check(). Valid payloads are kept across calls,
+  // so a step can be retried once the missing ones arrive. Of the required
+  // contributions, those beyond the senders' are the holder's own.
+  function receiveFrom(
+    transport: ShareTransport,
+    round: string,
+    to: number,
+    senders: readonly number[],
+    received: { [from: number]: string },
+    required: number,
+    sender: string,
+    step: string,
+    check: (data: string, from: number) => string | undefined
+  ): void {
+    let error: Error | undefined;
+
+    transport.receive(round, to).forEach(function (message: ShareMessage): void {
+      let reason: string | undefined;
+
+      if (senders.indexOf(message.from) === -1) {
+        reason = sender + " " + message.from + " is not part of this " + step + ".";
+      } else if (received[message.from] !== undefined) {
+        reason = sender + " " + message.from + " sent more than one sub-share.";
+      } else {
+        reason = check(message.data, message.from);
+        if (reason === undefined) {
+          received[message.from] = message.data;
+        }
+      }
+
+      error = error || (reason === undefined ? undefined : new MismatchedSharesError(reason));
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const missing = senders.filter(function (from: number): boolean {
+      return received[from] === undefined;
+    });
+
+    if (missing.length) {
+      throw new InsufficientSharesError(
+        required,
+        required - missing.length,
+        "Sub-shares are missing from " + sender.toLowerCase() + "s " + missing.join(", ") + "."
+      );
+    }
+  }
+
+  // A check for receiveFrom() that accepts hex sub-shares of the given length
+  function hexSubShareCheck(
+    length: number,
+    sender: string
+  ): (data: string, from: number) => string | undefined {
+    return function (data: string, from: number): string | undefined {
+      if (data.length !== length) {
+        return "The sub-share from " + sender + " " + from + " has the wrong length.";
+      }
+
+      return /^[0-9a-f]*$/i.test(data)
+        ? undefined
+        : "The sub-share from " + sender + " " + from + " is malformed.";
+    };
+  }
+
+  // A check for receiveFrom() that accepts the share strings of one set at id,
+  // keeping the first one accepted in header[0]
+  function subShareCheck(
+    id: number,
+    sender: string,
+    header: ShareComponents[]
+  ): (data: string, from: number) => string | undefined {
+    return function (data: string, from: number): string | undefined {
+      const source = "The sub-share from " + sender + " " + from;
+      let subShare: ShareComponents;
+
+      try {
+        subShare = extractShareComponents(data);
+      } catch {
+        return source + " is malformed.";
+      }
+
+      if (subShare.id !== id) {
+        return source + " is for share " + subShare.id + ".";
+      }
+      if (header[0] === undefined) {
+        header[0] = subShare;
+      } else if (
+        subShare.bits !== header[0].bits ||
+        subShare.threshold !== header[0].threshold ||
+        subShare.setId !== header[0].setId ||
+        subShare.data.length !== header[0].data.length
+      ) {
+        return source + " differs from the others.";
+      }
+
+      return undefined;
+    };
+  }
+
+  function createRefreshHolder(
+    share: string,
+    holders: readonly number[],
+    options?: RefreshOptions
+  ): RefreshHolder {
+    const components = extractShareComponents(share);
+    const field = getField(components.bits);
+    const opts = options || {};
+    let round = opts.round;
+    let threshold = opts.threshold;
+
+    if (round === undefined) {
+      round = components.setId !== undefined ? components.setId : "refresh";
+    }
+
+    if (components.threshold !== undefined) {
+      if (threshold === undefined) {
+        threshold = components.threshold;
+      } else if (threshold !== components.threshold) {
+        throw new MismatchedSharesError(
+          "Threshold " +
+            threshold +
+            " differs from the share's threshold " +
+            components.threshold +
+            "."
+        );
+      }
+    }
+
+    if (threshold === undefined) {
+      throw new Error("The threshold is required to refresh a share without a header.");
+    }
+    // Any threshold the field allows, as there is no total number of shares
+    validateShareCounts(field.maxShares, threshold, field.maxShares);
+    if (typeof round !== "string") {
+      throw new Error("The refresh round must be a string.");
+    }
+    validateHolderIds(holders, field.maxShares, "Holders", components.id);
+    if (holders.length < threshold) {
+      throw new InsufficientSharesError(
+        threshold,
+        holders.length,
+        "A refresh needs at least a threshold of holders."
+      );
+    }
+
+    const id = components.id;
+    const shareThreshold = threshold;
+    const roundId = round;
+    const words = hexToWords(components.data, field.bits);
+    // Only whole words of the share data are refreshed; the bits of a last
+    // partial word are padding and stay zero
+    const count = Math.floor((components.data.length * 4) / field.bits);
+    const subShareLength = Math.ceil((count * field.bits) / 4);
+    const others = holders.filter(function (holder: number): boolean {
+      return holder !== id;
+    });
+    const received: { [from: number]: string } = {};
+    let own: FieldArray | undefined;
+    let refreshed = false;
+
+    function deal(transport: ShareTransport): void {
+      if (own) {
+        throw new Error("This holder has already dealt its sub-shares.");
+      }
+
+      const zero = createWords(field.bits, count);
+      const subShares = getShares(field, config.rng, zero, holders.length, shareThreshold, holders);
+
+      holders.forEach(function (to: number, j: number): void {
+        if (to === id) {
+          own = subShares[j];
+        } else {
+          transport.send({
+            round: roundId,
+            from: id,
+            to,
+            data: wordsToHex(subShares[j], field.bits),
+          });
+          subShares[j].fill(0);
+        }
+      });
+    }
+
+    function refresh(transport: ShareTransport): string {
+      if (refreshed) {
+        throw new Error("This holder has already refreshed its share.");
+      }
+      if (!own) {
+        throw new Error("Deal this holder's sub-shares before refreshing its share.");
+      }
+
+      receiveFrom(
+        transport,
+        roundId,
+        id,
+        others,
+        received,
+        holders.length,
+        "Holder",
+        "refresh",
+        hexSubShareCheck(subShareLength, "holder")
+      );
+
+      others.forEach(function (from: number): void {
+        const subShare = hexToWords(received[from], field.bits);
+
+        for (let w = 0; w < count; w++) {
+          words[w] ^= subShare[w];
+        }
+        subShare.fill(0);
+      });
+      for (let w = 0; w < count; w++) {
+        words[w] ^= own[w];
+      }
+
+      const data = wordsToHex(words, field.bits, components.data.length * 4);
+
+      own.fill(0);
+      words.fill(0);
+      refreshed = true;
+
+      return constructPublicShareString(
+        components.bits,
+        id,
+        data,
+        config.checksum || components.checksum !== undefined,
+        shareThreshold,
+        components.setId === undefined
+          ? undefined
+          : derivedSetId("refresh", components.setId, roundId),
+        config.encoding || components.encoding
+      );
+    }
+
+    return Object.freeze({ id, round: roundId, deal, refresh });
+  }
+
+  function createReshareDealer(
+    share: string,
+    dealers: readonly number[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): ReshareDealer {
+    const components = extractShareComponents(share);
+    const field = getField(components.bits);
+    const round =
+      options && options.round !== undefined
+        ? options.round
+        : components.setId !== undefined
+          ? components.setId
+          : "reshare";
+
+    if (typeof round !== "string") {
+      throw new Error("The reshare round must be a string.");
+    }
+    validateShareCounts(numShares, threshold, field.maxShares);
+    validateHolderIds(dealers, field.maxShares, "Dealers", components.id);
+    if (components.threshold !== undefined && dealers.length < components.threshold) {
+      throw new InsufficientSharesError(
+        components.threshold,
+        dealers.length,
+        "A reshare needs at least a threshold of dealers."
+      );
+    }
+
+    const id = components.id;
+    const setId =
+      components.setId === undefined ? undefined : derivedSetId("reshare", components.setId, round);
+    let dealt = false;
+
+    function deal(transport: ShareTransport): void {
+      if (dealt) {
+        throw new Error("This dealer has already dealt its sub-shares.");
+      }
+
+      const words = hexToWords(components.data, field.bits);
+      // Only whole words are reshared, like in a refresh
+      const count = Math.floor((components.data.length * 4) / field.bits);
+      const subShares = getShares(
+        field,
+        config.rng,
+        words.subarray(0, count),
+        numShares,
+        threshold
+      );
+
+      // Each sub-share is a share of the new set, so new holders learn its parameters from it
+      subShares.forEach(function (subShare: FieldArray, j: number): void {
+        transport.send({
+          round,
+          from: id,
+          to: j + 1,
+          data: constructPublicShareString(
+            components.bits,
+            j + 1,
+            wordsToHex(subShare, field.bits),
+            config.checksum || components.checksum !== undefined,
+            threshold,
+            setId,
+            config.encoding || components.encoding
+          ),
+        });
+        subShare.fill(0);
+      });
+      words.fill(0);
+      dealt = true;
+    }
+
+    return Object.freeze({ id, round, deal });
+  }
+
+  function createReshareHolder(
+    id: number,
+    dealers: readonly number[],
+    round: string
+  ): ReshareHolder {
+    // The field is only known once a sub-share arrives
+    const maxShares = Math.pow(2, defaults.maxBits) - 1;
+    const received: { [from: number]: string } = {};
+    const header: ShareComponents[] = [];
+    let combined = false;
+
+    if (typeof id !== "number" || id % 1 !== 0 || id < 1 || id > maxShares) {
+      throw new Error("Share id must be an integer between 1 and " + maxShares + ", inclusive.");
+    }
+    if (typeof round !== "string") {
+      throw new Error("The reshare round must be a string.");
+    }
+    validateHolderIds(dealers, maxShares, "Dealers");
+
+    function combineSubShares(transport: ShareTransport): string {
+      if (combined) {
+        throw new Error("This holder has already combined its share.");
+      }
+
+      receiveFrom(
+        transport,
+        round,
+        id,
+        dealers,
+        received,
+        dealers.length,
+        "Dealer",
+        "reshare",
+        subShareCheck(id, "dealer", header)
+      );
+
+      const first = header[0];
+      const field = getField(first.bits);
+      const subShares = dealers.map(function (dealer: number): FieldArray {
+        return hexToWords(extractShareComponents(received[dealer]).data, field.bits);
+      });
+      const words = combineWords(field, 0, dealers, subShares);
+      const data = wordsToHex(words, field.bits, first.data.length * 4);
+
+      subShares.forEach(function (subShare: FieldArray): void {
+        subShare.fill(0);
+      });
+      words.fill(0);
+      combined = true;
+
+      return constructPublicShareString(
+        first.bits,
+        id,
+        data,
+        config.checksum || first.checksum !== undefined,
+        first.threshold,
+        first.setId,
+        config.encoding || first.encoding
+      );
+    }
+
+    return Object.freeze({ id, round, combine: combineSubShares });
+  }
+
+  function createRepairHelper(
+    share: string,
+    helpers: readonly number[],
+    id: number,
+    options?: RepairOptions
+  ): RepairHelper {
+    const components = extractShareComponents(share);
+    const field = getField(components.bits);
+    const round =
+      options && options.round !== undefined
+        ? options.round
+        : components.setId !== undefined
+          ? components.setId
+          : "repair";
+
+    if (typeof round !== "string") {
+      throw new Error("The repair round must be a string.");
+    }
+    if (typeof id !== "number" || id % 1 !== 0 || id < 1 || id > field.maxShares) {
+      throw new Error(
+        "Share id must be an integer between 1 and " + field.maxShares + ", inclusive."
+      );
+    }
+    validateHolderIds(helpers, field.maxShares, "Helpers", components.id);
+    if (helpers.indexOf(id) !== -1) {
+      throw new Error("The share to repair cannot be one of the helpers.");
+    }
+    if (components.threshold !== undefined && helpers.length < components.threshold) {
+      throw new InsufficientSharesError(
+        components.threshold,
+        helpers.length,
+        "A repair needs at least a threshold of helpers."
+      );
+    }
+
+    const self = components.id;
+    const others = helpers.filter(function (helper: number): boolean {
+      return helper !== self;
+    });
+    // Only whole words are repaired, like in a refresh
+    const count = Math.floor((components.data.length * 4) / field.bits);
+    const received: { [from: number]: string } = {};
+    let own: FieldArray | undefined;
+    let contributed = false;
+
+    function mask(transport: ShareTransport): void {
+      if (own) {
+        throw new Error("This helper has already sent its masked parts.");
+      }
+
+      const words = hexToWords(components.data, field.bits);
+      const basis = lagrangeBasis(field, id, helpers);
+      const term = createWords(field.bits, count);
+      const part = createWords(field.bits, count);
+
+      // This helper's term of the lost share is its share times its Lagrange
+      // coefficient at id; every other helper gets a random part of it
+      lagrangeWords(field, [basis[helpers.indexOf(self)]], [words.subarray(0, count)], term);
+      others.forEach(function (to: number): void {
+        fillRandomWords(config.rng, field.bits, part);
+        for (let w = 0; w < count; w++) {
+          term[w] ^= part[w];
+        }
+        transport.send({ round, from: self, to, data: wordsToHex(part, field.bits) });
+      });
+
+      part.fill(0);
+      words.fill(0);
+      own = term;
+    }
+
+    function contribute(transport: ShareTransport): void {
+      if (contributed) {
+        throw new Error("This helper has already contributed.");
+      }
+      if (!own) {
+        throw new Error("Send this helper's masked parts before contributing.");
+      }
+
+      receiveFrom(
+        transport,
+        round,
+        self,
+        others,
+        received,
+        others.length,
+        "Helper",
+        "repair",
+        hexSubShareCheck(Math.ceil((count * field.bits) / 4), "helper")
+      );
+
+      others.forEach(function (from: number): void {
+        const part = hexToWords(received[from], field.bits);
+
+        for (let w = 0; w < count; w++) {
+          own![w] ^= part[w];
+        }
+        part.fill(0);
+      });
+
+      // The contribution is a share string at id, so the recipient learns the set's parameters
+      transport.send({
+        round,
+        from: self,
+        to: id,
+        data: constructPublicShareString(
+          components.bits,
+          id,
+          wordsToHex(own, field.bits),
+          config.checksum || components.checksum !== undefined,
+          components.threshold,
+          components.setId,
+          config.encoding || components.encoding
+        ),
+      });
+      own.fill(0);
+      contributed = true;
+    }
+
+    return Object.freeze({ id: self, round, mask, contribute });
+  }
+
+  function createRepairRecipient(
+    id: number,
+    helpers: readonly number[],
+    round: string
+  ): RepairRecipient {
+    // The field is only known once a contribution arrives
+    const maxShares = Math.pow(2, defaults.maxBits) - 1;
+    const received: { [from: number]: string } = {};
+    const header: ShareComponents[] = [];
+    let combined = false;
+
+    if (typeof id !== "number" || id % 1 !== 0 || id < 1 || id > maxShares) {
+      throw new Error("Share id must be an integer between 1 and " + maxShares + ", inclusive.");
+    }
+    if (typeof round !== "string") {
+      throw new Error("The repair round must be a string.");
+    }
+    validateHolderIds(helpers, maxShares, "Helpers");
+    if (helpers.indexOf(id) !== -1) {
+      throw new Error("The share to repair cannot be one of the helpers.");
+    }
+
+    function combineContributions(transport: ShareTransport): string {
+      if (combined) {
+        throw new Error("This recipient has already combined its share.");
+      }
+
+      receiveFrom(
+        transport,
+        round,
+        id,
+        helpers,
+        received,
+        helpers.length,
+        "Helper",
+        "repair",
+        subShareCheck(id, "helper", header)
+      );
+
+      const first = header[0];
+      const field = getField(first.bits);
+      const words = hexToWords(first.data, field.bits);
+
+      words.fill(0);
+      helpers.forEach(function (from: number): void {
+        const contribution = hexToWords(extractShareComponents(received[from]).data, field.bits);
+
+        for (let w = 0; w < words.length; w++) {
+          words[w] ^= contribution[w];
+        }
+        contribution.fill(0);
+      });
+
+      const data = wordsToHex(words, field.bits, first.data.length * 4);
+
+      words.fill(0);
+      combined = true;
+
+      return constructPublicShareString(
+        first.bits,
+        id,
+        data,
+        config.checksum || first.checksum !== undefined,
+        first.threshold,
+        first.setId,
+        config.encoding || first.encoding
+      );
+    }
+
+    return Object.freeze({ id, round, combine: combineContributions });
+  }
+
+  function reshare(
+    shares: Shares | string[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): string[] {
+    const { x } = parseShares(shares);
+    const transport = createMemoryTransport();
+    const dealt: number[] = [];
+    let round: string | undefined;
+
+    for (let i = 0; i < shares.length; i++) {
+      const id = extractShareComponents(shares[i]).id;
+
+      // Repeated shares deal once
+      if (dealt.indexOf(id) === -1) {
+        const dealer = createReshareDealer(shares[i], x, numShares, threshold, options);
+
+        dealer.deal(transport);
+        dealt.push(id);
+        round = dealer.round;
+      }
+    }
+
+    if (round === undefined) {
+      throw new Error("Shares must be a non-empty Array of share strings.");
+    }
+
+    const shareRound = round;
+    const result: string[] = [];
+
+    for (let j = 1; j <= numShares; j++) {
+      result.push(createReshareHolder(j, x, shareRound).combine(transport));
+    }
+
+    return result;
+  }
+
+  return Object.freeze({
+    createRefreshHolder,
+    createReshareDealer,
+    createReshareHolder,
+    reshare,
+    createRepairHelper,
+    createRepairRecipient,
+  });
+}
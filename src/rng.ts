@@ -0,0 +1,160 @@
+// Random number generators for @digitaldefiance/secrets
+// The built-in CSPRNGs, which return strings of random bits, and drawing field elements in bulk
+
+import { getNodeCrypto } from "./cipher";
+import { bytesToHex, padLeft } from "./shares";
+import { readUint32 } from "./words";
+import type { FieldArray, RNGFunction } from "./types";
+
+function construct(
+  bits: number,
+  arr: string | Uint32Array,
+  radix: number,
+  size: number
+): string | null {
+  let i = 0;
+  let len: number;
+  let str = "";
+  let parsedInt: number;
+
+  if (arr) {
+    len = arr.length - 1;
+  }
+
+  while (i < len! || str.length < bits) {
+    parsedInt = Math.abs(parseInt((arr as any)[i], radix));
+    str = str + padLeft(parsedInt.toString(2), size);
+    i++;
+  }
+
+  str = str.substr(-bits);
+
+  if ((str.match(/0/g) || []).length === str.length) {
+    return null;
+  }
+
+  return str;
+}
+
+/**
+ * Random bits from the crypto module of Node.js.
+ *
+ * @param bits - Number of bits
+ * @returns A string of that many random 1's and 0's, not all 0
+ */
+export function nodeCryptoRandomBytes(bits: number): string {
+  let buf: Uint8Array;
+  let bytes: number;
+  const radix = 16;
+  const size = 4;
+  let str: string | null = null;
+
+  bytes = Math.ceil(bits / 8);
+
+  const nodeCrypto = getNodeCrypto()!;
+  while (str === null) {
+    buf = nodeCrypto.randomBytes(bytes);
+    str = construct(bits, bytesToHex(buf), radix, size);
+  }
+
+  return str;
+}
+
+/**
+ * Random bits from crypto.getRandomValues().
+ *
+ * @param bits - Number of bits
+ * @returns A string of that many random 1's and 0's, not all 0
+ */
+export function browserCryptoGetRandomValues(bits: number): string {
+  let elems: number;
+  const radix = 10;
+  const size = 32;
+  let str: string | null = null;
+
+  elems = Math.ceil(bits / 32);
+  const crypto = (typeof window !== "undefined" && window.crypto) || (global as any).crypto;
+
+  while (str === null) {
+    str = construct(bits, crypto.getRandomValues(new Uint32Array(elems)), radix, size);
+  }
+
+  return str;
+}
+
+/**
+ * The same bits on every call, for tests. NOT random.
+ *
+ * @param bits - Number of bits
+ * @returns A string of that many 1's and 0's, not all 0
+ */
+export function testRandom(bits: number): string {
+  let arr: Uint32Array;
+  let elems: number;
+  const int = 123456789;
+  const radix = 10;
+  const size = 32;
+  let str: string | null = null;
+
+  elems = Math.ceil(bits / 32);
+  arr = new Uint32Array(elems);
+
+  for (let i = 0; i < arr.length; i++) {
+    arr[i] = int;
+  }
+
+  while (str === null) {
+    str = construct(bits, arr, radix, size);
+  }
+
+  return str;
+}
+
+/**
+ * Fill `out` with random non-zero field elements, in the same order as calling
+ * rng(bits) once per word. The built-in generators are drawn in bulk instead.
+ *
+ * @param rng - The RNG of the context
+ * @param bits - Field size in bits
+ * @param out - Words to fill
+ */
+export function fillRandomWords(rng: RNGFunction, bits: number, out: FieldArray): void {
+  const mask = (1 << bits) - 1;
+  const nodeCrypto = rng === nodeCryptoRandomBytes ? getNodeCrypto() : null;
+  let word: number;
+
+  if (nodeCrypto) {
+    const buf = nodeCrypto.randomBytes(out.length * 4);
+    for (let i = 0; i < out.length; i++) {
+      word = readUint32(buf, i * 4) & mask;
+      while (word === 0) {
+        word = readUint32(nodeCrypto.randomBytes(4), 0) & mask;
+      }
+      out[i] = word;
+    }
+    buf.fill(0);
+  } else if (rng === browserCryptoGetRandomValues) {
+    const crypto = (typeof window !== "undefined" && window.crypto) || (global as any).crypto;
+    // getRandomValues() fills at most 65536 bytes per call
+    const arr = new Uint32Array(Math.min(out.length, 16384));
+    for (let i = 0; i < out.length; i++) {
+      if (i % arr.length === 0) {
+        crypto.getRandomValues(arr);
+      }
+      word = arr[i % arr.length] & mask;
+      while (word === 0) {
+        word = crypto.getRandomValues(new Uint32Array(1))[0] & mask;
+      }
+      out[i] = word;
+    }
+    arr.fill(0);
+  } else if (rng === testRandom) {
+    out.fill(parseInt(testRandom(bits), 2));
+  } else {
+    for (let i = 0; i < out.length; i++) {
+      out[i] = parseInt(rng(bits), 2);
+    }
+  }
+
+  word = 0;
+}
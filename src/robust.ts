@@ -0,0 +1,225 @@
+// Robust reconstruction for @digitaldefiance/secrets
+// Berlekamp-Welch decoding recovers a secret and identifies shares that are inconsistent with it
+
+import { createWords, divide, horner, lagrangeBasis, lagrangeWords, multiply } from "./field";
+import type { FieldArray, GaloisField } from "./types";
+
+// ============================================================================
+// Linear Algebra
+// ============================================================================
+
+// Gauss-Jordan elimination over the field. Each row holds the coefficients
+// followed by the right hand side. Free variables are set to zero; returns
+// null if the system is inconsistent.
+function solve(field: GaloisField, rows: number[][], cols: number): number[] | null {
+  const pivots: number[] = [];
+  let r = 0;
+
+  for (let c = 0; c < cols && r < rows.length; c++) {
+    let p = r;
+    while (p < rows.length && rows[p][c] === 0) {
+      p++;
+    }
+    if (p === rows.length) {
+      continue;
+    }
+
+    const swap = rows[p];
+    rows[p] = rows[r];
+    rows[r] = swap;
+
+    const inv = divide(field, 1, rows[r][c]);
+    for (let k = c; k <= cols; k++) {
+      rows[r][k] = multiply(field, rows[r][k], inv);
+    }
+
+    for (let i = 0; i < rows.length; i++) {
+      const factor = rows[i][c];
+      if (i !== r && factor !== 0) {
+        for (let k = c; k <= cols; k++) {
+          rows[i][k] ^= multiply(field, factor, rows[r][k]);
+        }
+      }
+    }
+
+    pivots[r++] = c;
+  }
+
+  for (let i = r; i < rows.length; i++) {
+    if (rows[i][cols] !== 0) {
+      return null;
+    }
+  }
+
+  const solution: number[] = [];
+  for (let c = 0; c < cols; c++) {
+    solution[c] = 0;
+  }
+  for (let i = 0; i < r; i++) {
+    solution[pivots[i]] = rows[i][cols];
+  }
+
+  return solution;
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode one word with the Berlekamp-Welch algorithm.
+ *
+ * Finds the polynomial of degree below `threshold` that agrees with all but
+ * at most floor((n - threshold) / 2) of the n points.
+ *
+ * @param field - The field to compute in
+ * @param x - Distinct x-coordinates (share ids)
+ * @param y - y-coordinates matching x
+ * @param threshold - Number of coefficients of the shared polynomial
+ * @returns The polynomial's coefficients (lowest degree first) and the indices
+ *          of the points that disagree with it, or null if there are too many
+ *          errors to decide
+ */
+export function berlekampWelch(
+  field: GaloisField,
+  x: readonly number[],
+  y: ArrayLike<number>,
+  threshold: number
+): { coeffs: number[]; bad: number[] } | null {
+  const n = x.length;
+  const e = Math.floor((n - threshold) / 2);
+  const numQ = e + threshold;
+  const cols = numQ + e;
+  const rows: number[][] = [];
+
+  if (n < threshold) {
+    return null;
+  }
+
+  // Q(x_i) = y_i * E(x_i) with E monic of degree e; in GF(2^bits) minus is plus
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    let power = 1;
+
+    for (let j = 0; j < numQ; j++) {
+      row[j] = power;
+      if (j < e) {
+        row[numQ + j] = multiply(field, y[i], power);
+      } else if (j === e) {
+        row[cols] = multiply(field, y[i], power);
+      }
+      power = multiply(field, power, x[i]);
+    }
+
+    rows.push(row);
+  }
+
+  const solution = solve(field, rows, cols);
+  if (!solution) {
+    return null;
+  }
+
+  // P = Q / E by long division; E is monic so no inversions are needed
+  const remainder = solution.slice(0, numQ);
+  const errorLocator = solution.slice(numQ).concat([1]);
+  const coeffs: number[] = [];
+
+  for (let d = numQ - 1; d >= e; d--) {
+    const coeff = remainder[d];
+    coeffs[d - e] = coeff;
+    for (let k = 0; k <= e; k++) {
+      remainder[d - e + k] ^= multiply(field, coeff, errorLocator[k]);
+    }
+  }
+
+  for (let k = 0; k < e; k++) {
+    if (remainder[k] !== 0) {
+      return null;
+    }
+  }
+
+  const bad: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (horner(field, x[i], coeffs) !== y[i]) {
+      bad.push(i);
+    }
+  }
+
+  return bad.length > e ? null : { coeffs, bad };
+}
+
+/**
+ * Interpolate every word at 0, correcting words that some shares disagree on.
+ *
+ * Words are first interpolated from the first `threshold` shares and checked
+ * against the remaining ones; only the words where a share disagrees are run
+ * through Berlekamp-Welch, so honest input costs little more than combine().
+ *
+ * @param field - The field to compute in
+ * @param x - Distinct x-coordinates (share ids)
+ * @param ys - One row of words per share, in the order of x
+ * @param threshold - Number of shares the secret was split with
+ * @returns The recovered words and the indices of inconsistent shares, or
+ *          null if too many shares are inconsistent to decide
+ */
+export function robustInterpolate(
+  field: GaloisField,
+  x: readonly number[],
+  ys: readonly FieldArray[],
+  threshold: number
+): { words: FieldArray; bad: number[] } | null {
+  let numWords = 0;
+  for (let i = 0; i < ys.length; i++) {
+    numWords = Math.max(numWords, ys[i].length);
+  }
+
+  const head = x.slice(0, threshold);
+  const headYs = ys.slice(0, threshold);
+  const words = createWords(field.bits, numWords);
+  const check = createWords(field.bits, numWords);
+  const suspect = new Uint8Array(numWords);
+  const isBad: boolean[] = [];
+
+  lagrangeWords(field, lagrangeBasis(field, 0, head), headYs, words);
+
+  for (let j = threshold; j < x.length; j++) {
+    lagrangeWords(field, lagrangeBasis(field, x[j], head), headYs, check);
+    for (let w = 0; w < numWords; w++) {
+      if (check[w] !== (w < ys[j].length ? ys[j][w] : 0)) {
+        suspect[w] = 1;
+      }
+    }
+  }
+
+  const column: number[] = [];
+
+  for (let w = 0; w < numWords; w++) {
+    if (!suspect[w]) {
+      continue;
+    }
+
+    for (let i = 0; i < x.length; i++) {
+      column[i] = w < ys[i].length ? ys[i][w] : 0;
+    }
+
+    const decoded = berlekampWelch(field, x, column, threshold);
+    if (!decoded) {
+      return null;
+    }
+
+    words[w] = decoded.coeffs[0];
+    for (let k = 0; k < decoded.bad.length; k++) {
+      isBad[decoded.bad[k]] = true;
+    }
+  }
+
+  const bad: number[] = [];
+  for (let i = 0; i < x.length; i++) {
+    if (isBad[i]) {
+      bad.push(i);
+    }
+  }
+
+  check.fill(0);
+  return { words, bad };
+}
@@ -5,18 +5,81 @@
 // TypeScript conversion of the @digitaldefiance/secrets library
 // Provides Shamir's Secret Sharing with comprehensive type safety
 
+import { createAccessStructures } from "./access";
+import { createAsyncSharing } from "./async";
+import { createByteSharing } from "./bytes";
+import { createCore, getShares } from "./core";
+import {
+  CryptoError,
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+  SecretsError,
+} from "./errors";
+import { createWords, getField, horner, lagrange } from "./field";
+import { createShareFormats } from "./formats";
+import { parsePolicy } from "./policy";
+import { isProtectedShare, readEnvelope } from "./protect";
+import { createRefreshProtocols } from "./refresh";
+import { browserCryptoGetRandomValues, nodeCryptoRandomBytes, testRandom } from "./rng";
+import {
+  bin2hex,
+  bytesToHex,
+  constructPublicShareString,
+  defaults,
+  hex2bin,
+  padLeft,
+  shareFormatVersion,
+  splitNumStringToIntArray,
+  validateEncoding,
+  validatePadLength,
+} from "./shares";
+import { createMemoryTransport } from "./transport";
+import { createVerifiableSharing } from "./verifiable";
 import type {
-  Base36String,
-  BinaryString,
+  AsyncOptions,
+  ByteShare,
+  CombineOptions,
+  CombineStream,
   CSPRNGType,
-  Defaults,
+  Custodian,
+  DispersedFragment,
+  FieldArray,
+  GaloisField,
   HexString,
+  HierarchyLevel,
   InternalConfig,
+  LargeShares,
+  PolicyBundle,
+  PolicyResult,
+  ProtectOptions,
+  QrCode,
+  QrOptions,
+  RefreshHolder,
+  RefreshOptions,
+  RepairHelper,
+  RepairOptions,
+  RepairRecipient,
+  ReshareDealer,
+  ReshareHolder,
+  ReshareOptions,
   RNGFunction,
+  RobustCombineResult,
   SecretsConfig,
+  SecretsContext,
+  SecretsOptions,
   Share,
   ShareComponents,
+  ShareEncoding,
   Shares,
+  Slip39Options,
+  SplitStream,
+  StreamOptions,
+  UrDecoder,
+  UrEncoder,
+  UrOptions,
+  VerifiableShares,
+  WeightedBundle,
 } from "./types";
 
 // UMD Pattern: Support for Node.js, AMD, and browser globals
@@ -30,75 +93,26 @@ declare global {
 // Module State
 // ============================================================================
 
-let defaults: Defaults;
-let config: Partial<InternalConfig>;
-let preGenPadding: string;
+const defaultPadLength = 128;
+const CSPRNGTypes: readonly CSPRNGType[] = [
+  "nodeCryptoRandomBytes",
+  "browserCryptoGetRandomValues",
+  "testRandom",
+];
+
+// State of the default context backing the legacy module-level API
 let runCSPRNGTest: boolean;
-let CSPRNGTypes: readonly CSPRNGType[];
-let byteToHex: string[];
+let config: InternalConfig | undefined;
+let defaultContext: SecretsContext | undefined;
 
 // ============================================================================
 // Initialization and Reset
 // ============================================================================
 
 function reset(): void {
-  defaults = {
-    bits: 8,
-    radix: 16,
-    minBits: 3,
-    maxBits: 20,
-    bytesPerChar: 2,
-    maxBytesPerChar: 6,
-
-    primitivePolynomials: [
-      null,
-      null,
-      1,
-      3,
-      3,
-      5,
-      3,
-      3,
-      29,
-      17,
-      9,
-      5,
-      83,
-      27,
-      43,
-      3,
-      45,
-      9,
-      39,
-      39,
-      9,
-      5,
-      3,
-      33,
-      27,
-      9,
-      71,
-      39,
-      9,
-      5,
-      83,
-    ],
-  };
-
-  config = {};
-  preGenPadding = new Array(1024).join("0");
+  config = undefined;
+  defaultContext = undefined;
   runCSPRNGTest = true;
-
-  byteToHex = [];
-  for (let i = 0; i <= 0xff; i++) {
-    let hexOctet = i.toString(16);
-    if (hexOctet.length === 1) {
-      hexOctet = "0" + hexOctet;
-    }
-    byteToHex.push(hexOctet);
-  }
-
-  CSPRNGTypes = ["nodeCryptoRandomBytes", "browserCryptoGetRandomValues", "testRandom"];
 }
 
 function isSetRNG(): boolean {
@@ -108,75 +122,23 @@ function isSetRNG(): boolean {
   return false;
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-function padLeft(str: string, multipleOfBits?: number): string {
-  let missing: number;
-
-  if (multipleOfBits === 0 || multipleOfBits === 1) {
-    return str;
-  }
-
-  if (multipleOfBits && multipleOfBits > 1024) {
-    throw new Error("Padding must be multiples of no larger than 1024 bits.");
-  }
-
-  const bits = multipleOfBits || config.bits!;
-
-  if (str) {
-    missing = str.length % bits;
-  }
-
-  if (missing!) {
-    return (preGenPadding + str).slice(-(bits - missing + str.length));
-  }
-
-  return str;
-}
-
-function hex2bin(str: string): BinaryString {
-  let bin = "";
-  let num: number;
-
-  for (let i = str.length - 1; i >= 0; i--) {
-    num = parseInt(str[i], 16);
-
-    if (isNaN(num)) {
-      throw new Error("Invalid hex character.");
-    }
-
-    bin = padLeft(num.toString(2), 4) + bin;
-  }
-  return bin;
+function setDefaultConfig(newConfig: InternalConfig): void {
+  config = newConfig;
+  defaultContext = createContext(newConfig);
 }
 
-function bin2hex(str: BinaryString): HexString {
-  let hex = "";
-  let num: number;
-
-  str = padLeft(str, 4);
-
-  for (let i = str.length; i >= 4; i -= 4) {
-    num = parseInt(str.slice(i - 4, i), 2);
-    if (isNaN(num)) {
-      throw new Error("Invalid binary character.");
-    }
-    hex = num.toString(16) + hex;
+function getDefaultConfig(): InternalConfig {
+  if (!config) {
+    SecretsLibrary.init();
   }
-
-  return hex;
+  return config!;
 }
 
-function bytesToHex(bytes: Uint8Array | Buffer): HexString {
-  let hex = "";
-
-  for (let i = 0; i < bytes.length; i++) {
-    hex += byteToHex[bytes[i]];
+function getDefaultContext(): SecretsContext {
+  if (!defaultContext) {
+    SecretsLibrary.init();
   }
-
-  return hex;
+  return defaultContext!;
 }
 
 // ============================================================================
@@ -214,228 +176,225 @@ function hasCryptoRandomBytes(): boolean {
   return false;
 }
 
-function getRNG(type?: CSPRNGType): RNGFunction | undefined {
-  function construct(
-    bits: number,
-    arr: string | Uint32Array,
-    radix: number,
-    size: number
-  ): string | null {
-    let i = 0;
-    let len: number;
-    let str = "";
-    let parsedInt: number;
-
-    if (arr) {
-      len = arr.length - 1;
-    }
-
-    while (i < len! || str.length < bits) {
-      parsedInt = Math.abs(parseInt((arr as any)[i], radix));
-      str = str + padLeft(parsedInt.toString(2), size);
-      i++;
-    }
-
-    str = str.substr(-bits);
-
-    if ((str.match(/0/g) || []).length === str.length) {
-      return null;
-    }
-
-    return str;
-  }
-
-  function nodeCryptoRandomBytes(bits: number): string {
-    let buf: Buffer;
-    let bytes: number;
-    const radix = 16;
-    const size = 4;
-    let str: string | null = null;
-
-    bytes = Math.ceil(bits / 8);
-
-    const crypto = require("crypto");
-    while (str === null) {
-      buf = crypto.randomBytes(bytes);
-      str = construct(bits, bytesToHex(buf), radix, size);
-    }
-
-    return str;
-  }
-
-  function browserCryptoGetRandomValues(bits: number): string {
-    let elems: number;
-    const radix = 10;
-    const size = 32;
-    let str: string | null = null;
-
-    elems = Math.ceil(bits / 32);
-    const crypto = (typeof window !== "undefined" && window.crypto) || (global as any).crypto;
-
-    while (str === null) {
-      str = construct(bits, crypto.getRandomValues(new Uint32Array(elems)), radix, size);
-    }
-
-    return str;
+function detectCSPRNGType(): CSPRNGType | undefined {
+  if (hasCryptoRandomBytes()) {
+    return "nodeCryptoRandomBytes";
+  } else if (hasCryptoGetRandomValues()) {
+    return "browserCryptoGetRandomValues";
   }
 
-  function testRandom(bits: number): string {
-    let arr: Uint32Array;
-    let elems: number;
-    const int = 123456789;
-    const radix = 10;
-    const size = 32;
-    let str: string | null = null;
-
-    elems = Math.ceil(bits / 32);
-    arr = new Uint32Array(elems);
-
-    for (let i = 0; i < arr.length; i++) {
-      arr[i] = int;
-    }
-
-    while (str === null) {
-      str = construct(bits, arr, radix, size);
-    }
+  return undefined;
+}
 
-    return str;
+function getRNG(type?: CSPRNGType): RNGFunction | undefined {
+  if (!type) {
+    type = detectCSPRNGType();
   }
 
-  if (type && type === "testRandom") {
-    config.typeCSPRNG = type;
+  if (type === "testRandom") {
     return testRandom;
-  } else if (type && type === "nodeCryptoRandomBytes") {
-    config.typeCSPRNG = type;
-    return nodeCryptoRandomBytes;
-  } else if (type && type === "browserCryptoGetRandomValues") {
-    config.typeCSPRNG = type;
-    return browserCryptoGetRandomValues;
-  } else if (hasCryptoRandomBytes()) {
-    config.typeCSPRNG = "nodeCryptoRandomBytes";
+  } else if (type === "nodeCryptoRandomBytes") {
     return nodeCryptoRandomBytes;
-  } else if (hasCryptoGetRandomValues()) {
-    config.typeCSPRNG = "browserCryptoGetRandomValues";
+  } else if (type === "browserCryptoGetRandomValues") {
     return browserCryptoGetRandomValues;
   }
 
   return undefined;
 }
 
-// ============================================================================
-// Core Algorithm Functions
-// ============================================================================
+function validateRNG(rngFunc: unknown, bits: number): asserts rngFunc is RNGFunction {
+  const errPrefix = "Random number generator is invalid ";
+  const errSuffix =
+    " Supply an CSPRNG of the form function(bits){} that returns a string containing 'bits' number of random 1's and 0's.";
 
-function splitNumStringToIntArray(str: string, padLength?: number): number[] {
-  const parts: number[] = [];
+  if (typeof rngFunc !== "function") {
+    throw new Error(errPrefix + "(Not a function)." + errSuffix);
+  }
 
-  if (padLength) {
-    str = padLeft(str, padLength);
+  if (typeof rngFunc(bits) !== "string") {
+    throw new Error(errPrefix + "(Output is not a string)." + errSuffix);
   }
 
-  let i: number;
-  for (i = str.length; i > config.bits!; i -= config.bits!) {
-    parts.push(parseInt(str.slice(i - config.bits!, i), 2));
+  if (!parseInt(rngFunc(bits), 2)) {
+    throw new Error(errPrefix + "(Binary string output not parseable to an Integer)." + errSuffix);
   }
 
-  parts.push(parseInt(str.slice(0, i), 2));
+  if (rngFunc(bits).length > bits) {
+    throw new Error(errPrefix + "(Output length is greater than config.bits)." + errSuffix);
+  }
 
-  return parts;
+  if (rngFunc(bits).length < bits) {
+    throw new Error(errPrefix + "(Output length is less than config.bits)." + errSuffix);
+  }
 }
 
-function horner(x: number, coeffs: number[]): number {
-  const logx = config.logs![x];
-  let fx = 0;
-
-  for (let i = coeffs.length - 1; i >= 0; i--) {
-    if (fx !== 0) {
-      fx = config.exps![(logx + config.logs![fx]) % config.maxShares!] ^ coeffs[i];
-    } else {
-      fx = coeffs[i];
-    }
+function validateRNGType(rng: unknown): void {
+  if (rng && typeof rng === "string" && CSPRNGTypes.indexOf(rng as CSPRNGType) === -1) {
+    throw new Error("Invalid RNG type argument : '" + rng + "'");
   }
-
-  return fx;
 }
 
-function lagrange(at: number, x: number[], y: number[]): number {
-  let sum = 0;
-  const len = x.length;
-  let product: number;
-
-  for (let i = 0; i < len; i++) {
-    if (y[i]) {
-      product = config.logs![y[i]];
-
-      for (let j = 0; j < len; j++) {
-        if (i !== j) {
-          if (at === x[j]) {
-            product = -1;
-            break;
-          }
-          product =
-            (product + config.logs![at ^ x[j]] - config.logs![x[i] ^ x[j]] + config.maxShares!) %
-            config.maxShares!;
-        }
-      }
-
-      sum = product === -1 ? sum : sum ^ config.exps![product];
-    }
+function validateVersion(version: unknown): asserts version is number {
+  if (
+    typeof version !== "number" ||
+    version % 1 !== 0 ||
+    version < 0 ||
+    version > shareFormatVersion
+  ) {
+    throw new Error(
+      "Share format version must be an integer between 0 and " + shareFormatVersion + " inclusive."
+    );
   }
-
-  return sum;
 }
 
-function getShares(secret: number, numShares: number, threshold: number): Share[] {
-  const shares: Share[] = [];
-  const coeffs: number[] = [secret];
-
-  for (let i = 1; i < threshold; i++) {
-    coeffs[i] = parseInt(config.rng!(config.bits!), 2);
-  }
+function buildConfig(
+  field: GaloisField,
+  rng: RNGFunction,
+  typeCSPRNG: CSPRNGType | undefined,
+  padLength: number,
+  checksum?: boolean,
+  version?: number,
+  encoding?: ShareEncoding
+): InternalConfig {
+  return Object.freeze({
+    radix: defaults.radix,
+    bits: field.bits,
+    size: field.size,
+    maxShares: field.maxShares,
+    logs: field.logs,
+    exps: field.exps,
+    mul: field.mul,
+    padLength,
+    rng,
+    typeCSPRNG,
+    checksum,
+    version,
+    encoding,
+  });
+}
 
-  for (let i = 1, len = numShares + 1; i < len; i++) {
-    shares[i - 1] = {
-      x: i,
-      y: horner(i, coeffs),
-    };
-  }
+// ============================================================================
+// Secrets Contexts
+// ============================================================================
 
-  return shares;
+// A context wires its core to the modules of its other operations, each built on the core
+function createContext(config: InternalConfig): SecretsContext {
+  const core = createCore(config);
+  const bytes = createByteSharing(core);
+  const async = createAsyncSharing(core);
+  const access = createAccessStructures(core);
+  const verifiable = createVerifiableSharing(core);
+  const formats = createShareFormats(core);
+  const refresh = createRefreshProtocols(core);
+
+  return Object.freeze({
+    share: core.share,
+    combine: core.combine,
+    combineRobust: core.combineRobust,
+    shareBytes: bytes.shareBytes,
+    combineBytes: bytes.combineBytes,
+    shareLarge: bytes.shareLarge,
+    combineLarge: bytes.combineLarge,
+    shareDispersed: bytes.shareDispersed,
+    combineDispersed: bytes.combineDispersed,
+    createSplitStream: bytes.createSplitStream,
+    createCombineStream: bytes.createCombineStream,
+    shareAsync: async.shareAsync,
+    combineAsync: async.combineAsync,
+    protectShare: core.protectShare,
+    unprotectShare: core.unprotectShare,
+    newShare: core.newShare,
+    shareWeighted: access.shareWeighted,
+    combineWeighted: access.combineWeighted,
+    splitShare: access.splitShare,
+    combineSubShares: access.combineSubShares,
+    shareHierarchical: verifiable.shareHierarchical,
+    combineHierarchical: verifiable.combineHierarchical,
+    shareWithPolicy: access.shareWithPolicy,
+    combineWithPolicy: access.combineWithPolicy,
+    extractShareComponents: core.extractShareComponents,
+    random: core.random,
+    getConfig: core.getConfig,
+    shareVerifiable: verifiable.shareVerifiable,
+    verifyShare: verifiable.verifyShare,
+    combineVerifiable: verifiable.combineVerifiable,
+    shareSlip39: formats.shareSlip39,
+    combineSlip39: formats.combineSlip39,
+    shareToWords: formats.shareToWords,
+    wordsToShare: formats.wordsToShare,
+    shareToBech32m: formats.shareToBech32m,
+    bech32mToShare: formats.bech32mToShare,
+    shareToQr: formats.shareToQr,
+    shareToQrSvg: formats.shareToQrSvg,
+    qrToShare: formats.qrToShare,
+    shareToUr: formats.shareToUr,
+    createUrDecoder: formats.createUrDecoder,
+    createRefreshHolder: refresh.createRefreshHolder,
+    createReshareDealer: refresh.createReshareDealer,
+    createReshareHolder: refresh.createReshareHolder,
+    reshare: refresh.reshare,
+    createRepairHelper: refresh.createRepairHelper,
+    createRepairRecipient: refresh.createRepairRecipient,
+  });
 }
 
-function constructPublicShareString(
-  bits: number | string,
-  id: number | string,
-  data: string
-): string {
-  const bitsNum = typeof bits === "string" ? parseInt(bits, 10) : bits;
-  const bitsBase36: Base36String = bitsNum.toString(36).toUpperCase();
-  const idMax = Math.pow(2, bitsNum) - 1;
-
-  let numericId: number;
-  if (typeof id === "number") {
-    numericId = id;
-  } else if (typeof id === "string") {
-    numericId = parseInt(id, 10);
+/**
+ * Create an independent, immutable secrets context.
+ *
+ * Unlike the module-level API, a context never touches shared state: its
+ * Galois Field size, RNG and default padding are fixed at creation, so many
+ * contexts with different settings can be used concurrently in one process.
+ * Combining shares created with a different field size works without
+ * re-initializing anything.
+ *
+ * @param options - Field size, RNG, default zero-pad length, share format and encoding for the context.
+ * @returns A frozen context exposing share(), combine(), newShare() and friends.
+ * @throws {Error} If bits is not an integer between 3 and 20, inclusive.
+ * @throws {Error} If rng is an invalid CSPRNG type or fails validation.
+ * @throws {Error} If padLength is not an integer between 0 and 1024.
+ * @throws {Error} If version is not a supported share format version.
+ * @throws {Error} If encoding is not a supported share encoding.
+ * @throws {Error} If no CSPRNG is available in the current environment.
+ *
+ * @example
+ * ```typescript
+ * const tenantA = createSecrets({ bits: 8 });
+ * const tenantB = createSecrets({ bits: 12, padLength: 256 });
+ *
+ * const shares = tenantB.share('deadbeef', 1000, 3);
+ * tenantA.combine(shares.slice(0, 3)); // 'deadbeef', tenantA is still 8 bits
+ * ```
+ */
+function createSecrets(options?: SecretsOptions): SecretsContext {
+  const opts: SecretsOptions = options || {};
+  const field = getField(opts.bits === undefined ? defaults.bits : opts.bits);
+  const padLength = opts.padLength === undefined ? defaultPadLength : opts.padLength;
+  const version = opts.version === undefined ? 0 : opts.version;
+  const encoding = opts.encoding === undefined ? "hex" : opts.encoding;
+  let rngFunc: RNGFunction | undefined;
+  let typeCSPRNG: CSPRNGType | undefined;
+
+  validateRNGType(opts.rng);
+  validatePadLength(padLength);
+  validateVersion(version);
+  validateEncoding(encoding);
+
+  if (opts.rng && typeof opts.rng !== "string") {
+    rngFunc = opts.rng;
   } else {
-    numericId = NaN;
+    typeCSPRNG = opts.rng || detectCSPRNGType();
+    rngFunc = getRNG(typeCSPRNG);
   }
 
-  if (
-    typeof numericId !== "number" ||
-    numericId % 1 !== 0 ||
-    numericId < 1 ||
-    numericId > idMax ||
-    isNaN(numericId)
-  ) {
-    throw new Error("Share id must be an integer between 1 and " + idMax + ", inclusive.");
+  if (!rngFunc) {
+    throw new Error("Initialization failed.");
   }
 
-  const idPaddingLen = idMax.toString(config.radix!).length;
-  const idHex = padLeft(numericId.toString(config.radix!), idPaddingLen);
-  const newShareString = bitsBase36 + idHex + data;
+  validateRNG(rngFunc, field.bits);
 
-  return newShareString;
+  return createContext(
+    buildConfig(field, rngFunc, typeCSPRNG, padLength, opts.checksum === true, version, encoding)
+  );
 }
 
 // ============================================================================
@@ -471,11 +430,6 @@ const SecretsLibrary = {
    * ```
    */
   init(bits?: number, rngType?: CSPRNGType): void {
-    const logs: number[] = [];
-    const exps: number[] = [];
-    let x = 1;
-    let primitive: number;
-
     reset();
 
     if (
@@ -498,46 +452,26 @@ const SecretsLibrary = {
       throw new Error("Invalid RNG type argument : '" + rngType + "'");
     }
 
-    config.radix = defaults.radix;
-    config.bits = bits || defaults.bits;
-    config.size = Math.pow(2, config.bits);
-    config.maxShares = config.size - 1;
-
-    primitive = defaults.primitivePolynomials[config.bits]!;
-
-    for (let i = 0; i < config.size; i++) {
-      exps[i] = x;
-      logs[x] = i;
-      x = x << 1;
-      if (x >= config.size) {
-        x = x ^ primitive;
-        x = x & config.maxShares;
-      }
-    }
-
-    config.logs = logs;
-    config.exps = exps;
-
-    if (rngType) {
-      this.setRNG(rngType);
-    }
-
-    if (!isSetRNG()) {
-      this.setRNG();
-    }
+    const field = getField(bits || defaults.bits);
+    const typeCSPRNG = rngType || detectCSPRNGType();
+    const rng = getRNG(typeCSPRNG);
 
     if (
-      !isSetRNG() ||
-      !config.bits ||
-      !config.size ||
-      !config.maxShares ||
-      !config.logs ||
-      !config.exps ||
-      config.logs.length !== config.size ||
-      config.exps.length !== config.size
+      !rng ||
+      !field.bits ||
+      !field.size ||
+      !field.maxShares ||
+      field.logs.length !== field.size ||
+      field.exps.length !== field.size
     ) {
       throw new Error("Initialization failed.");
     }
+
+    if (runCSPRNGTest) {
+      validateRNG(rng, field.bits);
+    }
+
+    setDefaultConfig(buildConfig(field, rng, typeCSPRNG, defaultPadLength));
   },
 
   /**
@@ -545,15 +479,23 @@ const SecretsLibrary = {
    *
    * Uses Lagrange interpolation to reconstruct the secret from a threshold
    * number of shares. The shares must have been created with the same bit
-   * configuration.
+   * configuration. Versioned shares carry their threshold and share-set id,
+   * so for them too few shares, or shares from different splits, are refused
+   * instead of producing a wrong secret.
    *
    * @param shares - Array of share strings to combine. Must contain at least
    *                 the threshold number of shares used during secret creation.
    * @param at - Point at which to evaluate the polynomial (default 0 for secret recovery).
    *             Use non-zero values to generate new shares.
+   * @param options - The passphrase of the shares from protectShare(), or a
+   *                  resolver returning the passphrase of each.
    * @returns The reconstructed secret as a hexadecimal string.
    * @throws {Error} If shares have mismatched bit settings.
    * @throws {Error} If share format is invalid.
+   * @throws {MismatchedSharesError} If versioned shares come from different splits.
+   * @throws {InsufficientSharesError} If fewer versioned shares than their threshold are given.
+   * @throws {CryptoError} If a passphrase is wrong, or outside Node.js,
+   *                       where only combineAsync() can decrypt.
    *
    * @example
    * ```typescript
@@ -562,44 +504,51 @@ const SecretsLibrary = {
    * console.log(secret); // 'deadbeef'
    * ```
    */
-  combine(shares: Shares | string[], at?: number): string {
-    let setBits: number | undefined;
-    let share: ShareComponents;
-    let splitShare: number[];
-    const x: number[] = [];
-    const y: number[][] = [];
-    let result = "";
-
-    at = at || 0;
-
-    for (let i = 0, len = shares.length; i < len; i++) {
-      share = this.extractShareComponents(shares[i]);
-
-      if (setBits === undefined) {
-        setBits = share.bits;
-      } else if (share.bits !== setBits) {
-        throw new Error("Mismatched shares: Different bit settings.");
-      }
-
-      if (config.bits !== setBits) {
-        this.init(setBits);
-      }
-
-      if (x.indexOf(share.id) === -1) {
-        x.push(share.id);
-        splitShare = splitNumStringToIntArray(hex2bin(share.data));
-        for (let j = 0, len2 = splitShare.length; j < len2; j++) {
-          y[j] = y[j] || [];
-          y[j][x.length - 1] = splitShare[j];
-        }
+  combine(shares: Shares | string[], at?: number, options?: CombineOptions): string {
+    const context = getDefaultContext();
+
+    // Legacy behaviour: re-initialize the default context to the shares' field size
+    if (shares.length) {
+      const setBits = isProtectedShare(shares[0])
+        ? readEnvelope(shares[0]).info.bits
+        : context.extractShareComponents(shares[0]).bits;
+      if (getDefaultConfig().bits !== setBits) {
+        SecretsLibrary.init(setBits);
       }
     }
 
-    for (let i = 0, len = y.length; i < len; i++) {
-      result = padLeft(lagrange(at, x, y[i]).toString(2)) + result;
-    }
+    return getDefaultContext().combine(shares, at, options);
+  },
 
-    return bin2hex(at >= 1 ? result : result.slice(result.indexOf("1") + 1));
+  /**
+   * Combine shares to reconstruct the secret, tolerating corrupted shares.
+   *
+   * Where combine() interpolates every share it is given, so that a single
+   * corrupted or malicious share yields a wrong secret, combineRobust() treats
+   * the shares as a Reed-Solomon code word and decodes each chunk with the
+   * Berlekamp-Welch algorithm. With n distinct shares of a secret split with
+   * the given threshold, up to floor((n - threshold) / 2) bad shares are
+   * corrected, and their ids are reported.
+   *
+   * Unlike combine(), this never re-initializes the library.
+   *
+   * @param shares - Array of share strings to combine.
+   * @param threshold - The threshold the secret was split with. Optional for
+   *                    versioned shares, which carry it in their header.
+   * @returns The secret and the ascending ids of the inconsistent shares.
+   * @throws {InsufficientSharesError} If fewer than threshold shares are given, or too
+   *                                   many are inconsistent for the honest ones to be identified.
+   * @throws {Error} If threshold is invalid, or shares are malformed or have mismatched bit settings.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.share('deadbeef', 7, 3);
+   * shares[4] = tamper(shares[4]);
+   * secrets.combineRobust(shares, 3); // { secret: 'deadbeef', badIds: [5] }
+   * ```
+   */
+  combineRobust(shares: Shares | string[], threshold?: number): RobustCombineResult {
+    return getDefaultContext().combineRobust(shares, threshold);
   },
 
   /**
@@ -619,14 +568,7 @@ const SecretsLibrary = {
    * ```
    */
   getConfig(): SecretsConfig {
-    const obj: SecretsConfig = {
-      radix: config.radix!,
-      bits: config.bits!,
-      maxShares: config.maxShares!,
-      hasCSPRNG: isSetRNG(),
-      typeCSPRNG: config.typeCSPRNG!,
-    };
-    return obj;
+    return getDefaultContext().getConfig();
   },
 
   /**
@@ -650,57 +592,7 @@ const SecretsLibrary = {
    * ```
    */
   extractShareComponents(share: string): ShareComponents {
-    let bits: number;
-    let id: number;
-    let idLen: number;
-    let max: number;
-    let regexStr: string;
-    let shareComponents: RegExpExecArray | null;
-
-    bits = parseInt(share.substr(0, 1), 36);
-
-    if (
-      bits &&
-      (typeof bits !== "number" ||
-        bits % 1 !== 0 ||
-        bits < defaults.minBits ||
-        bits > defaults.maxBits)
-    ) {
-      throw new Error(
-        "Invalid share : Number of bits must be an integer between " +
-          defaults.minBits +
-          " and " +
-          defaults.maxBits +
-          ", inclusive."
-      );
-    }
-
-    max = Math.pow(2, bits) - 1;
-    idLen = (Math.pow(2, bits) - 1).toString(config.radix!).length;
-    regexStr = "^([a-kA-K3-9]{1})([a-fA-F0-9]{" + idLen + "})([a-fA-F0-9]+)$";
-    shareComponents = new RegExp(regexStr).exec(share);
-
-    if (shareComponents) {
-      id = parseInt(shareComponents[2], config.radix!);
-    }
-
-    if (typeof id! !== "number" || id! % 1 !== 0 || id! < 1 || id! > max) {
-      throw new Error(
-        "Invalid share : Share id must be an integer between 1 and " +
-          config.maxShares +
-          ", inclusive."
-      );
-    }
-
-    if (shareComponents && shareComponents[3]) {
-      return {
-        bits: bits,
-        id: id!,
-        data: shareComponents[3],
-      };
-    }
-
-    throw new Error("The share data provided is invalid : " + share);
+    return getDefaultContext().extractShareComponents(share);
   },
 
   /**
@@ -729,49 +621,41 @@ const SecretsLibrary = {
    * ```
    */
   setRNG(rng?: CSPRNGType | RNGFunction): boolean {
-    const errPrefix = "Random number generator is invalid ";
-    const errSuffix =
-      " Supply an CSPRNG of the form function(bits){} that returns a string containing 'bits' number of random 1's and 0's.";
-
-    if (rng && typeof rng === "string" && CSPRNGTypes.indexOf(rng as CSPRNGType) === -1) {
-      throw new Error("Invalid RNG type argument : '" + rng + "'");
-    }
+    validateRNGType(rng);
 
+    const current = getDefaultConfig();
+    let typeCSPRNG = current.typeCSPRNG;
     let rngFunc: RNGFunction | undefined;
 
     if (!rng) {
-      rngFunc = getRNG();
+      typeCSPRNG = detectCSPRNGType();
+      rngFunc = getRNG(typeCSPRNG);
     } else if (typeof rng === "string") {
-      rngFunc = getRNG(rng as CSPRNGType);
+      typeCSPRNG = rng as CSPRNGType;
+      rngFunc = getRNG(typeCSPRNG);
     } else {
       rngFunc = rng as RNGFunction;
     }
 
     if (runCSPRNGTest && rngFunc) {
-      if (typeof rngFunc !== "function") {
-        throw new Error(errPrefix + "(Not a function)." + errSuffix);
-      }
-
-      if (typeof rngFunc(config.bits!) !== "string") {
-        throw new Error(errPrefix + "(Output is not a string)." + errSuffix);
-      }
-
-      if (!parseInt(rngFunc(config.bits!), 2)) {
-        throw new Error(
-          errPrefix + "(Binary string output not parseable to an Integer)." + errSuffix
-        );
-      }
-
-      if (rngFunc(config.bits!).length > config.bits!) {
-        throw new Error(errPrefix + "(Output length is greater than config.bits)." + errSuffix);
-      }
+      validateRNG(rngFunc, current.bits);
+    }
 
-      if (rngFunc(config.bits!).length < config.bits!) {
-        throw new Error(errPrefix + "(Output length is less than config.bits)." + errSuffix);
-      }
+    if (!rngFunc) {
+      throw new Error("Initialization failed.");
     }
 
-    config.rng = rngFunc;
+    setDefaultConfig(
+      buildConfig(
+        current,
+        rngFunc,
+        typeCSPRNG,
+        current.padLength,
+        current.checksum,
+        current.version,
+        current.encoding
+      )
+    );
     return true;
   },
 
@@ -921,11 +805,7 @@ const SecretsLibrary = {
    * ```
    */
   random(bits: number): HexString {
-    if (typeof bits !== "number" || bits % 1 !== 0 || bits < 2 || bits > 65536) {
-      throw new Error("Number of bits must be an Integer between 1 and 65536.");
-    }
-
-    return bin2hex(config.rng!(bits));
+    return getDefaultContext().random(bits);
   },
 
   /**
@@ -939,11 +819,13 @@ const SecretsLibrary = {
    * @param numShares - Total number of shares to generate (2 to 2^bits-1).
    * @param threshold - Minimum number of shares needed to reconstruct (2 to numShares).
    * @param padLength - Zero-pad the secret to a multiple of this length (0-1024, default 128).
+   * @param encoding - Encoding of the share strings (default "hex").
    * @returns Array of share strings.
    * @throws {Error} If secret is not a string.
    * @throws {Error} If numShares or threshold are invalid.
    * @throws {Error} If threshold exceeds numShares.
    * @throws {Error} If padLength is invalid.
+   * @throws {Error} If encoding is not a supported share encoding.
    *
    * @example
    * ```typescript
@@ -953,117 +835,325 @@ const SecretsLibrary = {
    * // Any 3 shares can reconstruct the secret
    * const recovered = secrets.combine([shares[0], shares[2], shares[4]]);
    * console.log(recovered); // 'deadbeef'
+   *
+   * // Shorter base58 shares, which combine() detects by their prefix
+   * const compact = secrets.share('deadbeef', 5, 3, 0, 'base58');
    * ```
    */
-  share(secret: string, numShares: number, threshold: number, padLength?: number): string[] {
-    let neededBits: number;
-    let subShares: Share[];
-    const x: (number | string)[] = new Array(numShares);
-    const y: string[] = new Array(numShares);
-
-    padLength = padLength || 128;
-
-    if (typeof secret !== "string") {
-      throw new Error("Secret must be a string.");
-    }
-
-    if (typeof numShares !== "number" || numShares % 1 !== 0 || numShares < 2) {
-      throw new Error(
-        "Number of shares must be an integer between 2 and 2^bits-1 (" +
-          config.maxShares +
-          "), inclusive."
-      );
-    }
-
-    if (numShares > config.maxShares!) {
-      neededBits = Math.ceil(Math.log(numShares + 1) / Math.LN2);
-      throw new Error(
-        "Number of shares must be an integer between 2 and 2^bits-1 (" +
-          config.maxShares +
-          "), inclusive. To create " +
-          numShares +
-          " shares, use at least " +
-          neededBits +
-          " bits."
-      );
-    }
-
-    if (typeof threshold !== "number" || threshold % 1 !== 0 || threshold < 2) {
-      throw new Error(
-        "Threshold number of shares must be an integer between 2 and 2^bits-1 (" +
-          config.maxShares +
-          "), inclusive."
-      );
-    }
-
-    if (threshold > config.maxShares!) {
-      neededBits = Math.ceil(Math.log(threshold + 1) / Math.LN2);
-      throw new Error(
-        "Threshold number of shares must be an integer between 2 and 2^bits-1 (" +
-          config.maxShares +
-          "), inclusive.  To use a threshold of " +
-          threshold +
-          ", use at least " +
-          neededBits +
-          " bits."
-      );
-    }
+  share(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    padLength?: number,
+    encoding?: ShareEncoding
+  ): string[] {
+    return getDefaultContext().share(secret, numShares, threshold, padLength, encoding);
+  },
 
-    if (threshold > numShares) {
-      throw new Error(
-        "Threshold number of shares was " +
-          threshold +
-          " but must be less than or equal to the " +
-          numShares +
-          " shares specified as the total to generate."
-      );
-    }
+  /**
+   * Split a byte array secret into shares using Shamir's Secret Sharing.
+   *
+   * Works like share(), but takes the secret as a Uint8Array (or Buffer) and
+   * returns structured shares with Uint8Array payloads. The secret is packed
+   * straight into Galois Field words, so it never passes through an
+   * intermediate JavaScript string, and working buffers are zeroed after use.
+   * Given the same RNG, each payload holds the same value as the hex data of
+   * the corresponding share() output.
+   *
+   * @param secret - The secret to split, as raw bytes.
+   * @param numShares - Total number of shares to generate (2 to 2^bits-1).
+   * @param threshold - Minimum number of shares needed to reconstruct (2 to numShares).
+   * @param padLength - Zero-pad the secret to a multiple of this length (0-1024, default 128).
+   * @returns Array of byte shares with bits, id and data properties.
+   * @throws {Error} If secret is not a Uint8Array.
+   * @throws {Error} If numShares, threshold or padLength are invalid.
+   *
+   * @example
+   * ```typescript
+   * const key = crypto.randomBytes(32);
+   * const shares = secrets.shareBytes(key, 5, 3);
+   * const recovered = secrets.combineBytes(shares.slice(0, 3)); // equal to key
+   * ```
+   */
+  shareBytes(
+    secret: Uint8Array,
+    numShares: number,
+    threshold: number,
+    padLength?: number
+  ): ByteShare[] {
+    return getDefaultContext().shareBytes(secret, numShares, threshold, padLength);
+  },
 
-    if (typeof padLength !== "number" || padLength % 1 !== 0 || padLength < 0 || padLength > 1024) {
-      throw new Error("Zero-pad length must be an integer between 0 and 1024 inclusive.");
-    }
+  /**
+   * Combine byte shares to reconstruct the original byte array secret.
+   *
+   * Accepts the output of shareBytes(). Shares carry their own field size, so
+   * the default configuration is never re-initialized.
+   *
+   * @param shares - Array of byte shares. Must contain at least the threshold number of shares.
+   * @returns The reconstructed secret bytes.
+   * @throws {Error} If shares have mismatched bit settings.
+   * @throws {Error} If a share id or payload is invalid.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.shareBytes(new Uint8Array([1, 2, 3]), 5, 3);
+   * secrets.combineBytes([shares[0], shares[2], shares[4]]); // Uint8Array [1, 2, 3]
+   * ```
+   */
+  combineBytes(shares: readonly ByteShare[]): Uint8Array {
+    return getDefaultContext().combineBytes(shares);
+  },
 
-    let secretBin = "1" + hex2bin(secret);
-    const secretParts = splitNumStringToIntArray(secretBin, padLength);
+  /**
+   * Split large data by encrypting it, and sharing only the key.
+   *
+   * The data is encrypted with AES-256-GCM under a random key from the RNG,
+   * and the 32 byte key is split with share(). Every custodian stores the
+   * same ciphertext next to their own small key share, instead of a share as
+   * large as the data. The encryption is done by the crypto module of Node.js
+   * or by WebCrypto, which is asynchronous.
+   *
+   * @param data - The data to protect, as raw bytes.
+   * @param numShares - Number of key shares to generate.
+   * @param threshold - Number of key shares needed to decrypt.
+   * @returns A promise of the ciphertext (nonce, encrypted data and tag) and the key shares.
+   * @throws {Error} If data is not a Uint8Array, or the counts are invalid.
+   * @throws {CryptoError} If neither Node.js nor WebCrypto provides AES-GCM.
+   *
+   * @example
+   * ```typescript
+   * const { ciphertext, shares } = await secrets.shareLarge(dump, 5, 3);
+   * const recovered = await secrets.combineLarge(shares.slice(0, 3), ciphertext); // equal to dump
+   * ```
+   */
+  shareLarge(data: Uint8Array, numShares: number, threshold: number): Promise<LargeShares> {
+    return getDefaultContext().shareLarge(data, numShares, threshold);
+  },
 
-    for (let i = 0, len = secretParts.length; i < len; i++) {
-      subShares = getShares(secretParts[i], numShares, threshold);
-      for (let j = 0; j < numShares; j++) {
-        x[j] = x[j] || subShares[j].x;
-        y[j] = padLeft(subShares[j].y.toString(2)) + (y[j] || "");
-      }
-    }
+  /**
+   * Decrypt the output of shareLarge() with a threshold of its key shares.
+   *
+   * The GCM tag is checked before any data is returned, so a ciphertext
+   * that was altered, or the wrong key shares, never decrypt to bad data.
+   *
+   * @param keyShares - Key shares from shareLarge().
+   * @param ciphertext - The ciphertext from shareLarge().
+   * @returns A promise of the decrypted data.
+   * @throws {CryptoError} If the tag does not match the ciphertext and key.
+   * @throws {InsufficientSharesError} If too few versioned key shares are given.
+   */
+  combineLarge(keyShares: Shares | string[], ciphertext: Uint8Array): Promise<Uint8Array> {
+    return getDefaultContext().combineLarge(keyShares, ciphertext);
+  },
 
-    for (let i = 0; i < numShares; i++) {
-      x[i] = constructPublicShareString(config.bits!, x[i] as number, bin2hex(y[i]));
-    }
+  /**
+   * Split data into fragments of about 1/threshold of its size, after Krawczyk.
+   *
+   * The data is encrypted with AES-256-GCM under a random key, the ciphertext
+   * is dispersed with Rabin's IDA over GF(2^8), and the key is split with
+   * share(). Each fragment carries its part of the ciphertext and its key share.
+   *
+   * @param data - The data to protect, as raw bytes.
+   * @param numShares - Number of fragments to generate (2 to 2^bits-1, at most 255).
+   * @param threshold - Number of fragments needed to recover the data.
+   * @returns A promise of one fragment per holder.
+   * @throws {Error} If data is not a Uint8Array, or the counts are invalid.
+   * @throws {CryptoError} If neither Node.js nor WebCrypto provides AES-GCM.
+   *
+   * @example
+   * ```typescript
+   * const fragments = await secrets.shareDispersed(backup, 6, 4); // each about backup.length / 4 bytes
+   * const recovered = await secrets.combineDispersed(fragments.slice(2)); // equal to backup
+   * ```
+   */
+  shareDispersed(
+    data: Uint8Array,
+    numShares: number,
+    threshold: number
+  ): Promise<DispersedFragment[]> {
+    return getDefaultContext().shareDispersed(data, numShares, threshold);
+  },
 
-    return x as string[];
+  /**
+   * Recover data from a threshold of the fragments of shareDispersed().
+   *
+   * @param fragments - Fragments from shareDispersed(). Extra fragments are ignored.
+   * @returns A promise of the data.
+   * @throws {InsufficientSharesError} If fewer distinct fragments than the threshold are given.
+   * @throws {MismatchedSharesError} If the fragments are from different splits.
+   * @throws {CryptoError} If a fragment was altered.
+   */
+  combineDispersed(fragments: readonly DispersedFragment[]): Promise<Uint8Array> {
+    return getDefaultContext().combineDispersed(fragments);
   },
 
   /**
-   * Generate a new share with a specific ID from existing shares.
+   * Create a split of a secret that streams in, such as a multi-gigabyte file.
    *
-   * Uses Lagrange interpolation to create a new share at the specified
-   * ID point. Useful for generating additional shares without access to
-   * the original secret.
+   * The secret is split a chunk at a time with shareBytes(), and every share
+   * stream gets a header and then one CRC-32 checked frame per chunk, so
+   * memory stays bounded by the chunk size. pipe() reads a Node.js Readable or
+   * a WHATWG ReadableStream and writes to one Writable or WritableStream per
+   * share; write() and end() split bytes that arrive some other way.
    *
-   * @param id - The ID for the new share (1 to 2^bits-1).
-   * @param shares - Array of existing shares (at least threshold number).
-   * @returns New share string with the specified ID.
-   * @throws {Error} If id is invalid.
-   * @throws {Error} If shares array is invalid or empty.
+   * @param numShares - Number of share streams to generate.
+   * @param threshold - Number of share streams needed to combine.
+   * @param options - The chunk size, 65536 bytes by default.
+   * @returns The split stream.
+   * @throws {Error} If the counts or the chunk size are invalid.
    *
    * @example
    * ```typescript
-   * const shares = secrets.share('abc123', 5, 3);
-   * // Generate a new share with ID 10
-   * const newShare = secrets.newShare(10, shares.slice(0, 3));
+   * const outputs = [1, 2, 3].map((id) => fs.createWriteStream(`backup.share${id}`));
+   * await secrets.createSplitStream(3, 2).pipe(fs.createReadStream("backup.tar"), outputs);
    * ```
    */
-  newShare(id: number | string, shares: Shares | string[]): string {
-    let share: ShareComponents;
-    let numericId: number;
+  createSplitStream(numShares: number, threshold: number, options?: StreamOptions): SplitStream {
+    return getDefaultContext().createSplitStream(numShares, threshold, options);
+  },
+
+  /**
+   * Create a combine of share streams from createSplitStream().
+   *
+   * The first threshold of streams with distinct share ids are combined, a
+   * chunk at a time, and each frame's CRC-32 is checked before its chunk is
+   * recovered. pipe() takes the input streams and an output stream; write()
+   * and end() combine bytes that arrive some other way.
+   *
+   * @returns The combine stream.
+   *
+   * @example
+   * ```typescript
+   * const inputs = [1, 3].map((id) => fs.createReadStream(`backup.share${id}`));
+   * await secrets.createCombineStream().pipe(inputs, fs.createWriteStream("backup.tar"));
+   * ```
+   */
+  createCombineStream(): CombineStream {
+    return getDefaultContext().createCombineStream();
+  },
+
+  /**
+   * Split a secret like share(), without blocking the main thread.
+   *
+   * The random coefficients are drawn on the calling thread, in the order
+   * share() draws them, so the shares equal share()'s for the same RNG. The
+   * polynomials are evaluated 4096 words at a time in a Web Worker or a
+   * worker_threads Worker, or between turns of the event loop where neither
+   * can be started.
+   *
+   * @param secret - The secret to split, as a hexadecimal string.
+   * @param numShares - Number of shares to generate (2 to 2^bits-1).
+   * @param threshold - Number of shares needed to reconstruct (2 to numShares).
+   * @param options - Pad length, progress callback, abort signal and worker choice.
+   * @returns A promise of the share strings.
+   * @throws {Error} Rejects if the arguments are invalid, or with the signal's reason on abort.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const shares = await secrets.shareAsync(secret, 5, 3, {
+   *   signal: controller.signal,
+   *   onProgress: (p) => console.log(Math.round(p.progress * 100) + "%"),
+   * });
+   * ```
+   */
+  shareAsync(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    options?: AsyncOptions
+  ): Promise<string[]> {
+    return getDefaultContext().shareAsync(secret, numShares, threshold, options);
+  },
+
+  /**
+   * Combine shares like combine(), without blocking the main thread.
+   *
+   * The shares are parsed on the calling thread and interpolated 4096 words
+   * at a time in a worker, as for shareAsync(). Shares from protectShare()
+   * are decrypted first, with WebCrypto where Node.js is not available.
+   *
+   * @param shares - Shares from one split, at least its threshold.
+   * @param options - Progress callback, abort signal, worker choice and the
+   *                  passphrase of the protected shares, or a resolver returning the
+   *                  passphrase of each.
+   * @returns A promise of the secret as a hexadecimal string.
+   * @throws {InsufficientSharesError} Rejects if too few versioned shares are given.
+   * @throws {MismatchedSharesError} Rejects if the shares are from different splits.
+   * @throws {CryptoError} Rejects if a passphrase is wrong.
+   */
+  combineAsync(shares: Shares | string[], options?: AsyncOptions): Promise<string> {
+    return getDefaultContext().combineAsync(shares, options);
+  },
+
+  /**
+   * Encrypt a share under a passphrase, for storage in email or a password manager.
+   *
+   * The key is derived from the passphrase with scrypt where the crypto
+   * module of Node.js is available, and with PBKDF2-HMAC-SHA256 elsewhere,
+   * and the share string is encrypted with AES-256-GCM. The result is
+   * "secrets-protected:" and a base64url envelope holding a version, the KDF
+   * and its parameters, the share's field size and id, a random salt and
+   * nonce, and the ciphertext. Everything but the ciphertext is in the clear
+   * and authenticated by the tag.
+   *
+   * @param share - The share string, in any encoding.
+   * @param passphrase - A non-empty passphrase, NFKC normalized before use.
+   * @param options - The KDF, "scrypt" or "pbkdf2".
+   * @returns A promise of the protected share.
+   * @throws {Error} If the share or passphrase is invalid, or the KDF is unknown.
+   * @throws {CryptoError} If scrypt is asked for outside Node.js, or neither
+   *                       Node.js nor WebCrypto is available.
+   *
+   * @example
+   * ```typescript
+   * const protectedShare = await secrets.protectShare(shares[0], "correct horse battery staple");
+   * const secret = secrets.combine([protectedShare, shares[1]], 0, {
+   *   passphrase: "correct horse battery staple",
+   * });
+   * ```
+   */
+  protectShare(share: string, passphrase: string, options?: ProtectOptions): Promise<string> {
+    return getDefaultContext().protectShare(share, passphrase, options);
+  },
+
+  /**
+   * Decrypt a share from protectShare().
+   *
+   * @param protectedShare - The protected share.
+   * @param passphrase - The passphrase it was protected with.
+   * @returns A promise of the share string, exactly as it was protected.
+   * @throws {InvalidShareError} If the protected share is malformed.
+   * @throws {CryptoError} If the passphrase is wrong or the protected share was altered.
+   */
+  unprotectShare(protectedShare: string, passphrase: string): Promise<string> {
+    return getDefaultContext().unprotectShare(protectedShare, passphrase);
+  },
+
+  /**
+   * Generate a new share with a specific ID from existing shares.
+   *
+   * Uses Lagrange interpolation to create a new share at the specified
+   * ID point. Useful for generating additional shares without access to
+   * the original secret.
+   *
+   * @param id - The ID for the new share (1 to 2^bits-1).
+   * @param shares - Array of existing shares (at least threshold number).
+   * @returns New share string with the specified ID.
+   * @throws {Error} If id is invalid.
+   * @throws {Error} If shares array is invalid or empty.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.share('abc123', 5, 3);
+   * // Generate a new share with ID 10
+   * const newShare = secrets.newShare(10, shares.slice(0, 3));
+   * ```
+   */
+  newShare(id: number | string, shares: Shares | string[]): string {
+    let share: ShareComponents;
+    let numericId: number;
 
     if (typeof id === "string") {
       numericId = parseInt(id, 10);
@@ -1074,16 +1164,652 @@ const SecretsLibrary = {
     }
 
     if (numericId && shares && shares[0]) {
-      share = this.extractShareComponents(shares[0]);
-      return constructPublicShareString(share.bits, numericId, this.combine(shares, numericId));
+      share = SecretsLibrary.extractShareComponents(shares[0]);
+      return constructPublicShareString(
+        share.bits,
+        numericId,
+        SecretsLibrary.combine(shares, numericId),
+        share.checksum !== undefined,
+        share.threshold,
+        share.setId,
+        share.encoding
+      );
     }
 
     throw new Error("Invalid 'id' or 'shares' Array argument to newShare().");
   },
 
+  /**
+   * Split a secret among custodians whose votes carry different weights.
+   *
+   * A custodian of weight w receives w shares, with consecutive share ids, so
+   * any custodians whose weights add up to the threshold can recover the
+   * secret. The total weight is the number of shares, at most 2^bits-1.
+   *
+   * @param secret - The secret to split, as a hexadecimal string.
+   * @param custodians - Distinct names and positive integer weights.
+   * @param threshold - The total weight required to recover the secret.
+   * @returns One bundle per custodian, in order, with its name, weight, the threshold and its shares.
+   * @throws {Error} If a custodian is invalid or the counts are out of range.
+   *
+   * @example
+   * ```typescript
+   * const bundles = secrets.shareWeighted(key, [
+   *   { name: "CTO", weight: 2 },
+   *   { name: "Alice", weight: 1 },
+   *   { name: "Bob", weight: 1 },
+   * ], 3);
+   * secrets.combineWeighted([bundles[0], bundles[2]]); // => key
+   * ```
+   */
+  shareWeighted(
+    secret: string,
+    custodians: readonly Custodian[],
+    threshold: number
+  ): WeightedBundle[] {
+    return getDefaultContext().shareWeighted(secret, custodians, threshold);
+  },
+
+  /**
+   * Recover a secret from the bundles of custodians.
+   *
+   * The weight is counted from the distinct shares in the bundles, and must
+   * reach the threshold before the shares are combined.
+   *
+   * @param bundles - Bundles returned by shareWeighted().
+   * @returns The secret as a hexadecimal string.
+   * @throws {InsufficientSharesError} If the custodians' weight is below the threshold.
+   * @throws {MismatchedSharesError} If the bundles come from different splits.
+   */
+  combineWeighted(bundles: readonly WeightedBundle[]): string {
+    return getDefaultContext().combineWeighted(bundles);
+  },
+
+  /**
+   * Split one share into sub-shares, such as a custodian's share over their devices.
+   *
+   * The whole share string is split like a secret, so combineSubShares()
+   * returns it exactly, with its id, header, checksum and encoding.
+   *
+   * @param share - The share to split.
+   * @param numShares - Number of sub-shares to create.
+   * @param threshold - Number of sub-shares needed to reassemble the share.
+   * @returns Sub-shares in this context's format.
+   * @throws {Error} If the share is invalid, or the counts are out of range.
+   *
+   * @example
+   * ```typescript
+   * const devices = secrets.splitShare(shares[0], 3, 2);
+   * secrets.combineSubShares([devices[2], devices[0]]); // => shares[0]
+   * ```
+   */
+  splitShare(share: string, numShares: number, threshold: number): string[] {
+    return getDefaultContext().splitShare(share, numShares, threshold);
+  },
+
+  /**
+   * Reassemble a share from its sub-shares.
+   *
+   * @param subShares - Sub-shares returned by splitShare().
+   * @returns The original share string, usable with combine().
+   * @throws {InvalidShareError} If the sub-shares do not combine to a share.
+   * @throws {InsufficientSharesError} If too few versioned sub-shares are given.
+   */
+  combineSubShares(subShares: Shares | string[]): string {
+    return getDefaultContext().combineSubShares(subShares);
+  },
+
+  /**
+   * Split a secret among the levels of a hierarchy, after Tassa.
+   *
+   * Each level has a threshold of shares needed from it and the levels above
+   * it together, so "3 shares, at least 1 of them executive" is the levels
+   * [{ name: "executive", shares: 2, threshold: 1 }, { name: "staff", shares: 5, threshold: 3 }].
+   * Shares of a lower level hold a derivative of the polynomial, which lacks
+   * the coefficients the levels above must provide.
+   *
+   * Like shareVerifiable(), the shares hold elements of a 2048-bit prime field
+   * and require BigInt. Tassa's scheme cannot use GF(2^bits): its derivatives
+   * lose every other coefficient, and some sets of shares that do not meet the
+   * hierarchy would determine the secret.
+   *
+   * @param secret - The secret to split, as a hexadecimal string.
+   * @param levels - The levels, from the most senior down.
+   * @returns One Array of shares per level, with ids dealt level by level from 1.
+   * @throws {Error} If the levels are invalid, there are more shares than the field allows,
+   *                 or the hierarchy is too large for every qualified set to recover the secret.
+   *
+   * @example
+   * ```typescript
+   * const [executives, staff] = secrets.shareHierarchical(key, levels);
+   * secrets.combineHierarchical([executives[1], staff[0], staff[3]], levels); // => key
+   * secrets.combineHierarchical(staff, levels); // throws InsufficientSharesError
+   * ```
+   */
+  shareHierarchical(secret: string, levels: readonly HierarchyLevel[]): string[][] {
+    return getDefaultContext().shareHierarchical(secret, levels);
+  },
+
+  /**
+   * Recover a secret from the shares of a hierarchy.
+   *
+   * The shares are recovered by Birkhoff interpolation, once they meet the
+   * threshold of every level.
+   *
+   * @param shares - Shares returned by shareHierarchical(), from any levels.
+   * @param levels - The levels the secret was split with.
+   * @returns The secret as a hexadecimal string.
+   * @throws {InsufficientSharesError} If the shares do not meet the threshold of a level.
+   * @throws {MismatchedSharesError} If the shares come from different splits.
+   * @throws {Error} If a share is not part of the hierarchy.
+   */
+  combineHierarchical(shares: string[], levels: readonly HierarchyLevel[]): HexString {
+    return getDefaultContext().combineHierarchical(shares, levels);
+  },
+
+  /**
+   * Split a secret among the principals of an access policy.
+   *
+   * The policy is built from principal names, "k of (a, b, ...)" clauses,
+   * AND, OR and parentheses, such as "(ceo) OR 3 of (alice, bob, carol, dave)".
+   * Each clause splits its value among its members: OR clauses copy it, AND
+   * clauses split it with XOR, and other clauses with share().
+   *
+   * @param secret - The secret to split, as a hexadecimal string.
+   * @param policy - The access policy, see parsePolicy().
+   * @returns One bundle per principal, in the order of their first appearance.
+   * @throws {Error} If the policy is invalid, or a clause has more members than the field allows shares.
+   *
+   * @example
+   * ```typescript
+   * const bundles = secrets.shareWithPolicy(key, "2 of (alice, bob, carol) AND 1 of (legal1, legal2)");
+   * const result = secrets.combineWithPolicy([bundles[0], bundles[2], bundles[4]]);
+   * result.secret; // => key
+   * ```
+   */
+  shareWithPolicy(secret: string, policy: string): PolicyBundle[] {
+    return getDefaultContext().shareWithPolicy(secret, policy);
+  },
+
+  /**
+   * Check which clauses of a policy the bundles meet, and recover the secret
+   * once the whole policy is met.
+   *
+   * @param bundles - Bundles returned by shareWithPolicy().
+   * @returns Whether the policy is met, the secret if so, every clause with the
+   *          principals it is missing, and the principals missing overall.
+   * @throws {MismatchedSharesError} If the bundles come from different splits.
+   */
+  combineWithPolicy(bundles: readonly PolicyBundle[]): PolicyResult {
+    return getDefaultContext().combineWithPolicy(bundles);
+  },
+
+  /**
+   * Split a secret into Feldman verifiable secret sharing (VSS) shares.
+   *
+   * The secret is shared with random polynomials over the prime field Z_q of
+   * the RFC 3526 2048-bit MODP group, and the dealer publishes commitments
+   * g^a mod p to every polynomial coefficient. Any custodian can then check
+   * their own share with verifyShare() at distribution time, without other
+   * shares and without learning the secret. Every chunk of up to 1784 bits of
+   * the secret carries 256 random bits above it, so that the commitments do
+   * not reveal a short secret, and each chunk has its own row of commitments.
+   *
+   * VSS shares use the regular share string layout but are not interchangeable
+   * with share() output: recover them with combineVerifiable().
+   *
+   * @param secret - The secret to split, as a hexadecimal string.
+   * @param numShares - Total number of shares to generate (2 to 2^bits-1).
+   * @param threshold - Minimum number of shares needed to reconstruct (2 to numShares).
+   * @returns The share strings and the public commitments.
+   * @throws {Error} If secret is not a string or contains non-hex characters.
+   * @throws {Error} If numShares or threshold are invalid.
+   * @throws {Error} If BigInt is not supported in this environment.
+   *
+   * @example
+   * ```typescript
+   * const { shares, commitments } = secrets.shareVerifiable('deadbeef', 5, 3);
+   * secrets.verifyShare(shares[0], commitments); // true
+   * ```
+   */
+  shareVerifiable(secret: string, numShares: number, threshold: number): VerifiableShares {
+    return getDefaultContext().shareVerifiable(secret, numShares, threshold);
+  },
+
+  /**
+   * Verify a VSS share against the dealer's published commitments.
+   *
+   * Checks that g^share equals the product of the commitments raised to the
+   * powers of the share id, i.e. that the share lies on the committed
+   * polynomial. Only public values are needed.
+   *
+   * @param share - A share string from shareVerifiable().
+   * @param commitments - The commitments published alongside the shares.
+   * @returns true if the share is consistent with the commitments.
+   * @throws {Error} If the share or a commitment is malformed.
+   *
+   * @example
+   * ```typescript
+   * const { shares, commitments } = secrets.shareVerifiable('deadbeef', 5, 3);
+   * if (!secrets.verifyShare(shares[2], commitments)) {
+   *   throw new Error('Dealer sent an invalid share');
+   * }
+   * ```
+   */
+  verifyShare(share: string, commitments: readonly (readonly string[])[]): boolean {
+    return getDefaultContext().verifyShare(share, commitments);
+  },
+
+  /**
+   * Combine VSS shares to reconstruct the original secret.
+   *
+   * @param shares - Share strings from shareVerifiable(). Must contain at least
+   *                 the threshold number of shares.
+   * @returns The reconstructed secret as a hexadecimal string.
+   * @throws {Error} If shares are malformed or were not created by shareVerifiable().
+   * @throws {Error} If shares have mismatched bit settings or secret lengths.
+   *
+   * @example
+   * ```typescript
+   * const { shares } = secrets.shareVerifiable('deadbeef', 5, 3);
+   * secrets.combineVerifiable(shares.slice(1, 4)); // 'deadbeef'
+   * ```
+   */
+  combineVerifiable(shares: string[]): HexString {
+    return getDefaultContext().combineVerifiable(shares);
+  },
+
+  /**
+   * Split a master secret into SLIP-0039 mnemonic shares.
+   *
+   * Produces word list shares compatible with hardware wallets implementing
+   * SLIP-0039. The master secret is encrypted with the passphrase, then split
+   * in two levels: any `groupThreshold` of the groups recover it, and each
+   * group's share is split among its members with that group's own threshold.
+   * Shares use GF(256) with Rijndael's polynomial as the standard requires,
+   * not the field configured with init().
+   *
+   * @param secret - The master secret as a hexadecimal string, 16 bytes or more of even length.
+   * @param groupThreshold - Number of groups needed to recover the secret (1 to groups.length).
+   * @param groups - [memberThreshold, memberCount] of each group, at most 16 groups of 16 members.
+   * @param options - Passphrase, iteration exponent and extendable flag.
+   * @returns Mnemonics, indexed [group][member].
+   * @throws {Error} If the secret, passphrase or group parameters are invalid.
+   *
+   * @example
+   * ```typescript
+   * // One 2-of-3 group, e.g. for three backups of a 128 bit seed
+   * const [mnemonics] = secrets.shareSlip39('bb54aac4b89dc868ba37d9cc21b2cece', 1, [[2, 3]]);
+   * secrets.combineSlip39([mnemonics[0], mnemonics[2]]); // 'bb54aac4b89dc868ba37d9cc21b2cece'
+   * ```
+   */
+  shareSlip39(
+    secret: string,
+    groupThreshold: number,
+    groups: readonly (readonly [number, number])[],
+    options?: Slip39Options
+  ): string[][] {
+    return getDefaultContext().shareSlip39(secret, groupThreshold, groups, options);
+  },
+
+  /**
+   * Recover a master secret from SLIP-0039 mnemonic shares.
+   *
+   * Accepts mnemonics from shareSlip39() or any SLIP-0039 implementation, in
+   * any order. A wrong passphrase is not detected: it yields a different,
+   * valid looking master secret, as the standard intends.
+   *
+   * @param mnemonics - Mnemonics of one split, enough to meet the group and member thresholds.
+   * @param passphrase - The passphrase used when splitting (default "").
+   * @returns The master secret as a hexadecimal string.
+   * @throws {InvalidShareError} If a mnemonic has an unknown word, or a bad length, checksum or padding.
+   * @throws {MismatchedSharesError} If the mnemonics belong to different splits or fail the digest check.
+   * @throws {InsufficientSharesError} If too few groups reach their member threshold.
+   *
+   * @example
+   * ```typescript
+   * secrets.combineSlip39(mnemonics, 'TREZOR');
+   * ```
+   */
+  combineSlip39(mnemonics: readonly string[], passphrase?: string): HexString {
+    return getDefaultContext().combineSlip39(mnemonics, passphrase);
+  },
+
+  /**
+   * Encode a share string as words that can be read aloud or written down.
+   *
+   * Every part of the share, including a versioned header and the presence of
+   * a checksum, is packed into words from the BIP-39 English wordlist. A final
+   * checksum word catches most mistyped or swapped words.
+   *
+   * @param share - A share string from share() or newShare().
+   * @returns The words, separated by single spaces.
+   * @throws {Error} If the share is invalid.
+   * @throws {InvalidShareError} If the share's checksum does not match.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.share('deadbeef', 3, 2);
+   * const words = secrets.shareToWords(shares[0]);
+   * secrets.combine([secrets.wordsToShare(words), shares[1]]); // 'deadbeef'
+   * ```
+   */
+  shareToWords(share: string): string {
+    return getDefaultContext().shareToWords(share);
+  },
+
+  /**
+   * Decode words from shareToWords() back into the share string.
+   *
+   * Words are matched case-insensitively and may be shortened to their first
+   * four letters. The result can be passed straight to combine().
+   *
+   * @param words - The words, as one whitespace separated string or an Array.
+   * @returns The share string.
+   * @throws {InvalidShareError} If a word is unknown or the checksum word does not match.
+   */
+  wordsToShare(words: string | readonly string[]): string {
+    return getDefaultContext().wordsToShare(words);
+  },
+
+  /**
+   * Encode a share string as bech32m (BIP-350).
+   *
+   * The result starts with "shamir1", so it is recognizable as a share, and
+   * ends with a 6 character checksum that catches typos. It is accepted
+   * anywhere a share string is, including combine().
+   *
+   * @param share - A share string in any encoding.
+   * @returns The lowercase bech32m share.
+   * @throws {Error} If the share is invalid.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.share('deadbeef', 3, 2);
+   * secrets.shareToBech32m(shares[0]); // 'shamir1...'
+   * ```
+   */
+  shareToBech32m(share: string): string {
+    return getDefaultContext().shareToBech32m(share);
+  },
+
+  /**
+   * Decode a bech32m share back into the hex share string.
+   *
+   * A mistyped share is rejected, and the error message names the characters
+   * most likely to be wrong.
+   *
+   * @param share - A share from shareToBech32m(), all lowercase or all uppercase.
+   * @returns The hex share string.
+   * @throws {InvalidShareError} If the checksum does not match or the share is malformed.
+   */
+  bech32mToShare(share: string): string {
+    return getDefaultContext().bech32mToShare(share);
+  },
+
+  /**
+   * Encode a share string as a QR code.
+   *
+   * Hex, base32 and bech32m shares are uppercased into alphanumeric mode,
+   * which makes a smaller symbol than byte mode. The encoder runs locally,
+   * so shares never have to leave an air-gapped machine to be printed.
+   *
+   * @param share - A share string in any encoding.
+   * @param options - Error correction level (default "M") and encoding mode.
+   * @returns The symbol, with its module matrix indexed [row][column] and true for dark.
+   * @throws {Error} If the share or an option is invalid, or the share is too long for a QR code.
+   *
+   * @example
+   * ```typescript
+   * const qr = secrets.shareToQr(shares[0], { errorCorrection: 'Q' });
+   * qr.modules.length; // 25, a version 2 symbol
+   * ```
+   */
+  shareToQr(share: string, options?: QrOptions): QrCode {
+    return getDefaultContext().shareToQr(share, options);
+  },
+
+  /**
+   * Encode a share string as a QR code SVG image.
+   *
+   * @param share - A share string in any encoding.
+   * @param options - The options of shareToQr(), plus the module size in pixels
+   *                  (scale, default 4) and the quiet zone in modules (margin, default 4).
+   * @returns A standalone SVG document.
+   * @throws {Error} If the share or an option is invalid, or the share is too long for a QR code.
+   */
+  shareToQrSvg(share: string, options?: QrOptions): string {
+    return getDefaultContext().shareToQrSvg(share, options);
+  },
+
+  /**
+   * Turn the text scanned from a share's QR code back into the share string.
+   *
+   * Surrounding whitespace is removed, and shares that were uppercased for
+   * alphanumeric mode get their original case back.
+   *
+   * @param payload - The decoded text of the QR code.
+   * @returns The share string, ready for combine() or extractShareComponents().
+   * @throws {Error} If the payload is not a valid share.
+   * @throws {InvalidShareError} If the share's checksum does not match.
+   */
+  qrToShare(payload: string): string {
+    return getDefaultContext().qrToShare(payload);
+  },
+
+  /**
+   * Encode shares as Blockchain Commons Uniform Resources, for transfer by camera.
+   *
+   * A share or bundle too large for one QR code is split into fragments and
+   * sent as a sequence of "ur:secrets-share/n-m/..." parts, or
+   * "ur:secrets-share-bundle/..." for an Array of shares. Parts past the
+   * fragment count mix fragments with a fountain code, so the receiver can
+   * start at any part and miss any of them. Each part fits shareToQr().
+   *
+   * @param shares - A share string, or an Array of share strings, in any encoding.
+   * @param options - The longest fragment in bytes (maxFragmentLength, default 100).
+   * @returns An encoder whose nextPart() returns the parts to display in turn.
+   * @throws {Error} If a share or an option is invalid.
+   *
+   * @example
+   * ```typescript
+   * const encoder = secrets.shareToUr(secrets.share(secrets.random(4096), 3, 2)[0]);
+   * setInterval(() => show(secrets.shareToQrSvg(encoder.nextPart())), 200);
+   * ```
+   */
+  shareToUr(shares: string | readonly string[], options?: UrOptions): UrEncoder {
+    return getDefaultContext().shareToUr(shares, options);
+  },
+
+  /**
+   * Create a decoder of the UR parts from shareToUr().
+   *
+   * Feed it the text of every scanned QR code, in any order and in either
+   * case, until it reports completion, then read the shares.
+   *
+   * @returns A decoder with receivePart(), progress() and getShares().
+   *
+   * @example
+   * ```typescript
+   * const decoder = secrets.createUrDecoder();
+   * while (!decoder.receivePart(scan()).complete) {}
+   * secrets.combine(decoder.getShares().concat(otherShares));
+   * ```
+   */
+  createUrDecoder(): UrDecoder {
+    return getDefaultContext().createUrDecoder();
+  },
+
+  /**
+   * Take part in a proactive refresh of a share, without reconstructing the secret.
+   *
+   * Every holder taking part deals sub-shares of a random polynomial whose
+   * secret is zero to the others, then adds the sub-shares it received to its
+   * own share. The refreshed shares combine to the same secret, but old and
+   * refreshed shares no longer combine with each other, so a share that leaked
+   * before the refresh becomes useless. Shares of holders left out of the
+   * refresh are revoked the same way. Versioned shares get a new share set id.
+   *
+   * @param share - This holder's share, in any encoding.
+   * @param holders - The ids of the shares taking part, this one included; at least the threshold.
+   * @param options - The round, agreed by every holder (default: the share set id),
+   *                  and the threshold of shares without a header.
+   * @returns A holder whose deal() and refresh() run the two steps of the protocol.
+   * @throws {Error} If the share, the holders or an option is invalid.
+   *
+   * @example
+   * ```typescript
+   * const transport = secrets.createMemoryTransport();
+   * const holders = shares.map((share) => secrets.createRefreshHolder(share, [1, 2, 3]));
+   * holders.forEach((holder) => holder.deal(transport));
+   * const refreshed = holders.map((holder) => holder.refresh(transport));
+   * ```
+   */
+  createRefreshHolder(
+    share: string,
+    holders: readonly number[],
+    options?: RefreshOptions
+  ): RefreshHolder {
+    return getDefaultContext().createRefreshHolder(share, holders, options);
+  },
+
+  /**
+   * Reshare shares to a new number of shares and threshold, without
+   * reconstructing the secret.
+   *
+   * Every old share given deals sub-shares of itself to the new holders, who
+   * combine them with Lagrange coefficients into shares of the same secret.
+   * The secret is never computed. To run the steps on separate machines, use
+   * createReshareDealer() and createReshareHolder() instead.
+   *
+   * @param shares - At least a threshold of the old shares.
+   * @param numShares - Number of new shares to generate (between 2 and 2^bits-1).
+   * @param threshold - Number of new shares required to reconstruct the secret.
+   * @param options - The round, which decides the new share set id of versioned shares.
+   * @returns The new shares, with ids 1 to numShares.
+   * @throws {MismatchedSharesError} If the shares do not belong to the same split.
+   * @throws {InsufficientSharesError} If fewer shares than their threshold are given.
+   *
+   * @example
+   * ```typescript
+   * const shares = secrets.share("deadbeef", 5, 3);
+   * const reshared = secrets.reshare(shares.slice(0, 3), 7, 4);
+   * secrets.combine(reshared.slice(3)); // => "deadbeef"
+   * ```
+   */
+  reshare(
+    shares: Shares | string[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): string[] {
+    return getDefaultContext().reshare(shares, numShares, threshold, options);
+  },
+
+  /**
+   * Take part in a reshare as one of the old holders.
+   *
+   * @param share - This dealer's share, in any encoding.
+   * @param dealers - The ids of the old shares dealing, this one included; at least the threshold.
+   * @param numShares - Number of new shares.
+   * @param threshold - Threshold of the new shares.
+   * @param options - The round, agreed by every dealer and new holder (default: the share set id).
+   * @returns A dealer whose deal() sends a sub-share to each new holder.
+   * @throws {Error} If the share, the dealers or a count is invalid.
+   */
+  createReshareDealer(
+    share: string,
+    dealers: readonly number[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): ReshareDealer {
+    return getDefaultContext().createReshareDealer(share, dealers, numShares, threshold, options);
+  },
+
+  /**
+   * Take part in a reshare as a new holder.
+   *
+   * @param id - The id of the new share.
+   * @param dealers - The ids of the old shares dealing.
+   * @param round - The round of the dealers, their share set id unless they chose another.
+   * @returns A holder whose combine() returns the new share once every dealer's sub-share arrived.
+   * @throws {Error} If the id or the dealers are invalid.
+   */
+  createReshareHolder(id: number, dealers: readonly number[], round: string): ReshareHolder {
+    return getDefaultContext().createReshareHolder(id, dealers, round);
+  },
+
+  /**
+   * Help regenerate a lost share without revealing the secret.
+   *
+   * Unlike newShare(), which combines the shares and so could reconstruct the
+   * secret, a repair only ever gives the recovering party the share at id.
+   * Each helper splits its Lagrange term for id into random parts for the
+   * other helpers (mask()), then sends the sum of the parts it holds to the
+   * recovering party (contribute()), who adds them up with
+   * createRepairRecipient(). No helper learns another helper's share.
+   *
+   * @param share - This helper's share, in any encoding.
+   * @param helpers - The ids of the helping shares, this one included; at least the threshold.
+   * @param id - The id of the share to regenerate.
+   * @param options - The round, agreed by every helper and the recipient (default: the share set id).
+   * @returns A helper whose mask() and contribute() run its two steps of the protocol.
+   * @throws {Error} If the share, the helpers or the id is invalid.
+   *
+   * @example
+   * ```typescript
+   * const transport = secrets.createMemoryTransport();
+   * const helpers = [shares[0], shares[1], shares[3]].map((share) =>
+   *   secrets.createRepairHelper(share, [1, 2, 4], 3, { round: "repair-3" })
+   * );
+   * const recipient = secrets.createRepairRecipient(3, [1, 2, 4], "repair-3");
+   * helpers.forEach((helper) => helper.mask(transport));
+   * helpers.forEach((helper) => helper.contribute(transport));
+   * recipient.combine(transport); // => the lost share 3
+   * ```
+   */
+  createRepairHelper(
+    share: string,
+    helpers: readonly number[],
+    id: number,
+    options?: RepairOptions
+  ): RepairHelper {
+    return getDefaultContext().createRepairHelper(share, helpers, id, options);
+  },
+
+  /**
+   * Regenerate a lost share from the contributions of repair helpers.
+   *
+   * @param id - The id of the share to regenerate.
+   * @param helpers - The ids of the helping shares.
+   * @param round - The round of the helpers, their share set id unless they chose another.
+   * @returns A recipient whose combine() returns the share once every helper contributed.
+   * @throws {Error} If the id or the helpers are invalid.
+   */
+  createRepairRecipient(id: number, helpers: readonly number[], round: string): RepairRecipient {
+    return getDefaultContext().createRepairRecipient(id, helpers, round);
+  },
+
+  createSecrets,
+  createMemoryTransport,
+  parsePolicy,
+
+  // Error classes, for instanceof checks
+  SecretsError,
+  InvalidShareError,
+  InsufficientSharesError,
+  MismatchedSharesError,
+  CryptoError,
+
   // Private functions exported for testing
   _reset: reset,
-  _padLeft: padLeft,
+  _padLeft(str: string, multipleOfBits?: number | null): string {
+    if (multipleOfBits === 0 || multipleOfBits === 1) {
+      return str;
+    }
+    return padLeft(str, multipleOfBits || getDefaultConfig().bits);
+  },
   _hex2bin: hex2bin,
   _bin2hex: bin2hex,
   _bytesToHex: bytesToHex,
@@ -1091,10 +1817,27 @@ const SecretsLibrary = {
   _hasCryptoRandomBytes: hasCryptoRandomBytes,
   _getRNG: getRNG,
   _isSetRNG: isSetRNG,
-  _splitNumStringToIntArray: splitNumStringToIntArray,
-  _horner: horner,
-  _lagrange: lagrange,
-  _getShares: getShares,
+  _splitNumStringToIntArray(str: string, padLength?: number): number[] {
+    return splitNumStringToIntArray(str, getDefaultConfig().bits, padLength);
+  },
+  _horner(x: number, coeffs: number[]): number {
+    return horner(getDefaultConfig(), x, coeffs);
+  },
+  _lagrange(at: number, x: number[], y: number[]): number {
+    return lagrange(getDefaultConfig(), at, x, y);
+  },
+  _getShares(secret: number, numShares: number, threshold: number): Share[] {
+    const current = getDefaultConfig();
+    const secretWords = createWords(current.bits, 1);
+
+    secretWords[0] = secret;
+    return getShares(current, current.rng, secretWords, numShares, threshold).map(function (
+      words: FieldArray,
+      i: number
+    ): Share {
+      return { x: i + 1, y: words[0] };
+    });
+  },
   _constructPublicShareString: constructPublicShareString,
 };
 
@@ -1126,18 +1869,120 @@ export const {
   hex2str,
   random,
   share,
+  shareBytes,
+  combineBytes,
+  shareLarge,
+  combineLarge,
+  shareDispersed,
+  combineDispersed,
+  createSplitStream,
+  createCombineStream,
+  shareAsync,
+  combineAsync,
+  protectShare,
+  unprotectShare,
   newShare,
+  shareWeighted,
+  combineWeighted,
+  splitShare,
+  combineSubShares,
+  shareHierarchical,
+  combineHierarchical,
+  shareWithPolicy,
+  combineWithPolicy,
+  combineRobust,
+  shareVerifiable,
+  verifyShare,
+  combineVerifiable,
+  shareSlip39,
+  combineSlip39,
+  shareToWords,
+  wordsToShare,
+  shareToBech32m,
+  bech32mToShare,
+  shareToQr,
+  shareToQrSvg,
+  qrToShare,
+  shareToUr,
+  createUrDecoder,
+  createRefreshHolder,
+  reshare,
+  createReshareDealer,
+  createReshareHolder,
+  createRepairHelper,
+  createRepairRecipient,
 } = SecretsLibrary;
 
+export {
+  createSecrets,
+  createMemoryTransport,
+  parsePolicy,
+  CryptoError,
+  InsufficientSharesError,
+  InvalidShareError,
+  MismatchedSharesError,
+  SecretsError,
+};
+
 // Re-export types for external consumers
 export type {
+  AsyncOptions,
+  AsyncProgress,
   Base36String,
   BinaryString,
+  ByteShare,
+  ByteSink,
+  ByteSource,
+  CombineOptions,
+  CombineStream,
   CSPRNGType,
+  Custodian,
+  DispersedFragment,
   HexString,
+  HierarchyLevel,
+  LargeShares,
+  NodeReadableLike,
+  NodeWritableLike,
+  PassphraseKdf,
+  PassphraseResolver,
+  PolicyBundle,
+  PolicyClause,
+  PolicyGate,
+  PolicyNode,
+  PolicyPrincipal,
+  PolicyResult,
+  ProtectedShareInfo,
+  ProtectOptions,
+  QrCode,
+  QrErrorCorrection,
+  QrMode,
+  QrOptions,
+  RefreshHolder,
+  RefreshOptions,
+  RepairHelper,
+  RepairOptions,
+  RepairRecipient,
+  ReshareDealer,
+  ReshareHolder,
+  ReshareOptions,
   RNGFunction,
+  RobustCombineResult,
   SecretsConfig,
+  SecretsContext,
+  SecretsOptions,
   Share,
   ShareComponents,
+  ShareEncoding,
+  ShareMessage,
   Shares,
+  ShareTransport,
+  Slip39Options,
+  SplitStream,
+  StreamOptions,
+  UrDecoder,
+  UrEncoder,
+  UrOptions,
+  UrProgress,
+  VerifiableShares,
+  WeightedBundle,
 } from "./types";
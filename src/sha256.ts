@@ -0,0 +1,236 @@
+// SHA-256, HMAC-SHA256 and PBKDF2-HMAC-SHA256 for @digitaldefiance/secrets
+// Synchronous and dependency free, so that they work the same in Node.js and browsers
+
+// ============================================================================
+// SHA-256
+// ============================================================================
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Size of a SHA-256 digest in bytes
+ */
+export const SHA256_LENGTH = 32;
+
+const BLOCK_LENGTH = 64;
+
+// Process the 64 byte blocks of data, starting at offset, into state
+function compress(
+  state: Uint32Array,
+  w: Uint32Array,
+  data: Uint8Array,
+  offset: number,
+  end: number
+): void {
+  for (; offset < end; offset += BLOCK_LENGTH) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let a = state[0];
+    let b = state[1];
+    let c = state[2];
+    let d = state[3];
+    let e = state[4];
+    let f = state[5];
+    let g = state[6];
+    let h = state[7];
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const t1 = (h + S1 + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const t2 = (S0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+// Hash data, continuing from state after `prefixLength` bytes were already compressed into it
+function finish(
+  state: Uint32Array,
+  w: Uint32Array,
+  data: Uint8Array,
+  prefixLength: number,
+  out: Uint8Array
+): void {
+  const full = data.length - (data.length % BLOCK_LENGTH);
+  const bitLength = (prefixLength + data.length) * 8;
+  const tail = new Uint8Array(data.length - full < 56 ? BLOCK_LENGTH : 2 * BLOCK_LENGTH);
+
+  compress(state, w, data, 0, full);
+
+  tail.set(data.subarray(full));
+  tail[data.length - full] = 0x80;
+  // Messages here are far below 2^32 bits, so the high word of the length stays zero
+  tail[tail.length - 4] = bitLength >>> 24;
+  tail[tail.length - 3] = bitLength >>> 16;
+  tail[tail.length - 2] = bitLength >>> 8;
+  tail[tail.length - 1] = bitLength;
+
+  compress(state, w, tail, 0, tail.length);
+
+  for (let i = 0; i < 8; i++) {
+    out[i * 4] = state[i] >>> 24;
+    out[i * 4 + 1] = state[i] >>> 16;
+    out[i * 4 + 2] = state[i] >>> 8;
+    out[i * 4 + 3] = state[i];
+  }
+}
+
+/**
+ * Compute the SHA-256 digest of a byte array.
+ *
+ * @param data - Message bytes
+ * @returns The 32 byte digest
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(SHA256_LENGTH);
+  finish(new Uint32Array(INITIAL_STATE), new Uint32Array(64), data, 0, out);
+  return out;
+}
+
+// ============================================================================
+// HMAC and PBKDF2
+// ============================================================================
+
+// The hash states after absorbing the inner and outer padded key, which every
+// HMAC with this key starts from
+function hmacStates(key: Uint8Array, w: Uint32Array): { inner: Uint32Array; outer: Uint32Array } {
+  const block = new Uint8Array(BLOCK_LENGTH);
+  const inner = new Uint32Array(INITIAL_STATE);
+  const outer = new Uint32Array(INITIAL_STATE);
+
+  block.set(key.length > BLOCK_LENGTH ? sha256(key) : key);
+
+  for (let i = 0; i < BLOCK_LENGTH; i++) {
+    block[i] ^= 0x36;
+  }
+  compress(inner, w, block, 0, BLOCK_LENGTH);
+
+  for (let i = 0; i < BLOCK_LENGTH; i++) {
+    block[i] ^= 0x36 ^ 0x5c;
+  }
+  compress(outer, w, block, 0, BLOCK_LENGTH);
+
+  block.fill(0);
+  return { inner, outer };
+}
+
+function hmacWithStates(
+  states: { inner: Uint32Array; outer: Uint32Array },
+  w: Uint32Array,
+  data: Uint8Array,
+  out: Uint8Array
+): void {
+  const state = new Uint32Array(states.inner);
+
+  finish(state, w, data, BLOCK_LENGTH, out);
+  state.set(states.outer);
+  finish(state, w, out, BLOCK_LENGTH, out);
+}
+
+/**
+ * Compute HMAC-SHA256 (RFC 2104).
+ *
+ * @param key - Key bytes, of any length
+ * @param data - Message bytes
+ * @returns The 32 byte authentication code
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const w = new Uint32Array(64);
+  const out = new Uint8Array(SHA256_LENGTH);
+
+  hmacWithStates(hmacStates(key, w), w, data, out);
+  return out;
+}
+
+/**
+ * Derive a key with PBKDF2-HMAC-SHA256 (RFC 8018).
+ *
+ * @param password - Password bytes
+ * @param salt - Salt bytes
+ * @param iterations - Number of iterations, at least 1
+ * @param length - Number of bytes to derive
+ * @returns The derived key
+ */
+export function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Uint8Array {
+  const w = new Uint32Array(64);
+  const states = hmacStates(password, w);
+  const key = new Uint8Array(length);
+  const first = new Uint8Array(salt.length + 4);
+  const u = new Uint8Array(SHA256_LENGTH);
+  const t = new Uint8Array(SHA256_LENGTH);
+
+  first.set(salt);
+
+  for (let block = 1, offset = 0; offset < length; block++, offset += SHA256_LENGTH) {
+    first[salt.length] = block >>> 24;
+    first[salt.length + 1] = block >>> 16;
+    first[salt.length + 2] = block >>> 8;
+    first[salt.length + 3] = block;
+
+    hmacWithStates(states, w, first, u);
+    t.set(u);
+
+    for (let i = 1; i < iterations; i++) {
+      hmacWithStates(states, w, u, u);
+      for (let j = 0; j < SHA256_LENGTH; j++) {
+        t[j] ^= u[j];
+      }
+    }
+
+    key.set(t.subarray(0, Math.min(SHA256_LENGTH, length - offset)), offset);
+  }
+
+  states.inner.fill(0);
+  states.outer.fill(0);
+  u.fill(0);
+  t.fill(0);
+  return key;
+}
@@ -0,0 +1,282 @@
+// Share strings for @digitaldefiance/secrets
+// The defaults, hex helpers and public share string layout that every context operation uses
+
+import { CHECKSUM_SEPARATOR, shareChecksum } from "./checksum";
+import { encodeShareString, ENCODING_PREFIXES } from "./encodings";
+import { MAX_BITS, MIN_BITS, PRIMITIVE_POLYNOMIALS } from "./field";
+import type { Base36String, BinaryString, Defaults, HexString, ShareEncoding } from "./types";
+
+/**
+ * Default field size, radix and limits of a context
+ */
+export const defaults: Defaults = {
+  bits: 8,
+  radix: 16,
+  minBits: MIN_BITS,
+  maxBits: MAX_BITS,
+  bytesPerChar: 2,
+  maxBytesPerChar: 6,
+  primitivePolynomials: PRIMITIVE_POLYNOMIALS,
+};
+
+/**
+ * Newest share format version, written by contexts with a version of 1 or more
+ */
+export const shareFormatVersion = 1;
+
+/**
+ * Number of hex digits of the set id in versioned shares
+ */
+export const shareSetIdLength = 8;
+
+const preGenPadding = new Array(1024).join("0");
+
+/**
+ * Number of secret words split per pass, bounding the memory held by random coefficients
+ */
+export const shareBlockWords = 4096;
+
+const byteToHex: string[] = [];
+for (let i = 0; i <= 0xff; i++) {
+  let hexOctet = i.toString(16);
+  if (hexOctet.length === 1) {
+    hexOctet = "0" + hexOctet;
+  }
+  byteToHex.push(hexOctet);
+}
+
+/**
+ * Zero-pad a string on the left to a multiple of the given length.
+ *
+ * @param str - String of binary or hex digits
+ * @param multipleOfBits - Length to pad to a multiple of, at most 1024 (0 or 1 for none)
+ * @returns The padded string
+ * @throws {Error} If multipleOfBits is larger than 1024
+ */
+export function padLeft(str: string, multipleOfBits: number): string {
+  let missing: number;
+
+  if (multipleOfBits === 0 || multipleOfBits === 1) {
+    return str;
+  }
+
+  if (multipleOfBits && multipleOfBits > 1024) {
+    throw new Error("Padding must be multiples of no larger than 1024 bits.");
+  }
+
+  const bits = multipleOfBits;
+
+  if (str) {
+    missing = str.length % bits;
+  }
+
+  if (missing!) {
+    return (preGenPadding + str).slice(-(bits - missing + str.length));
+  }
+
+  return str;
+}
+
+/**
+ * Convert a hex string to a binary string of four digits per hex digit.
+ *
+ * @param str - Hex string
+ * @returns Binary string
+ * @throws {Error} If the string contains a character that is not a hex digit
+ */
+export function hex2bin(str: string): BinaryString {
+  let bin = "";
+  let num: number;
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    num = parseInt(str[i], 16);
+
+    if (isNaN(num)) {
+      throw new Error("Invalid hex character.");
+    }
+
+    bin = padLeft(num.toString(2), 4) + bin;
+  }
+  return bin;
+}
+
+/**
+ * Convert a binary string to a hex string, zero-padding it to whole hex digits.
+ *
+ * @param str - Binary string
+ * @returns Hex string
+ * @throws {Error} If the string contains a character that is not a binary digit
+ */
+export function bin2hex(str: BinaryString): HexString {
+  let hex = "";
+  let num: number;
+
+  str = padLeft(str, 4);
+
+  for (let i = str.length; i >= 4; i -= 4) {
+    num = parseInt(str.slice(i - 4, i), 2);
+    if (isNaN(num)) {
+      throw new Error("Invalid binary character.");
+    }
+    hex = num.toString(16) + hex;
+  }
+
+  return hex;
+}
+
+/**
+ * The XOR of two hexadecimal strings of the same length
+ */
+export function xorHex(a: HexString, b: HexString): HexString {
+  let hex = "";
+
+  for (let i = 0; i < a.length; i++) {
+    hex += (parseInt(a.charAt(i), 16) ^ parseInt(b.charAt(i), 16)).toString(16);
+  }
+
+  return hex;
+}
+
+/**
+ * Convert bytes to a hex string of two digits per byte.
+ *
+ * @param bytes - Bytes
+ * @returns Lowercase hex string
+ */
+export function bytesToHex(bytes: Uint8Array | Buffer): HexString {
+  let hex = "";
+
+  for (let i = 0; i < bytes.length; i++) {
+    hex += byteToHex[bytes[i]];
+  }
+
+  return hex;
+}
+
+/**
+ * The bytes of a hexadecimal string of even length
+ */
+export function hexToBytes(hex: HexString): Uint8Array {
+  const bytes = new Uint8Array(hex.length >>> 1);
+
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+
+  return bytes;
+}
+
+/**
+ * Throw unless a zero-pad length is an integer between 0 and 1024.
+ */
+export function validatePadLength(padLength: unknown): asserts padLength is number {
+  if (typeof padLength !== "number" || padLength % 1 !== 0 || padLength < 0 || padLength > 1024) {
+    throw new Error("Zero-pad length must be an integer between 0 and 1024 inclusive.");
+  }
+}
+
+/**
+ * Throw unless an encoding is a supported share encoding.
+ */
+export function validateEncoding(encoding: unknown): asserts encoding is ShareEncoding {
+  if (typeof encoding !== "string" || !ENCODING_PREFIXES.hasOwnProperty(encoding)) {
+    throw new Error(
+      "Share encoding must be one of " + Object.keys(ENCODING_PREFIXES).join(", ") + "."
+    );
+  }
+}
+
+/**
+ * Split a binary string into integers of the given number of bits, least
+ * significant first.
+ *
+ * @param str - Binary string
+ * @param bits - Bits per integer
+ * @param padLength - Zero-pad the string to a multiple of this length first
+ * @returns The integers
+ */
+export function splitNumStringToIntArray(str: string, bits: number, padLength?: number): number[] {
+  const parts: number[] = [];
+
+  if (padLength) {
+    str = padLeft(str, padLength);
+  }
+
+  let i: number;
+  for (i = str.length; i > bits; i -= bits) {
+    parts.push(parseInt(str.slice(i - bits, i), 2));
+  }
+
+  parts.push(parseInt(str.slice(0, i), 2));
+
+  return parts;
+}
+
+/**
+ * Build a share string from its components, in the versioned layout if it has
+ * a set id, with a checksum if asked for, in the given encoding.
+ *
+ * @param bits - Field size of the share
+ * @param id - Share id, between 1 and 2^bits - 1
+ * @param data - Hex share data
+ * @param checksum - Whether to append a checksum
+ * @param threshold - Threshold of the split, for versioned shares
+ * @param setId - Set id of the split, which makes the share versioned
+ * @param encoding - Share encoding (default: hex)
+ * @returns The share string
+ * @throws {Error} If the id is out of range
+ */
+export function constructPublicShareString(
+  bits: number | string,
+  id: number | string,
+  data: string,
+  checksum?: boolean,
+  threshold?: number,
+  setId?: string,
+  encoding?: ShareEncoding
+): string {
+  const bitsNum = typeof bits === "string" ? parseInt(bits, 10) : bits;
+  const bitsBase36: Base36String = bitsNum.toString(36).toUpperCase();
+  const idMax = Math.pow(2, bitsNum) - 1;
+
+  let numericId: number;
+  if (typeof id === "number") {
+    numericId = id;
+  } else if (typeof id === "string") {
+    numericId = parseInt(id, 10);
+  } else {
+    numericId = NaN;
+  }
+
+  if (
+    typeof numericId !== "number" ||
+    numericId % 1 !== 0 ||
+    numericId < 1 ||
+    numericId > idMax ||
+    isNaN(numericId)
+  ) {
+    throw new Error("Share id must be an integer between 1 and " + idMax + ", inclusive.");
+  }
+
+  const idPaddingLen = idMax.toString(defaults.radix).length;
+  const idHex = padLeft(numericId.toString(defaults.radix), idPaddingLen);
+  let newShareString = bitsBase36 + idHex + data;
+
+  // Versioned layout: v<version><bits><threshold><setId><id><data>
+  if (setId !== undefined) {
+    newShareString =
+      "v" +
+      shareFormatVersion.toString(36) +
+      bitsBase36 +
+      padLeft(threshold!.toString(defaults.radix), idPaddingLen) +
+      setId +
+      idHex +
+      data;
+  }
+
+  if (checksum) {
+    newShareString += CHECKSUM_SEPARATOR + shareChecksum(newShareString);
+  }
+
+  return encodeShareString(newShareString, encoding || "hex");
+}
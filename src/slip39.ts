@@ -0,0 +1,611 @@
+// SLIP-0039 mnemonic shares for @digitaldefiance/secrets
+// Two-level Shamir sharing of an encrypted master secret, encoded as RS1024 checksummed word lists
+
+import { InsufficientSharesError, InvalidShareError, MismatchedSharesError } from "./errors";
+import { createField, lagrangeBasis, lagrangeWords } from "./field";
+import { hmacSha256, pbkdf2Sha256 } from "./sha256";
+import { SLIP39_WORDLIST } from "./slip39-wordlist";
+import type { GaloisField, Slip39Options } from "./types";
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const RADIX_BITS = 10;
+const ID_BITS = 15;
+const ITERATION_EXP_BITS = 4;
+const CHECKSUM_WORDS = 3;
+const METADATA_WORDS = 4 + CHECKSUM_WORDS;
+const DIGEST_LENGTH = 4;
+const MIN_SECRET_LENGTH = 16;
+const MIN_MNEMONIC_WORDS = METADATA_WORDS + Math.ceil((MIN_SECRET_LENGTH * 8) / RADIX_BITS);
+const MAX_SHARE_COUNT = 16;
+const SECRET_INDEX = 255;
+const DIGEST_INDEX = 254;
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+
+const CUSTOMIZATION = "shamir";
+const CUSTOMIZATION_EXTENDABLE = "shamir_extendable";
+
+const RS1024_GENERATOR = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24, 0x3090fc48,
+  0x21b1f890, 0x3f3f120,
+];
+
+// GF(256) as fixed by SLIP-0039: Rijndael's polynomial x^8 + x^4 + x^3 + x + 1 with generator 3.
+// This differs from the x^8 + x^4 + x^3 + x^2 + 1 used by share(), so it gets its own tables.
+let field: GaloisField | undefined;
+
+function getSlip39Field(): GaloisField {
+  if (!field) {
+    field = createField(8, 0x1b, 3);
+  }
+  return field;
+}
+
+// Map from the first four letters of each word to its index
+let wordIndex: { [prefix: string]: number } | undefined;
+
+function getWordIndex(): { [prefix: string]: number } {
+  if (!wordIndex) {
+    wordIndex = {};
+    for (let i = 0; i < SLIP39_WORDLIST.length; i++) {
+      wordIndex[SLIP39_WORDLIST[i].slice(0, 4)] = i;
+    }
+  }
+  return wordIndex;
+}
+
+/**
+ * One parsed SLIP-0039 mnemonic
+ */
+interface Slip39Share {
+  readonly identifier: number;
+  readonly extendable: boolean;
+  readonly iterationExponent: number;
+  readonly groupIndex: number;
+  readonly groupThreshold: number;
+  readonly groupCount: number;
+  readonly memberIndex: number;
+  readonly memberThreshold: number;
+  readonly value: Uint8Array;
+}
+
+// ============================================================================
+// RS1024 Checksum
+// ============================================================================
+
+function rs1024Polymod(customization: string, values: readonly number[]): number {
+  let chk = 1;
+
+  for (let i = 0; i < customization.length + values.length; i++) {
+    const value =
+      i < customization.length ? customization.charCodeAt(i) : values[i - customization.length];
+    const b = chk >>> 20;
+
+    chk = ((chk & 0xfffff) << 10) ^ value;
+    for (let j = 0; j < 10; j++) {
+      if ((b >>> j) & 1) {
+        chk ^= RS1024_GENERATOR[j];
+      }
+    }
+  }
+
+  return chk;
+}
+
+/**
+ * Compute the three checksum words for the data words of a mnemonic.
+ *
+ * @param data - Word indices of the mnemonic without its checksum
+ * @param extendable - Whether the share uses the extendable customization string
+ * @returns Three word indices
+ */
+export function rs1024Checksum(data: readonly number[], extendable: boolean): number[] {
+  const polymod =
+    rs1024Polymod(extendable ? CUSTOMIZATION_EXTENDABLE : CUSTOMIZATION, data.concat([0, 0, 0])) ^
+    1;
+
+  return [(polymod >>> 20) & 1023, (polymod >>> 10) & 1023, polymod & 1023];
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+// Write `count` 10 bit words holding the bytes, zero-padded at the front
+function bytesToIndices(bytes: Uint8Array, count: number): number[] {
+  const indices: number[] = [];
+  let acc = 0;
+  let accBits = count * RADIX_BITS - bytes.length * 8;
+
+  for (let i = 0; i < bytes.length; i++) {
+    acc = (acc << 8) | bytes[i];
+    accBits += 8;
+    while (accBits >= RADIX_BITS) {
+      accBits -= RADIX_BITS;
+      indices.push((acc >>> accBits) & 1023);
+    }
+    acc &= (1 << accBits) - 1;
+  }
+
+  return indices;
+}
+
+function encodeShare(share: Slip39Share): string {
+  const data = [
+    share.identifier >>> (RADIX_BITS - (ITERATION_EXP_BITS + 1)),
+    ((share.identifier << (ITERATION_EXP_BITS + 1)) |
+      ((share.extendable ? 1 : 0) << ITERATION_EXP_BITS) |
+      share.iterationExponent) &
+      1023,
+    (share.groupIndex << 6) | ((share.groupThreshold - 1) << 2) | ((share.groupCount - 1) >>> 2),
+    (((share.groupCount - 1) & 3) << 8) | (share.memberIndex << 4) | (share.memberThreshold - 1),
+  ].concat(bytesToIndices(share.value, Math.ceil((share.value.length * 8) / RADIX_BITS)));
+
+  return data
+    .concat(rs1024Checksum(data, share.extendable))
+    .map(function (index: number): string {
+      return SLIP39_WORDLIST[index];
+    })
+    .join(" ");
+}
+
+/**
+ * Parse and validate one SLIP-0039 mnemonic.
+ *
+ * Words are matched by their first four letters, case-insensitively.
+ *
+ * @param mnemonic - Space separated mnemonic words
+ * @returns The share parameters and value
+ * @throws {InvalidShareError} If a word is unknown, or the length, checksum or padding is invalid
+ */
+export function parseMnemonic(mnemonic: string): Slip39Share {
+  const index = getWordIndex();
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  const data: number[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const value = index[words[i].slice(0, 4)];
+    if (value === undefined || SLIP39_WORDLIST[value].indexOf(words[i]) !== 0) {
+      throw new InvalidShareError(mnemonic, 'Unknown mnemonic word "' + words[i] + '".');
+    }
+    data.push(value);
+  }
+
+  const padding = ((data.length - METADATA_WORDS) * RADIX_BITS) % 16;
+
+  if (data.length < MIN_MNEMONIC_WORDS || padding > 8) {
+    throw new InvalidShareError(
+      mnemonic,
+      "Invalid mnemonic length, a mnemonic has at least " + MIN_MNEMONIC_WORDS + " words."
+    );
+  }
+
+  const extendable = ((data[1] >>> ITERATION_EXP_BITS) & 1) === 1;
+
+  if (rs1024Polymod(extendable ? CUSTOMIZATION_EXTENDABLE : CUSTOMIZATION, data) !== 1) {
+    throw new InvalidShareError(mnemonic, "Invalid mnemonic checksum.");
+  }
+
+  const params = (data[2] << 10) | data[3];
+  const groupThreshold = ((params >>> 12) & 15) + 1;
+  const groupCount = ((params >>> 8) & 15) + 1;
+
+  if (groupThreshold > groupCount) {
+    throw new InvalidShareError(
+      mnemonic,
+      "Invalid mnemonic, the group threshold cannot be greater than the group count."
+    );
+  }
+
+  // Unpack the value words, of which the first `padding` bits must be zero
+  const valueWords = data.slice(4, data.length - CHECKSUM_WORDS);
+  const value = new Uint8Array((valueWords.length * RADIX_BITS - padding) / 8);
+  let acc = 0;
+  let accBits = -padding;
+  let offset = 0;
+
+  if (valueWords[0] >>> (RADIX_BITS - padding)) {
+    throw new InvalidShareError(mnemonic, "Invalid mnemonic padding.");
+  }
+
+  for (let i = 0; i < valueWords.length; i++) {
+    acc = (acc << RADIX_BITS) | valueWords[i];
+    accBits += RADIX_BITS;
+    while (accBits >= 8) {
+      accBits -= 8;
+      value[offset++] = acc >>> accBits;
+    }
+    acc &= (1 << accBits) - 1;
+  }
+
+  return Object.freeze({
+    identifier: ((data[0] << RADIX_BITS) | data[1]) >>> (ITERATION_EXP_BITS + 1),
+    extendable,
+    iterationExponent: data[1] & 15,
+    groupIndex: params >>> 16,
+    groupThreshold,
+    groupCount,
+    memberIndex: (params >>> 4) & 15,
+    memberThreshold: (params & 15) + 1,
+    value,
+  });
+}
+
+// ============================================================================
+// Shamir Sharing over GF(256)
+// ============================================================================
+
+function interpolate(x: readonly number[], ys: readonly Uint8Array[], at: number): Uint8Array {
+  const gf = getSlip39Field();
+  const out = new Uint8Array(ys[0].length);
+
+  lagrangeWords(gf, lagrangeBasis(gf, at, x), ys, out);
+  return out;
+}
+
+function createDigest(randomPart: Uint8Array, secret: Uint8Array): Uint8Array {
+  return hmacSha256(randomPart, secret).subarray(0, DIGEST_LENGTH);
+}
+
+// Split a secret into `count` values, any `threshold` of which recover it. The
+// polynomial also passes through a digest of the secret at DIGEST_INDEX, so
+// recovery can tell a wrong result from the right one.
+function splitSecret(
+  threshold: number,
+  count: number,
+  secret: Uint8Array,
+  randomBytes: (length: number) => Uint8Array
+): Uint8Array[] {
+  if (threshold === 1) {
+    const copies: Uint8Array[] = [];
+    for (let i = 0; i < count; i++) {
+      copies.push(secret.slice());
+    }
+    return copies;
+  }
+
+  const x: number[] = [];
+  const ys: Uint8Array[] = [];
+
+  for (let i = 0; i < threshold - 2; i++) {
+    x.push(i);
+    ys.push(randomBytes(secret.length));
+  }
+
+  const randomPart = randomBytes(secret.length - DIGEST_LENGTH);
+  const digestShare = new Uint8Array(secret.length);
+
+  digestShare.set(createDigest(randomPart, secret));
+  digestShare.set(randomPart, DIGEST_LENGTH);
+
+  const base = { x: x.concat([DIGEST_INDEX, SECRET_INDEX]), ys: ys.concat([digestShare, secret]) };
+  const values = ys.slice();
+
+  for (let i = threshold - 2; i < count; i++) {
+    values.push(interpolate(base.x, base.ys, i));
+  }
+
+  digestShare.fill(0);
+  randomPart.fill(0);
+  return values;
+}
+
+function recoverSecret(
+  threshold: number,
+  x: readonly number[],
+  ys: readonly Uint8Array[]
+): Uint8Array {
+  if (threshold === 1) {
+    return ys[0].slice();
+  }
+
+  const secret = interpolate(x, ys, SECRET_INDEX);
+  const digestShare = interpolate(x, ys, DIGEST_INDEX);
+  const digest = createDigest(digestShare.subarray(DIGEST_LENGTH), secret);
+
+  for (let i = 0; i < DIGEST_LENGTH; i++) {
+    if (digest[i] !== digestShare[i]) {
+      throw new MismatchedSharesError("Invalid digest of the shared secret.");
+    }
+  }
+
+  digestShare.fill(0);
+  return secret;
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+// The four round Feistel cipher of SLIP-0039, run forwards to encrypt and backwards to decrypt
+function feistel(
+  input: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean,
+  decrypt: boolean
+): Uint8Array {
+  const half = input.length / 2;
+  const password = new Uint8Array(passphrase.length + 1);
+  const saltLength = extendable ? 0 : CUSTOMIZATION.length + 2;
+  const salt = new Uint8Array(saltLength + half);
+  const iterations = (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT;
+  let left = input.slice(0, half);
+  let right = input.slice(half);
+
+  for (let i = 0; i < passphrase.length; i++) {
+    password[i + 1] = passphrase.charCodeAt(i);
+  }
+
+  // Non-extendable shares salt with the customization string and the identifier
+  if (!extendable) {
+    for (let i = 0; i < CUSTOMIZATION.length; i++) {
+      salt[i] = CUSTOMIZATION.charCodeAt(i);
+    }
+    salt[CUSTOMIZATION.length] = identifier >>> 8;
+    salt[CUSTOMIZATION.length + 1] = identifier;
+  }
+
+  for (let r = 0; r < ROUND_COUNT; r++) {
+    password[0] = decrypt ? ROUND_COUNT - 1 - r : r;
+    salt.set(right, saltLength);
+
+    const f = pbkdf2Sha256(password, salt, iterations, half);
+    for (let i = 0; i < half; i++) {
+      left[i] ^= f[i];
+    }
+
+    const swap = left;
+    left = right;
+    right = swap;
+  }
+
+  const output = new Uint8Array(input.length);
+  output.set(right);
+  output.set(left, half);
+
+  password.fill(0);
+  salt.fill(0);
+  left.fill(0);
+  right.fill(0);
+  return output;
+}
+
+// ============================================================================
+// Generation and Recovery
+// ============================================================================
+
+function validatePassphrase(passphrase: string): void {
+  if (typeof passphrase !== "string" || !/^[\x20-\x7e]*$/.test(passphrase)) {
+    throw new Error("The passphrase must contain only printable ASCII characters.");
+  }
+}
+
+/**
+ * Split a master secret into SLIP-0039 mnemonic shares.
+ *
+ * The master secret is encrypted with the passphrase, split among the groups
+ * with `groupThreshold`, and each group's share is split again among its
+ * members with the member threshold of that group.
+ *
+ * @param masterSecret - At least 16 bytes, of even length
+ * @param groupThreshold - Number of groups needed to recover the secret
+ * @param groups - Member threshold and member count of each group
+ * @param options - Passphrase, iteration exponent and extendable flag
+ * @param randomBytes - Returns uniformly random bytes
+ * @returns Mnemonics indexed [group][member]
+ * @throws {Error} If any parameter is out of range
+ */
+export function generateMnemonics(
+  masterSecret: Uint8Array,
+  groupThreshold: number,
+  groups: readonly (readonly [number, number])[],
+  options: Slip39Options,
+  randomBytes: (length: number) => Uint8Array
+): string[][] {
+  const passphrase = options.passphrase === undefined ? "" : options.passphrase;
+  const iterationExponent = options.iterationExponent === undefined ? 1 : options.iterationExponent;
+  const extendable = options.extendable !== false;
+
+  if (masterSecret.length < MIN_SECRET_LENGTH || masterSecret.length % 2 !== 0) {
+    throw new Error(
+      "The master secret must be an even number of bytes, at least " + MIN_SECRET_LENGTH + "."
+    );
+  }
+
+  validatePassphrase(passphrase);
+
+  if (iterationExponent % 1 !== 0 || iterationExponent < 0 || iterationExponent > 15) {
+    throw new Error("The iteration exponent must be an integer between 0 and 15, inclusive.");
+  }
+
+  if (groups.length < 1 || groups.length > MAX_SHARE_COUNT) {
+    throw new Error(
+      "The number of groups must be between 1 and " + MAX_SHARE_COUNT + ", inclusive."
+    );
+  }
+
+  if (groupThreshold % 1 !== 0 || groupThreshold < 1 || groupThreshold > groups.length) {
+    throw new Error(
+      "The group threshold must be an integer between 1 and the number of groups (" +
+        groups.length +
+        "), inclusive."
+    );
+  }
+
+  for (let g = 0; g < groups.length; g++) {
+    const threshold = groups[g][0];
+    const count = groups[g][1];
+
+    if (count % 1 !== 0 || count < 1 || count > MAX_SHARE_COUNT) {
+      throw new Error(
+        "The number of members of a group must be between 1 and " + MAX_SHARE_COUNT + ", inclusive."
+      );
+    }
+
+    if (threshold % 1 !== 0 || threshold < 1 || threshold > count) {
+      throw new Error(
+        "The member threshold of a group must be an integer between 1 and its member count (" +
+          count +
+          "), inclusive."
+      );
+    }
+
+    if (threshold === 1 && count > 1) {
+      throw new Error(
+        "Creating multiple member shares with member threshold 1 is not allowed, use 1-of-1 instead."
+      );
+    }
+  }
+
+  const id = randomBytes(2);
+  const identifier = ((id[0] << 8) | id[1]) & ((1 << ID_BITS) - 1);
+  const encrypted = feistel(
+    masterSecret,
+    passphrase,
+    iterationExponent,
+    identifier,
+    extendable,
+    false
+  );
+  const groupValues = splitSecret(groupThreshold, groups.length, encrypted, randomBytes);
+
+  encrypted.fill(0);
+
+  return groupValues.map(function (groupValue: Uint8Array, groupIndex: number): string[] {
+    const memberValues = splitSecret(
+      groups[groupIndex][0],
+      groups[groupIndex][1],
+      groupValue,
+      randomBytes
+    );
+
+    groupValue.fill(0);
+
+    return memberValues.map(function (value: Uint8Array, memberIndex: number): string {
+      const mnemonic = encodeShare({
+        identifier,
+        extendable,
+        iterationExponent,
+        groupIndex,
+        groupThreshold,
+        groupCount: groups.length,
+        memberIndex,
+        memberThreshold: groups[groupIndex][0],
+        value,
+      });
+
+      value.fill(0);
+      return mnemonic;
+    });
+  });
+}
+
+/**
+ * Recover the master secret from SLIP-0039 mnemonic shares.
+ *
+ * The mnemonics may be given in any order. Groups with fewer mnemonics than
+ * their member threshold are ignored, as long as enough other groups are complete.
+ *
+ * @param mnemonics - Mnemonics of one split
+ * @param passphrase - The passphrase the master secret was encrypted with
+ * @returns The master secret
+ * @throws {InvalidShareError} If a mnemonic is malformed
+ * @throws {MismatchedSharesError} If the mnemonics come from different splits or do not fit together
+ * @throws {InsufficientSharesError} If fewer than the group threshold of groups are complete
+ */
+export function combineMnemonics(mnemonics: readonly string[], passphrase: string): Uint8Array {
+  const groups: { [groupIndex: number]: { threshold: number; x: number[]; ys: Uint8Array[] } } = {};
+  const groupIndices: number[] = [];
+  let first: Slip39Share | undefined;
+
+  validatePassphrase(passphrase);
+
+  for (let i = 0; i < mnemonics.length; i++) {
+    const share = parseMnemonic(mnemonics[i]);
+
+    if (first === undefined) {
+      first = share;
+    } else if (
+      share.identifier !== first.identifier ||
+      share.extendable !== first.extendable ||
+      share.iterationExponent !== first.iterationExponent ||
+      share.groupThreshold !== first.groupThreshold ||
+      share.groupCount !== first.groupCount
+    ) {
+      throw new MismatchedSharesError(
+        "All mnemonics must begin with the same words and have the same group threshold and count."
+      );
+    } else if (share.value.length !== first.value.length) {
+      throw new MismatchedSharesError("All mnemonics must have the same length.");
+    }
+
+    let group = groups[share.groupIndex];
+    if (group === undefined) {
+      group = groups[share.groupIndex] = { threshold: share.memberThreshold, x: [], ys: [] };
+      groupIndices.push(share.groupIndex);
+    } else if (group.threshold !== share.memberThreshold) {
+      throw new MismatchedSharesError(
+        "All mnemonics in a group must have the same member threshold."
+      );
+    }
+
+    const existing = group.x.indexOf(share.memberIndex);
+    if (existing === -1) {
+      group.x.push(share.memberIndex);
+      group.ys.push(share.value);
+    } else if (group.ys[existing].join() !== share.value.join()) {
+      throw new MismatchedSharesError("Different mnemonics with the same member index.");
+    }
+  }
+
+  if (first === undefined) {
+    throw new InsufficientSharesError(1, 0);
+  }
+
+  const x: number[] = [];
+  const ys: Uint8Array[] = [];
+
+  for (let i = 0; i < groupIndices.length && x.length < first.groupThreshold; i++) {
+    const group = groups[groupIndices[i]];
+    if (group.x.length >= group.threshold) {
+      x.push(groupIndices[i]);
+      ys.push(
+        recoverSecret(
+          group.threshold,
+          group.x.slice(0, group.threshold),
+          group.ys.slice(0, group.threshold)
+        )
+      );
+    }
+  }
+
+  if (x.length < first.groupThreshold) {
+    throw new InsufficientSharesError(
+      first.groupThreshold,
+      x.length,
+      "Too few groups have reached their member threshold."
+    );
+  }
+
+  const encrypted = recoverSecret(first.groupThreshold, x, ys);
+  const masterSecret = feistel(
+    encrypted,
+    passphrase,
+    first.iterationExponent,
+    first.identifier,
+    first.extendable,
+    true
+  );
+
+  encrypted.fill(0);
+  for (let i = 0; i < ys.length; i++) {
+    ys[i].fill(0);
+  }
+
+  return masterSecret;
+}
@@ -0,0 +1,342 @@
+// Share streams for @digitaldefiance/secrets
+// The framing of streamed shares, and adapters that read and write Node.js and WHATWG streams
+// one chunk at a time, so that a split or combine never holds more than a few chunks
+
+import { crc32Bytes } from "./checksum";
+import { InvalidShareError } from "./errors";
+import { readUint32, writeUint32 } from "./words";
+import type { ByteSink, ByteSource, NodeReadableLike, NodeWritableLike } from "./types";
+
+// "SS" and the version of the stream format
+const MAGIC = [0x53, 0x53, 0x01];
+
+/**
+ * Size of the header at the start of every share stream in bytes
+ */
+export const STREAM_HEADER_LENGTH = 24;
+
+// Sequence number, length and CRC-32 around the data of a frame
+const FRAME_OVERHEAD = 12;
+
+// Share data is at most this much longer than its chunk, for the padding and marker
+const MAX_SHARE_OVERHEAD = 256;
+
+/**
+ * The header of a share stream
+ *
+ * @property bits - Field size of the shares
+ * @property id - Share id of the stream
+ * @property threshold - Number of streams needed to combine
+ * @property setId - Random id shared by the streams of one split
+ * @property chunkSize - Largest number of secret bytes in one frame
+ */
+export interface StreamHeader {
+  readonly bits: number;
+  readonly id: number;
+  readonly threshold: number;
+  readonly setId: number;
+  readonly chunkSize: number;
+}
+
+/**
+ * A frame of a share stream, the share data of one chunk
+ *
+ * @property seq - Position of the chunk, from 0
+ * @property data - Share data; empty in the frame that ends the stream
+ */
+export interface StreamFrame {
+  readonly seq: number;
+  readonly data: Uint8Array;
+}
+
+/**
+ * Encode the header of a share stream, checksummed with CRC-32.
+ *
+ * @param header - The stream's header
+ * @returns STREAM_HEADER_LENGTH bytes
+ */
+export function encodeStreamHeader(header: StreamHeader): Uint8Array {
+  const bytes = new Uint8Array(STREAM_HEADER_LENGTH);
+
+  bytes.set(MAGIC);
+  bytes[3] = header.bits;
+  writeUint32(bytes, 4, header.id);
+  writeUint32(bytes, 8, header.threshold);
+  writeUint32(bytes, 12, header.setId);
+  writeUint32(bytes, 16, header.chunkSize);
+  writeUint32(bytes, 20, crc32Bytes(bytes.subarray(0, 20)));
+
+  return bytes;
+}
+
+/**
+ * Encode a frame of a share stream, checksummed with CRC-32.
+ *
+ * @param seq - Position of the chunk, from 0
+ * @param data - Share data of the chunk, or nothing to end the stream
+ * @returns The frame
+ */
+export function encodeFrame(seq: number, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(data.length + FRAME_OVERHEAD);
+
+  writeUint32(bytes, 0, seq);
+  writeUint32(bytes, 4, data.length);
+  bytes.set(data, 8);
+  writeUint32(bytes, data.length + 8, crc32Bytes(bytes.subarray(0, data.length + 8)));
+
+  return bytes;
+}
+
+/**
+ * Join byte arrays.
+ *
+ * @param parts - Byte arrays, in order
+ * @returns Their concatenation
+ */
+export function concatBytes(parts: readonly Uint8Array[]): Uint8Array {
+  let length = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    length += parts[i].length;
+  }
+
+  const bytes = new Uint8Array(length);
+
+  for (let i = 0, offset = 0; i < parts.length; offset += parts[i].length, i++) {
+    bytes.set(parts[i], offset);
+  }
+
+  return bytes;
+}
+
+/**
+ * Parses the header and frames of one share stream as its bytes arrive
+ */
+export interface FrameParser {
+  /** Add the next bytes of the stream */
+  push(bytes: Uint8Array): void;
+  /** The header, or null until all of it has arrived */
+  header(): StreamHeader | null;
+  /** The next frame, or null until all of it has arrived */
+  frame(): StreamFrame | null;
+  /** Drop the frame returned by frame() */
+  shift(): void;
+}
+
+/**
+ * Create a parser for a share stream. Headers and frames are checked
+ * against their CRC-32 as they are parsed.
+ *
+ * @param label - Names the stream in errors
+ * @returns A parser that buffers at most one frame and the bytes pushed after it
+ */
+export function createFrameParser(label: string): FrameParser {
+  let buffer: Uint8Array = new Uint8Array(0);
+  let parsedHeader: StreamHeader | null = null;
+  let parsedFrame: StreamFrame | null = null;
+  let frameLength = 0;
+
+  function push(bytes: Uint8Array): void {
+    buffer = buffer.length === 0 ? bytes : concatBytes([buffer, bytes]);
+  }
+
+  function header(): StreamHeader | null {
+    if (parsedHeader || buffer.length < STREAM_HEADER_LENGTH) {
+      return parsedHeader;
+    }
+
+    if (
+      buffer[0] !== MAGIC[0] ||
+      buffer[1] !== MAGIC[1] ||
+      buffer[2] !== MAGIC[2] ||
+      readUint32(buffer, 20) !== crc32Bytes(buffer.subarray(0, 20))
+    ) {
+      throw new InvalidShareError(label, "There is no share stream header in " + label + ".");
+    }
+
+    parsedHeader = Object.freeze({
+      bits: buffer[3],
+      id: readUint32(buffer, 4),
+      threshold: readUint32(buffer, 8),
+      setId: readUint32(buffer, 12),
+      chunkSize: readUint32(buffer, 16),
+    });
+    buffer = buffer.subarray(STREAM_HEADER_LENGTH);
+
+    return parsedHeader;
+  }
+
+  function frame(): StreamFrame | null {
+    if (parsedFrame || !header() || buffer.length < 8) {
+      return parsedFrame;
+    }
+
+    const seq = readUint32(buffer, 0);
+    const length = readUint32(buffer, 4);
+
+    // A corrupt length must not make the parser wait for gigabytes
+    if (length > (parsedHeader as StreamHeader).chunkSize + MAX_SHARE_OVERHEAD) {
+      throw new InvalidShareError(label, "Chunk " + seq + " of " + label + " has a bad length.");
+    }
+    if (buffer.length < length + FRAME_OVERHEAD) {
+      return null;
+    }
+    if (readUint32(buffer, length + 8) !== crc32Bytes(buffer.subarray(0, length + 8))) {
+      throw new InvalidShareError(label, "Chunk " + seq + " of " + label + " fails its checksum.");
+    }
+
+    parsedFrame = Object.freeze({ seq, data: buffer.subarray(8, length + 8) });
+    frameLength = length + FRAME_OVERHEAD;
+
+    return parsedFrame;
+  }
+
+  function shift(): void {
+    if (parsedFrame) {
+      buffer = buffer.subarray(frameLength);
+      parsedFrame = null;
+    }
+  }
+
+  return Object.freeze({ push, header, frame, shift });
+}
+
+/**
+ * Read a Node.js Readable or a WHATWG ReadableStream one chunk at a time.
+ * A Node.js stream is paused after every chunk, until the next is asked for.
+ *
+ * @param input - The stream to read
+ * @returns A function resolving to the next chunk, or null at the end of the stream
+ */
+export function createChunkReader(input: ByteSource): () => Promise<Uint8Array | null> {
+  if (input && typeof (input as ReadableStream<Uint8Array>).getReader === "function") {
+    const reader = (input as ReadableStream<Uint8Array>).getReader();
+
+    return function (): Promise<Uint8Array | null> {
+      return reader.read().then(function (result): Uint8Array | null {
+        return result.done ? null : checkChunk(result.value);
+      });
+    };
+  }
+
+  const readable = input as NodeReadableLike;
+
+  if (!readable || typeof readable.on !== "function" || typeof readable.pause !== "function") {
+    throw new Error("Inputs must be Node.js Readables or ReadableStreams.");
+  }
+
+  const queue: Uint8Array[] = [];
+  let ended = false;
+  let failure: Error | null = null;
+  let waiting: (() => void) | null = null;
+
+  function wake(): void {
+    const resolve = waiting;
+
+    waiting = null;
+    if (resolve) {
+      resolve();
+    }
+  }
+
+  readable.on("data", function (chunk: Uint8Array): void {
+    queue.push(chunk);
+    readable.pause();
+    wake();
+  });
+  readable.on("end", function (): void {
+    ended = true;
+    wake();
+  });
+  readable.on("error", function (error: Error): void {
+    failure = error;
+    wake();
+  });
+  readable.pause();
+
+  return function next(): Promise<Uint8Array | null> {
+    if (queue.length > 0) {
+      return Promise.resolve(checkChunk(queue.shift() as Uint8Array));
+    }
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    if (ended) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise<void>(function (resolve: () => void): void {
+      waiting = resolve;
+      readable.resume();
+    }).then(next);
+  };
+}
+
+function checkChunk(chunk: unknown): Uint8Array {
+  if (!(chunk instanceof Uint8Array)) {
+    throw new Error("Streams must carry Uint8Array or Buffer chunks.");
+  }
+
+  return chunk;
+}
+
+/**
+ * Writes chunks to a stream, one at a time
+ */
+export interface ChunkWriter {
+  /** Write a chunk, resolving once the stream has taken it */
+  write(chunk: Uint8Array): Promise<void>;
+  /** End the stream */
+  close(): Promise<void>;
+}
+
+/**
+ * Write to a Node.js Writable or a WHATWG WritableStream. Each write
+ * resolves once the stream has handled the chunk, which keeps a slow output
+ * from buffering the whole split.
+ *
+ * @param output - The stream to write
+ * @returns A writer for the stream
+ */
+export function createChunkWriter(output: ByteSink): ChunkWriter {
+  if (output && typeof (output as WritableStream<Uint8Array>).getWriter === "function") {
+    const writer = (output as WritableStream<Uint8Array>).getWriter();
+
+    return Object.freeze({
+      write: function (chunk: Uint8Array): Promise<void> {
+        return writer.write(chunk);
+      },
+      close: function (): Promise<void> {
+        return writer.close();
+      },
+    });
+  }
+
+  const writable = output as NodeWritableLike;
+
+  if (!writable || typeof writable.write !== "function" || typeof writable.end !== "function") {
+    throw new Error("Outputs must be Node.js Writables or WritableStreams.");
+  }
+
+  return Object.freeze({
+    write: function (chunk: Uint8Array): Promise<void> {
+      return new Promise<void>(function (
+        resolve: () => void,
+        reject: (error: Error) => void
+      ): void {
+        writable.write(chunk, function (error?: Error | null): void {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      });
+    },
+    close: function (): Promise<void> {
+      return new Promise<void>(function (resolve: () => void): void {
+        writable.end(resolve);
+      });
+    },
+  });
+}
@@ -0,0 +1,51 @@
+// Message transport for @digitaldefiance/secrets
+// Delivers the messages of share holder protocols, such as a proactive refresh, within one process
+
+import type { ShareMessage, ShareTransport } from "./types";
+
+/**
+ * Create a transport that keeps messages in memory until their recipient
+ * takes them. Useful for tests and for holders that run in one process.
+ *
+ * @returns A transport whose receive() returns each message once, in the order sent
+ */
+export function createMemoryTransport(): ShareTransport {
+  const mailboxes: { [key: string]: ShareMessage[] } = {};
+
+  function mailbox(round: string, to: number): string {
+    return to + ":" + round;
+  }
+
+  function send(message: ShareMessage): void {
+    if (
+      !message ||
+      typeof message.round !== "string" ||
+      typeof message.from !== "number" ||
+      typeof message.to !== "number" ||
+      typeof message.data !== "string"
+    ) {
+      throw new Error("A message must have a round, from, to and data.");
+    }
+
+    const key = mailbox(message.round, message.to);
+
+    (mailboxes[key] = mailboxes[key] || []).push(
+      Object.freeze({
+        round: message.round,
+        from: message.from,
+        to: message.to,
+        data: message.data,
+      })
+    );
+  }
+
+  function receive(round: string, to: number): ShareMessage[] {
+    const key = mailbox(round, to);
+    const messages = mailboxes[key] || [];
+
+    delete mailboxes[key];
+    return messages;
+  }
+
+  return Object.freeze({ send, receive });
+}
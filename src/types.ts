@@ -36,7 +36,7 @@
  * @property bits - Number of bits in the Galois Field (determines max shares = 2^bits - 1)
  * @property maxShares - Maximum number of shares that can be generated (2^bits - 1)
  * @property hasCSPRNG - Whether a cryptographically secure RNG is configured
- * @property typeCSPRNG - The type of CSPRNG currently in use
+ * @property typeCSPRNG - The type of CSPRNG currently in use, undefined for a custom RNG function
  */
 export interface SecretsConfig {
   readonly radix: number;
@@ -55,11 +55,589 @@ export interface SecretsConfig {
  * @property bits - Number of bits used in the Galois Field for this share
  * @property id - Unique identifier for this share (1 to 2^bits - 1)
  * @property data - The actual share data as a hexadecimal string
+ * @property checksum - The share's CRC-32 checksum, if the share carries one
+ * @property version - Share format version, if the share carries a header
+ * @property threshold - Number of shares needed to recover the secret, if the share carries a header
+ * @property setId - Random identifier shared by all shares of one split, if the share carries a header
+ * @property encoding - The share string's encoding, if it is not hex
  */
 export interface ShareComponents {
   readonly bits: number;
   readonly id: number;
   readonly data: string;
+  readonly checksum?: string;
+  readonly version?: number;
+  readonly threshold?: number;
+  readonly setId?: string;
+  readonly encoding?: ShareEncoding;
+}
+
+/**
+ * A share whose payload is held as raw bytes
+ *
+ * Returned by shareBytes() and accepted by combineBytes(). The payload holds
+ * the same field words as the hex data of a string share, so key material
+ * never has to pass through an immutable JavaScript string.
+ *
+ * @property bits - Number of bits used in the Galois Field for this share
+ * @property id - Unique identifier for this share (1 to 2^bits - 1)
+ * @property data - The share data as big-endian bytes
+ */
+export interface ByteShare {
+  readonly bits: number;
+  readonly id: number;
+  readonly data: Uint8Array;
+}
+
+/**
+ * Result of shareLarge()
+ *
+ * @property ciphertext - The AES-256-GCM nonce, encrypted data and tag, stored by every custodian
+ * @property shares - Shares of the 32 byte encryption key, one per custodian
+ */
+export interface LargeShares {
+  readonly ciphertext: Uint8Array;
+  readonly shares: string[];
+}
+
+/**
+ * A fragment from shareDispersed()
+ *
+ * @property id - Fragment id, from 1
+ * @property setId - Random id shared by the fragments of one split
+ * @property threshold - Number of fragments needed to recover the data
+ * @property length - Length of the encrypted data in bytes, before dispersal
+ * @property share - This fragment's share of the encryption key
+ * @property data - This fragment's part of the encrypted data, length / threshold bytes rounded up
+ */
+export interface DispersedFragment {
+  readonly id: number;
+  readonly setId: number;
+  readonly threshold: number;
+  readonly length: number;
+  readonly share: string;
+  readonly data: Uint8Array;
+}
+
+/**
+ * The parts of a Node.js Readable that streamed splits and combines use
+ */
+export interface NodeReadableLike {
+  on(event: "data", listener: (chunk: Uint8Array) => void): unknown;
+  on(event: "end", listener: () => void): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+  pause(): unknown;
+  resume(): unknown;
+}
+
+/**
+ * The parts of a Node.js Writable that streamed splits and combines use
+ */
+export interface NodeWritableLike {
+  write(chunk: Uint8Array, callback: (error?: Error | null) => void): unknown;
+  end(callback: () => void): unknown;
+}
+
+/**
+ * A stream of bytes to read: a Node.js Readable or a WHATWG ReadableStream
+ */
+export type ByteSource = ReadableStream<Uint8Array> | NodeReadableLike;
+
+/**
+ * A stream of bytes to write: a Node.js Writable or a WHATWG WritableStream
+ */
+export type ByteSink = WritableStream<Uint8Array> | NodeWritableLike;
+
+/**
+ * Options for createSplitStream()
+ *
+ * @property chunkSize - Number of secret bytes split at a time, and so the most a split or
+ *                       combine holds of each stream (default: 65536)
+ */
+export interface StreamOptions {
+  readonly chunkSize?: number;
+}
+
+/**
+ * Splits a secret as it streams in, returned by createSplitStream()
+ */
+export interface SplitStream {
+  /** Split the next bytes of the secret, returning the bytes to add to each share stream */
+  write(chunk: Uint8Array): Uint8Array[];
+  /** Split the last bytes and end the share streams, returning their final bytes */
+  end(): Uint8Array[];
+  /** Split a whole stream into one output stream per share, reading only as fast as they write */
+  pipe(input: ByteSource, outputs: readonly ByteSink[]): Promise<void>;
+}
+
+/**
+ * Combines share streams as they stream in, returned by createCombineStream()
+ */
+export interface CombineStream {
+  /** Add the next bytes of the share stream at an index, returning the secret bytes recovered */
+  write(index: number, bytes: Uint8Array): Uint8Array;
+  /** Check that the share streams have ended together */
+  end(): void;
+  /** Combine a threshold of share streams into an output stream, one chunk at a time */
+  pipe(inputs: readonly ByteSource[], output: ByteSink): Promise<void>;
+}
+
+/**
+ * Progress of shareAsync() or combineAsync(), reported after each chunk
+ *
+ * @property processedChunks - Number of chunks of 4096 words processed so far
+ * @property totalChunks - Number of chunks in the split or combine
+ * @property progress - processedChunks / totalChunks, from 0 to 1
+ */
+export interface AsyncProgress {
+  readonly processedChunks: number;
+  readonly totalChunks: number;
+  readonly progress: number;
+}
+
+/**
+ * Options for shareAsync() and combineAsync()
+ *
+ * @property padLength - Pad length of the split, as for share() (shareAsync() only)
+ * @property onProgress - Called after each chunk
+ * @property signal - Aborts the split or combine, rejecting it with the signal's reason
+ * @property worker - Whether to use a Web Worker or worker_threads Worker when one can be
+ *                    started (default: true); otherwise chunks run between turns of the event loop
+ * @property passphrase - The passphrase of the shares from protectShare(), or a resolver returning
+ *                        the passphrase of each (combineAsync() only)
+ */
+export interface AsyncOptions {
+  readonly padLength?: number;
+  readonly passphrase?: string | PassphraseResolver;
+  readonly onProgress?: (progress: AsyncProgress) => void;
+  readonly signal?: AbortSignal;
+  readonly worker?: boolean;
+}
+
+/**
+ * Key derivation functions of protected shares
+ *
+ * - `scrypt`: scrypt with N = 2^17, r = 8 and p = 1, from the crypto module of Node.js
+ * - `pbkdf2`: PBKDF2-HMAC-SHA256 with 600000 iterations, available everywhere
+ */
+export type PassphraseKdf = "scrypt" | "pbkdf2";
+
+/**
+ * The cleartext part of a protected share, authenticated but not encrypted
+ *
+ * @property kdf - The key derivation function of the passphrase
+ * @property bits - Field size of the protected share
+ * @property id - Id of the protected share
+ */
+export interface ProtectedShareInfo {
+  readonly kdf: PassphraseKdf;
+  readonly bits: number;
+  readonly id: number;
+}
+
+/**
+ * Options for protectShare()
+ *
+ * @property kdf - The key derivation function (default: scrypt in Node.js, pbkdf2 elsewhere)
+ */
+export interface ProtectOptions {
+  readonly kdf?: PassphraseKdf;
+}
+
+/**
+ * Returns the passphrase of a protected share given to combine()
+ */
+export type PassphraseResolver = (share: ProtectedShareInfo) => string;
+
+/**
+ * Options for combine()
+ *
+ * @property passphrase - The passphrase of every protected share, or a resolver returning the
+ *                        passphrase of each
+ */
+export interface CombineOptions {
+  readonly passphrase?: string | PassphraseResolver;
+}
+
+/**
+ * Result of combineRobust()
+ *
+ * @property secret - The recovered secret as a hexadecimal string
+ * @property badIds - Ids of the shares found to be inconsistent with the secret, in ascending order
+ */
+export interface RobustCombineResult {
+  readonly secret: HexString;
+  readonly badIds: number[];
+}
+
+/**
+ * Shares and public commitments produced by shareVerifiable()
+ *
+ * The shares are public share strings whose data holds one fixed-width
+ * element of Z_q per secret chunk. The commitments are published to every
+ * custodian so each can run verifyShare() on their own share.
+ *
+ * @property shares - Share strings, one per custodian
+ * @property commitments - Hex commitments g^a_k mod p, indexed [chunk][coefficient]
+ */
+export interface VerifiableShares {
+  readonly shares: string[];
+  readonly commitments: string[][];
+}
+
+/**
+ * A custodian of a weighted split, for shareWeighted()
+ *
+ * @property name - Distinct name of the custodian
+ * @property weight - Number of votes the custodian carries, a positive integer
+ */
+export interface Custodian {
+  readonly name: string;
+  readonly weight: number;
+}
+
+/**
+ * The shares of one custodian, returned by shareWeighted()
+ *
+ * @property name - Name of the custodian
+ * @property weight - Number of votes the custodian carries
+ * @property threshold - Total weight needed to recover the secret
+ * @property shares - One share string per vote, with consecutive ids
+ */
+export interface WeightedBundle {
+  readonly name: string;
+  readonly weight: number;
+  readonly threshold: number;
+  readonly shares: string[];
+}
+
+/**
+ * A level of a hierarchical split, for shareHierarchical(), from the most senior level down
+ *
+ * @property name - Distinct name of the level, used in error messages
+ * @property shares - Number of shares dealt at this level, a positive integer
+ * @property threshold - Number of shares needed from this level and the levels above it, together.
+ *                       Thresholds increase from level to level, and the last one is the number
+ *                       of shares needed in all.
+ */
+export interface HierarchyLevel {
+  readonly name: string;
+  readonly shares: number;
+  readonly threshold: number;
+}
+
+/**
+ * A principal of an access policy, a leaf of the clause tree from parsePolicy()
+ *
+ * @property name - Name of the principal
+ */
+export interface PolicyPrincipal {
+  readonly name: string;
+}
+
+/**
+ * A clause of an access policy, met when at least threshold of its members are met.
+ * AND is a clause of n of n members, OR a clause of 1 of n members.
+ *
+ * @property threshold - Number of members that must be met, between 1 and the number of members
+ * @property members - Principals and nested clauses
+ */
+export interface PolicyGate {
+  readonly threshold: number;
+  readonly members: readonly PolicyNode[];
+}
+
+/**
+ * A node of the clause tree of an access policy
+ */
+export type PolicyNode = PolicyPrincipal | PolicyGate;
+
+/**
+ * The parts of one principal, returned by shareWithPolicy()
+ *
+ * @property name - Name of the principal
+ * @property policy - The policy of the split, as formatted by the library
+ * @property setId - Random identifier of the split, the same in every bundle
+ * @property bits - Field size of the Shamir splits in the policy
+ * @property parts - One hexadecimal part per appearance of the principal in the policy, in order
+ */
+export interface PolicyBundle {
+  readonly name: string;
+  readonly policy: string;
+  readonly setId: string;
+  readonly bits: number;
+  readonly parts: string[];
+}
+
+/**
+ * Whether one clause of a policy is met by the bundles given to combineWithPolicy()
+ *
+ * @property clause - The clause, as formatted by the library
+ * @property satisfied - Whether enough of its members are met
+ * @property missing - Principals of its unmet members whose bundles are missing, empty once satisfied
+ */
+export interface PolicyClause {
+  readonly clause: string;
+  readonly satisfied: boolean;
+  readonly missing: string[];
+}
+
+/**
+ * Result of combineWithPolicy()
+ *
+ * @property satisfied - Whether the policy is met
+ * @property secret - The recovered secret as a hexadecimal string, if the policy is met
+ * @property clauses - Every clause of the policy, outermost first
+ * @property missing - Principals whose bundles could help meet the policy, empty once satisfied
+ */
+export interface PolicyResult {
+  readonly satisfied: boolean;
+  readonly secret?: HexString;
+  readonly clauses: PolicyClause[];
+  readonly missing: string[];
+}
+
+/**
+ * Options for shareSlip39()
+ *
+ * @property passphrase - Printable ASCII passphrase the master secret is encrypted with (default "")
+ * @property iterationExponent - PBKDF2 work factor, 10000 * 2^e iterations in total (0 to 15, default 1)
+ * @property extendable - Whether the identifier is left out of the encryption salt, so that
+ *                        further splits of the same secret can reuse it (default true)
+ */
+export interface Slip39Options {
+  readonly passphrase?: string;
+  readonly iterationExponent?: number;
+  readonly extendable?: boolean;
+}
+
+/**
+ * QR code error correction levels, recovering roughly 7% (L), 15% (M), 25% (Q) or 30% (H)
+ * of damaged codewords
+ */
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+/**
+ * QR code encoding modes
+ *
+ * - `alphanumeric`: 5.5 bits per character, for digits, uppercase letters and " $%*+-./:"
+ * - `byte`: 8 bits per character, for any ASCII text
+ */
+export type QrMode = "alphanumeric" | "byte";
+
+/**
+ * Options for shareToQr() and shareToQrSvg()
+ *
+ * @property errorCorrection - Error correction level (default "M")
+ * @property mode - Encoding mode (default: alphanumeric when the share's encoding is
+ *                  case-insensitive, byte otherwise)
+ * @property scale - SVG only: size of one module in pixels (default 4)
+ * @property margin - SVG only: width of the quiet zone in modules (default 4)
+ */
+export interface QrOptions {
+  readonly errorCorrection?: QrErrorCorrection;
+  readonly mode?: QrMode;
+  readonly scale?: number;
+  readonly margin?: number;
+}
+
+/**
+ * A QR code symbol returned by shareToQr()
+ *
+ * @property version - Symbol version, from 1 (21 x 21 modules) to 40 (177 x 177)
+ * @property errorCorrection - Error correction level
+ * @property mode - Encoding mode of the payload
+ * @property mask - The data mask pattern applied, from 0 to 7
+ * @property text - The encoded payload, which qrToShare() turns back into the share
+ * @property modules - Module colors indexed [row][column], true for dark, without a quiet zone
+ */
+export interface QrCode {
+  readonly version: number;
+  readonly errorCorrection: QrErrorCorrection;
+  readonly mode: QrMode;
+  readonly mask: number;
+  readonly text: string;
+  readonly modules: boolean[][];
+}
+
+/**
+ * Options for shareToUr()
+ *
+ * @property maxFragmentLength - Longest fragment of the message in one part, in bytes (at least
+ *                               10, default 100). Shorter fragments make smaller QR codes but
+ *                               more of them.
+ */
+export interface UrOptions {
+  readonly maxFragmentLength?: number;
+}
+
+/**
+ * Progress of a UR decoder
+ *
+ * @property complete - Whether every fragment has been recovered
+ * @property receivedParts - Number of parts accepted so far, duplicates included
+ * @property recoveredFragments - Number of message fragments recovered
+ * @property fragmentCount - Number of fragments the message was split into, 0 before the first part
+ * @property progress - recoveredFragments / fragmentCount, from 0 to 1
+ */
+export interface UrProgress {
+  readonly complete: boolean;
+  readonly receivedParts: number;
+  readonly recoveredFragments: number;
+  readonly fragmentCount: number;
+  readonly progress: number;
+}
+
+/**
+ * A fountain encoder of shares as Uniform Resource parts, returned by shareToUr()
+ *
+ * @property type - The UR type, "secrets-share" or "secrets-share-bundle"
+ * @property fragmentCount - Number of fragments; 1 when a single part holds everything
+ */
+export interface UrEncoder {
+  readonly type: string;
+  readonly fragmentCount: number;
+  /** Get the next part; a multi-part encoder never runs out of parts */
+  nextPart(): string;
+}
+
+/**
+ * A decoder of Uniform Resource parts from shareToUr(), returned by createUrDecoder()
+ */
+export interface UrDecoder {
+  /** Add a part, in any order and in either case; repeated parts are ignored */
+  receivePart(part: string): UrProgress;
+  /** Report how much of the message has been recovered */
+  progress(): UrProgress;
+  /** Get the hex share strings once the decoder is complete */
+  getShares(): string[];
+}
+
+/**
+ * A message between share holders in a protocol run
+ *
+ * @property round - Identifier of the protocol run, so messages of different runs never mix
+ * @property from - Share id of the sender
+ * @property to - Share id of the recipient
+ * @property data - The payload, such as a sub-share
+ */
+export interface ShareMessage {
+  readonly round: string;
+  readonly from: number;
+  readonly to: number;
+  readonly data: HexString;
+}
+
+/**
+ * Carries messages between share holders, such as the in-memory transport of
+ * createMemoryTransport() or a network connection
+ */
+export interface ShareTransport {
+  /** Deliver a message to its recipient */
+  send(message: ShareMessage): void;
+  /** Take the messages of a round waiting for a recipient */
+  receive(round: string, to: number): ShareMessage[];
+}
+
+/**
+ * Options for createRefreshHolder()
+ *
+ * @property round - Identifier of the refresh, the same for every holder (default: the share set
+ *                   id, or "refresh" for shares without a header)
+ * @property threshold - Threshold of the shares; required for shares without a header
+ */
+export interface RefreshOptions {
+  readonly round?: string;
+  readonly threshold?: number;
+}
+
+/**
+ * One holder's side of a proactive refresh, returned by createRefreshHolder()
+ *
+ * @property id - The share id of this holder
+ * @property round - Identifier of the refresh
+ */
+export interface RefreshHolder {
+  readonly id: number;
+  readonly round: string;
+  /** Send sub-shares of a random polynomial with a zero secret to the other holders */
+  deal(transport: ShareTransport): void;
+  /** Add the received sub-shares to this holder's share and return the refreshed share */
+  refresh(transport: ShareTransport): string;
+}
+
+/**
+ * Options for reshare() and createReshareDealer()
+ *
+ * @property round - Identifier of the reshare, the same for every dealer and new holder
+ *                   (default: the share set id, or "reshare" for shares without a header)
+ */
+export interface ReshareOptions {
+  readonly round?: string;
+}
+
+/**
+ * An old holder's side of a reshare, returned by createReshareDealer()
+ *
+ * @property id - The share id of this dealer
+ * @property round - Identifier of the reshare
+ */
+export interface ReshareDealer {
+  readonly id: number;
+  readonly round: string;
+  /** Send every new holder a sub-share of this dealer's share */
+  deal(transport: ShareTransport): void;
+}
+
+/**
+ * A new holder's side of a reshare, returned by createReshareHolder()
+ *
+ * @property id - The share id of the new share
+ * @property round - Identifier of the reshare
+ */
+export interface ReshareHolder {
+  readonly id: number;
+  readonly round: string;
+  /** Combine the sub-shares from every dealer into the new share */
+  combine(transport: ShareTransport): string;
+}
+
+/**
+ * Options for createRepairHelper()
+ *
+ * @property round - Identifier of the repair, the same for every helper and the recipient
+ *                   (default: the share set id, or "repair" for shares without a header)
+ */
+export interface RepairOptions {
+  readonly round?: string;
+}
+
+/**
+ * A helper's side of a share repair, returned by createRepairHelper()
+ *
+ * @property id - The share id of this helper
+ * @property round - Identifier of the repair
+ */
+export interface RepairHelper {
+  readonly id: number;
+  readonly round: string;
+  /** Send the other helpers random parts of this helper's term of the lost share */
+  mask(transport: ShareTransport): void;
+  /** Send the recipient the sum of the parts this helper holds */
+  contribute(transport: ShareTransport): void;
+}
+
+/**
+ * The recovering party's side of a share repair, returned by createRepairRecipient()
+ *
+ * @property id - The id of the share being regenerated
+ * @property round - Identifier of the repair
+ */
+export interface RepairRecipient {
+  readonly id: number;
+  readonly round: string;
+  /** Add up the helpers' contributions into the regenerated share */
+  combine(transport: ShareTransport): string;
 }
 
 /**
@@ -75,6 +653,17 @@ export type CSPRNGType =
   | "browserCryptoGetRandomValues" 
   | "testRandom";
 
+/**
+ * Encodings of public share strings
+ *
+ * - `hex`: The original layout, two characters per byte
+ * - `base64url`: RFC 4648 base64url without padding, prefixed with "u"
+ * - `base58`: Base58 with the Bitcoin alphabet, prefixed with "z"
+ * - `base32`: Uppercase RFC 4648 base32 without padding, prefixed with "R"
+ * - `bech32m`: BIP-350 bech32m with the human-readable part "shamir", so prefixed with "shamir1"
+ */
+export type ShareEncoding = "hex" | "base64url" | "base58" | "base32" | "bech32m";
+
 /**
  * Array of share strings
  * 
@@ -118,6 +707,185 @@ export interface Share {
  */
 export type RNGFunction = (bits: number) => string;
 
+/**
+ * Options for creating an independent secrets context with createSecrets()
+ *
+ * @property bits - Number of bits in the Galois Field (3 to 20, default 8)
+ * @property rng - CSPRNG type or custom RNG function (default: best available CSPRNG)
+ * @property padLength - Default zero-pad length used by share() (0 to 1024, default 128)
+ * @property checksum - Append a CRC-32 integrity checksum to every share string (default false)
+ * @property version - Share string format: 0 for the legacy layout, 1 to add a header carrying
+ *                     the threshold and a share-set id (default 0)
+ * @property encoding - Encoding of the share strings the context creates (default "hex")
+ *
+ * @example
+ * ```typescript
+ * const ctx = createSecrets({ bits: 10, rng: 'nodeCryptoRandomBytes', padLength: 256 });
+ * ```
+ */
+export interface SecretsOptions {
+  readonly bits?: number;
+  readonly rng?: CSPRNGType | RNGFunction;
+  readonly padLength?: number;
+  readonly checksum?: boolean;
+  readonly version?: number;
+  readonly encoding?: ShareEncoding;
+}
+
+/**
+ * An immutable secrets context returned by createSecrets()
+ *
+ * Each context owns its field configuration and RNG, so contexts with
+ * different settings can be used side by side without affecting each other
+ * or the default export. Methods do not depend on `this` and may be
+ * destructured freely.
+ */
+export interface SecretsContext {
+  /** Split a hex secret into numShares shares, any threshold of which recover it */
+  share(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    padLength?: number,
+    encoding?: ShareEncoding
+  ): string[];
+  /** Reconstruct the secret (or the share at `at`) from shares; protected shares need a passphrase */
+  combine(shares: Shares | string[], at?: number, options?: CombineOptions): string;
+  /** Reconstruct the secret despite corrupted shares, reporting which shares are inconsistent */
+  combineRobust(shares: Shares | string[], threshold?: number): RobustCombineResult;
+  /** Split a byte array secret into numShares byte shares, any threshold of which recover it */
+  shareBytes(
+    secret: Uint8Array,
+    numShares: number,
+    threshold: number,
+    padLength?: number
+  ): ByteShare[];
+  /** Reconstruct a byte array secret from a set of byte shares */
+  combineBytes(shares: readonly ByteShare[]): Uint8Array;
+  /** Encrypt large data with AES-256-GCM and split only its key */
+  shareLarge(data: Uint8Array, numShares: number, threshold: number): Promise<LargeShares>;
+  /** Decrypt the output of shareLarge() with a threshold of its key shares */
+  combineLarge(keyShares: Shares | string[], ciphertext: Uint8Array): Promise<Uint8Array>;
+  /** Encrypt data and split it into fragments of about 1/threshold of its size */
+  shareDispersed(
+    data: Uint8Array,
+    numShares: number,
+    threshold: number
+  ): Promise<DispersedFragment[]>;
+  /** Recover data from a threshold of the fragments of shareDispersed() */
+  combineDispersed(fragments: readonly DispersedFragment[]): Promise<Uint8Array>;
+  /** Create a split of a streamed secret into numShares share streams */
+  createSplitStream(numShares: number, threshold: number, options?: StreamOptions): SplitStream;
+  /** Create a combine of a threshold of share streams back into the secret */
+  createCombineStream(): CombineStream;
+  /** Split a secret like share(), off the main thread when a worker is available */
+  shareAsync(
+    secret: string,
+    numShares: number,
+    threshold: number,
+    options?: AsyncOptions
+  ): Promise<string[]>;
+  /** Combine shares like combine(), off the main thread when a worker is available */
+  combineAsync(shares: Shares | string[], options?: AsyncOptions): Promise<string>;
+  /** Encrypt a share under a passphrase, keeping its field size and id in the clear */
+  protectShare(share: string, passphrase: string, options?: ProtectOptions): Promise<string>;
+  /** Decrypt a share from protectShare() */
+  unprotectShare(protectedShare: string, passphrase: string): Promise<string>;
+  /** Generate a new share with the given id from a threshold of existing shares */
+  newShare(id: number | string, shares: Shares | string[]): string;
+  /** Split a secret among custodians of different weights */
+  shareWeighted(
+    secret: string,
+    custodians: readonly Custodian[],
+    threshold: number
+  ): WeightedBundle[];
+  /** Recover a secret once the custodians' bundles reach the threshold weight */
+  combineWeighted(bundles: readonly WeightedBundle[]): string;
+  /** Split one share into sub-shares that reassemble to the exact share string */
+  splitShare(share: string, numShares: number, threshold: number): string[];
+  /** Reassemble a share from the sub-shares of splitShare() */
+  combineSubShares(subShares: Shares | string[]): string;
+  /** Split a secret among the levels of a hierarchy, one Array of shares per level */
+  shareHierarchical(secret: string, levels: readonly HierarchyLevel[]): string[][];
+  /** Recover a secret from shares that meet every level threshold of a hierarchy */
+  combineHierarchical(shares: string[], levels: readonly HierarchyLevel[]): HexString;
+  /** Split a secret among the principals of an access policy */
+  shareWithPolicy(secret: string, policy: string): PolicyBundle[];
+  /** Report which clauses of a policy the bundles meet, and recover the secret once it is met */
+  combineWithPolicy(bundles: readonly PolicyBundle[]): PolicyResult;
+  /** Parse a public share string into its components */
+  extractShareComponents(share: string): ShareComponents;
+  /** Generate a random hex string of the given bit length using this context's RNG */
+  random(bits: number): HexString;
+  /** Get this context's configuration */
+  getConfig(): SecretsConfig;
+  /** Split a hex secret into Feldman VSS shares plus public commitments */
+  shareVerifiable(secret: string, numShares: number, threshold: number): VerifiableShares;
+  /** Check a VSS share against the dealer's commitments without learning the secret */
+  verifyShare(share: string, commitments: readonly (readonly string[])[]): boolean;
+  /** Reconstruct the secret from a threshold of VSS shares */
+  combineVerifiable(shares: string[]): HexString;
+  /** Split a hex master secret into SLIP-0039 mnemonics, indexed [group][member] */
+  shareSlip39(
+    secret: string,
+    groupThreshold: number,
+    groups: readonly (readonly [number, number])[],
+    options?: Slip39Options
+  ): string[][];
+  /** Recover the hex master secret from SLIP-0039 mnemonics */
+  combineSlip39(mnemonics: readonly string[], passphrase?: string): HexString;
+  /** Encode a share string as BIP-39 words, ending with a checksum word */
+  shareToWords(share: string): string;
+  /** Decode words from shareToWords() back into the share string */
+  wordsToShare(words: string | readonly string[]): string;
+  /** Encode a share string as a checksummed bech32m string starting with "shamir1" */
+  shareToBech32m(share: string): string;
+  /** Decode a bech32m share back into the hex share string */
+  bech32mToShare(share: string): string;
+  /** Encode a share string as a QR code module matrix */
+  shareToQr(share: string, options?: QrOptions): QrCode;
+  /** Encode a share string as a QR code SVG image */
+  shareToQrSvg(share: string, options?: QrOptions): string;
+  /** Turn the text scanned from a share's QR code back into the share string */
+  qrToShare(payload: string): string;
+  /** Encode a share string or bundle of shares as multi-part Uniform Resources */
+  shareToUr(shares: string | readonly string[], options?: UrOptions): UrEncoder;
+  /** Create a decoder of the parts from shareToUr() */
+  createUrDecoder(): UrDecoder;
+  /** Take part in a proactive refresh of a share, with the holders of the other shares */
+  createRefreshHolder(
+    share: string,
+    holders: readonly number[],
+    options?: RefreshOptions
+  ): RefreshHolder;
+  /** Take part in a reshare as one of the old holders */
+  createReshareDealer(
+    share: string,
+    dealers: readonly number[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): ReshareDealer;
+  /** Take part in a reshare as the new holder of share id */
+  createReshareHolder(id: number, dealers: readonly number[], round: string): ReshareHolder;
+  /** Reshare shares to a new number of shares and threshold, without reconstructing the secret */
+  reshare(
+    shares: Shares | string[],
+    numShares: number,
+    threshold: number,
+    options?: ReshareOptions
+  ): string[];
+  /** Help regenerate the lost share at id, without revealing the secret */
+  createRepairHelper(
+    share: string,
+    helpers: readonly number[],
+    id: number,
+    options?: RepairOptions
+  ): RepairHelper;
+  /** Regenerate the lost share at id from the contributions of repair helpers */
+  createRepairRecipient(id: number, helpers: readonly number[], round: string): RepairRecipient;
+}
+
 // ============================================================================
 // Environment-Specific Types
 // ============================================================================
@@ -178,22 +946,81 @@ export type CryptoEnvironment =
 // ============================================================================
 
 /**
- * Internal configuration state (mutable during initialization)
+ * Internal configuration state of a secrets context
  * 
  * Contains the runtime configuration including Galois Field arithmetic tables.
  * This is internal state and should not be accessed directly by library users.
  * 
  * @internal
  */
-export interface InternalConfig {
-  radix: number;
-  bits: number;
-  size: number;
-  maxShares: number;
-  logs: readonly number[];
-  exps: readonly number[];
-  rng: RNGFunction;
-  typeCSPRNG: CSPRNGType;
+export interface InternalConfig extends GaloisField {
+  readonly radix: number;
+  readonly padLength: number;
+  readonly rng: RNGFunction;
+  readonly typeCSPRNG?: CSPRNGType;
+  readonly checksum?: boolean;
+  readonly version?: number;
+  readonly encoding?: ShareEncoding;
+}
+
+/**
+ * Core of a secrets context
+ *
+ * Parses, splits and combines share strings with the context's configuration.
+ * The other operations of a context are built on it, one module per protocol.
+ *
+ * @internal
+ */
+export interface ContextCore extends Pick<
+  SecretsContext,
+  | "share"
+  | "combine"
+  | "combineRobust"
+  | "newShare"
+  | "protectShare"
+  | "unprotectShare"
+  | "extractShareComponents"
+  | "random"
+  | "getConfig"
+> {
+  readonly config: InternalConfig;
+  /** Random bytes from the context's RNG */
+  randomBytes(length: number): Uint8Array;
+  /** Throw unless the counts fit the field; maxShares defaults to the context's */
+  validateShareCounts(numShares: number, threshold: number, maxShares?: number): void;
+  /** A random set id for the shares of one split, if the context writes versioned shares */
+  newShareSetId(): string | undefined;
+  /** Throw unless a share belongs to the same split as the first share of a set */
+  checkShareSet(first: ShareComponents, share: ShareComponents): void;
+  /** The passphrase of a protected share given to method, or the one it resolves to */
+  resolvePassphrase(
+    protectedShare: string,
+    passphrase: string | PassphraseResolver | undefined,
+    method: string
+  ): string;
+  /** The distinct x-coordinates of shares of one split and their data words */
+  parseShares(
+    shares: Shares | string[],
+    passphrase?: string | PassphraseResolver
+  ): { header?: ShareComponents; x: number[]; y: FieldArray[] };
+}
+
+/**
+ * Galois Field GF(2^bits) description with precomputed arithmetic tables
+ *
+ * Fields are immutable and cached per bit size, so they may be shared
+ * between any number of contexts.
+ *
+ * @internal
+ */
+export interface GaloisField {
+  readonly bits: number;
+  readonly size: number;
+  readonly maxShares: number;
+  readonly logs: FieldArray;
+  readonly exps: FieldArray;
+  /** Full multiplication table, indexed by (a << bits) | b, for fields of at most 8 bits */
+  readonly mul: Uint8Array | null;
 }
 
 /**
@@ -298,6 +1125,32 @@ export type BinaryString = string;
  */
 export type HexString = string;
 
+/**
+ * Prime-order group used for Feldman VSS commitments
+ *
+ * p is a safe prime p = 2q + 1 and g generates the subgroup of order q.
+ * Shares are elements of Z_q; commitments are elements of Z_p.
+ *
+ * @internal
+ */
+export interface FeldmanGroup {
+  readonly p: bigint;
+  readonly q: bigint;
+  readonly g: bigint;
+  /** Bit length of q */
+  readonly qBits: number;
+  /** Fixed hex width used to encode elements */
+  readonly hexLength: number;
+}
+
+/**
+ * Typed array holding Galois Field words or tables
+ *
+ * The narrowest array type that fits the field size is used: Uint8Array
+ * for fields of up to 8 bits, Uint16Array up to 16 bits, Uint32Array above.
+ */
+export type FieldArray = Uint8Array | Uint16Array | Uint32Array;
+
 /**
  * Represents a base-36 string (string of '0-9' and 'a-z' characters)
  * 
@@ -0,0 +1,693 @@
+// Uniform Resources for @digitaldefiance/secrets
+// Blockchain Commons UR strings (BCR-2020-005) with multi-part fountain codes, so that payloads too
+// large for one QR code can be sent as an animated sequence of codes read in any order
+
+import { decodeBytewordsMinimal, encodeBytewordsMinimal } from "./bytewords";
+import { crc32Bytes } from "./checksum";
+import { InvalidShareError, MismatchedSharesError, SecretsError } from "./errors";
+import { sha256 } from "./sha256";
+import { readUint32 } from "./words";
+import type { UrProgress } from "./types";
+
+/**
+ * Smallest fragment length the fountain encoder splits a message into
+ */
+export const UR_MIN_FRAGMENT_LENGTH = 10;
+
+const UR_SCHEME = "ur:";
+
+// CBOR major types used by UR
+const CBOR_UNSIGNED = 0;
+const CBOR_BYTES = 2;
+const CBOR_ARRAY = 4;
+
+/**
+ * A CBOR data item: an unsigned integer, a byte string or an array
+ */
+export type CborValue = number | Uint8Array | CborValue[];
+
+/**
+ * A decoded UR: its type and CBOR message
+ */
+export interface UniformResource {
+  readonly type: string;
+  readonly message: Uint8Array;
+}
+
+// One fragment or xor of fragments, and the indexes of the fragments it holds
+interface FountainPart {
+  readonly indexes: number[];
+  readonly data: Uint8Array;
+}
+
+// The fields every part of one message shares
+interface FountainHeader {
+  readonly seqLength: number;
+  readonly messageLength: number;
+  readonly checksum: number;
+  readonly fragmentLength: number;
+}
+
+interface Xoshiro256 {
+  nextDouble(): number;
+  nextInt(low: number, high: number): number;
+}
+
+// ============================================================================
+// CBOR
+// ============================================================================
+
+function encodeCborHeader(bytes: number[], major: number, value: number): void {
+  if (value < 24) {
+    bytes.push((major << 5) | value);
+  } else if (value < 0x100) {
+    bytes.push((major << 5) | 24, value);
+  } else if (value < 0x10000) {
+    bytes.push((major << 5) | 25, value >>> 8, value & 0xff);
+  } else {
+    bytes.push(
+      (major << 5) | 26,
+      value >>> 24,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff
+    );
+  }
+}
+
+function encodeCborItem(bytes: number[], value: CborValue): void {
+  if (typeof value === "number") {
+    encodeCborHeader(bytes, CBOR_UNSIGNED, value);
+  } else if (value instanceof Uint8Array) {
+    encodeCborHeader(bytes, CBOR_BYTES, value.length);
+    for (let i = 0; i < value.length; i++) {
+      bytes.push(value[i]);
+    }
+  } else {
+    encodeCborHeader(bytes, CBOR_ARRAY, value.length);
+    for (let i = 0; i < value.length; i++) {
+      encodeCborItem(bytes, value[i]);
+    }
+  }
+}
+
+/**
+ * Encode a CBOR data item with the shortest headers.
+ *
+ * @param value - Unsigned integers below 2^32, byte strings and arrays of them
+ * @returns The encoded item
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const bytes: number[] = [];
+
+  encodeCborItem(bytes, value);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode a CBOR data item that fills the whole input.
+ *
+ * @param bytes - The encoded item
+ * @returns The item
+ * @throws {Error} If the input is truncated, has trailing bytes, or holds other types
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  let offset = 0;
+
+  function readByte(): number {
+    if (offset >= bytes.length) {
+      throw new Error("Truncated CBOR.");
+    }
+    return bytes[offset++];
+  }
+
+  function readItem(depth: number): CborValue {
+    const initial = readByte();
+    const major = initial >>> 5;
+    const info = initial & 31;
+    let value = info;
+
+    if (info >= 24 && info <= 26) {
+      value = 0;
+      for (let i = 0; i < 1 << (info - 24); i++) {
+        value = value * 256 + readByte();
+      }
+    } else if (info > 26) {
+      throw new Error("Unsupported CBOR length.");
+    }
+
+    if (major === CBOR_UNSIGNED) {
+      return value;
+    }
+    if (major === CBOR_BYTES) {
+      if (offset + value > bytes.length) {
+        throw new Error("Truncated CBOR.");
+      }
+      offset += value;
+      return bytes.slice(offset - value, offset);
+    }
+    if (major === CBOR_ARRAY && depth < 8) {
+      const items: CborValue[] = [];
+
+      for (let i = 0; i < value; i++) {
+        items.push(readItem(depth + 1));
+      }
+      return items;
+    }
+
+    throw new Error("Unsupported CBOR type.");
+  }
+
+  const item = readItem(0);
+
+  if (offset !== bytes.length) {
+    throw new Error("Trailing bytes after CBOR.");
+  }
+
+  return item;
+}
+
+// ============================================================================
+// Fragment Selection
+// ============================================================================
+
+/**
+ * Create the xoshiro256** generator that picks the fragments of mixed parts.
+ *
+ * The state is the SHA-256 of the seed, as four big-endian 64-bit words, each
+ * kept as a high and low 32-bit half.
+ *
+ * @param seed - The seed bytes
+ * @returns The generator
+ */
+export function createXoshiro256(seed: Uint8Array): Xoshiro256 {
+  const digest = sha256(seed);
+  const hi = new Uint32Array(4);
+  const lo = new Uint32Array(4);
+
+  for (let i = 0; i < 4; i++) {
+    hi[i] = readUint32(digest, i * 8);
+    lo[i] = readUint32(digest, i * 8 + 4);
+  }
+
+  // Multiply the 64-bit value h:l by a small constant, modulo 2^64
+  function times(h: number, l: number, k: number): [number, number] {
+    const low = l * k;
+    return [(h * k + Math.floor(low / 0x100000000)) >>> 0, low >>> 0];
+  }
+
+  // Rotate the 64-bit value h:l left by 0 < k < 32 bits
+  function rotl(h: number, l: number, k: number): [number, number] {
+    return [((h << k) | (l >>> (32 - k))) >>> 0, ((l << k) | (h >>> (32 - k))) >>> 0];
+  }
+
+  function next(): [number, number] {
+    const scaled = times(hi[1], lo[1], 5);
+    const rotated = rotl(scaled[0], scaled[1], 7);
+    const result = times(rotated[0], rotated[1], 9);
+    const th = (hi[1] << 17) | (lo[1] >>> 15);
+    const tl = lo[1] << 17;
+
+    hi[2] ^= hi[0];
+    lo[2] ^= lo[0];
+    hi[3] ^= hi[1];
+    lo[3] ^= lo[1];
+    hi[1] ^= hi[2];
+    lo[1] ^= lo[2];
+    hi[0] ^= hi[3];
+    lo[0] ^= lo[3];
+    hi[2] ^= th;
+    lo[2] ^= tl;
+
+    // Rotating by 45 bits swaps the halves, then rotates by 13
+    const s3 = rotl(lo[3], hi[3], 13);
+    hi[3] = s3[0];
+    lo[3] = s3[1];
+
+    return result;
+  }
+
+  function nextDouble(): number {
+    const value = next();
+    return (value[0] * 0x100000000 + value[1]) / 18446744073709551616;
+  }
+
+  return {
+    nextDouble,
+    nextInt(low: number, high: number): number {
+      return Math.floor(nextDouble() * (high - low + 1)) + low;
+    },
+  };
+}
+
+// Walker's alias method, sampling indexes in proportion to weights
+function createSampler(weights: readonly number[]): (rng: Xoshiro256) => number {
+  const n = weights.length;
+  const probs: number[] = [];
+  const aliases: number[] = [];
+  const small: number[] = [];
+  const large: number[] = [];
+  const scaled: number[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < n; i++) {
+    sum += weights[i];
+  }
+  for (let i = 0; i < n; i++) {
+    scaled.push((weights[i] * n) / sum);
+    probs.push(0);
+    aliases.push(0);
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    (scaled[i] < 1 ? small : large).push(i);
+  }
+
+  while (small.length && large.length) {
+    const a = small.pop()!;
+    const g = large.pop()!;
+
+    probs[a] = scaled[a];
+    aliases[a] = g;
+    scaled[g] += scaled[a] - 1;
+    (scaled[g] < 1 ? small : large).push(g);
+  }
+  while (large.length) {
+    probs[large.pop()!] = 1;
+  }
+  while (small.length) {
+    probs[small.pop()!] = 1;
+  }
+
+  return function (rng: Xoshiro256): number {
+    const r1 = rng.nextDouble();
+    const r2 = rng.nextDouble();
+    const i = Math.floor(n * r1);
+
+    return r2 < probs[i] ? i : aliases[i];
+  };
+}
+
+/**
+ * Pick the fragments a part holds.
+ *
+ * The first seqLength parts each hold one fragment in order. Later parts
+ * xor a random number of fragments, favouring few, chosen by a generator
+ * seeded with the part's sequence number and the message checksum, so that
+ * the encoder and decoder agree without sending the indexes.
+ *
+ * @param seqNum - The part's sequence number, from 1
+ * @param seqLength - The number of fragments
+ * @param checksum - The CRC-32 of the message
+ * @returns The fragment indexes, in ascending order
+ */
+export function chooseFragments(seqNum: number, seqLength: number, checksum: number): number[] {
+  if (seqNum <= seqLength) {
+    return [seqNum - 1];
+  }
+
+  const seed = new Uint8Array(8);
+  const weights: number[] = [];
+  const remaining: number[] = [];
+  const result: number[] = [];
+
+  for (let i = 0; i < 4; i++) {
+    seed[i] = (seqNum >>> (24 - i * 8)) & 0xff;
+    seed[i + 4] = (checksum >>> (24 - i * 8)) & 0xff;
+  }
+  for (let i = 1; i <= seqLength; i++) {
+    weights.push(1 / i);
+    remaining.push(i - 1);
+  }
+
+  const rng = createXoshiro256(seed);
+  const degree = createSampler(weights)(rng) + 1;
+
+  // The first degree items of a shuffle of every index
+  while (result.length < degree) {
+    result.push(remaining.splice(rng.nextInt(0, remaining.length - 1), 1)[0]);
+  }
+
+  return result.sort(function (a: number, b: number): number {
+    return a - b;
+  });
+}
+
+// ============================================================================
+// Fountain Codes
+// ============================================================================
+
+/**
+ * Pick the fragment length: the longest, up to maxFragmentLength, that splits
+ * the message into fragments of nearly equal length.
+ *
+ * @param messageLength - Length of the message in bytes
+ * @param maxFragmentLength - The longest fragment wanted
+ * @returns The fragment length
+ */
+export function fragmentLength(messageLength: number, maxFragmentLength: number): number {
+  const maxCount = Math.max(1, Math.floor(messageLength / UR_MIN_FRAGMENT_LENGTH));
+  let length = messageLength;
+
+  for (let count = 1; count <= maxCount; count++) {
+    length = Math.ceil(messageLength / count);
+    if (length <= maxFragmentLength) {
+      break;
+    }
+  }
+
+  return length;
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+}
+
+/**
+ * Check whether text looks like a UR string.
+ *
+ * @param text - The text to check
+ * @returns True if text starts with the "ur:" scheme, in either case
+ */
+export function isUrPart(text: string): boolean {
+  return typeof text === "string" && text.slice(0, UR_SCHEME.length).toLowerCase() === UR_SCHEME;
+}
+
+/**
+ * Encode a single-part UR string.
+ *
+ * @param type - The UR type, lowercase letters, digits and hyphens
+ * @param message - The CBOR message
+ * @returns The lowercase UR string
+ */
+export function encodeUr(type: string, message: Uint8Array): string {
+  return UR_SCHEME + type + "/" + encodeBytewordsMinimal(message);
+}
+
+/**
+ * Create a fountain encoder of a message as UR parts.
+ *
+ * A message that fits one fragment is sent as a single-part UR. Otherwise
+ * parts are numbered from 1: the first parts hold one fragment each, and
+ * every later part a random mix, so a receiver can start at any part and
+ * miss any of them.
+ *
+ * @param type - The UR type
+ * @param message - The CBOR message
+ * @param maxFragmentLength - The longest fragment, in bytes, at least UR_MIN_FRAGMENT_LENGTH
+ * @returns The number of fragments, and a function returning the next part on each call
+ */
+export function createUrPartEncoder(
+  type: string,
+  message: Uint8Array,
+  maxFragmentLength: number
+): { fragmentCount: number; nextPart: () => string } {
+  const length = fragmentLength(message.length, maxFragmentLength);
+  const fragmentCount = Math.ceil(message.length / length);
+  const checksum = crc32Bytes(message);
+  const fragments: Uint8Array[] = [];
+  let seqNum = 0;
+
+  for (let i = 0; i < fragmentCount; i++) {
+    // The last fragment is padded with zeros
+    const fragment = new Uint8Array(length);
+
+    fragment.set(message.subarray(i * length, Math.min(message.length, (i + 1) * length)));
+    fragments.push(fragment);
+  }
+
+  return {
+    fragmentCount,
+    nextPart(): string {
+      if (fragmentCount === 1) {
+        return encodeUr(type, message);
+      }
+
+      const data = new Uint8Array(length);
+      const indexes = chooseFragments(++seqNum, fragmentCount, checksum);
+
+      for (let i = 0; i < indexes.length; i++) {
+        xorInto(data, fragments[indexes[i]]);
+      }
+
+      return (
+        UR_SCHEME +
+        type +
+        "/" +
+        seqNum +
+        "-" +
+        fragmentCount +
+        "/" +
+        encodeBytewordsMinimal(encodeCbor([seqNum, fragmentCount, message.length, checksum, data]))
+      );
+    },
+  };
+}
+
+// The part with the fragments of other removed, if they are all in it and it holds more
+function subtract(part: FountainPart, other: FountainPart): FountainPart | undefined {
+  if (other.indexes.length >= part.indexes.length) {
+    return undefined;
+  }
+  for (let i = 0; i < other.indexes.length; i++) {
+    if (part.indexes.indexOf(other.indexes[i]) === -1) {
+      return undefined;
+    }
+  }
+
+  const data = part.data.slice();
+
+  xorInto(data, other.data);
+  return {
+    indexes: part.indexes.filter(function (index: number): boolean {
+      return other.indexes.indexOf(index) === -1;
+    }),
+    data,
+  };
+}
+
+/**
+ * Create a fountain decoder of UR parts.
+ *
+ * Parts may arrive in any order and more than once. Each part is reduced by
+ * the fragments and mixes already known; once a part holds a single
+ * fragment, that fragment in turn reduces the mixes still waiting.
+ *
+ * @returns Functions to receive a part, report progress and get the decoded UR
+ */
+export function createUrPartDecoder(): {
+  receivePart: (part: string) => void;
+  progress: () => UrProgress;
+  result: () => UniformResource | undefined;
+} {
+  const known: Uint8Array[] = [];
+  let mixed: FountainPart[] = [];
+  let type: string | undefined;
+  let expected: FountainHeader | undefined;
+  let receivedParts = 0;
+  let recoveredFragments = 0;
+  let result: UniformResource | undefined;
+
+  function process(first: FountainPart): void {
+    const queue = [first];
+
+    while (queue.length && !result) {
+      let part = queue.shift()!;
+
+      // Remove the fragments already known
+      for (let i = 0; i < part.indexes.length && part.indexes.length > 1; i++) {
+        const index = part.indexes[i];
+
+        if (known[index]) {
+          part = subtract(part, { indexes: [index], data: known[index] })!;
+          i--;
+        }
+      }
+
+      if (part.indexes.length === 1) {
+        const index = part.indexes[0];
+
+        if (!known[index]) {
+          known[index] = part.data;
+          recoveredFragments++;
+          if (recoveredFragments === expected!.seqLength) {
+            finish();
+          }
+          // Mixes holding the new fragment are reduced on their next pass through the queue
+          mixed = mixed.filter(function (other: FountainPart): boolean {
+            if (other.indexes.indexOf(index) !== -1) {
+              queue.push(other);
+              return false;
+            }
+            return true;
+          });
+        }
+        continue;
+      }
+
+      for (let i = 0; i < mixed.length && part.indexes.length > 1; i++) {
+        part = subtract(part, mixed[i]) || part;
+      }
+      if (part.indexes.length === 1) {
+        queue.push(part);
+        continue;
+      }
+
+      const key = part.indexes.join(",");
+      const reduced = part;
+
+      if (
+        !mixed.some(function (other: FountainPart): boolean {
+          return other.indexes.join(",") === key;
+        })
+      ) {
+        mixed = mixed.filter(function (other: FountainPart): boolean {
+          const smaller = subtract(other, reduced);
+
+          if (smaller) {
+            queue.push(smaller);
+          }
+          return !smaller;
+        });
+        mixed.push(reduced);
+      }
+    }
+  }
+
+  function finish(): void {
+    const header = expected!;
+    const message = new Uint8Array(header.messageLength);
+
+    for (let i = 0; i * header.fragmentLength < message.length; i++) {
+      message.set(
+        known[i].subarray(
+          0,
+          Math.min(header.fragmentLength, message.length - i * header.fragmentLength)
+        ),
+        i * header.fragmentLength
+      );
+    }
+    if (crc32Bytes(message) !== header.checksum) {
+      throw new InvalidShareError(type!, "The UR message does not match its checksum.");
+    }
+
+    result = { type: type!, message };
+  }
+
+  // Parse a multi-part body: sequence number, fragment count, message length, checksum and data
+  function parsePart(part: string, seq: string, body: Uint8Array): FountainPart {
+    const fields = decodeCbor(body);
+    const match = /^(\d+)-(\d+)$/.exec(seq);
+
+    if (
+      !match ||
+      !Array.isArray(fields) ||
+      fields.length !== 5 ||
+      !(fields[4] instanceof Uint8Array) ||
+      fields[4].length === 0 ||
+      +match[1] !== fields[0] ||
+      +match[2] !== fields[1] ||
+      typeof fields[2] !== "number" ||
+      typeof fields[3] !== "number" ||
+      fields[0] < 1 ||
+      fields[1] !== Math.ceil(fields[2] / fields[4].length)
+    ) {
+      throw new InvalidShareError(part, "Malformed UR part.");
+    }
+
+    const header: FountainHeader = {
+      seqLength: fields[1],
+      messageLength: fields[2],
+      checksum: fields[3],
+      fragmentLength: fields[4].length,
+    };
+
+    if (expected === undefined) {
+      expected = header;
+    } else if (
+      header.seqLength !== expected.seqLength ||
+      header.messageLength !== expected.messageLength ||
+      header.checksum !== expected.checksum ||
+      header.fragmentLength !== expected.fragmentLength
+    ) {
+      throw new MismatchedSharesError("The UR part belongs to a different message.");
+    }
+
+    return {
+      indexes: chooseFragments(fields[0], header.seqLength, header.checksum),
+      data: fields[4],
+    };
+  }
+
+  return {
+    receivePart(part: string): void {
+      const lower = typeof part === "string" ? part.trim().toLowerCase() : "";
+      const path = lower.slice(UR_SCHEME.length).split("/");
+      let body: Uint8Array;
+
+      if (lower.slice(0, UR_SCHEME.length) !== UR_SCHEME || path.length < 2 || path.length > 3) {
+        throw new InvalidShareError(
+          String(part),
+          'A UR part looks like "ur:type/body" or "ur:type/seq-count/body".'
+        );
+      }
+      if (!/^[a-z0-9-]+$/.test(path[0])) {
+        throw new InvalidShareError(part, 'Invalid UR type "' + path[0] + '".');
+      }
+      if (type !== undefined && path[0] !== type) {
+        throw new MismatchedSharesError(
+          'Expected a UR part of type "' + type + '", not "' + path[0] + '".'
+        );
+      }
+      if (result) {
+        return;
+      }
+
+      try {
+        body = decodeBytewordsMinimal(path[path.length - 1]);
+      } catch (e) {
+        throw new InvalidShareError(part, (e as Error).message);
+      }
+
+      if (path.length === 2) {
+        if (expected !== undefined) {
+          throw new MismatchedSharesError("A single-part UR cannot join a multi-part message.");
+        }
+        type = path[0];
+        receivedParts++;
+        result = { type, message: body };
+        return;
+      }
+
+      let fountainPart: FountainPart;
+
+      try {
+        fountainPart = parsePart(part, path[1], body);
+      } catch (e) {
+        if (e instanceof SecretsError) {
+          throw e;
+        }
+        throw new InvalidShareError(part, (e as Error).message);
+      }
+
+      type = path[0];
+      receivedParts++;
+      process(fountainPart);
+    },
+    progress(): UrProgress {
+      const fragmentCount = expected ? expected.seqLength : result ? 1 : 0;
+
+      return {
+        complete: result !== undefined,
+        receivedParts,
+        recoveredFragments: result ? fragmentCount : recoveredFragments,
+        fragmentCount,
+        progress: result ? 1 : fragmentCount ? recoveredFragments / fragmentCount : 0,
+      };
+    },
+    result(): UniformResource | undefined {
+      return result;
+    },
+  };
+}
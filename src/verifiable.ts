@@ -0,0 +1,347 @@
+// Prime field shares for @digitaldefiance/secrets
+// Feldman verifiable shares and hierarchical shares, both dealt over the group of vss.ts
+
+import { dealHierarchical, recoverHierarchical, withinTassaBound } from "./birkhoff";
+import { InsufficientSharesError, MismatchedSharesError } from "./errors";
+import { getField } from "./field";
+import { constructPublicShareString } from "./shares";
+import {
+  deal,
+  decodeElement,
+  encodeElement,
+  getGroup,
+  joinChunks,
+  recover,
+  splitChunks,
+  verify,
+} from "./vss";
+import type {
+  ContextCore,
+  HexString,
+  HierarchyLevel,
+  SecretsContext,
+  ShareComponents,
+  VerifiableShares,
+} from "./types";
+
+/**
+ * Create the operations of a context on shares over the prime field.
+ *
+ * @param core - The core of the context
+ * @returns The verifiable and hierarchical operations
+ */
+export function createVerifiableSharing(
+  core: ContextCore
+): Pick<
+  SecretsContext,
+  | "shareVerifiable"
+  | "verifyShare"
+  | "combineVerifiable"
+  | "shareHierarchical"
+  | "combineHierarchical"
+> {
+  const { config, extractShareComponents, checkShareSet, validateShareCounts, newShareSetId } =
+    core;
+
+  function randomScalar(): bigint {
+    const group = getGroup();
+
+    // 64 extra bits make the bias of the modular reduction negligible
+    return BigInt("0b" + config.rng(group.qBits + 64)) % group.q;
+  }
+
+  function parseVerifiableShare(share: string): { components: ShareComponents; values: bigint[] } {
+    const components = extractShareComponents(share);
+    const group = getGroup();
+    const values: bigint[] = [];
+
+    if (components.data.length % group.hexLength) {
+      throw new Error("Invalid share : Share data is not a verifiable share.");
+    }
+
+    for (let i = 0; i < components.data.length; i += group.hexLength) {
+      values.push(decodeElement(components.data.slice(i, i + group.hexLength), group.q));
+    }
+
+    return { components, values };
+  }
+
+  function shareVerifiable(secret: string, numShares: number, threshold: number): VerifiableShares {
+    if (typeof secret !== "string") {
+      throw new Error("Secret must be a string.");
+    }
+
+    validateShareCounts(numShares, threshold);
+
+    const setId = newShareSetId();
+    const dealt = deal(splitChunks(secret, config.rng), numShares, threshold, randomScalar);
+
+    return Object.freeze({
+      shares: dealt.values.map(function (values: bigint[], i: number): string {
+        return constructPublicShareString(
+          config.bits,
+          i + 1,
+          values.map(encodeElement).join(""),
+          config.checksum,
+          threshold,
+          setId,
+          config.encoding
+        );
+      }),
+      commitments: dealt.commitments.map(function (row: bigint[]): string[] {
+        return row.map(encodeElement);
+      }),
+    });
+  }
+
+  function verifyShare(share: string, commitments: readonly (readonly string[])[]): boolean {
+    const parsed = parseVerifiableShare(share);
+    const p = getGroup().p;
+
+    return verify(
+      parsed.components.id,
+      parsed.values,
+      commitments.map(function (row: readonly string[]): bigint[] {
+        return row.map(function (commitment: string): bigint {
+          return decodeElement(commitment, p);
+        });
+      })
+    );
+  }
+
+  function combineVerifiable(shares: string[]): HexString {
+    let header: ShareComponents | undefined;
+    const ids: number[] = [];
+    const values: bigint[][] = [];
+
+    for (let i = 0, len = shares.length; i < len; i++) {
+      const parsed = parseVerifiableShare(shares[i]);
+
+      if (header === undefined) {
+        header = parsed.components;
+      } else {
+        checkShareSet(header, parsed.components);
+      }
+
+      if (values.length && parsed.values.length !== values[0].length) {
+        throw new Error("Mismatched shares: Different secret lengths.");
+      }
+
+      if (ids.indexOf(parsed.components.id) === -1) {
+        ids.push(parsed.components.id);
+        values.push(parsed.values);
+      }
+    }
+
+    if (header === undefined) {
+      return "";
+    }
+
+    if (header.threshold !== undefined && ids.length < header.threshold) {
+      throw new InsufficientSharesError(header.threshold, ids.length);
+    }
+
+    return joinChunks(recover(ids, values));
+  }
+
+  // Check the levels of a hierarchy and return the total number of shares
+  function validateLevels(levels: readonly HierarchyLevel[], maxShares: number): number {
+    const names: string[] = [];
+    let total = 0;
+    let previous = 0;
+
+    if (!Array.isArray(levels) || levels.length === 0) {
+      throw new Error("Levels must be a non-empty Array of { name, shares, threshold } Objects.");
+    }
+
+    levels.forEach(function (level: HierarchyLevel): void {
+      const name = level && level.name;
+
+      if (typeof name !== "string" || name === "" || names.indexOf(name) !== -1) {
+        throw new Error("Level names must be distinct, non-empty strings.");
+      }
+      if (typeof level.shares !== "number" || level.shares % 1 !== 0 || level.shares < 1) {
+        throw new Error('The number of shares of level "' + name + '" must be a positive integer.');
+      }
+      if (
+        typeof level.threshold !== "number" ||
+        level.threshold % 1 !== 0 ||
+        level.threshold <= previous
+      ) {
+        throw new Error(
+          'The threshold of level "' +
+            name +
+            '" must be an integer above ' +
+            (previous === 0 ? "0." : "the threshold of the level before it.")
+        );
+      }
+
+      names.push(name);
+      total += level.shares;
+      previous = level.threshold;
+      if (level.threshold > total) {
+        throw new Error(
+          'The threshold of level "' +
+            name +
+            '" is more than the ' +
+            total +
+            " shares of this level and the levels before it."
+        );
+      }
+    });
+
+    validateShareCounts(total, previous, maxShares);
+
+    return total;
+  }
+
+  function shareHierarchical(secret: string, levels: readonly HierarchyLevel[]): string[][] {
+    if (typeof secret !== "string") {
+      throw new Error("Secret must be a string.");
+    }
+
+    const numShares = validateLevels(levels, config.maxShares);
+    const threshold = levels[levels.length - 1].threshold;
+    const offsets: number[] = [];
+    let offset = 0;
+
+    if (!withinTassaBound(threshold, numShares)) {
+      throw new Error(
+        "A hierarchy of " +
+          numShares +
+          " shares with a threshold of " +
+          threshold +
+          " is too large to deal securely."
+      );
+    }
+
+    // Shares of a level are derivatives that lose the coefficients the levels above must provide
+    levels.forEach(function (level: HierarchyLevel): void {
+      for (let i = 0; i < level.shares; i++) {
+        offsets.push(offset);
+      }
+      offset = level.threshold;
+    });
+
+    const setId = newShareSetId();
+    const values = dealHierarchical(
+      splitChunks(secret, config.rng),
+      offsets,
+      threshold,
+      randomScalar
+    );
+    let next = 0;
+
+    return levels.map(function (level: HierarchyLevel): string[] {
+      next += level.shares;
+
+      return values.slice(next - level.shares, next).map(function (
+        shareValues: bigint[],
+        i: number
+      ): string {
+        return constructPublicShareString(
+          config.bits,
+          next - level.shares + i + 1,
+          shareValues.map(encodeElement).join(""),
+          config.checksum,
+          threshold,
+          setId,
+          config.encoding
+        );
+      });
+    });
+  }
+
+  function combineHierarchical(shares: string[], levels: readonly HierarchyLevel[]): HexString {
+    let header: ShareComponents | undefined;
+    const ids: number[] = [];
+    const offsets: number[] = [];
+    const values: bigint[][] = [];
+
+    for (let i = 0, len = shares.length; i < len; i++) {
+      const parsed = parseVerifiableShare(shares[i]);
+
+      if (header === undefined) {
+        header = parsed.components;
+      } else {
+        checkShareSet(header, parsed.components);
+      }
+
+      if (values.length && parsed.values.length !== values[0].length) {
+        throw new Error("Mismatched shares: Different secret lengths.");
+      }
+
+      if (ids.indexOf(parsed.components.id) === -1) {
+        ids.push(parsed.components.id);
+        values.push(parsed.values);
+      }
+    }
+
+    const numShares = validateLevels(
+      levels,
+      header === undefined ? config.maxShares : getField(header.bits).maxShares
+    );
+    const threshold = levels[levels.length - 1].threshold;
+
+    if (header !== undefined && header.threshold !== undefined && header.threshold !== threshold) {
+      throw new MismatchedSharesError(
+        "Threshold " + threshold + " differs from the shares' threshold " + header.threshold + "."
+      );
+    }
+
+    ids.forEach(function (id: number): void {
+      if (id > numShares) {
+        throw new Error("Share id " + id + " is not part of the hierarchy.");
+      }
+    });
+
+    // Ids are dealt level by level, so a level and the levels above it hold the ids up to its last
+    let last = 0;
+    let offset = 0;
+
+    levels.forEach(function (level: HierarchyLevel, j: number): void {
+      const first = last + 1;
+      let count = 0;
+
+      last += level.shares;
+      ids.forEach(function (id: number, i: number): void {
+        if (id <= last) {
+          count++;
+        }
+        if (id >= first && id <= last) {
+          offsets[i] = offset;
+        }
+      });
+
+      if (count < level.threshold) {
+        throw new InsufficientSharesError(
+          level.threshold,
+          count,
+          "At least " +
+            level.threshold +
+            (level.threshold === 1 ? " share" : " shares") +
+            ' must come from the "' +
+            levels[0].name +
+            (j === 0 ? '" level.' : '" to "' + level.name + '" levels.')
+        );
+      }
+      offset = level.threshold;
+    });
+
+    const chunks = recoverHierarchical(ids, offsets, threshold, values);
+
+    if (!chunks) {
+      throw new Error("These shares meet the hierarchy but do not determine the secret.");
+    }
+
+    return joinChunks(chunks);
+  }
+
+  return Object.freeze({
+    shareVerifiable,
+    verifyShare,
+    combineVerifiable,
+    shareHierarchical,
+    combineHierarchical,
+  });
+}
@@ -0,0 +1,347 @@
+// Feldman verifiable secret sharing for @digitaldefiance/secrets
+// Shares secrets over a prime field and publishes commitments to the polynomial coefficients
+
+import type { FeldmanGroup, HexString, RNGFunction } from "./types";
+
+// ============================================================================
+// Group Parameters
+// ============================================================================
+
+// RFC 3526 2048-bit MODP group (group 14). p is a safe prime p = 2q + 1 and
+// g = 2 generates the subgroup of prime order q.
+const MODP_2048_PRIME =
+  "ffffffffffffffffc90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74" +
+  "020bbea63b139b22514a08798e3404ddef9519b3cd3a431b302b0a6df25f1437" +
+  "4fe1356d6d51c245e485b576625e7ec6f44c42e9a637ed6b0bff5cb6f406b7ed" +
+  "ee386bfb5a899fa5ae9f24117c4b1fe649286651ece45b3dc2007cb8a163bf05" +
+  "98da48361c55d39a69163fa8fd24cf5f83655d23dca3ad961c62f356208552bb" +
+  "9ed529077096966d670c354e4abc9804f1746c08ca18217c32905e462e36ce3b" +
+  "e39e772c180e86039b2783a2ec07a28fb5c55df06f4c52c9de2bcbf695581718" +
+  "3995497cea956ae515d2261898fa051015728e5a8aacaa68ffffffffffffffff";
+
+/**
+ * Number of secret bits carried by each prime field element.
+ *
+ * Secrets longer than this are split into several chunks, each shared with
+ * its own polynomial and its own row of commitments.
+ */
+export const CHUNK_BITS = 1784;
+
+// Random bits above the secret bits of every chunk. The commitment g^chunk is
+// public, and without them a chunk holding few secret bits, such as a short
+// secret or the top chunk of a long one, could be found by trying every value.
+// Finding a chunk in a range of 2^256 values takes about 2^128 steps.
+const PAD_BITS = 256;
+
+// Built on first use so that environments without BigInt can still load the library
+let group: FeldmanGroup | undefined;
+
+/**
+ * Get the prime-order group used for commitments.
+ *
+ * @returns The RFC 3526 2048-bit MODP group
+ * @throws {Error} If BigInt is not supported in this environment
+ */
+export function getGroup(): FeldmanGroup {
+  if (group) {
+    return group;
+  }
+
+  if (typeof BigInt !== "function") {
+    throw new Error("Verifiable secret sharing requires BigInt support.");
+  }
+
+  const p = BigInt("0x" + MODP_2048_PRIME);
+  const q = (p - BigInt(1)) / BigInt(2);
+
+  group = Object.freeze({
+    p,
+    q,
+    g: BigInt(2),
+    qBits: q.toString(2).length,
+    hexLength: MODP_2048_PRIME.length,
+  });
+
+  return group;
+}
+
+// ============================================================================
+// Modular Arithmetic
+// ============================================================================
+
+/**
+ * Compute base^exp mod m by square-and-multiply.
+ *
+ * @param base - Base, any non-negative integer
+ * @param exp - Non-negative exponent
+ * @param m - Modulus
+ * @returns base^exp mod m
+ */
+export function modPow(base: bigint, exp: bigint, m: bigint): bigint {
+  const zero = BigInt(0);
+  const one = BigInt(1);
+  let result = one;
+
+  base = base % m;
+
+  while (exp > zero) {
+    if (exp & one) {
+      result = (result * base) % m;
+    }
+    exp = exp >> one;
+    base = (base * base) % m;
+  }
+
+  return result;
+}
+
+/**
+ * Compute the inverse of a modulo the prime m with the extended Euclidean algorithm.
+ *
+ * @param a - Value to invert, not a multiple of m
+ * @param m - Prime modulus
+ * @returns a^-1 mod m
+ */
+export function modInverse(a: bigint, m: bigint): bigint {
+  const zero = BigInt(0);
+  let r0 = ((a % m) + m) % m;
+  let r1 = m;
+  let s0 = BigInt(1);
+  let s1 = zero;
+
+  while (r1 !== zero) {
+    const quotient = r0 / r1;
+    const r = r0 - quotient * r1;
+    const s = s0 - quotient * s1;
+    r0 = r1;
+    r1 = r;
+    s0 = s1;
+    s1 = s;
+  }
+
+  return ((s0 % m) + m) % m;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function padHex(hex: string, length: number): string {
+  return hex.length < length ? new Array(length - hex.length + 1).join("0") + hex : hex;
+}
+
+/**
+ * Split a hex secret into prime field elements, each holding CHUNK_BITS bits
+ * of the secret below PAD_BITS random bits.
+ *
+ * A 1 bit marker is placed above the secret, as share() does, so that
+ * leading zeros survive the round trip through joinChunks().
+ *
+ * @param secret - Hex secret
+ * @param rng - Source of the random padding
+ * @returns Chunks, least significant first
+ * @throws {Error} If the secret contains a character that is not a hex digit
+ */
+export function splitChunks(secret: HexString, rng: RNGFunction): bigint[] {
+  if (!/^[0-9a-fA-F]*$/.test(secret)) {
+    throw new Error("Invalid hex character.");
+  }
+
+  const zero = BigInt(0);
+  const chunkBits = BigInt(CHUNK_BITS);
+  const mask = (BigInt(1) << chunkBits) - BigInt(1);
+  const chunks: bigint[] = [];
+  let value = BigInt("0x1" + secret);
+
+  while (value > zero) {
+    chunks.push((BigInt("0b" + rng(PAD_BITS)) << chunkBits) | (value & mask));
+    value = value >> chunkBits;
+  }
+
+  return chunks;
+}
+
+/**
+ * Join chunks produced by splitChunks() back into the hex secret.
+ *
+ * @param chunks - Chunks, least significant first
+ * @returns Hex secret, or an empty string if no marker bit is present
+ */
+export function joinChunks(chunks: readonly bigint[]): HexString {
+  const chunkBits = BigInt(CHUNK_BITS);
+  const mask = (BigInt(1) << chunkBits) - BigInt(1);
+  let value = BigInt(0);
+
+  for (let c = chunks.length - 1; c >= 0; c--) {
+    value = (value << chunkBits) | (chunks[c] & mask);
+  }
+
+  // Drop the marker bit and everything above it
+  const secretBits = value.toString(2).length - 1;
+
+  if (secretBits <= 0) {
+    return "";
+  }
+
+  const hex = (value ^ (BigInt(1) << BigInt(secretBits))).toString(16);
+  return padHex(hex, Math.ceil(secretBits / 4));
+}
+
+/**
+ * Encode a group or field element as fixed-width lowercase hex.
+ *
+ * @param value - Element to encode
+ * @returns Hex string of the group's hex length
+ */
+export function encodeElement(value: bigint): HexString {
+  return padHex(value.toString(16), getGroup().hexLength);
+}
+
+/**
+ * Decode a fixed-width hex element, checking that it is below the modulus.
+ *
+ * @param hex - Hex string of the group's hex length
+ * @param modulus - Exclusive upper bound for the value
+ * @returns The decoded element
+ * @throws {Error} If the encoding is malformed or out of range
+ */
+export function decodeElement(hex: string, modulus: bigint): bigint {
+  if (hex.length !== getGroup().hexLength || !/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error("Invalid verifiable share element.");
+  }
+
+  const value = BigInt("0x" + hex);
+
+  if (value >= modulus) {
+    throw new Error("Invalid verifiable share element.");
+  }
+
+  return value;
+}
+
+// ============================================================================
+// Dealing, Verification and Recovery
+// ============================================================================
+
+/**
+ * Share each chunk with a random polynomial over Z_q and commit to its coefficients.
+ *
+ * @param chunks - Secret chunks from splitChunks()
+ * @param numShares - Number of shares to create
+ * @param threshold - Number of shares required to recover the secret
+ * @param randomScalar - Returns a uniformly random element of Z_q
+ * @returns Share values indexed [share][chunk] and commitments indexed [chunk][coefficient]
+ */
+export function deal(
+  chunks: readonly bigint[],
+  numShares: number,
+  threshold: number,
+  randomScalar: () => bigint
+): { values: bigint[][]; commitments: bigint[][] } {
+  const { p, q, g } = getGroup();
+  const values: bigint[][] = [];
+  const commitments: bigint[][] = [];
+
+  for (let i = 0; i < numShares; i++) {
+    values[i] = [];
+  }
+
+  for (let c = 0; c < chunks.length; c++) {
+    const coeffs: bigint[] = [chunks[c]];
+    for (let k = 1; k < threshold; k++) {
+      coeffs[k] = randomScalar();
+    }
+
+    commitments[c] = coeffs.map(function (coeff: bigint): bigint {
+      return modPow(g, coeff, p);
+    });
+
+    for (let i = 0; i < numShares; i++) {
+      const x = BigInt(i + 1);
+      let fx = BigInt(0);
+      for (let k = threshold - 1; k >= 0; k--) {
+        fx = (fx * x + coeffs[k]) % q;
+      }
+      values[i][c] = fx;
+    }
+
+    coeffs.fill(BigInt(0));
+  }
+
+  return { values, commitments };
+}
+
+/**
+ * Check share values against the dealer's commitments.
+ *
+ * For every chunk, g^f(id) must equal the product of C_k^(id^k), which holds
+ * only if the value lies on the committed polynomial.
+ *
+ * @param id - Share id (the x-coordinate)
+ * @param values - Share values, one per chunk
+ * @param commitments - Commitments indexed [chunk][coefficient]
+ * @returns Whether every value is consistent with its commitments
+ */
+export function verify(
+  id: number,
+  values: readonly bigint[],
+  commitments: readonly (readonly bigint[])[]
+): boolean {
+  const { p, g } = getGroup();
+  const x = BigInt(id);
+
+  if (values.length !== commitments.length) {
+    return false;
+  }
+
+  for (let c = 0; c < values.length; c++) {
+    const row = commitments[c];
+    let expected = BigInt(1);
+
+    // Horner's method in the exponent: ((C_t-1^x * C_t-2)^x * ...) * C_0
+    for (let k = row.length - 1; k >= 0; k--) {
+      expected = (modPow(expected, x, p) * row[k]) % p;
+    }
+
+    if (modPow(g, values[c], p) !== expected) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Recover the chunks from share values by Lagrange interpolation at 0 over Z_q.
+ *
+ * @param ids - Distinct share ids
+ * @param values - Share values indexed [share][chunk], matching ids
+ * @returns Recovered chunks
+ */
+export function recover(ids: readonly number[], values: readonly (readonly bigint[])[]): bigint[] {
+  const { q } = getGroup();
+  const basis: bigint[] = [];
+  const chunks: bigint[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    let num = BigInt(1);
+    let den = BigInt(1);
+    for (let j = 0; j < ids.length; j++) {
+      if (i !== j) {
+        num = (num * BigInt(ids[j])) % q;
+        den = (den * (((BigInt(ids[j]) - BigInt(ids[i])) % q) + q)) % q;
+      }
+    }
+    basis[i] = (num * modInverse(den, q)) % q;
+  }
+
+  for (let c = 0; c < values[0].length; c++) {
+    let sum = BigInt(0);
+    for (let i = 0; i < ids.length; i++) {
+      sum = (sum + values[i][c] * basis[i]) % q;
+    }
+    chunks[c] = sum;
+  }
+
+  return chunks;
+}
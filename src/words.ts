@@ -0,0 +1,287 @@
+// Bit packing between byte arrays, hex strings and GF(2^bits) words
+// Lets secrets and share payloads move through the field arithmetic without binary strings
+
+import { createWords } from "./field";
+import type { FieldArray } from "./types";
+
+const hexDigits = "0123456789abcdef";
+const hexCodes: number[] = [];
+
+// Hex digit value by character code, -1 for anything that is not a hex digit
+const hexValues: number[] = [];
+for (let i = 0; i < 128; i++) {
+  hexValues[i] = -1;
+}
+for (let i = 0; i < 16; i++) {
+  hexCodes[i] = hexDigits.charCodeAt(i);
+  hexValues[hexDigits.charCodeAt(i)] = i;
+  hexValues[hexDigits.toUpperCase().charCodeAt(i)] = i;
+}
+
+// ============================================================================
+// Packing
+// ============================================================================
+
+// Shared by the byte and hex paths: digits of `digitBits` bits each are read
+// from the least significant end and regrouped into words of `bits` bits.
+function packDigits(
+  count: number,
+  digitBits: number,
+  digitAt: (i: number) => number,
+  bits: number,
+  padLength?: number,
+  marker?: boolean
+): FieldArray {
+  let totalBits = count * digitBits + (marker ? 1 : 0);
+
+  if (padLength && padLength > 1 && totalBits % padLength) {
+    totalBits += padLength - (totalBits % padLength);
+  }
+
+  const words = createWords(bits, Math.max(1, Math.ceil(totalBits / bits)));
+  const mask = (1 << bits) - 1;
+  let acc = 0;
+  let accBits = 0;
+  let w = 0;
+
+  for (let i = count - 1; i >= 0; i--) {
+    acc |= digitAt(i) << accBits;
+    accBits += digitBits;
+
+    while (accBits >= bits) {
+      words[w++] = acc & mask;
+      acc >>>= bits;
+      accBits -= bits;
+    }
+  }
+
+  if (marker) {
+    acc |= 1 << accBits;
+    accBits += 1;
+  }
+
+  while (accBits > 0 && w < words.length) {
+    words[w++] = acc & mask;
+    acc >>>= bits;
+    accBits -= bits;
+  }
+
+  acc = 0;
+  return words;
+}
+
+// Inverse of packDigits(): emits ceil(bitLength / digitBits) digits, most
+// significant first, with the top digit masked to the remaining bits.
+function unpackDigits(
+  words: ArrayLike<number>,
+  bits: number,
+  bitLength: number,
+  digitBits: number,
+  emit: (i: number, digit: number) => void
+): number {
+  const count = Math.ceil(bitLength / digitBits);
+  const digitMask = (1 << digitBits) - 1;
+  const topBits = bitLength % digitBits;
+  let acc = 0;
+  let accBits = 0;
+  let w = 0;
+
+  for (let i = count - 1; i >= 0; i--) {
+    while (accBits < digitBits && w < words.length) {
+      acc |= words[w++] << accBits;
+      accBits += bits;
+    }
+
+    emit(i, i === 0 && topBits ? acc & ((1 << topBits) - 1) : acc & digitMask);
+    acc >>>= digitBits;
+    accBits -= digitBits;
+  }
+
+  acc = 0;
+  return count;
+}
+
+// ============================================================================
+// Bytes and Words
+// ============================================================================
+
+/**
+ * Split a big-endian byte array into field words of `bits` bits each.
+ *
+ * Words are returned least significant first, matching the chunk order used
+ * by share() and combine(). When `marker` is set, a single 1 bit is placed
+ * above the most significant byte so that leading zero bytes survive the
+ * round trip; the result is then zero-padded to a multiple of `padLength` bits.
+ *
+ * @param bytes - Big-endian input bytes
+ * @param bits - Word size in bits (at most 24)
+ * @param padLength - Zero-pad the bit length to a multiple of this value (0 or 1 for none)
+ * @param marker - Whether to prepend the 1 bit marker
+ * @returns Words, least significant first
+ */
+export function bytesToWords(
+  bytes: Uint8Array,
+  bits: number,
+  padLength?: number,
+  marker?: boolean
+): FieldArray {
+  return packDigits(
+    bytes.length,
+    8,
+    function (i: number): number {
+      return bytes[i];
+    },
+    bits,
+    padLength,
+    marker
+  );
+}
+
+/**
+ * Join field words (least significant first) into a big-endian byte array.
+ *
+ * @param words - Words of `bits` bits each, least significant first
+ * @param bits - Word size in bits (at most 24)
+ * @param bitLength - Number of low-order bits to keep (default: all of them)
+ * @returns Big-endian bytes holding the low `bitLength` bits
+ */
+export function wordsToBytes(
+  words: ArrayLike<number>,
+  bits: number,
+  bitLength?: number
+): Uint8Array {
+  if (bitLength === undefined) {
+    bitLength = words.length * bits;
+  }
+
+  const out = new Uint8Array(Math.ceil(bitLength / 8));
+
+  unpackDigits(words, bits, bitLength, 8, function (i: number, digit: number): void {
+    out[i] = digit;
+  });
+
+  return out;
+}
+
+// ============================================================================
+// Hex and Words
+// ============================================================================
+
+/**
+ * Split a hex string into field words of `bits` bits each.
+ *
+ * Produces exactly the chunks the original binary string implementation did:
+ * each hex digit contributes four bits, an optional 1 bit marker goes on top,
+ * and the total is zero-padded to a multiple of `padLength` bits.
+ *
+ * @param hex - Hex string (either case)
+ * @param bits - Word size in bits (at most 24)
+ * @param padLength - Zero-pad the bit length to a multiple of this value (0 or 1 for none)
+ * @param marker - Whether to prepend the 1 bit marker
+ * @returns Words, least significant first
+ * @throws {Error} If the string contains a character that is not a hex digit
+ */
+export function hexToWords(
+  hex: string,
+  bits: number,
+  padLength?: number,
+  marker?: boolean
+): FieldArray {
+  return packDigits(
+    hex.length,
+    4,
+    function (i: number): number {
+      const num = hexValues[hex.charCodeAt(i)];
+
+      if (num === undefined || num < 0) {
+        throw new Error("Invalid hex character.");
+      }
+
+      return num;
+    },
+    bits,
+    padLength,
+    marker
+  );
+}
+
+/**
+ * Join field words (least significant first) into a lowercase hex string.
+ *
+ * @param words - Words of `bits` bits each, least significant first
+ * @param bits - Word size in bits (at most 24)
+ * @param bitLength - Number of low-order bits to keep (default: all of them)
+ * @returns Hex string of ceil(bitLength / 4) digits
+ */
+export function wordsToHex(words: ArrayLike<number>, bits: number, bitLength?: number): string {
+  if (bitLength === undefined) {
+    bitLength = words.length * bits;
+  }
+
+  const codes = new Uint8Array(Math.ceil(bitLength / 4));
+  let hex = "";
+
+  unpackDigits(words, bits, bitLength, 4, function (i: number, digit: number): void {
+    codes[i] = hexCodes[digit];
+  });
+
+  // Decode in slices to stay below engine limits on function arguments
+  for (let i = 0; i < codes.length; i += 8192) {
+    hex += String.fromCharCode.apply(null, codes.subarray(i, i + 8192) as unknown as number[]);
+  }
+
+  return hex;
+}
+
+/**
+ * Find the position of the marker bit placed by bytesToWords() or hexToWords(),
+ * i.e. the index of the most significant set bit across all words.
+ *
+ * @param words - Words of `bits` bits each, least significant first
+ * @param bits - Word size in bits
+ * @returns Bit index of the marker, or -1 if every word is zero
+ */
+export function markerPosition(words: ArrayLike<number>, bits: number): number {
+  for (let w = words.length - 1; w >= 0; w--) {
+    if (words[w]) {
+      let top = bits - 1;
+      while (!(words[w] & (1 << top))) {
+        top--;
+      }
+      return w * bits + top;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Write a 32 bit unsigned integer into a byte array, big-endian.
+ *
+ * @param bytes - Destination bytes
+ * @param offset - Position of the first byte
+ * @param value - Integer from 0 to 2^32-1
+ */
+export function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = value >>> 16;
+  bytes[offset + 2] = value >>> 8;
+  bytes[offset + 3] = value;
+}
+
+/**
+ * Read a big-endian 32 bit unsigned integer from a byte array.
+ *
+ * @param bytes - Source bytes
+ * @param offset - Position of the first byte
+ * @returns The integer
+ */
+export function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
@@ -0,0 +1,356 @@
+// Worker offloading for @digitaldefiance/secrets
+// Runs the polynomial evaluation and interpolation of a split or combine block by block in a
+// Web Worker or a worker_threads Worker, or between turns of the event loop without either
+
+import { hornerWords, lagrangeWords } from "./field";
+import type { AsyncOptions, FieldArray, GaloisField } from "./types";
+
+/**
+ * One block of work: evaluate the rows of coefficients at the share ids, or
+ * combine the rows of share words with a Lagrange basis
+ */
+export type WorkerJob =
+  | { readonly task: "share"; readonly rows: FieldArray[]; readonly numShares: number }
+  | { readonly task: "combine"; readonly basis: number[]; readonly ys: FieldArray[] };
+
+/**
+ * Runs jobs, in a worker if there is one
+ */
+export interface JobRunner {
+  /** Run a job, resolving to its output rows */
+  run(job: WorkerJob): Promise<Uint32Array[]>;
+  /** Stop the worker */
+  close(): void;
+}
+
+// Output rows are Uint32Arrays, wide enough for the words of every field size.
+// This function and workerMain() run inside the worker from their source text,
+// so they may only use their arguments.
+function runJob(
+  field: GaloisField,
+  job: WorkerJob,
+  horner: typeof hornerWords,
+  lagrange: typeof lagrangeWords
+): Uint32Array[] {
+  const out: Uint32Array[] = [];
+
+  if (job.task === "share") {
+    for (let j = 0; j < job.numShares; j++) {
+      out[j] = new Uint32Array(job.rows[0].length);
+      horner(field, j + 1, job.rows, out[j]);
+    }
+  } else {
+    let length = 0;
+
+    for (let i = 0; i < job.ys.length; i++) {
+      length = Math.max(length, job.ys[i].length);
+    }
+    out[0] = new Uint32Array(length);
+    lagrange(field, job.basis, job.ys, out[0]);
+  }
+
+  return out;
+}
+
+function workerMain(
+  node: boolean,
+  run: typeof runJob,
+  horner: typeof hornerWords,
+  lagrange: typeof lagrangeWords
+): void {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports -- runs from source text inside the worker, which cannot import
+  const port = node ? require("worker_threads").parentPort : self;
+  let field: GaloisField;
+
+  function receive(message: { field?: GaloisField; job?: WorkerJob }): void {
+    if (message.field) {
+      field = message.field;
+      return;
+    }
+
+    try {
+      port.postMessage({ result: run(field, message.job as WorkerJob, horner, lagrange) });
+    } catch (e) {
+      port.postMessage({ error: String((e && (e as Error).message) || e) });
+    }
+  }
+
+  if (node) {
+    port.on("message", receive);
+  } else {
+    port.onmessage = function (event: MessageEvent): void {
+      receive(event.data);
+    };
+  }
+}
+
+function workerSource(node: boolean): string {
+  return (
+    "(" +
+    workerMain.toString() +
+    ")(" +
+    node +
+    ", " +
+    runJob.toString() +
+    ", " +
+    hornerWords.toString() +
+    ", " +
+    lagrangeWords.toString() +
+    ");"
+  );
+}
+
+// The parts of the worker_threads module of Node.js that are used here
+interface NodeWorkerThreads {
+  Worker: new (
+    source: string,
+    options: { eval: boolean }
+  ) => {
+    postMessage(message: unknown): void;
+    on(
+      event: "message",
+      listener: (message: { result?: Uint32Array[]; error?: string }) => void
+    ): void;
+    on(event: "error", listener: (error: Error) => void): void;
+    terminate(): void;
+  };
+}
+
+let workerThreads: NodeWorkerThreads | null | undefined;
+
+// The worker_threads module of Node.js, loaded once, or null outside Node.js
+function getWorkerThreads(): NodeWorkerThreads | null {
+  if (workerThreads === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports -- an optional module, missing in browsers
+      workerThreads = require("worker_threads") as NodeWorkerThreads;
+    } catch {
+      workerThreads = null;
+    }
+  }
+
+  return workerThreads;
+}
+
+// A worker posting and receiving messages the same way in Node.js and browsers
+interface PortLike {
+  postMessage(message: unknown): void;
+  onReply(listener: (message: { result?: Uint32Array[]; error?: string }) => void): void;
+  terminate(): void;
+}
+
+function startWorker(): PortLike | null {
+  try {
+    const nodeWorkers =
+      typeof process !== "undefined" && process.versions && process.versions.node
+        ? getWorkerThreads()
+        : null;
+
+    if (nodeWorkers) {
+      const worker = new nodeWorkers.Worker(workerSource(true), { eval: true });
+
+      return {
+        postMessage: function (message: unknown): void {
+          worker.postMessage(message);
+        },
+        onReply: function (listener): void {
+          worker.on("message", listener);
+          worker.on("error", function (error: Error): void {
+            listener({ error: error.message });
+          });
+        },
+        terminate: function (): void {
+          worker.terminate();
+        },
+      };
+    }
+
+    if (
+      typeof Worker !== "undefined" &&
+      typeof Blob !== "undefined" &&
+      typeof URL !== "undefined"
+    ) {
+      const url = URL.createObjectURL(
+        new Blob([workerSource(false)], { type: "application/javascript" })
+      );
+      const worker = new Worker(url);
+
+      return {
+        postMessage: function (message: unknown): void {
+          worker.postMessage(message);
+        },
+        onReply: function (listener): void {
+          worker.onmessage = function (event: MessageEvent): void {
+            listener(event.data);
+          };
+          worker.onerror = function (event: ErrorEvent): void {
+            listener({ error: event.message });
+          };
+        },
+        terminate: function (): void {
+          worker.terminate();
+          URL.revokeObjectURL(url);
+        },
+      };
+    }
+  } catch {
+    // Without worker support, or where a policy forbids workers, jobs run in this thread
+  }
+
+  return null;
+}
+
+/**
+ * Create a job runner for a field. Jobs run one at a time, in a Web Worker
+ * or a worker_threads Worker when one can be started, and otherwise in this
+ * thread, each after a turn of the event loop.
+ *
+ * @param field - The field of the jobs
+ * @param useWorker - Whether to try starting a worker
+ * @returns The runner
+ */
+export function createJobRunner(field: GaloisField, useWorker: boolean): JobRunner {
+  const worker = useWorker ? startWorker() : null;
+  let pending: { resolve: (rows: Uint32Array[]) => void; reject: (error: Error) => void } | null =
+    null;
+
+  if (!worker) {
+    return Object.freeze({
+      run: function (job: WorkerJob): Promise<Uint32Array[]> {
+        return new Promise<Uint32Array[]>(function (resolve: (rows: Uint32Array[]) => void): void {
+          setTimeout(function (): void {
+            resolve(runJob(field, job, hornerWords, lagrangeWords));
+          }, 0);
+        });
+      },
+      close: function (): void {},
+    });
+  }
+
+  worker.onReply(function (message: { result?: Uint32Array[]; error?: string }): void {
+    const current = pending;
+
+    pending = null;
+    if (current && message.result) {
+      current.resolve(message.result);
+    } else if (current) {
+      current.reject(new Error("The worker failed: " + message.error));
+    }
+  });
+  worker.postMessage({
+    field: {
+      bits: field.bits,
+      size: field.size,
+      maxShares: field.maxShares,
+      logs: field.logs,
+      exps: field.exps,
+      mul: field.mul,
+    },
+  });
+
+  return Object.freeze({
+    run: function (job: WorkerJob): Promise<Uint32Array[]> {
+      return new Promise<Uint32Array[]>(function (resolve, reject): void {
+        pending = { resolve, reject };
+        worker.postMessage({ job });
+      });
+    },
+    close: worker.terminate,
+  });
+}
+
+/**
+ * Run a sequence of jobs, reporting progress after each and stopping when
+ * the signal aborts. The worker, if any, is stopped at the end.
+ *
+ * @param field - The field of the jobs
+ * @param count - Number of jobs
+ * @param next - Returns job i; called once the job before it has finished
+ * @param receive - Takes the output of job i
+ * @param options - Progress callback, abort signal and worker choice
+ * @returns A promise resolving once every job has finished
+ */
+export function runJobs(
+  field: GaloisField,
+  count: number,
+  next: (i: number) => WorkerJob,
+  receive: (i: number, rows: Uint32Array[]) => void,
+  options: AsyncOptions
+): Promise<void> {
+  const signal = options.signal;
+  const runner = createJobRunner(field, options.worker !== false);
+
+  return new Promise<void>(function (resolve, reject): void {
+    let stopped = false;
+
+    function stop(error?: unknown): void {
+      if (!stopped) {
+        stopped = true;
+        runner.close();
+        if (signal) {
+          signal.removeEventListener("abort", abort);
+        }
+        if (error === undefined) {
+          resolve();
+        } else {
+          reject(error);
+        }
+      }
+    }
+
+    function abort(): void {
+      stop(
+        signal && signal.reason !== undefined
+          ? signal.reason
+          : new Error("The operation was aborted.")
+      );
+    }
+
+    function step(i: number): void {
+      if (stopped) {
+        return;
+      }
+      if (i === count) {
+        stop();
+        return;
+      }
+
+      runner.run(next(i)).then(function (rows: Uint32Array[]): void {
+        if (stopped) {
+          return;
+        }
+
+        // A failure in the callbacks or the next job ends the run, stopping the worker
+        try {
+          receive(i, rows);
+          if (options.onProgress) {
+            options.onProgress(
+              Object.freeze({
+                processedChunks: i + 1,
+                totalChunks: count,
+                progress: (i + 1) / count,
+              })
+            );
+          }
+          step(i + 1);
+        } catch (e) {
+          stop(e);
+        }
+      }, stop);
+    }
+
+    if (signal && signal.aborted) {
+      abort();
+      return;
+    }
+    if (signal) {
+      signal.addEventListener("abort", abort);
+    }
+
+    try {
+      step(0);
+    } catch (e) {
+      stop(e);
+    }
+  });
+}